@@ -9,19 +9,38 @@ console.log("Starting tree-shakeable build process...\n");
 
 // Service files to build individually
 const serviceFiles = [
+	"CachingFileManager",
+	"FileManagerConfig",
 	"FileManagerFactory",
 	"FileManagerInterface", 
 	"GithubFileManager",
 	"GoogleDriveAuth",
 	"GoogleDriveFileManager",
 	"InMemoryFileManager",
-	"LocalFileManager"
+	"LocalFileManager",
+	"MountFileManager",
+	"OverlayFileManager",
+	"ReadOnlyFileManager",
+	"S3FileManager",
+	"TokenStore"
 ];
 
 // Utility files to build
 const utilFiles = [
+	"async-utils",
+	"glob-utils",
+	"mime-utils",
+	"paging-utils",
 	"path-utils",
-	"ResourceInfo"
+	"precondition-utils",
+	"ResourceInfo",
+	"search-utils",
+	"sigv4-utils",
+	"SearchIndex",
+	"SnapshotStore",
+	"stream-utils",
+	"transfer-utils",
+	"Watcher"
 ];
 
 // Track build results for reporting
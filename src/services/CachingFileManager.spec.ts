@@ -0,0 +1,156 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { InMemorySnapshotStore } from "../utils/SnapshotStore";
+import { AuthenticationError } from "./FileManagerErrors";
+import { CachingFileManager, type CachingFileManagerOptions } from "./CachingFileManager";
+import { hostilePathsTestSuite, testSuite } from "./FileManager.spec";
+import { InMemoryFileManager } from "./InMemoryFileManager";
+
+/**
+ * A caching file manager and the file manager it wraps, to count the calls reaching the backend
+ */
+function createFileManagers(options?: CachingFileManagerOptions) {
+	const backend = new InMemoryFileManager({ snapshots: new InMemorySnapshotStore() });
+	return { backend, fileManager: new CachingFileManager(backend, options) };
+}
+
+describe("CachingFileManager", () => {
+	testSuite("CachingFileManager", () => createFileManagers().fileManager)();
+
+	hostilePathsTestSuite("CachingFileManager", () => createFileManagers().fileManager)();
+
+	it("serves the cached contents, infos and listings", async () => {
+		const { backend, fileManager } = createFileManagers();
+		await backend.updateTextFile("/dir/a.txt", "A");
+		const getFileContent = spyOn(backend, "getFileContent");
+		const listDirectoryContent = spyOn(backend, "listDirectoryContent");
+
+		expect(await fileManager.getFileContent("/dir/a.txt")).toBe("A");
+		expect(await fileManager.getFileContent("dir/./a.txt")).toBe("A");
+		expect((await fileManager.listDirectoryContent("/dir")).length).toBe(1);
+		expect((await fileManager.listDirectoryContent("/dir/")).length).toBe(1);
+		expect(await fileManager.exists("/dir/a.txt")).toBeTrue();
+		expect(await fileManager.exists("/dir/a.txt")).toBeTrue();
+
+		expect(getFileContent).toHaveBeenCalledTimes(1);
+		expect(listDirectoryContent).toHaveBeenCalledTimes(1);
+		expect(fileManager.getStats()).toMatchObject({ hits: 3, misses: 3, entries: 3 });
+	});
+
+	it("invalidates the changed resources and the listings of their parent directories", async () => {
+		const { fileManager } = createFileManagers();
+		await fileManager.updateTextFile("/dir/a.txt", "A");
+		await fileManager.getFileContent("/dir/a.txt");
+		await fileManager.listDirectoryContent("/dir/");
+		await fileManager.listDirectoryContent("/", true);
+
+		await fileManager.updateTextFile("/dir/a.txt", "A2");
+		await fileManager.updateTextFile("/dir/sub/b.txt", "B");
+		expect(await fileManager.getFileContent("/dir/a.txt")).toBe("A2");
+		expect((await fileManager.listDirectoryContent("/", true)).map(({ path }) => path).sort()).toEqual([
+			"/dir/a.txt",
+			"/dir/sub/b.txt"
+		]);
+
+		await fileManager.move("/dir/", "/moved/");
+		expect(await fileManager.exists("/dir/a.txt")).toBeFalse();
+		expect(await fileManager.getFileContent("/moved/a.txt")).toBe("A2");
+	});
+
+	it("revalidates a stale content with its etag", async () => {
+		const { backend, fileManager } = createFileManagers({ ttl: 0 });
+		await backend.updateTextFile("/a.txt", "A");
+		const getFileContent = spyOn(backend, "getFileContent");
+
+		await fileManager.getFileContent("/a.txt");
+		await fileManager.getFileContent("/a.txt");
+		expect(getFileContent).toHaveBeenCalledTimes(1);
+		expect(fileManager.getStats()).toMatchObject({ revalidations: 1, misses: 1 });
+
+		// A change made by someone else
+		await backend.updateTextFile("/a.txt", "Changed");
+		expect(await fileManager.getFileContent("/a.txt")).toBe("Changed");
+		expect(getFileContent).toHaveBeenCalledTimes(2);
+	});
+
+	it("does not keep an old content under the etag of a concurrent write", async () => {
+		const { backend, fileManager } = createFileManagers({ ttl: 0 });
+		await backend.updateTextFile("/a.txt", "A");
+		// Someone else writes the file between the two requests made to cache it
+		let written = false;
+		const writeOnce = async () => {
+			if (written) return;
+			written = true;
+			await backend.updateTextFile("/a.txt", "Changed");
+		};
+		const stat = backend.stat.bind(backend);
+		const getFileContent = backend.getFileContent.bind(backend);
+		spyOn(backend, "stat").mockImplementation(async (path) => {
+			const info = await stat(path);
+			await writeOnce();
+			return info;
+		});
+		spyOn(backend, "getFileContent").mockImplementation(async (path, options) => {
+			const content = await getFileContent(path, options);
+			await writeOnce();
+			return content;
+		});
+
+		await fileManager.getFileContent("/a.txt");
+		expect(await fileManager.getFileContent("/a.txt")).toBe("Changed");
+	});
+
+	it("keeps the contents at a revision", async () => {
+		const { backend, fileManager } = createFileManagers({ ttl: 0 });
+		await backend.updateTextFile("/a.txt", "v1");
+		const [revision] = await backend.listRevisions("/a.txt");
+		const getFileContent = spyOn(backend, "getFileContent");
+
+		await fileManager.getFileContent("/a.txt", { revision: revision.id });
+		expect(await fileManager.getFileContent("/a.txt", { revision: revision.id })).toBe("v1");
+		expect(getFileContent).toHaveBeenCalledTimes(1);
+	});
+
+	it("evicts the least recently used entries to stay under its memory budget", async () => {
+		const { backend, fileManager } = createFileManagers({ maxSize: 10, revalidate: false });
+		for (const name of ["a", "b", "c"]) {
+			await backend.updateTextFile(`/${name}.txt`, name.repeat(4));
+		}
+		await backend.updateTextFile("/big.txt", "Too big for the cache");
+
+		await fileManager.getFileContent("/a.txt");
+		await fileManager.getFileContent("/b.txt");
+		await fileManager.getFileContent("/a.txt");
+		await fileManager.getFileContent("/c.txt");
+		await fileManager.getFileContent("/big.txt");
+		expect(fileManager.getStats()).toMatchObject({ evictions: 1, entries: 2, size: 8 });
+
+		const getFileContent = spyOn(backend, "getFileContent");
+		await fileManager.getFileContent("/a.txt");
+		await fileManager.getFileContent("/b.txt");
+		expect(getFileContent).toHaveBeenCalledTimes(1);
+		expect(getFileContent).toHaveBeenCalledWith("/b.txt", {});
+	});
+
+	it("only reports the missing files as not existing", async () => {
+		const { backend, fileManager } = createFileManagers();
+		expect(await fileManager.exists("/missing.txt")).toBeFalse();
+
+		spyOn(backend, "stat").mockRejectedValue(new AuthenticationError("Expired credentials"));
+		await expect(fileManager.exists("/a.txt")).rejects.toThrow(AuthenticationError);
+	});
+
+	it("forgets the changes made by someone else when invalidated", async () => {
+		const { backend, fileManager } = createFileManagers();
+		await backend.updateTextFile("/dir/a.txt", "A");
+		await fileManager.listDirectoryContent("/dir/");
+
+		await backend.updateTextFile("/dir/b.txt", "B");
+		expect((await fileManager.listDirectoryContent("/dir/")).length).toBe(1);
+
+		fileManager.invalidate("/dir/b.txt");
+		expect((await fileManager.listDirectoryContent("/dir/")).length).toBe(2);
+
+		fileManager.invalidate();
+		expect(fileManager.getStats()).toMatchObject({ entries: 0, size: 0 });
+	});
+});
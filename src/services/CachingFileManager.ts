@@ -0,0 +1,384 @@
+import { FileNotFoundError } from "./FileManagerErrors";
+import type {
+	FileManagerInterface,
+	FindOptions,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteOptions
+} from "./FileManagerInterface";
+import { findResources } from "../utils/glob-utils";
+import { iteratePages, paginate } from "../utils/paging-utils";
+import { resolvePath } from "../utils/path-utils";
+import type { ResourceInfo } from "../utils/ResourceInfo";
+import { searchFiles } from "../utils/search-utils";
+import { bytesToStream } from "../utils/stream-utils";
+import type { Watcher } from "../utils/Watcher";
+
+/**
+ * Default time during which a cached entry is used without asking the backend (1 minute)
+ */
+const DEFAULT_TTL = 60_000;
+
+/**
+ * Default memory budget of the cache (50 MB)
+ */
+const DEFAULT_MAX_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Rough memory footprint of a cached ResourceInfo
+ */
+const RESOURCE_INFO_SIZE = 256;
+
+type CacheEntryKind = "content" | "stat" | "list";
+
+interface CacheEntry {
+	kind: CacheEntryKind;
+	path: string;
+	value: unknown;
+	/**
+	 * The version of the cached content, used to revalidate it when it is stale
+	 */
+	etag?: string;
+	size: number;
+	storedAt: number;
+}
+
+export interface CachingFileManagerOptions {
+	/**
+	 * How long (in milliseconds) a cached entry is used without asking the backend. Default: 1 minute
+	 */
+	ttl?: number;
+	/**
+	 * The maximum memory (in bytes) used by the cache : the least recently used entries are evicted first.
+	 * Default: 50 MB
+	 */
+	maxSize?: number;
+	/**
+	 * Pass FALSE to download again a stale content instead of comparing its etag with the backend one
+	 * (the etag of a content is retrieved with `stat()` when the content is downloaded).
+	 * Default: TRUE
+	 */
+	revalidate?: boolean;
+}
+
+export interface CacheStats {
+	hits: number;
+	misses: number;
+	/**
+	 * The stale contents that were kept because their etag had not changed
+	 */
+	revalidations: number;
+	evictions: number;
+	/**
+	 * The number of cached entries
+	 */
+	entries: number;
+	/**
+	 * The memory (in bytes) used by the cached entries
+	 */
+	size: number;
+}
+
+/**
+ * Wraps another file manager to cache the contents, the resources infos and the directories listings it returns.
+ * The changes made through the caching file manager invalidate the affected entries (including the listings
+ * of the parent directories) : call `invalidate()` for the changes made by someone else.
+ */
+export class CachingFileManager implements FileManagerInterface {
+	private fileManager: FileManagerInterface;
+	private ttl: number;
+	private maxSize: number;
+	private revalidate: boolean;
+	/**
+	 * The Map keeps the insertion order : the least recently used entries come first
+	 */
+	private entries = new Map<string, CacheEntry>();
+	private size = 0;
+	private counters = { hits: 0, misses: 0, revalidations: 0, evictions: 0 };
+
+	/**
+	 * @param fileManager The file manager whose reads are cached
+	 */
+	constructor(
+		fileManager: FileManagerInterface,
+		{ ttl = DEFAULT_TTL, maxSize = DEFAULT_MAX_SIZE, revalidate = true }: CachingFileManagerOptions = {}
+	) {
+		this.fileManager = fileManager;
+		this.ttl = ttl;
+		this.maxSize = maxSize;
+		this.revalidate = revalidate;
+	}
+
+	/**
+	 * @returns the hit and miss counters and the current size of the cache
+	 */
+	getStats(): CacheStats {
+		return { ...this.counters, entries: this.entries.size, size: this.size };
+	}
+
+	/**
+	 * Forget the cached entries of a resource (and of its content for a directory)
+	 * and the listings of its parent directories
+	 * @param path The changed file or directory. Default: the whole cache
+	 */
+	invalidate(path?: string) {
+		if (!path) {
+			this.entries.clear();
+			this.size = 0;
+			return;
+		}
+		const rscPath = resolvePath(path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+
+		for (const [key, entry] of this.entries) {
+			const isChanged = entry.path === rscPath || entry.path.startsWith(dirPath);
+			const isParent =
+				entry.kind !== "content" &&
+				rscPath.startsWith(entry.path.endsWith("/") ? entry.path : `${entry.path}/`);
+			if (isChanged || isParent) this.delete(key);
+		}
+	}
+
+	getInfo(path: string): ResourceInfo {
+		return this.fileManager.getInfo(path);
+	}
+
+	async stat(path: string): Promise<ResourceInfo> {
+		const rscPath = resolvePath(path);
+		return this.cached(`stat:${rscPath}`, async () => ({
+			kind: "stat",
+			path: rscPath,
+			value: await this.fileManager.stat(rscPath),
+			size: RESOURCE_INFO_SIZE
+		}));
+	}
+
+	async exists(path: string): Promise<boolean> {
+		return this.stat(path).then(
+			() => true,
+			(err) => {
+				if (err instanceof FileNotFoundError) return false;
+				throw err;
+			}
+		);
+	}
+
+	/**
+	 * The contents at a revision never change : they stay in the cache until they are evicted.
+	 * The reads with backend specific options (like a Github `ref`) are not cached.
+	 */
+	async getFileContent(path: string, options: ReadOptions = {}): Promise<string | Buffer> {
+		const { revision, ...otherOptions } = options;
+		if (Object.keys(otherOptions).length > 0) {
+			return this.fileManager.getFileContent(path, options);
+		}
+		const rscPath = resolvePath(path);
+		const load = async (): Promise<Omit<CacheEntry, "storedAt">> => {
+			// The etag is only needed to revalidate the current content. It is read before the content :
+			// after a concurrent write, the cached content is older than its etag and the next revalidation reloads it
+			const etag =
+				revision || !this.revalidate
+					? undefined
+					: await this.fileManager.stat(rscPath).then(({ etag }) => etag);
+			const content = await this.fileManager.getFileContent(rscPath, options);
+			return {
+				kind: "content",
+				path: rscPath,
+				value: content,
+				etag,
+				size: Buffer.byteLength(content)
+			};
+		};
+
+		if (revision) {
+			return this.cached(`content:${rscPath}@${revision}`, load, Number.POSITIVE_INFINITY);
+		}
+		return this.cached(`content:${rscPath}`, load);
+	}
+
+	async listRevisions(path: string): Promise<Revision[]> {
+		return this.fileManager.listRevisions(path);
+	}
+
+	async restoreRevision(path: string, revision: string, options?: WriteOptions): Promise<void> {
+		await this.fileManager.restoreRevision(path, revision, options);
+		this.invalidate(path);
+	}
+
+	/**
+	 * Streams a cached content, or else the content of the backend (which is not cached)
+	 */
+	async readStream(path: string): Promise<ReadableStream<Uint8Array>> {
+		const entry = this.entries.get(`content:${resolvePath(path)}`);
+		if (entry && this.isFresh(entry, this.ttl)) {
+			this.counters.hits++;
+			this.touch(`content:${entry.path}`, entry);
+			return bytesToStream(entry.value as string | Buffer);
+		}
+		return this.fileManager.readStream(path);
+	}
+
+	/**
+	 * The cached entries of the file are invalidated once the stream is closed
+	 */
+	async writeStream(path: string, options?: WriteOptions): Promise<WritableStream<Uint8Array>> {
+		const writer = (await this.fileManager.writeStream(path, options)).getWriter();
+		return new WritableStream<Uint8Array>({
+			write: (chunk) => writer.write(chunk),
+			close: async () => {
+				await writer.close();
+				this.invalidate(path);
+			},
+			abort: (reason) => writer.abort(reason)
+		});
+	}
+
+	async updateTextFile(path: string, content: string, options?: WriteOptions): Promise<void> {
+		await this.fileManager.updateTextFile(path, content, options);
+		this.invalidate(path);
+	}
+
+	async updateBinaryFile(path: string, content: Buffer, options?: WriteOptions): Promise<void> {
+		await this.fileManager.updateBinaryFile(path, content, options);
+		this.invalidate(path);
+	}
+
+	async deleteFile(path: string, options?: WriteOptions): Promise<void> {
+		await this.fileManager.deleteFile(path, options);
+		this.invalidate(path);
+	}
+
+	async move(from: string, to: string, options?: TransferOptions): Promise<void> {
+		await this.fileManager.move(from, to, options);
+		this.invalidate(from);
+		this.invalidate(to);
+	}
+
+	async copy(from: string, to: string, options?: TransferOptions): Promise<void> {
+		await this.fileManager.copy(from, to, options);
+		this.invalidate(to);
+	}
+
+	async listDirectoryContent(path: string, recursive = false): Promise<ResourceInfo[]> {
+		const rscPath = resolvePath(path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+		return this.cached(`list:${recursive ? "recursive:" : ""}${dirPath}`, async () => {
+			const resources = await this.fileManager.listDirectoryContent(dirPath, recursive);
+			return {
+				kind: "list",
+				path: dirPath,
+				value: resources,
+				size: resources.length * RESOURCE_INFO_SIZE
+			};
+		});
+	}
+
+	iterateDirectory(path: string, options?: IterateDirectoryOptions): AsyncIterable<ResourceInfo> {
+		return iteratePages(this, path, options);
+	}
+
+	async listPage(path: string, options?: ListPageOptions): Promise<ListPage> {
+		return paginate(await this.listDirectoryContent(path), options);
+	}
+
+	async createDirectory(path: string, options?: WriteOptions): Promise<void> {
+		await this.fileManager.createDirectory(path, options);
+		this.invalidate(path);
+	}
+
+	async deleteDirectory(path: string, options?: WriteOptions): Promise<void> {
+		await this.fileManager.deleteDirectory(path, options);
+		this.invalidate(path);
+	}
+
+	watch(path: string, options?: WatchOptions): Watcher {
+		return this.fileManager.watch(path, options);
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return findResources(this, query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return searchFiles(this, path, query, options);
+	}
+
+	/**
+	 * Returns the cached value of an entry, or loads it from the backend.
+	 * A stale content is kept when the backend still reports the same etag.
+	 * @param key The key of the entry
+	 * @param load Retrieves the entry from the backend
+	 * @param ttl How long the entry stays fresh
+	 */
+	private async cached<T>(
+		key: string,
+		load: () => Promise<Omit<CacheEntry, "storedAt">>,
+		ttl = this.ttl
+	): Promise<T> {
+		const entry = this.entries.get(key);
+		if (entry && this.isFresh(entry, ttl)) {
+			this.counters.hits++;
+			this.touch(key, entry);
+			return entry.value as T;
+		}
+		if (entry?.etag) {
+			const { etag } = await this.fileManager.stat(entry.path).catch(() => ({ etag: undefined }));
+			if (etag === entry.etag) {
+				this.counters.revalidations++;
+				entry.storedAt = Date.now();
+				this.touch(key, entry);
+				return entry.value as T;
+			}
+		}
+
+		this.counters.misses++;
+		this.delete(key);
+		const loaded = { ...(await load()), storedAt: Date.now() };
+		this.store(key, loaded);
+		return loaded.value as T;
+	}
+
+	private isFresh(entry: CacheEntry, ttl: number): boolean {
+		return Date.now() - entry.storedAt < ttl;
+	}
+
+	/**
+	 * Move an entry to the end of the LRU order
+	 */
+	private touch(key: string, entry: CacheEntry) {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+	}
+
+	/**
+	 * Add an entry, evicting the least recently used entries to stay under the memory budget
+	 * (an entry bigger than the whole budget is not cached)
+	 */
+	private store(key: string, entry: CacheEntry) {
+		this.delete(key);
+		if (entry.size > this.maxSize) return;
+
+		for (const [oldestKey] of this.entries) {
+			if (this.size + entry.size <= this.maxSize) break;
+			this.delete(oldestKey);
+			this.counters.evictions++;
+		}
+		this.entries.set(key, entry);
+		this.size += entry.size;
+	}
+
+	private delete(key: string) {
+		const entry = this.entries.get(key);
+		if (entry) {
+			this.entries.delete(key);
+			this.size -= entry.size;
+		}
+	}
+}
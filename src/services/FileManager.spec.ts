@@ -1,4 +1,5 @@
 import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+import { ConflictError, FileNotFoundError, PathError } from "./FileManagerErrors";
 import type { FileManagerInterface } from "./FileManagerInterface";
 import { InMemoryFileManager } from "./InMemoryFileManager";
 
@@ -86,10 +87,438 @@ export const testSuite =
 
 			it("deleteDirectory(() can delete a directory", async () => {
 				const newDirPath = "/tests/newDir/";
+				await fileManager.createDirectory(newDirPath);
 				await fileManager.deleteDirectory(newDirPath);
 				const entries = await fileManager.listDirectoryContent("/tests/");
 				expect(entries.find(({ path }) => path === newDirPath)).toBeUndefined();
 			});
+
+			it("writeStream() can create a file that readStream() reads back", async () => {
+				const stream = await fileManager.writeStream("/streamed.bin");
+				const writer = stream.getWriter();
+				await writer.write(new TextEncoder().encode("Hello, "));
+				await writer.write(new TextEncoder().encode("Streams!"));
+				await writer.close();
+
+				const content = await new Response(await fileManager.readStream("/streamed.bin")).text();
+				expect(content).toBe("Hello, Streams!");
+			});
+
+			it("getFileContent() returns the text written by writeStream()", async () => {
+				const writer = (await fileManager.writeStream("/streamed.txt")).getWriter();
+				await writer.write(new TextEncoder().encode("Streamed text"));
+				await writer.close();
+
+				const content = await fileManager.getFileContent("/streamed.txt");
+				expect(content).toBe("Streamed text");
+			});
+
+			it("readStream() rejects with FileNotFoundError for a missing file", async () => {
+				await expect(fileManager.readStream("/missing.txt")).rejects.toBeInstanceOf(
+					FileNotFoundError
+				);
+			});
+
+			it("stat() returns the size of a file", async () => {
+				await fileManager.updateTextFile("/stat.txt", "Hello, World!");
+				const info = await fileManager.stat("/stat.txt");
+				expect(info.path).toBe("/stat.txt");
+				expect(info.isFile).toBe(true);
+				expect(info.size).toBe(13);
+				expect(info.etag).toBeString();
+			});
+
+			it("stat() changes the etag when the content changes", async () => {
+				await fileManager.updateTextFile("/stat.txt", "Hello, World!");
+				const { etag } = await fileManager.stat("/stat.txt");
+				await fileManager.updateTextFile("/stat.txt", "Hello, everyone!");
+				const info = await fileManager.stat("/stat.txt");
+				expect(info.etag).not.toBe(etag);
+			});
+
+			it("stat() describes a directory", async () => {
+				await fileManager.createDirectory("/tests/statDir/");
+				const info = await fileManager.stat("/tests/statDir/");
+				expect(info.path).toBe("/tests/statDir/");
+				expect(info.isDirectory).toBe(true);
+			});
+
+			it("stat() rejects with FileNotFoundError for a missing resource", async () => {
+				await expect(fileManager.stat("/missing.txt")).rejects.toBeInstanceOf(FileNotFoundError);
+			});
+
+			it("exists() tells if a resource exists", async () => {
+				await fileManager.updateTextFile("/exists.txt", "I am here");
+				expect(await fileManager.exists("/exists.txt")).toBe(true);
+				expect(await fileManager.exists("/missing.txt")).toBe(false);
+			});
+
+			it("move() can rename a file", async () => {
+				await fileManager.updateTextFile("/old.txt", "Moving content");
+				await fileManager.move("/old.txt", "/moved/new.txt");
+
+				expect(await fileManager.exists("/old.txt")).toBe(false);
+				expect(await fileManager.getFileContent("/moved/new.txt")).toBe("Moving content");
+			});
+
+			it("move() can move a whole directory", async () => {
+				await fileManager.updateTextFile("/src/a.txt", "A");
+				await fileManager.updateTextFile("/src/sub/b.txt", "B");
+				await fileManager.move("/src/", "/dest/");
+
+				expect(await fileManager.exists("/src/a.txt")).toBe(false);
+				expect(await fileManager.getFileContent("/dest/a.txt")).toBe("A");
+				expect(await fileManager.getFileContent("/dest/sub/b.txt")).toBe("B");
+			});
+
+			it("move() fails when the destination exists", async () => {
+				await fileManager.updateTextFile("/one.txt", "One");
+				await fileManager.updateTextFile("/two.txt", "Two");
+
+				await expect(fileManager.move("/one.txt", "/two.txt")).rejects.toBeInstanceOf(ConflictError);
+				expect(await fileManager.getFileContent("/two.txt")).toBe("Two");
+			});
+
+			it("move() can overwrite an existing destination", async () => {
+				await fileManager.updateTextFile("/one.txt", "One");
+				await fileManager.updateTextFile("/two.txt", "Two");
+				await fileManager.move("/one.txt", "/two.txt", { onConflict: "overwrite" });
+
+				expect(await fileManager.exists("/one.txt")).toBe(false);
+				expect(await fileManager.getFileContent("/two.txt")).toBe("One");
+			});
+
+			it("copy() can duplicate a file", async () => {
+				await fileManager.updateTextFile("/original.txt", "Copied content");
+				await fileManager.copy("/original.txt", "/copies/copy.txt");
+
+				expect(await fileManager.getFileContent("/original.txt")).toBe("Copied content");
+				expect(await fileManager.getFileContent("/copies/copy.txt")).toBe("Copied content");
+			});
+
+			it("copy() can merge a directory into an existing one", async () => {
+				await fileManager.updateTextFile("/src/a.txt", "New A");
+				await fileManager.updateTextFile("/src/b.txt", "B");
+				await fileManager.updateTextFile("/dest/a.txt", "Old A");
+				await fileManager.updateTextFile("/dest/c.txt", "C");
+				await fileManager.copy("/src/", "/dest/", { onConflict: "merge" });
+
+				expect(await fileManager.getFileContent("/src/a.txt")).toBe("New A");
+				expect(await fileManager.getFileContent("/dest/a.txt")).toBe("New A");
+				expect(await fileManager.getFileContent("/dest/b.txt")).toBe("B");
+				expect(await fileManager.getFileContent("/dest/c.txt")).toBe("C");
+			});
+
+			it("copy() can replace an existing directory", async () => {
+				await fileManager.updateTextFile("/src/a.txt", "A");
+				await fileManager.updateTextFile("/dest/c.txt", "C");
+				await fileManager.copy("/src/", "/dest/", { onConflict: "overwrite" });
+
+				expect(await fileManager.getFileContent("/dest/a.txt")).toBe("A");
+				expect(await fileManager.exists("/dest/c.txt")).toBe(false);
+			});
+
+			it("ifMatch only writes a file that has not changed", async () => {
+				await fileManager.updateTextFile("/doc.md", "v1");
+				const { etag } = await fileManager.stat("/doc.md");
+				await fileManager.updateTextFile("/doc.md", "v2 by Jane", { ifMatch: etag });
+
+				await expect(
+					fileManager.updateTextFile("/doc.md", "v2 by John", { ifMatch: etag })
+				).rejects.toBeInstanceOf(ConflictError);
+				expect(await fileManager.getFileContent("/doc.md")).toBe("v2 by Jane");
+			});
+
+			it("ifMatch rejects the writes of a deleted file", async () => {
+				await fileManager.updateTextFile("/doc.md", "v1");
+				const { etag } = await fileManager.stat("/doc.md");
+				await fileManager.deleteFile("/doc.md");
+
+				await expect(
+					fileManager.updateTextFile("/doc.md", "v2", { ifMatch: etag })
+				).rejects.toBeInstanceOf(ConflictError);
+				expect(await fileManager.exists("/doc.md")).toBe(false);
+			});
+
+			it("ifMatch only deletes a file that has not changed", async () => {
+				await fileManager.updateTextFile("/doc.md", "v1");
+				const { etag } = await fileManager.stat("/doc.md");
+				await fileManager.updateTextFile("/doc.md", "v2");
+
+				await expect(fileManager.deleteFile("/doc.md", { ifMatch: etag })).rejects.toBeInstanceOf(
+					ConflictError
+				);
+				const { etag: newEtag } = await fileManager.stat("/doc.md");
+				await fileManager.deleteFile("/doc.md", { ifMatch: newEtag });
+				expect(await fileManager.exists("/doc.md")).toBe(false);
+			});
+
+			it("ifNoneMatch only creates a file that does not exist", async () => {
+				await fileManager.updateBinaryFile("/new.bin", Buffer.from([1]), { ifNoneMatch: "*" });
+
+				await expect(
+					fileManager.updateBinaryFile("/new.bin", Buffer.from([2]), { ifNoneMatch: "*" })
+				).rejects.toBeInstanceOf(ConflictError);
+				expect([...((await fileManager.getFileContent("/new.bin")) as Buffer)]).toEqual([1]);
+			});
+
+			it("accepts write options on every change", async () => {
+				const options = {
+					message: "Publish the docs",
+					author: { name: "Jane", email: "jane@example.com" },
+					metadata: { ticket: "DOC-42" }
+				};
+				await fileManager.createDirectory("/docs/", options);
+				await fileManager.updateTextFile("/docs/index.md", "# Docs", options);
+				await fileManager.updateBinaryFile("/docs/logo.png", Buffer.from([1, 2, 3]), options);
+				await fileManager.copy("/docs/index.md", "/docs/home.md", options);
+				await fileManager.move("/docs/home.md", "/docs/start.md", options);
+				await fileManager.deleteFile("/docs/logo.png", options);
+
+				expect(await fileManager.getFileContent("/docs/start.md")).toBe("# Docs");
+				expect(await fileManager.exists("/docs/logo.png")).toBe(false);
+
+				await fileManager.deleteFile("/docs/index.md", options);
+				await fileManager.deleteFile("/docs/start.md", options);
+				await fileManager.deleteDirectory("/docs/", options);
+				expect(await fileManager.exists("/docs/")).toBe(false);
+			});
+
+			it("find() returns the resources matching a glob pattern", async () => {
+				await fileManager.updateTextFile("/find/content/index.md", "Index");
+				await fileManager.updateTextFile("/find/content/posts/first.md", "First");
+				await fileManager.updateTextFile("/find/content/posts/notes.txt", "Notes");
+				await fileManager.updateTextFile("/find/drafts/second.md", "Second");
+
+				const found: string[] = [];
+				for await (const resource of fileManager.find({
+					path: "/find/",
+					pattern: "content/**/*.md"
+				})) {
+					found.push(resource.path);
+				}
+				expect(found.sort()).toEqual(["/find/content/index.md", "/find/content/posts/first.md"]);
+
+				const directories: string[] = [];
+				for await (const resource of fileManager.find({ path: "/find/", type: "dir", maxDepth: 1 })) {
+					directories.push(resource.path);
+				}
+				expect(directories.sort()).toEqual(["/find/content/", "/find/drafts/"]);
+			});
+
+			it("listPage() lists a directory page by page", async () => {
+				for (const name of ["a", "b", "c", "d", "e"]) {
+					await fileManager.updateTextFile(`/paged/${name}.txt`, name);
+				}
+
+				const pages: string[][] = [];
+				let cursor: string | undefined;
+				do {
+					const page = await fileManager.listPage("/paged/", { pageSize: 2, cursor });
+					pages.push(page.items.map(({ path }) => path));
+					cursor = page.cursor;
+				} while (cursor);
+				expect(pages.map((items) => items.length)).toEqual([2, 2, 1]);
+				expect(pages.flat().sort()).toEqual(
+					["a", "b", "c", "d", "e"].map((name) => `/paged/${name}.txt`)
+				);
+			});
+
+			it("iterateDirectory() iterates over the content of the sub directories", async () => {
+				await fileManager.updateTextFile("/iterated/a.txt", "A");
+				await fileManager.updateTextFile("/iterated/sub/b.txt", "B");
+
+				const paths: string[] = [];
+				for await (const resource of fileManager.iterateDirectory("/iterated/", {
+					recursive: true,
+					pageSize: 1
+				})) {
+					paths.push(resource.path);
+				}
+				expect(paths.sort()).toEqual(["/iterated/a.txt", "/iterated/sub/", "/iterated/sub/b.txt"]);
+			});
+
+			it("search() finds a string in the text files", async () => {
+				await fileManager.updateTextFile(
+					"/search/notes.md",
+					"First line\nThe needle is here\nLast line"
+				);
+				await fileManager.updateTextFile("/search/other.txt", "No match");
+				await fileManager.updateBinaryFile("/search/image.png", Buffer.from("needle"));
+
+				const matches = await fileManager.search("/search/", "needle", { context: 1 });
+				expect(matches).toEqual([
+					{
+						path: "/search/notes.md",
+						line: 2,
+						column: 5,
+						match: "needle",
+						text: "The needle is here",
+						before: ["First line"],
+						after: ["Last line"]
+					}
+				]);
+			});
+		});
+	};
+
+/**
+ * Tests of the revisions of the files, for the file managers that keep them
+ */
+export const revisionsTestSuite = (fileManagerName: string, fileManagerFactory: FileManagerFactory) => () => {
+	describe(`FileManager revisions (${fileManagerName})`, () => {
+		const author = { name: "Jane", email: "jane@example.com" };
+		let fileManager: FileManagerInterface;
+
+		beforeEach(() => {
+			fileManager = fileManagerFactory();
+		});
+
+		it("listRevisions() lists the versions of a file, the most recent first", async () => {
+			await fileManager.updateTextFile("/doc.md", "v1", { message: "First version", author });
+			await fileManager.updateTextFile("/doc.md", "version 2");
+			await fileManager.updateTextFile("/other.md", "Not in the history");
+
+			const revisions = await fileManager.listRevisions("/doc.md");
+			expect(revisions.length).toBe(2);
+			expect(revisions.map(({ size }) => size)).toEqual([9, 2]);
+			expect(revisions[1]).toMatchObject({ message: "First version", author });
+			expect(revisions[0].timestamp.getTime()).toBeGreaterThanOrEqual(revisions[1].timestamp.getTime());
+			expect(new Set(revisions.map(({ id }) => id)).size).toBe(2);
+		});
+
+		it("getFileContent() reads a file at a revision", async () => {
+			await fileManager.updateTextFile("/doc.md", "v1");
+			await fileManager.updateTextFile("/doc.md", "v2");
+			const [latest, first] = await fileManager.listRevisions("/doc.md");
+
+			expect(await fileManager.getFileContent("/doc.md", { revision: first.id })).toBe("v1");
+			expect(await fileManager.getFileContent("/doc.md", { revision: latest.id })).toBe("v2");
+			expect(await fileManager.getFileContent("/doc.md")).toBe("v2");
+		});
+
+		it("restoreRevision() writes back an old version as a new revision", async () => {
+			await fileManager.updateTextFile("/doc.md", "v1");
+			await fileManager.updateTextFile("/doc.md", "v2");
+			const [, first] = await fileManager.listRevisions("/doc.md");
+
+			await fileManager.restoreRevision("/doc.md", first.id, { author });
+
+			expect(await fileManager.getFileContent("/doc.md")).toBe("v1");
+			const revisions = await fileManager.listRevisions("/doc.md");
+			expect(revisions.length).toBe(3);
+			expect(revisions[0]).toMatchObject({ size: 2, author });
+		});
+	});
+};
+
+/**
+ * Tests of the preconditions of the concurrent changes, for the file managers that check them in the same step as the change
+ */
+export const concurrentWritesTestSuite =
+	(fileManagerName: string, fileManagerFactory: FileManagerFactory) => () => {
+		describe(`FileManager concurrent writes (${fileManagerName})`, () => {
+			let fileManager: FileManagerInterface;
+
+			beforeEach(() => {
+				fileManager = fileManagerFactory();
+			});
+
+			/**
+			 * The reasons of the rejected changes
+			 */
+			const rejectionsOf = (results: PromiseSettledResult<void>[]) =>
+				results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []));
+
+			it("ifMatch only accepts one of the concurrent writes of the same version", async () => {
+				await fileManager.updateTextFile("/doc.md", "v1");
+				const { etag } = await fileManager.stat("/doc.md");
+
+				const results = await Promise.allSettled(
+					["v2 by Jane", "v2 by John"].map((content) =>
+						fileManager.updateTextFile("/doc.md", content, { ifMatch: etag })
+					)
+				);
+				const rejections = rejectionsOf(results);
+				expect(rejections).toHaveLength(1);
+				expect(rejections[0]).toBeInstanceOf(ConflictError);
+				const written = results[0].status === "fulfilled" ? "v2 by Jane" : "v2 by John";
+				expect(await fileManager.getFileContent("/doc.md")).toBe(written);
+			});
+
+			it("ifNoneMatch only accepts one of the concurrent creations", async () => {
+				const results = await Promise.allSettled(
+					["by Jane", "by John"].map((content) =>
+						fileManager.updateTextFile("/new.md", content, { ifNoneMatch: "*" })
+					)
+				);
+				const rejections = rejectionsOf(results);
+				expect(rejections).toHaveLength(1);
+				expect(rejections[0]).toBeInstanceOf(ConflictError);
+			});
+
+			it("ifMatch only accepts one of a concurrent write and deletion of the same version", async () => {
+				await fileManager.updateTextFile("/doc.md", "v1");
+				const { etag } = await fileManager.stat("/doc.md");
+
+				const rejections = rejectionsOf(
+					await Promise.allSettled([
+						fileManager.updateTextFile("/doc.md", "v2", { ifMatch: etag }),
+						fileManager.deleteFile("/doc.md", { ifMatch: etag })
+					])
+				);
+				expect(rejections).toHaveLength(1);
+				expect(rejections[0]).toBeInstanceOf(ConflictError);
+			});
+		});
+	};
+
+/**
+ * Paths that must never reach the backend
+ */
+const HOSTILE_PATHS = [
+	"../secret.txt",
+	"/../secret.txt",
+	"/a/../../secret.txt",
+	"/a\u0000.txt",
+	"/a\n.txt",
+	"/a\u007f.txt"
+];
+
+export const hostilePathsTestSuite =
+	(fileManagerName: string, fileManagerFactory: FileManagerFactory) => () => {
+		describe(`FileManager path safety (${fileManagerName})`, () => {
+			let fileManager: FileManagerInterface;
+
+			beforeEach(async () => {
+				fileManager = fileManagerFactory();
+				await fileManager.updateTextFile("/a/file.txt", "Inside");
+			});
+
+			for (const hostilePath of HOSTILE_PATHS) {
+				it(`rejects ${JSON.stringify(hostilePath)}`, async () => {
+					await expect(fileManager.updateTextFile(hostilePath, "Outside")).rejects.toThrow(
+						PathError
+					);
+					await expect(fileManager.getFileContent(hostilePath)).rejects.toThrow(PathError);
+					await expect(fileManager.stat(hostilePath)).rejects.toThrow(PathError);
+					await expect(fileManager.deleteFile(hostilePath)).rejects.toThrow(PathError);
+					await expect(fileManager.listDirectoryContent(`${hostilePath}/`)).rejects.toThrow(
+						PathError
+					);
+					await expect(fileManager.createDirectory(`${hostilePath}/`)).rejects.toThrow(PathError);
+					await expect(fileManager.move("/a/file.txt", hostilePath)).rejects.toThrow(PathError);
+					await expect(fileManager.copy("/a/file.txt", hostilePath)).rejects.toThrow(PathError);
+					expect(await fileManager.getFileContent("/a/file.txt")).toBe("Inside");
+				});
+			}
+
+			it("resolves the '.' and '..' segments inside the root directory", async () => {
+				await fileManager.updateTextFile("/a/./b/../c.txt", "Resolved");
+
+				expect(await fileManager.getFileContent("/a/c.txt")).toBe("Resolved");
+				expect((await fileManager.stat("a/b/../c.txt")).path).toBe("/a/c.txt");
+			});
 		});
 	};
 
@@ -0,0 +1,178 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: the configurations contain ${NAME} variables
+import { afterAll, describe, expect, it, spyOn } from "bun:test";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { CachingFileManager } from "./CachingFileManager";
+import { createFileManagers, loadFileManagerConfig, parseFileManagerConfig } from "./FileManagerConfig";
+import { FileManagerError } from "./FileManagerErrors";
+import { FileManagerFactory } from "./FileManagerFactory";
+import { GithubFileManager } from "./GithubFileManager";
+import { InMemoryFileManager } from "./InMemoryFileManager";
+import { LocalFileManager } from "./LocalFileManager";
+import { ReadOnlyFileManager } from "./ReadOnlyFileManager";
+
+const configDir = join(import.meta.dirname, "../../_testsRoot_config");
+
+/**
+ * The message of the FileManagerError thrown when creating the file managers of a configuration
+ */
+const configError = (config: unknown, env: Record<string, string> = {}) => {
+	try {
+		createFileManagers(config, { env });
+	} catch (err) {
+		expect(err).toBeInstanceOf(FileManagerError);
+		return (err as FileManagerError).message;
+	}
+	throw new Error("No error was thrown");
+};
+
+describe("FileManagerConfig", () => {
+	afterAll(() => rm(configDir, { recursive: true, force: true }));
+
+	it("creates the file managers of the stores by name", async () => {
+		const registry = createFileManagers(
+			{
+				stores: {
+					content: {
+						url: "github://owner/repo?token=${GITHUB_TOKEN}#main:/content",
+						readOnly: true
+					},
+					drafts: { url: "memory://config-drafts", cache: { ttl: 1000 } },
+					local: { type: "file", rootDir: configDir, options: { followExternalSymlinks: false } }
+				}
+			},
+			{ env: { GITHUB_TOKEN: "secret" } }
+		);
+
+		expect(registry.names).toEqual(["content", "drafts", "local"]);
+		expect(registry.get("content")).toBeInstanceOf(ReadOnlyFileManager);
+		expect(registry.get("drafts")).toBeInstanceOf(CachingFileManager);
+		expect(registry.get("local")).toBeInstanceOf(LocalFileManager);
+		await expect(registry.get("content").updateTextFile("/index.md", "")).rejects.toThrow("read-only");
+
+		await registry.get("drafts").updateTextFile("/draft.md", "Draft");
+		expect(registry.has("missing")).toBeFalse();
+		expect(() => registry.get("missing")).toThrow("configured: content, drafts, local");
+	});
+
+	it("replaces the variables in all the strings", () => {
+		const registry = createFileManagers(
+			{
+				stores: {
+					main: {
+						url: "${STORE_URL:-memory://config-default}",
+						options: { githubApplicationToken: "${TOKEN}" }
+					}
+				}
+			},
+			{ env: { TOKEN: "secret" } }
+		);
+		expect(registry.get("main")).toBeInstanceOf(InMemoryFileManager);
+
+		expect(
+			configError({ stores: { main: { url: "${STORE_URL}", options: { token: "${TOKEN}" } } } })
+		).toContain("the variable STORE_URL is not defined\n- the variable TOKEN is not defined");
+	});
+
+	it("reports all the problems of a configuration", () => {
+		expect(configError({})).toContain("must have a stores object");
+		expect(configError({ stores: {} })).toContain("no store");
+
+		const message = configError({
+			stores: {
+				noUrl: { readOnly: "yes" },
+				both: { url: "memory://config", rootDir: "/data" },
+				mismatch: { type: "file", url: "memory://config" },
+				typo: { url: "memory://config", caching: true, cache: { ttl: -1, size: 1 } }
+			}
+		});
+		expect(message.split("\n")).toEqual([
+			"Invalid file managers configuration:",
+			"- stores.noUrl needs an url, or a type",
+			"- stores.noUrl.readOnly must be a boolean",
+			"- stores.both.rootDir can't be used with an url (put the directory in the url)",
+			"- stores.mismatch.url is not a file: URL",
+			"- stores.typo.caching is unknown (expected: url, type, rootDir, options, readOnly, cache)",
+			"- stores.typo.cache.size is unknown (expected: ttl, maxSize, revalidate)",
+			"- stores.typo.cache.ttl must be a positive number"
+		]);
+
+		expect(configError({ stores: { github: { url: "github://owner/repo" } } })).toContain(
+			"The store 'github' can't be created: A Github store needs a token"
+		);
+	});
+
+	it("converts the options of an env file to the types of the backend parameters", () => {
+		const createFileManager = spyOn(FileManagerFactory, "createFileManager");
+		const config = parseFileManagerConfig(
+			[
+				"STORE__local__type=file",
+				`STORE__local__rootDir=${configDir}`,
+				"STORE__local__options__followExternalSymlinks=false",
+				"STORE__local__options__label=false"
+			].join("\n"),
+			"env"
+		);
+		createFileManagers(config, { env: {} });
+		expect(createFileManager).toHaveBeenCalledWith(`file:${configDir}`, {
+			followExternalSymlinks: false,
+			label: "false"
+		});
+		createFileManager.mockRestore();
+
+		expect(
+			configError({
+				stores: {
+					local: { type: "file", rootDir: configDir, options: { followExternalSymlinks: "no" } }
+				}
+			})
+		).toContain("stores.local.options.followExternalSymlinks must be a boolean");
+	});
+
+	it("loads the JSON, YAML and env files", async () => {
+		await mkdir(configDir, { recursive: true });
+		const env = { GITHUB_TOKEN: "secret" };
+
+		await writeFile(
+			join(configDir, "stores.json"),
+			JSON.stringify({ stores: { content: { url: "github://owner/repo?token=${GITHUB_TOKEN}" } } })
+		);
+		const fromJson = await loadFileManagerConfig(join(configDir, "stores.json"), { env });
+		expect(fromJson.get("content")).toBeInstanceOf(GithubFileManager);
+
+		await writeFile(
+			join(configDir, "stores.yaml"),
+			[
+				"stores:",
+				"  drafts:",
+				"    url: memory://config-yaml",
+				"    readOnly: true",
+				"    cache:",
+				"      ttl: 500"
+			].join("\n")
+		);
+		const fromYaml = await loadFileManagerConfig(join(configDir, "stores.yaml"), { env });
+		expect(fromYaml.get("drafts")).toBeInstanceOf(ReadOnlyFileManager);
+
+		await writeFile(
+			join(configDir, ".env.stores"),
+			[
+				"# The stores of the website",
+				"DRAFTS_NAME=config-env",
+				"STORE__drafts__url=memory://${DRAFTS_NAME}",
+				'STORE__drafts__readOnly="true"',
+				"export STORE__drafts__cache__ttl=500",
+				"STORE__content__url=github://owner/repo",
+				"STORE__content__options__githubApplicationToken=${GITHUB_TOKEN}"
+			].join("\n")
+		);
+		const fromEnv = await loadFileManagerConfig(join(configDir, ".env.stores"), { env });
+		expect(fromEnv.names).toEqual(["drafts", "content"]);
+		expect(fromEnv.get("drafts")).toBeInstanceOf(ReadOnlyFileManager);
+		expect(fromEnv.get("content")).toBeInstanceOf(GithubFileManager);
+
+		await writeFile(join(configDir, "stores.toml"), "");
+		await expect(loadFileManagerConfig(join(configDir, "stores.toml"))).rejects.toThrow("Unsupported");
+		expect(() => parseFileManagerConfig("{ stores", "json")).toThrow("Invalid json configuration");
+	});
+});
@@ -0,0 +1,384 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { CachingFileManager, type CachingFileManagerOptions } from "./CachingFileManager";
+import { FileManagerError } from "./FileManagerErrors";
+import { FileManagerFactory } from "./FileManagerFactory";
+import type { FileManagerInterface } from "./FileManagerInterface";
+import { ReadOnlyFileManager } from "./ReadOnlyFileManager";
+
+/**
+ * Describes a named store
+ */
+export interface StoreConfig {
+	/**
+	 * The URL of the store (`github://owner/repo#branch:/subdir`, `file:///var/data`..)
+	 */
+	url?: string;
+	/**
+	 * The scheme of the backend : without an URL, the store URL is made of the type and of the root directory
+	 */
+	type?: string;
+	rootDir?: string;
+	/**
+	 * The options of the backend that the URL does not hold (credentials..)
+	 */
+	options?: Record<string, unknown>;
+	/**
+	 * Pass TRUE to reject all the changes. Default: FALSE
+	 */
+	readOnly?: boolean;
+	/**
+	 * Pass TRUE (or the options of the cache) to cache the reads. Default: FALSE
+	 */
+	cache?: boolean | CachingFileManagerOptions;
+}
+
+export interface FileManagerConfig {
+	stores: Record<string, StoreConfig>;
+}
+
+export type FileManagerConfigFormat = "json" | "yaml" | "env";
+
+export interface CreateFileManagersOptions {
+	/**
+	 * The values of the `${NAME}` variables. Default: `process.env`
+	 */
+	env?: Record<string, string | undefined>;
+	/**
+	 * The options that can't be written in a configuration (clients..), by store name
+	 */
+	options?: Record<string, object>;
+}
+
+/**
+ * In the `env` format, the stores are described by the variables starting with this prefix :
+ * `STORE__content__url=github://owner/repo`, `STORE__content__options__githubApplicationToken=${GITHUB_TOKEN}`
+ */
+const ENV_PREFIX = "STORE__";
+
+const STORE_FIELDS = ["url", "type", "rootDir", "options", "readOnly", "cache"];
+
+const CACHE_FIELDS = ["ttl", "maxSize", "revalidate"];
+
+/**
+ * `${NAME}`, or `${NAME:-default}` when the variable may be missing
+ */
+const VARIABLE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * The values read from an `env` file are all strings
+ */
+const toBoolean = (value: unknown) => (value === "true" ? true : value === "false" ? false : value);
+
+const toNumber = (value: unknown) =>
+	typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))
+		? Number(value)
+		: value;
+
+/**
+ * Converts the options having the type of a query parameter of the backend (`followExternalSymlinks`..)
+ * @param problems Collects the errors
+ */
+const convertOptions = (
+	prefix: string,
+	scheme: string,
+	options: Record<string, unknown>,
+	problems: string[]
+): Record<string, unknown> => {
+	const types = FileManagerFactory.getParams(scheme) || {};
+	return Object.fromEntries(
+		Object.entries(options).map(([field, value]) => {
+			const type = types[field];
+			const converted =
+				type === "boolean" ? toBoolean(value) : type === "number" ? toNumber(value) : value;
+			if (type && converted !== undefined && typeof converted !== type) {
+				problems.push(`${prefix}.options.${field} must be a ${type}`);
+			}
+			return [field, converted];
+		})
+	);
+};
+
+/**
+ * Reads the `NAME=value` lines of an env file (the comments and the `export` keywords are ignored)
+ */
+const parseEnvFile = (text: string): Record<string, string> => {
+	const variables: Record<string, string> = {};
+	for (const line of text.split(/\r?\n/)) {
+		const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+		if (!match) continue;
+		const [, name, value] = match;
+		const quoted = value.match(/^(["'])(.*)\1$/);
+		variables[name] = quoted ? quoted[2] : value;
+	}
+	return variables;
+};
+
+/**
+ * Builds the configuration described by the `STORE__name__field` variables
+ */
+const parseEnvConfig = (variables: Record<string, string>): { stores: Record<string, unknown> } => {
+	const stores: Record<string, unknown> = {};
+	for (const [name, value] of Object.entries(variables)) {
+		if (!name.startsWith(ENV_PREFIX)) continue;
+		const keys = name.substring(ENV_PREFIX.length).split("__");
+		const last = keys.pop() as string;
+		let target = stores;
+		for (const key of keys) {
+			if (!isObject(target[key])) target[key] = {};
+			target = target[key] as Record<string, unknown>;
+		}
+		target[last] = value;
+	}
+	return { stores };
+};
+
+/**
+ * Parses the text of a configuration file
+ * @throws FileManagerError (400) if the text is not valid in this format
+ * @throws FileManagerError (501) for a YAML text when the runtime can't parse YAML (before Bun 1.2.21)
+ */
+export const parseFileManagerConfig = (text: string, format: FileManagerConfigFormat): unknown => {
+	if (format === "yaml" && (typeof Bun === "undefined" || typeof Bun.YAML?.parse !== "function")) {
+		throw new FileManagerError(
+			501,
+			"The YAML configurations need Bun 1.2.21 or later : use a JSON or env file"
+		);
+	}
+	try {
+		switch (format) {
+			case "json":
+				return JSON.parse(text);
+			case "yaml":
+				return Bun.YAML.parse(text);
+			case "env":
+				return parseEnvConfig(parseEnvFile(text));
+		}
+	} catch (err) {
+		throw new FileManagerError(400, `Invalid ${format} configuration: ${(err as Error).message}`);
+	}
+};
+
+/**
+ * Replaces the `${NAME}` variables in all the strings of the configuration
+ * @param missing Collects the names of the variables without a value
+ */
+const interpolate = (
+	value: unknown,
+	env: Record<string, string | undefined>,
+	missing: Set<string>
+): unknown => {
+	if (typeof value === "string") {
+		return value.replace(VARIABLE, (_, name: string, defaultValue?: string) => {
+			const variable = env[name] ?? defaultValue;
+			if (variable === undefined) missing.add(name);
+			return variable ?? "";
+		});
+	}
+	if (Array.isArray(value)) return value.map((item) => interpolate(item, env, missing));
+	if (isObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, interpolate(item, env, missing)])
+		);
+	}
+	return value;
+};
+
+/**
+ * Checks the description of a store, and converts the strings of an `env` file to booleans and numbers
+ * (the options as the query parameters of the backend)
+ * @param problems Collects the errors
+ */
+const validateStore = (name: string, store: unknown, problems: string[]): StoreConfig => {
+	const prefix = `stores.${name}`;
+	if (!isObject(store)) {
+		problems.push(`${prefix} must be an object`);
+		return {};
+	}
+	for (const field of Object.keys(store)) {
+		if (!STORE_FIELDS.includes(field)) {
+			problems.push(`${prefix}.${field} is unknown (expected: ${STORE_FIELDS.join(", ")})`);
+		}
+	}
+
+	const { url, type, rootDir } = store;
+	let options = store.options ?? {};
+	const readOnly = toBoolean(store.readOnly ?? false);
+	let cache = toBoolean(store.cache ?? false);
+	for (const [field, value] of Object.entries({ url, type, rootDir })) {
+		if (value !== undefined && typeof value !== "string") {
+			problems.push(`${prefix}.${field} must be a string`);
+		}
+	}
+	if (!url && !type) {
+		problems.push(`${prefix} needs an url, or a type`);
+	} else if (url && rootDir !== undefined) {
+		problems.push(`${prefix}.rootDir can't be used with an url (put the directory in the url)`);
+	} else if (
+		typeof url === "string" &&
+		typeof type === "string" &&
+		!url.toLowerCase().startsWith(`${type}:`)
+	) {
+		problems.push(`${prefix}.url is not a ${type}: URL`);
+	}
+	if (!isObject(options)) {
+		problems.push(`${prefix}.options must be an object`);
+	} else {
+		const scheme = typeof type === "string" ? type : typeof url === "string" ? url.split(":")[0] : "";
+		options = convertOptions(prefix, scheme, options, problems);
+	}
+	if (typeof readOnly !== "boolean") problems.push(`${prefix}.readOnly must be a boolean`);
+
+	if (isObject(cache)) {
+		const { ttl, maxSize, revalidate, ...unknown } = cache;
+		const cacheOptions = {
+			ttl: toNumber(ttl),
+			maxSize: toNumber(maxSize),
+			revalidate: toBoolean(revalidate)
+		};
+		for (const field of Object.keys(unknown)) {
+			problems.push(`${prefix}.cache.${field} is unknown (expected: ${CACHE_FIELDS.join(", ")})`);
+		}
+		for (const field of ["ttl", "maxSize"] as const) {
+			const value = cacheOptions[field];
+			if (value !== undefined && (typeof value !== "number" || value < 0)) {
+				problems.push(`${prefix}.cache.${field} must be a positive number`);
+			}
+		}
+		if (cacheOptions.revalidate !== undefined && typeof cacheOptions.revalidate !== "boolean") {
+			problems.push(`${prefix}.cache.revalidate must be a boolean`);
+		}
+		cache = cacheOptions;
+	} else if (typeof cache !== "boolean") {
+		problems.push(`${prefix}.cache must be a boolean or the options of the cache`);
+	}
+
+	return { ...store, options, readOnly, cache } as StoreConfig;
+};
+
+/**
+ * Checks a configuration after the replacement of its variables
+ * @throws FileManagerError (400) listing all the problems found
+ */
+const validateConfig = (config: unknown, missing: Set<string>): FileManagerConfig => {
+	const problems = [...missing].map((name) => `the variable ${name} is not defined`);
+	const stores: Record<string, StoreConfig> = {};
+	if (!isObject(config) || !isObject(config.stores)) {
+		problems.push("the configuration must have a stores object");
+	} else {
+		if (Object.keys(config.stores).length === 0) problems.push("the configuration describes no store");
+		for (const [name, store] of Object.entries(config.stores)) {
+			stores[name] = validateStore(name, store, problems);
+		}
+	}
+	if (problems.length > 0) {
+		throw new FileManagerError(400, `Invalid file managers configuration:\n- ${problems.join("\n- ")}`);
+	}
+	return { stores };
+};
+
+/**
+ * Creates the file manager of a store, with its wrappers
+ */
+const createStore = (
+	name: string,
+	{ url, type, rootDir = "", options, readOnly, cache }: StoreConfig,
+	extraOptions = {}
+) => {
+	// The characters that would end the path of the URL
+	const storeUrl = url || `${type}:${rootDir.replace(/[%?#]/g, encodeURIComponent)}`;
+	let fileManager: FileManagerInterface;
+	try {
+		fileManager = FileManagerFactory.createFileManager(storeUrl, { ...options, ...extraOptions });
+	} catch (err) {
+		if (!(err instanceof FileManagerError)) throw err;
+		throw new FileManagerError(err.code, `The store '${name}' can't be created: ${err.message}`);
+	}
+	if (cache) {
+		fileManager = new CachingFileManager(fileManager, cache === true ? {} : cache);
+	}
+	// Read-only last, so that the changes are rejected before reaching the cache
+	return readOnly ? new ReadOnlyFileManager(fileManager) : fileManager;
+};
+
+/**
+ * The file managers of the configured stores, by name
+ */
+export class FileManagerRegistry {
+	private fileManagers: Map<string, FileManagerInterface>;
+
+	constructor(fileManagers: Map<string, FileManagerInterface>) {
+		this.fileManagers = fileManagers;
+	}
+
+	/**
+	 * @throws FileManagerError (404) if no store has this name
+	 */
+	get(name: string): FileManagerInterface {
+		const fileManager = this.fileManagers.get(name);
+		if (!fileManager) {
+			throw new FileManagerError(
+				404,
+				`Unknown store: '${name}' (configured: ${this.names.join(", ")})`
+			);
+		}
+		return fileManager;
+	}
+
+	has(name: string): boolean {
+		return this.fileManagers.has(name);
+	}
+
+	get names(): string[] {
+		return [...this.fileManagers.keys()];
+	}
+}
+
+/**
+ * Creates the file managers of a configuration (with `FileManagerFactory`)
+ * @param config The parsed configuration, whose strings may contain `${NAME}` variables
+ * @throws FileManagerError (400) if the configuration is invalid, or if a store can't be created
+ */
+export const createFileManagers = (
+	config: unknown,
+	{ env = process.env, options = {} }: CreateFileManagersOptions = {}
+): FileManagerRegistry => {
+	const missing = new Set<string>();
+	const { stores } = validateConfig(interpolate(config, env, missing), missing);
+	return new FileManagerRegistry(
+		new Map(
+			Object.entries(stores).map(([name, store]) => [name, createStore(name, store, options[name])])
+		)
+	);
+};
+
+/**
+ * Reads a configuration file (`.json`, `.yaml`, `.yml` or `.env`) and creates the file managers of its stores.
+ * The other variables of an `.env` file can be used in the `${NAME}` variables (the environment has precedence).
+ * @param filePath The path of the configuration file
+ * @throws FileManagerError (400) if the configuration is invalid, or if a store can't be created
+ */
+export const loadFileManagerConfig = async (
+	filePath: string,
+	{ env = process.env, options }: CreateFileManagersOptions = {}
+): Promise<FileManagerRegistry> => {
+	const ext = extname(filePath).toLowerCase();
+	const text = await readFile(filePath, "utf-8");
+	if (ext === ".env" || basename(filePath).startsWith(".env")) {
+		return createFileManagers(parseFileManagerConfig(text, "env"), {
+			env: { ...parseEnvFile(text), ...env },
+			options
+		});
+	}
+	const format = ({ ".json": "json", ".yaml": "yaml", ".yml": "yaml" } as const)[ext];
+	if (!format) {
+		throw new FileManagerError(
+			400,
+			`Unsupported configuration format: '${ext}' (use .json, .yaml, .yml or .env)`
+		);
+	}
+	return createFileManagers(parseFileManagerConfig(text, format), { env, options });
+};
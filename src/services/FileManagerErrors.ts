@@ -34,6 +34,17 @@ export class FileUpdateError extends FileManagerError {
 	}
 }
 
+/**
+ * An error thrown when a change conflicts with the current state of the resource :
+ * a precondition (`ifMatch`, `ifNoneMatch`) failed, or the destination already exists
+ */
+export class ConflictError extends FileManagerError {
+	constructor(path: string, message = "ConflictError") {
+		super(409, message, path);
+		this.name = "ConflictError";
+	}
+}
+
 /**
  * An error specifically thrown when the resource path is invalid
  */
@@ -43,3 +54,20 @@ export class PathError extends FileManagerError {
 		this.name = "PathError";
 	}
 }
+
+/**
+ * An error thrown when the credentials of the backend are missing, expired or revoked :
+ * the user must (again) consent to the access, at the `consentUrl` when it is known
+ * (keep its `consentState` in the session of the user to check the callback of the consent page)
+ */
+export class AuthenticationError extends FileManagerError {
+	constructor(message = "AuthenticationError", consentUrl?: string, consentState?: string) {
+		super(401, message);
+		this.name = "AuthenticationError";
+		this.consentUrl = consentUrl;
+		this.consentState = consentState;
+	}
+
+	consentUrl?: string;
+	consentState?: string;
+}
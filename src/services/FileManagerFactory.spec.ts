@@ -0,0 +1,219 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdir, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { OAuth2Client } from "google-auth-library";
+import { FakeDriveApi } from "../testing/FakeDriveApi";
+import { FakeGithubApi } from "../testing/FakeGithubApi";
+import { FakeS3Server } from "../testing/FakeS3Server";
+import { FileManagerFactory } from "./FileManagerFactory";
+import { FileManagerError } from "./FileManagerErrors";
+import { GithubFileManager } from "./GithubFileManager";
+import { GoogleDriveFileManager } from "./GoogleDriveFileManager";
+import { InMemoryFileManager } from "./InMemoryFileManager";
+import { LocalFileManager } from "./LocalFileManager";
+import { S3FileManager } from "./S3FileManager";
+
+const rootDir = join(import.meta.dirname, "../../_testsRoot_factory");
+
+/**
+ * The message of the FileManagerError thrown by a function
+ */
+const errorOf = (fn: () => unknown) => {
+	try {
+		fn();
+	} catch (err) {
+		expect(err).toBeInstanceOf(FileManagerError);
+		expect((err as FileManagerError).code).toBe(400);
+		return (err as FileManagerError).message;
+	}
+	throw new Error("No error was thrown");
+};
+
+describe("FileManagerFactory", () => {
+	const fakeGithub = new FakeGithubApi();
+	const githubApiUrl = fakeGithub.start();
+	const fakeDrive = new FakeDriveApi();
+	const driveApiUrl = fakeDrive.start();
+	const fakeS3 = new FakeS3Server();
+	const s3Endpoint = fakeS3.start();
+
+	afterAll(async () => {
+		fakeGithub.stop();
+		fakeDrive.stop();
+		fakeS3.stop();
+		await rm(rootDir, { recursive: true, force: true });
+	});
+
+	it("creates a Github file manager on a branch and a directory", async () => {
+		fakeGithub.reset();
+		fakeGithub.seed({ "docs/index.md": "Index" });
+		const apiUrl = encodeURIComponent(githubApiUrl);
+
+		const docs = FileManagerFactory.createFileManager(
+			`github://fake/repo?token=t&apiUrl=${apiUrl}#main:/docs`
+		);
+		expect(docs).toBeInstanceOf(GithubFileManager);
+		expect(await docs.getFileContent("/index.md")).toBe("Index");
+
+		await (docs as GithubFileManager).createBranch("dev");
+		fakeGithub.seed({ "docs/index.md": "Dev" }, "dev");
+		const dev = FileManagerFactory.createFileManager(`github://fake/repo?apiUrl=${apiUrl}#dev`, {
+			githubApplicationToken: "t"
+		});
+		expect(await dev.getFileContent("/docs/index.md")).toBe("Dev");
+
+		// The former Github URLs are still accepted
+		const former = FileManagerFactory.createFileManager("https://github.com/fake/repo", {
+			githubApplicationToken: "t",
+			githubApiUrl
+		});
+		expect(await former.getFileContent("/docs/index.md")).toBe("Index");
+		const page = FileManagerFactory.createFileManager("https://github.com/fake/repo/tree/dev/docs", {
+			githubApplicationToken: "t",
+			githubApiUrl
+		});
+		expect(await page.getFileContent("/index.md")).toBe("Dev");
+	});
+
+	it("creates a Google Drive file manager on a folder", async () => {
+		fakeDrive.reset();
+		fakeDrive.seed({ "website/public/index.html": "<h1>Home</h1>" });
+		const oauth2Client = new OAuth2Client();
+		oauth2Client.setCredentials({ access_token: "fake-token" });
+
+		const website = FileManagerFactory.createFileManager(
+			`gdrive:///website/public?driveApiUrl=${encodeURIComponent(driveApiUrl)}&createParentFolders=false`,
+			{ oauth2Client }
+		);
+		expect(website).toBeInstanceOf(GoogleDriveFileManager);
+		expect(await website.getFileContent("/index.html")).toBe("<h1>Home</h1>");
+
+		expect(errorOf(() => FileManagerFactory.createFileManager("gdrive:///website"))).toContain(
+			"oauth2Client"
+		);
+		expect(
+			errorOf(() =>
+				FileManagerFactory.createFileManager("gdrive:///website?document=mp3", { oauth2Client })
+			)
+		).toContain("mp3");
+	});
+
+	it("creates a local file manager on a directory", async () => {
+		await mkdir(rootDir, { recursive: true });
+		const local = FileManagerFactory.createFileManager(`file://${rootDir}?followExternalSymlinks=false`);
+		expect(local).toBeInstanceOf(LocalFileManager);
+		await local.updateTextFile("/hello.txt", "Hello");
+		expect(await readFile(join(rootDir, "hello.txt"), "utf-8")).toBe("Hello");
+
+		const encoded = FileManagerFactory.createFileManager(`file://localhost${encodeURI(rootDir)}`);
+		expect(await encoded.getFileContent("/hello.txt")).toBe("Hello");
+
+		expect(errorOf(() => FileManagerFactory.createFileManager("file://server/share"))).toContain(
+			"server"
+		);
+	});
+
+	it("creates an S3 file manager on a bucket and a prefix", async () => {
+		fakeS3.reset();
+		const s3 = FileManagerFactory.createFileManager(
+			`s3://${fakeS3.bucket}/sites/blog?endpoint=${encodeURIComponent(s3Endpoint)}&partSize=6291456`,
+			fakeS3.credentials
+		);
+		expect(s3).toBeInstanceOf(S3FileManager);
+		await s3.updateTextFile("/index.md", "Index");
+		expect(fakeS3.getObject("sites/blog/index.md")).toBe("Index");
+
+		expect(errorOf(() => FileManagerFactory.createFileManager("s3:///prefix"))).toContain(
+			"s3://bucket/prefix"
+		);
+		expect(
+			errorOf(() =>
+				FileManagerFactory.createFileManager("s3://bucket", {
+					accessKeyId: "id",
+					secretAccessKey: ""
+				})
+			)
+		).toContain("credentials");
+	});
+
+	it("shares the named memory stores", async () => {
+		const first = FileManagerFactory.createFileManager("memory://factory-shared");
+		expect(first).toBeInstanceOf(InMemoryFileManager);
+		await first.updateTextFile("/hello.txt", "Hello");
+
+		expect(FileManagerFactory.createFileManager("memory://factory-shared")).toBe(first);
+		expect(
+			await FileManagerFactory.createFileManager("memory://factory-shared").exists("/hello.txt")
+		).toBe(true);
+		expect(
+			await FileManagerFactory.createFileManager("memory://factory-other").exists("/hello.txt")
+		).toBe(false);
+		expect(FileManagerFactory.createFileManager("memory:")).not.toBe(
+			FileManagerFactory.createFileManager("memory:")
+		);
+
+		// Only the first URL of a store configures it
+		const configured = FileManagerFactory.createFileManager("memory://factory-configured", {
+			retainedChanges: 10
+		});
+		expect(
+			FileManagerFactory.createFileManager("memory://factory-configured", { retainedChanges: 10 })
+		).toBe(configured);
+		expect(
+			errorOf(() =>
+				FileManagerFactory.createFileManager("memory://factory-configured", { retainedChanges: 20 })
+			)
+		).toContain("already exists with other options");
+	});
+
+	it("rejects the invalid store URLs with clear errors", () => {
+		expect(errorOf(() => FileManagerFactory.createFileManager("/no/scheme"))).toContain("scheme");
+		expect(errorOf(() => FileManagerFactory.createFileManager("ftp://host/dir"))).toContain("ftp");
+		expect(errorOf(() => FileManagerFactory.createFileManager("memory://store?size=1"))).toContain(
+			"'size'"
+		);
+		expect(
+			errorOf(() => FileManagerFactory.createFileManager("file:///tmp?followExternalSymlinks=maybe"))
+		).toContain("must be a boolean");
+		expect(errorOf(() => FileManagerFactory.createFileManager("github://fake/repo"))).toContain("token");
+		expect(errorOf(() => FileManagerFactory.createFileManager("github://fake?token=t"))).toContain(
+			"github://owner/repo"
+		);
+		expect(errorOf(() => FileManagerFactory.createFileManager("https://example.com/repo"))).toContain(
+			"Github"
+		);
+		expect(
+			errorOf(() => FileManagerFactory.createFileManager("https://github.com/fake/repo/blob/main/a.md"))
+		).toContain("https://github.com/owner/repo/tree/branch/subdir");
+	});
+
+	it("registers new backends", () => {
+		const created: unknown[] = [];
+		const fixture = new InMemoryFileManager();
+		FileManagerFactory.register({
+			scheme: "fixture",
+			params: { size: "number", compress: "boolean" },
+			create: ({ authority }, params, options) => {
+				created.push({ authority, params, options });
+				return fixture;
+			}
+		});
+		expect(FileManagerFactory.schemes).toContain("fixture");
+
+		expect(FileManagerFactory.createFileManager("fixture://name?size=2&compress", { level: 9 })).toBe(
+			fixture
+		);
+		expect(created).toEqual([
+			{ authority: "name", params: { size: 2, compress: true }, options: { level: 9 } }
+		]);
+		expect(errorOf(() => FileManagerFactory.createFileManager("fixture://file?size=two"))).toContain(
+			"must be a number"
+		);
+
+		FileManagerFactory.unregister("fixture");
+		expect(errorOf(() => FileManagerFactory.createFileManager("fixture://file"))).toContain("Unknown");
+		expect(
+			errorOf(() => FileManagerFactory.register({ scheme: "Not valid", create: () => fixture }))
+		).toContain("Invalid scheme");
+	});
+});
@@ -1,39 +1,422 @@
+import type { OAuth2Client } from "google-auth-library";
 import { FileManagerError } from "./FileManagerErrors";
+import type { FileManagerInterface } from "./FileManagerInterface";
 import { GithubFileManager, type GithubFileManagerOptions } from "./GithubFileManager";
-import { InMemoryFileManager } from "./InMemoryFileManager";
+import {
+	type GoogleDocumentFormats,
+	GoogleDriveFileManager,
+	type GoogleDriveFileManagerOptions
+} from "./GoogleDriveFileManager";
+import { InMemoryFileManager, type InMemoryFileManagerOptions } from "./InMemoryFileManager";
 import { LocalFileManager, type LocalFileManagerOptions } from "./LocalFileManager";
+import { S3FileManager, type S3FileManagerOptions } from "./S3FileManager";
 
-export type FileManagerOptions = GithubFileManagerOptions | LocalFileManagerOptions;
+export interface GoogleDriveStoreOptions extends GoogleDriveFileManagerOptions {
+	/**
+	 * The client authenticated with the OAuth flow (`GoogleDriveAuth`) or as a service account
+	 */
+	oauth2Client: OAuth2Client;
+}
+
+export type FileManagerOptions =
+	| Partial<GithubFileManagerOptions>
+	| Partial<LocalFileManagerOptions>
+	| Partial<GoogleDriveStoreOptions>
+	| Partial<S3FileManagerOptions>
+	| InMemoryFileManagerOptions;
+
+/**
+ * The parts of a store URL : `scheme://authority/path?query#fragment`
+ * (the authority, the path and the fragment are decoded)
+ */
+export interface StoreUrl {
+	/**
+	 * In lower case, without the colon
+	 */
+	scheme: string;
+	/**
+	 * What follows the `//` up to the path : the owner of a Github repository, the name of a memory store..
+	 * Undefined when the URL has no `//` (`file:C:/data`)
+	 */
+	authority?: string;
+	path: string;
+	query: URLSearchParams;
+	/**
+	 * What follows the `#` : the branch and the directory in a Github repository
+	 */
+	fragment?: string;
+}
+
+type StoreParamType = "string" | "boolean" | "number";
+
+/**
+ * The query parameters accepted by a backend, with their types
+ */
+export type StoreParamTypes = Record<string, StoreParamType>;
+
+/**
+ * The query parameters of a store URL, converted to their types
+ */
+export type StoreParams<Types extends StoreParamTypes> = {
+	[Name in keyof Types]?: Types[Name] extends "boolean"
+		? boolean
+		: Types[Name] extends "number"
+			? number
+			: string;
+};
+
+/**
+ * Creates the file managers of the store URLs with a given scheme
+ */
+export interface FileManagerBackend<
+	Types extends StoreParamTypes = StoreParamTypes,
+	Options extends object = FileManagerOptions
+> {
+	/**
+	 * The scheme of the store URLs, without the colon (`github`, `s3`..)
+	 */
+	scheme: string;
+	/**
+	 * The query parameters accepted in the store URLs : the other parameters are rejected
+	 */
+	params?: Types;
+	/**
+	 * @param url The parsed store URL
+	 * @param params Its query parameters, converted to their declared types
+	 * @param options The options given to the factory, that the URL does not hold (credentials, clients..)
+	 * @throws FileManagerError (400) when the URL or the options are invalid
+	 */
+	create(url: StoreUrl, params: StoreParams<Types>, options: Partial<Options>): FileManagerInterface;
+}
+
+/**
+ * Splits a store URL in its parts (RFC 3986 appendix B)
+ */
+const parseStoreUrl = (storeUrl: string): StoreUrl => {
+	const match = storeUrl.match(
+		/^([a-zA-Z][a-zA-Z0-9+.-]*):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/
+	);
+	if (!match) {
+		throw new FileManagerError(
+			400,
+			"A store URL must start with a scheme (github:, gdrive:, file:, memory:..)"
+		);
+	}
+	const [, scheme, authority, path, query, fragment] = match;
+	try {
+		return {
+			scheme: scheme.toLowerCase(),
+			authority: authority === undefined ? undefined : decodeURIComponent(authority),
+			path: decodeURIComponent(path),
+			query: new URLSearchParams(query),
+			fragment: fragment === undefined ? undefined : decodeURIComponent(fragment)
+		};
+	} catch {
+		throw new FileManagerError(400, `Malformed escape sequence in the ${scheme}: store URL`);
+	}
+};
+
+const parseParam = (scheme: string, name: string, type: StoreParamType, value: string) => {
+	switch (type) {
+		case "boolean":
+			// A parameter without a value is a flag (`?readOnly`)
+			if (["", "true", "1"].includes(value)) return true;
+			if (["false", "0"].includes(value)) return false;
+			break;
+		case "number":
+			if (value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+			break;
+		default:
+			return value;
+	}
+	throw new FileManagerError(
+		400,
+		`The parameter '${name}' of the ${scheme}: store URL must be a ${type} (received '${value}')`
+	);
+};
+
+/**
+ * Converts the query parameters of a store URL to the types declared by its backend
+ * @throws FileManagerError (400) on an unknown parameter or an invalid value
+ */
+const readParams = <Types extends StoreParamTypes>({ scheme, query }: StoreUrl, types?: Types) => {
+	const params: Record<string, unknown> = {};
+	for (const [name, value] of query) {
+		const type = types?.[name];
+		if (!type) {
+			const expected = Object.keys(types || {});
+			throw new FileManagerError(
+				400,
+				`Unknown parameter '${name}' in the ${scheme}: store URL (${expected.length > 0 ? `expected: ${expected.join(", ")}` : "no parameter is expected"})`
+			);
+		}
+		params[name] = parseParam(scheme, name, type, value);
+	}
+	return params as StoreParams<Types>;
+};
+
+/**
+ * `github://owner/repo#branch:/subdir`
+ * (or `https://github.com/owner/repo#branch:/subdir`, or the URL of a Github page `https://github.com/owner/repo/tree/branch/subdir`
+ * when the name of the branch has no slash)
+ */
+const githubBackend: FileManagerBackend<{ token: "string"; apiUrl: "string" }, GithubFileManagerOptions> = {
+	scheme: "github",
+	params: { token: "string", apiUrl: "string" },
+	create({ scheme, authority, path, fragment = "" }, { token, apiUrl }, options) {
+		const repoPath = scheme === "github" ? `/${authority ?? ""}${path}` : path;
+		const match = repoPath.match(/^\/([^/]+)\/([^/]+?)(?:\/tree\/([^/]+)(\/.*?)?)?\/?$/);
+		if (!match || (scheme !== "github" && authority !== "github.com")) {
+			throw new FileManagerError(
+				400,
+				"A Github store URL must look like github://owner/repo#branch:/subdir (or https://github.com/owner/repo/tree/branch/subdir)"
+			);
+		}
+		const [, owner, repo, treeBranch = "", treeDir = ""] = match;
+		const githubApplicationToken = token ?? options.githubApplicationToken;
+		if (!githubApplicationToken) {
+			throw new FileManagerError(
+				400,
+				"A Github store needs a token : pass the githubApplicationToken option or the token parameter"
+			);
+		}
+		// A branch name can't contain a colon
+		const separator = fragment.indexOf(":");
+		const branch = (separator < 0 ? fragment : fragment.substring(0, separator)) || treeBranch;
+		const rootDir = (separator < 0 ? "" : fragment.substring(separator + 1)) || treeDir;
+		return new GithubFileManager({
+			...options,
+			githubRepoUrl: `https://github.com/${owner}/${repo}`,
+			githubApplicationToken,
+			githubApiUrl: apiUrl ?? options.githubApiUrl,
+			branch: branch || options.branch,
+			rootDir: rootDir || options.rootDir
+		});
+	}
+};
+
+/**
+ * `gdrive:///folder/subfolder` (the path from the root of the Drive)
+ */
+const googleDriveBackend: FileManagerBackend<
+	{
+		driveApiUrl: "string";
+		createParentFolders: "boolean";
+		importDocuments: "boolean";
+		document: "string";
+		spreadsheet: "string";
+		presentation: "string";
+	},
+	GoogleDriveStoreOptions
+> = {
+	scheme: "gdrive",
+	params: {
+		driveApiUrl: "string",
+		createParentFolders: "boolean",
+		importDocuments: "boolean",
+		document: "string",
+		spreadsheet: "string",
+		presentation: "string"
+	},
+	create(
+		{ authority = "", path },
+		{ document, spreadsheet, presentation, ...params },
+		{ oauth2Client, ...options }
+	) {
+		if (!oauth2Client) {
+			throw new FileManagerError(
+				400,
+				"A Google Drive store needs an authenticated oauth2Client option"
+			);
+		}
+		const exportFormats: Partial<GoogleDocumentFormats> = { ...options.exportFormats };
+		if (document) exportFormats.document = document;
+		if (spreadsheet) exportFormats.spreadsheet = spreadsheet;
+		if (presentation) exportFormats.presentation = presentation;
+		return new GoogleDriveFileManager(oauth2Client, `/${authority}${path}`.replace(/\/+/g, "/"), {
+			...options,
+			...params,
+			exportFormats
+		});
+	}
+};
+
+/**
+ * `file:///absolute/path`, `file:///C:/path` or `file:relative/path`
+ */
+const localBackend: FileManagerBackend<{ followExternalSymlinks: "boolean" }, LocalFileManagerOptions> = {
+	scheme: "file",
+	params: { followExternalSymlinks: "boolean" },
+	create({ authority, path }, params, options) {
+		if (authority && authority !== "localhost") {
+			throw new FileManagerError(400, `A file: store URL can't designate another host (${authority})`);
+		}
+		// The drive letter of a Windows path follows the slash of the authority
+		const rootDir = authority === undefined ? path : path.replace(/^\/([a-zA-Z]:)/, "$1");
+		if (!rootDir) {
+			throw new FileManagerError(400, "A file: store URL must contain the path of a directory");
+		}
+		return new LocalFileManager({ ...options, ...params, rootDir });
+	}
+};
+
+/**
+ * The named memory stores, shared by all the file managers created with their URL,
+ * with the options they were created with
+ */
+const memoryStores = new Map<string, { store: InMemoryFileManager; options: InMemoryFileManagerOptions }>();
+
+/**
+ * Tells if two sets of options have the same values (the undefined options are ignored)
+ */
+const isSameOptions = (options: object, other: object) => {
+	const defined = (value: object) => Object.entries(value).filter(([, option]) => option !== undefined);
+	const otherOptions = new Map(defined(other));
+	const entries = defined(options);
+	return (
+		entries.length === otherOptions.size &&
+		entries.every(([name, option]) => otherOptions.get(name) === option)
+	);
+};
+
+/**
+ * `memory://name` (or `memory:` for a new store that is not shared) : the first URL of a named store configures it,
+ * the next ones can only repeat its options, or omit them
+ */
+const memoryBackend: FileManagerBackend<StoreParamTypes, InMemoryFileManagerOptions> = {
+	scheme: "memory",
+	create({ authority, path }, _params, options) {
+		if (path && path !== "/") {
+			throw new FileManagerError(
+				400,
+				"A memory: store URL only holds the name of the store (memory://name)"
+			);
+		}
+		if (!authority) return new InMemoryFileManager(options);
+
+		const shared = memoryStores.get(authority);
+		if (!shared) {
+			const store = new InMemoryFileManager(options);
+			memoryStores.set(authority, { store, options });
+			return store;
+		}
+		if (Object.keys(options).length > 0 && !isSameOptions(options, shared.options)) {
+			throw new FileManagerError(
+				400,
+				`The memory store '${authority}' already exists with other options : only its first URL configures it`
+			);
+		}
+		return shared.store;
+	}
+};
+
+/**
+ * `s3://bucket/prefix` : without the credentials options, the credentials of the environment are used
+ * (`AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY` and `AWS_SESSION_TOKEN`, and the `AWS_REGION`)
+ */
+const s3Backend: FileManagerBackend<
+	{ region: "string"; endpoint: "string"; forcePathStyle: "boolean"; partSize: "number" },
+	S3FileManagerOptions
+> = {
+	scheme: "s3",
+	params: { region: "string", endpoint: "string", forcePathStyle: "boolean", partSize: "number" },
+	create({ authority, path }, params, { accessKeyId, secretAccessKey, sessionToken, ...options }) {
+		if (!authority) {
+			throw new FileManagerError(400, "An S3 store URL must look like s3://bucket/prefix");
+		}
+		const env = process.env;
+		// The credentials of the options and of the environment are not mixed
+		const credentials = accessKeyId
+			? { accessKeyId, secretAccessKey, sessionToken }
+			: {
+					accessKeyId: env.AWS_ACCESS_KEY_ID,
+					secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+					sessionToken: env.AWS_SESSION_TOKEN
+				};
+		if (!credentials.accessKeyId || !credentials.secretAccessKey) {
+			throw new FileManagerError(
+				400,
+				"An S3 store needs credentials : pass the accessKeyId and secretAccessKey options (or set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY)"
+			);
+		}
+		return new S3FileManager({
+			...options,
+			...params,
+			region: params.region ?? options.region ?? env.AWS_REGION,
+			bucket: authority,
+			prefix: path,
+			accessKeyId: credentials.accessKeyId,
+			secretAccessKey: credentials.secretAccessKey,
+			sessionToken: credentials.sessionToken
+		});
+	}
+};
 
 /**
- * Factory that create one of the various FileManager implementations.
+ * Factory that create one of the various FileManager implementations from the URL of its store.
+ * Each implementation is a backend registered for a scheme : new ones can be added with `register()`.
  */
 export class FileManagerFactory {
+	private static backends = new Map<string, FileManagerBackend>(
+		[
+			githubBackend,
+			{ ...githubBackend, scheme: "https" },
+			googleDriveBackend,
+			localBackend,
+			memoryBackend,
+			s3Backend
+		].map((backend) => [backend.scheme, backend as unknown as FileManagerBackend])
+	);
+
+	/**
+	 * Adds a backend, or replaces the backend of the same scheme
+	 */
+	static register<Types extends StoreParamTypes, Options extends object>(
+		backend: FileManagerBackend<Types, Options>
+	) {
+		if (!/^[a-z][a-z0-9+.-]*$/.test(backend.scheme)) {
+			throw new FileManagerError(400, `Invalid scheme: '${backend.scheme}' (use lower case letters)`);
+		}
+		FileManagerFactory.backends.set(backend.scheme, backend as unknown as FileManagerBackend);
+	}
+
+	static unregister(scheme: string) {
+		FileManagerFactory.backends.delete(scheme);
+	}
+
+	/**
+	 * The query parameters accepted by the backend of a scheme, with their types
+	 */
+	static getParams(scheme: string): StoreParamTypes | undefined {
+		return FileManagerFactory.backends.get(scheme.toLowerCase())?.params;
+	}
+
+	/**
+	 * The schemes of the registered backends
+	 */
+	static get schemes(): string[] {
+		return [...FileManagerFactory.backends.keys()];
+	}
+
 	/**
 	 * @param storeUrl The URL of the file manager store to use
-	 * @param options
+	 * (`github://owner/repo#branch:/subdir`, `gdrive:///folder`, `file:///abs/path`, `s3://bucket/prefix`..)
+	 * @param options The options of the file manager that the URL does not hold
 	 * @returns FileManagerInterface
+	 * @throws FileManagerError (400) if the scheme is unknown, or if the URL or the options are invalid
 	 */
-	static createFileManager(storeUrl: string, options?: FileManagerOptions) {
-		const [type, store] = storeUrl.split(":");
-
-		switch (type) {
-			case "https":
-				if (!storeUrl.startsWith("https://github.com/")) {
-					break;
-				}
-				return new GithubFileManager({
-					...(options as GithubFileManagerOptions),
-					githubRepoUrl: storeUrl
-				});
-			case "memory":
-				return new InMemoryFileManager();
-			case "file":
-				return new LocalFileManager({
-					rootDir: store
-				});
-			default:
-				throw new FileManagerError(400, `Unknown file manager type: ${type}`);
+	static createFileManager<Options extends object = FileManagerOptions>(
+		storeUrl: string,
+		options: Options = {} as Options
+	): FileManagerInterface {
+		const url = parseStoreUrl(storeUrl);
+		const backend = FileManagerFactory.backends.get(url.scheme);
+		if (!backend) {
+			throw new FileManagerError(
+				400,
+				`Unknown file manager type: ${url.scheme} (expected: ${FileManagerFactory.schemes.join(", ")})`
+			);
 		}
+		return backend.create(url, readParams(url, backend.params), options);
 	}
 }
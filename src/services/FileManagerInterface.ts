@@ -1,4 +1,284 @@
-import type { ResourceInfo } from "./ResourceInfo";
+import type { ResourceInfo } from "../utils/ResourceInfo";
+import type { SearchIndex } from "../utils/SearchIndex";
+import type { Watcher } from "../utils/Watcher";
+
+/**
+ * What to do when the destination of a copy or a move already exists :
+ * - `fail` : reject with an error (default)
+ * - `overwrite` : replace the existing destination
+ * - `merge` : only for directories, add the content to the existing destination (replacing the files with the same path)
+ */
+export type ConflictStrategy = "fail" | "overwrite" | "merge";
+
+/**
+ * The name and email of the person (or bot) behind a change
+ */
+export interface Identity {
+	name: string;
+	email: string;
+}
+
+/**
+ * Describes a change made on the backend service.
+ * Each backend keeps what it can : Github commits use all of them, Google Drive stores the message
+ * as the file `description` and the metadata as its `appProperties`, the other backends ignore them.
+ */
+export interface WriteOptions {
+	/**
+	 * The commit message, or the description of the file
+	 */
+	message?: string;
+	author?: Identity;
+	committer?: Identity;
+	/**
+	 * Arbitrary key/value pairs attached to the change
+	 */
+	metadata?: Record<string, string>;
+	/**
+	 * Only write or delete the file if its current `etag` (as returned by `stat()`) is this one :
+	 * the change is rejected with a ConflictError if the file has been modified (or deleted) since it was read.
+	 * Checked by `updateTextFile()`, `updateBinaryFile()`, `writeStream()` and `deleteFile()`.
+	 */
+	ifMatch?: string;
+	/**
+	 * Pass `*` to only create the file if it does not exist yet (otherwise the change is rejected with a ConflictError).
+	 * Checked by `updateTextFile()`, `updateBinaryFile()` and `writeStream()`.
+	 */
+	ifNoneMatch?: "*";
+}
+
+export type WriteOperation =
+	| "create"
+	| "update"
+	| "delete"
+	| "createDirectory"
+	| "deleteDirectory"
+	| "move"
+	| "copy"
+	| "restore";
+
+/**
+ * A change to describe with a message
+ */
+export interface WriteDescription {
+	operation: WriteOperation;
+	/**
+	 * The path of the written resource (the source of a move or a copy)
+	 */
+	path: string;
+	/**
+	 * The destination of a move or a copy
+	 */
+	destination?: string;
+	/**
+	 * The id of the restored revision
+	 */
+	revision?: string;
+}
+
+/**
+ * Builds the message of a change when no message is given in the write options
+ */
+export type MessageTemplate = (write: WriteDescription) => string;
+
+/**
+ * A past version of a file
+ */
+export interface Revision {
+	/**
+	 * The id to pass to `getFileContent()` or `restoreRevision()` (a commit sha on Github)
+	 */
+	id: string;
+	timestamp: Date;
+	author?: Identity;
+	/**
+	 * The size of the file content at this revision
+	 */
+	size?: number;
+	message?: string;
+}
+
+export interface ReadOptions {
+	/**
+	 * The id of the revision to read. Default: the current version
+	 */
+	revision?: string;
+}
+
+export interface TransferOptions extends WriteOptions {
+	/**
+	 * What to do when the destination already exists. Default: `fail`
+	 */
+	onConflict?: ConflictStrategy;
+}
+
+/**
+ * The kinds of change reported by `watch()`
+ */
+export type ChangeType = "created" | "updated" | "deleted" | "moved";
+
+/**
+ * A change noticed by `watch()`
+ */
+export interface ChangeEvent {
+	type: ChangeType;
+	/**
+	 * The changed resource (its new location for a `moved` event)
+	 */
+	resource: ResourceInfo;
+	/**
+	 * The previous location of a `moved` resource
+	 */
+	from?: ResourceInfo;
+	/**
+	 * Pass it to `watch()` to resume watching after this change
+	 */
+	cursor?: string;
+}
+
+export interface WatchOptions {
+	/**
+	 * Pass TRUE to watch the changes in all the sub directories. Default: FALSE
+	 */
+	recursive?: boolean;
+	/**
+	 * Wait for this many milliseconds without new change on a resource before reporting it,
+	 * merging its successive changes into one event. Default: 0 (no debouncing)
+	 */
+	debounce?: number;
+	/**
+	 * The cursor of the last change received by a previous watcher : the changes made since are reported first
+	 */
+	cursor?: string;
+	/**
+	 * How often (in milliseconds) the backends without push notifications check for changes
+	 */
+	interval?: number;
+}
+
+export interface FindOptions {
+	/**
+	 * The directory to search. Default: the root directory
+	 */
+	path?: string;
+	/**
+	 * The glob patterns that the paths (relative to the searched directory) must match.
+	 * The patterns starting with `!` exclude the matching resources, and the content of the matching directories.
+	 * Default: `**` (everything)
+	 */
+	pattern?: string | string[];
+	/**
+	 * Only find the files or the directories. Default: both
+	 */
+	type?: "file" | "dir";
+	/**
+	 * Only find the files with one of these extensions (like `md` or `.tar.gz`)
+	 */
+	extensions?: string[];
+	/**
+	 * How deep to search : 1 only finds the direct content of the directory. Default: no limit
+	 */
+	maxDepth?: number;
+	/**
+	 * A last test on the found resources
+	 */
+	filter?: (resource: ResourceInfo) => boolean;
+}
+
+export interface IterateDirectoryOptions {
+	/**
+	 * The number of resources fetched from the backend at once. Default: 100
+	 */
+	pageSize?: number;
+	/**
+	 * Pass TRUE to also iterate over the content of the sub directories. Default: FALSE
+	 */
+	recursive?: boolean;
+}
+
+export interface ListPageOptions {
+	/**
+	 * The maximum number of resources in the page. Default: 100
+	 */
+	pageSize?: number;
+	/**
+	 * The cursor returned with the previous page. Default: the first page
+	 */
+	cursor?: string;
+}
+
+/**
+ * A part of the content of a directory
+ */
+export interface ListPage {
+	items: ResourceInfo[];
+	/**
+	 * Pass it to `listPage()` to get the next page (there is no cursor on the last page)
+	 */
+	cursor?: string;
+}
+
+export interface SearchOptions {
+	/**
+	 * Pass TRUE if the query is a regular expression. Default: FALSE (the query is a plain string)
+	 */
+	regex?: boolean;
+	/**
+	 * Default: TRUE
+	 */
+	caseSensitive?: boolean;
+	/**
+	 * Only search the files matching these glob patterns (relative to the searched directory)
+	 */
+	glob?: string | string[];
+	/**
+	 * Stop searching after this many matches. Default: no limit
+	 */
+	maxResults?: number;
+	/**
+	 * The number of lines returned before and after each matching line. Default: 0
+	 */
+	context?: number;
+	/**
+	 * The maximum number of files read at the same time. Default: 8
+	 */
+	concurrency?: number;
+	/**
+	 * Only read the files that the index tells may contain the query
+	 */
+	index?: SearchIndex;
+}
+
+/**
+ * An occurrence of the query found by `search()`
+ */
+export interface SearchMatch {
+	path: string;
+	/**
+	 * The number of the matching line (starting at 1)
+	 */
+	line: number;
+	/**
+	 * The position of the match in the line (starting at 1)
+	 */
+	column: number;
+	/**
+	 * The matched text
+	 */
+	match: string;
+	/**
+	 * The whole matching line
+	 */
+	text: string;
+	/**
+	 * The context lines before the matching line
+	 */
+	before: string[];
+	/**
+	 * The context lines after the matching line
+	 */
+	after: string[];
+}
 
 /**
  * This interface describes all the available methods of any FileManager instance
@@ -12,9 +292,44 @@ export interface FileManagerInterface {
 	/**
 	 * Retrieves the content of a file on the backend service.
 	 * @param path The path of the file to retrieve
+	 * @param options The revision to read
 	 * @returns A promise that resolves to the text content or to a binary Buffer
 	 */
-	getFileContent(path: string): Promise<string | Buffer>;
+	getFileContent(path: string, options?: ReadOptions): Promise<string | Buffer>;
+
+	/**
+	 * Lists the past versions of a file, the most recent first
+	 * @param path The path of the file
+	 * @returns A promise that resolves to the revisions of the file
+	 */
+	listRevisions(path: string): Promise<Revision[]>;
+
+	/**
+	 * Replaces the content of a file with its content at a past revision
+	 * (this creates a new revision)
+	 * @param path The path of the file
+	 * @param revision The id of the revision to restore
+	 * @param options Describes the change
+	 * @returns A promise that resolves to void on success, or rejects with an error
+	 */
+	restoreRevision(path: string, revision: string, options?: WriteOptions): Promise<void>;
+
+	/**
+	 * Opens a stream to read the content of a file on the backend service,
+	 * without loading the whole file in memory.
+	 * @param path The path of the file to read
+	 * @returns A promise that resolves to a readable stream of the file's bytes
+	 */
+	readStream(path: string): Promise<ReadableStream<Uint8Array>>;
+
+	/**
+	 * Opens a stream to create or replace the content of a file on the backend service.
+	 * The new content is only guaranteed to be stored once the stream has been closed.
+	 * @param path The path of the file to write
+	 * @param options Describes the change
+	 * @returns A promise that resolves to a writable stream accepting the file's bytes
+	 */
+	writeStream(path: string, options?: WriteOptions): Promise<WritableStream<Uint8Array>>;
 
 	/**
 	 * Get detailed info about the resource on this path
@@ -22,48 +337,130 @@ export interface FileManagerInterface {
 	 */
 	getInfo(path: string): ResourceInfo;
 
+	/**
+	 * Retrieves the info of an existing resource, enriched with the metadata
+	 * reported by the backend service (size, modification time, etag, MIME type..)
+	 * @param path The path of the file or folder
+	 * @returns A promise that resolves to the resource info, or rejects with a FileNotFoundError
+	 */
+	stat(path: string): Promise<ResourceInfo>;
+
+	/**
+	 * Checks if a file or folder exists on the backend service
+	 * @param path The path of the file or folder
+	 * @returns A promise that resolves to TRUE if the resource exists
+	 */
+	exists(path: string): Promise<boolean>;
+
 	/**
 	 * Create or Update a text file on the backend service.
 	 * @param path The path of the file to update
 	 * @param content The new text content of the file
+	 * @param options Describes the change
 	 * @returns A promise that resolves to void on success, or rejects with an error
 	 */
-	updateTextFile(path: string, content: string): Promise<void>;
+	updateTextFile(path: string, content: string, options?: WriteOptions): Promise<void>;
 
 	/**
 	 * Create or Update a binary file on the backend service.
 	 * @param path The path of the file to update
 	 * @param content The new binary content of the file
+	 * @param options Describes the change
 	 * @returns A promise that resolves to void on success, or rejects with an error
 	 */
-	updateBinaryFile(path: string, content: Buffer): Promise<void>;
+	updateBinaryFile(path: string, content: Buffer, options?: WriteOptions): Promise<void>;
 
 	/**
 	 * Delete a file on the backend service.
 	 * @param path The path of the file to delete
+	 * @param options Describes the change
 	 * @returns A promise that resolves to void on success, or rejects with an error
 	 */
-	deleteFile(path: string): Promise<void>;
+	deleteFile(path: string, options?: WriteOptions): Promise<void>;
+
+	/**
+	 * Move or rename a file or a whole directory on the backend service.
+	 * @param from The path of the file or directory to move
+	 * @param to The new path of the file or directory
+	 * @param options What to do if the destination already exists, and the description of the change
+	 * @returns A promise that resolves to void on success, or rejects with an error
+	 */
+	move(from: string, to: string, options?: TransferOptions): Promise<void>;
+
+	/**
+	 * Copy a file or a whole directory on the backend service.
+	 * @param from The path of the file or directory to copy
+	 * @param to The path of the copy
+	 * @param options What to do if the destination already exists, and the description of the change
+	 * @returns A promise that resolves to void on success, or rejects with an error
+	 */
+	copy(from: string, to: string, options?: TransferOptions): Promise<void>;
 
 	/**
 	 * List the content of a directory on the backend service.
+	 * The returned resources include their metadata when the backend provides it with the listing.
 	 * @param {string} path The path of the directory to scan
 	 * @param {boolean} recursive Pass TRUE to scan all child directories. Default: FALSE
 	 * @returns A promise that resolves to an array of ResourceInfo objects
 	 */
 	listDirectoryContent(path: string, recursive?: boolean): Promise<ResourceInfo[]>;
 
+	/**
+	 * Iterate over the content of a directory, fetching it page by page from the backend service
+	 * so that huge directories are never loaded at once.
+	 * @param path The path of the directory to scan
+	 * @param options The size of the pages, and if the sub directories must be scanned
+	 * @returns The resources of the directory, to consume with `for await`
+	 */
+	iterateDirectory(path: string, options?: IterateDirectoryOptions): AsyncIterable<ResourceInfo>;
+
+	/**
+	 * List one page of the content of a directory
+	 * @param path The path of the directory to scan
+	 * @param options The size of the page, and the cursor of the previous page
+	 * @returns A promise that resolves to the resources of the page, and to the cursor of the next page
+	 */
+	listPage(path: string, options?: ListPageOptions): Promise<ListPage>;
+
 	/**
 	 * Create a new directory on the backend service.
 	 * @param path The path of the directory to create
+	 * @param options Describes the change
 	 * @returns A promise that resolves to void on success, or rejects with an error
 	 */
-	createDirectory(path: string): Promise<void>;
+	createDirectory(path: string, options?: WriteOptions): Promise<void>;
 
 	/**
 	 * Delete a directory on the backend service.
 	 * @param path The path of the directory to delete
+	 * @param options Describes the change
 	 * @returns A promise that resolves to void on success, or rejects with an error
 	 */
-	deleteDirectory(path: string): Promise<void>;
+	deleteDirectory(path: string, options?: WriteOptions): Promise<void>;
+
+	/**
+	 * Watch the changes of a file or of the content of a directory.
+	 * The events can be consumed with `for await` or with `watcher.on("change", listener)`.
+	 * @param path The path of the file or directory to watch
+	 * @param options Watch the sub directories, debounce the changes, resume from a cursor
+	 * @returns The watcher : call its `close()` method to stop watching
+	 */
+	watch(path: string, options?: WatchOptions): Watcher;
+
+	/**
+	 * Find the files and directories matching a glob pattern (like `content/**\/*.md`) or some search options.
+	 * The directories that cannot contain a match are not listed.
+	 * @param query A glob pattern, or the search options
+	 * @returns The matching resources, to consume with `for await`
+	 */
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo>;
+
+	/**
+	 * Search a string or a regular expression in the text files of a directory (and of its sub directories)
+	 * @param path The directory to search
+	 * @param query The searched string, or the source of a regular expression
+	 * @param options Which files to search, how to match and how many results to return
+	 * @returns A promise that resolves to the matches, sorted by path and position
+	 */
+	search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]>;
 }
@@ -1,6 +1,8 @@
-import { beforeAll, describe, it } from "bun:test";
-import { testSuite } from "./FileManager.spec";
-import { GithubFileManager } from "./GithubFileManager";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "bun:test";
+import { FakeGithubApi } from "../testing/FakeGithubApi";
+import { hostilePathsTestSuite, revisionsTestSuite, testSuite } from "./FileManager.spec";
+import { FileManagerError, FileNotFoundError, FileUpdateError, PathError } from "./FileManagerErrors";
+import { GithubFileManager, type GithubFileManagerOptions } from "./GithubFileManager";
 
 function createFileManager() {
 	return new GithubFileManager({
@@ -29,3 +31,456 @@ describe("GithubFileManager", async () => {
 		await testSuite("GithubFileManager", createFileManager, cleanup)();
 	});
 });
+
+describe("GithubFileManager (fake Github API)", () => {
+	const fakeApi = new FakeGithubApi();
+	const githubApiUrl = fakeApi.start();
+
+	/**
+	 * Each test starts with an empty repository
+	 */
+	function createFakeFileManager(options: Partial<GithubFileManagerOptions> = {}) {
+		fakeApi.reset();
+		return new GithubFileManager({
+			githubRepoUrl: "https://github.com/fake/repo",
+			githubApplicationToken: "fake-token",
+			githubApiUrl,
+			...options
+		});
+	}
+
+	afterAll(() => fakeApi.stop());
+
+	testSuite("GithubFileManager", createFakeFileManager)();
+
+	revisionsTestSuite("GithubFileManager", createFakeFileManager)();
+
+	hostilePathsTestSuite("GithubFileManager", createFakeFileManager)();
+
+	it("refuses to write inside the .git directory", async () => {
+		const fileManager = createFakeFileManager();
+
+		await expect(fileManager.updateTextFile("/.git/config", "[core]")).rejects.toThrow(PathError);
+	});
+
+	describe("batch()", () => {
+		let fileManager: GithubFileManager;
+
+		beforeEach(() => {
+			fileManager = createFakeFileManager();
+		});
+
+		it("commits all the changes at once", async () => {
+			fakeApi.seed({ "old.html": "old", "assets/a.css": "a", "assets/b.css": "b" });
+			const head = fakeApi.getBranchHead();
+
+			await fileManager.batch(async (tx) => {
+				tx.updateTextFile("/index.html", "<h1>Hello</h1>");
+				tx.updateBinaryFile("/logo.png", Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+				tx.deleteFile("/old.html");
+				tx.deleteDirectory("/assets/");
+			}, "Publish the site");
+
+			const commit = fakeApi.getCommit(fakeApi.getBranchHead() as string);
+			expect(commit?.message).toBe("Publish the site");
+			expect(commit?.parents).toEqual([head as string]);
+			expect(fakeApi.readFile("index.html")).toBe("<h1>Hello</h1>");
+			expect(fakeApi.readFile("logo.png")).toBeDefined();
+			expect(fakeApi.readFile("old.html")).toBeUndefined();
+			expect(fakeApi.readFile("assets/a.css")).toBeUndefined();
+		});
+
+		it("commits nothing when the callback fails", async () => {
+			const head = fakeApi.getBranchHead();
+			const failingBatch = fileManager.batch(async (tx) => {
+				tx.updateTextFile("/index.html", "<h1>Hello</h1>");
+				throw new Error("Something went wrong");
+			}, "Publish the site");
+
+			await expect(failingBatch).rejects.toThrow("Something went wrong");
+			expect(fakeApi.getBranchHead()).toBe(head);
+		});
+
+		it("leaves the branch untouched when a request fails", async () => {
+			const head = fakeApi.getBranchHead();
+			fakeApi.interceptor = (method, route) =>
+				method === "POST" && route === "git/commits"
+					? Response.json({ message: "Boom" }, { status: 500 })
+					: undefined;
+
+			const changes = Array.from({ length: 20 }, (_, i) => ({
+				type: "write" as const,
+				path: `/pages/page-${i}.html`,
+				content: `Page ${i}`
+			}));
+
+			await expect(fileManager.commitChanges(changes, "Publish")).rejects.toBeInstanceOf(
+				FileUpdateError
+			);
+			expect(fakeApi.getBranchHead()).toBe(head);
+			expect(fakeApi.readFile("pages/page-0.html")).toBeUndefined();
+		});
+
+		it("does not overwrite a concurrent commit", async () => {
+			fakeApi.interceptor = (method, route) => {
+				if (method === "POST" && route === "git/commits") {
+					// Someone else commits while the batch is being prepared
+					fakeApi.interceptor = undefined;
+					fakeApi.seed({ "concurrent.txt": "I was here first" });
+				}
+				return undefined;
+			};
+
+			await expect(
+				fileManager.commitChanges([{ type: "write", path: "/mine.txt", content: "Mine" }], "Add mine")
+			).rejects.toBeInstanceOf(FileUpdateError);
+			expect(fakeApi.readFile("concurrent.txt")).toBe("I was here first");
+			expect(fakeApi.readFile("mine.txt")).toBeUndefined();
+		});
+	});
+
+	describe("branches and refs", () => {
+		let fileManager: GithubFileManager;
+
+		beforeEach(() => {
+			fileManager = createFakeFileManager();
+		});
+
+		it("creates and lists branches", async () => {
+			fakeApi.seed({ "index.html": "<h1>Home</h1>" });
+			const branch = await fileManager.createBranch("preview");
+
+			expect(branch).toEqual({ name: "preview", sha: fakeApi.getBranchHead() as string });
+			expect(fakeApi.getBranchHead("preview")).toBe(branch.sha);
+			expect((await fileManager.listBranches()).map(({ name }) => name).sort()).toEqual([
+				"main",
+				"preview"
+			]);
+		});
+
+		it("creates a branch from a tag or a commit", async () => {
+			const firstCommit = fakeApi.seed({ "index.html": "v1" });
+			fakeApi.tag("v1.0.0");
+			fakeApi.seed({ "index.html": "v2" });
+
+			expect((await fileManager.createBranch("from-tag", "v1.0.0")).sha).toBe(firstCommit);
+			expect((await fileManager.createBranch("from-sha", firstCommit)).sha).toBe(firstCommit);
+			expect(fakeApi.readFile("index.html", "from-tag")).toBe("v1");
+		});
+
+		it("rejects existing branches and unknown refs", async () => {
+			await fileManager.createBranch("preview");
+
+			await expect(fileManager.createBranch("preview")).rejects.toMatchObject({ code: 409 });
+			await expect(fileManager.createBranch("other", "unknown")).rejects.toBeInstanceOf(
+				FileManagerError
+			);
+		});
+
+		it("reads and writes on the configured branch only", async () => {
+			fakeApi.seed({ "index.html": "main" });
+			await fileManager.createBranch("preview");
+			const previewManager = new GithubFileManager({
+				githubRepoUrl: "https://github.com/fake/repo",
+				githubApplicationToken: "fake-token",
+				githubApiUrl,
+				branch: "preview"
+			});
+
+			await previewManager.updateTextFile("/index.html", "preview");
+			await previewManager.updateTextFile("/new-page.html", "new");
+			await previewManager.batch((tx) => tx.deleteFile("/new-page.html"), "Remove the new page");
+
+			expect(await previewManager.getFileContent("/index.html")).toBe("preview");
+			expect(fakeApi.readFile("index.html", "preview")).toBe("preview");
+			expect(fakeApi.readFile("index.html")).toBe("main");
+			expect(await fileManager.getFileContent("/index.html")).toBe("main");
+		});
+
+		it("reads files as of a tag or a commit", async () => {
+			const firstCommit = fakeApi.seed({ "docs/index.md": "v1" });
+			fakeApi.tag("v1.0.0");
+			await fileManager.updateTextFile("/docs/index.md", "v2");
+			await fileManager.updateTextFile("/docs/guide.md", "guide");
+
+			expect(await fileManager.getFileContent("/docs/index.md")).toBe("v2");
+			expect(await fileManager.getFileContent("/docs/index.md", { ref: "v1.0.0" })).toBe("v1");
+			expect(await fileManager.getFileContent("/docs/index.md", { ref: firstCommit })).toBe("v1");
+			expect(await fileManager.exists("/docs/guide.md", { ref: "v1.0.0" })).toBe(false);
+			await expect(fileManager.stat("/docs/guide.md", { ref: firstCommit })).rejects.toBeInstanceOf(
+				FileNotFoundError
+			);
+			expect(
+				(await fileManager.listDirectoryContent("/docs/", false, { ref: "v1.0.0" })).map(
+					({ path }) => path
+				)
+			).toEqual(["/docs/index.md"]);
+		});
+	});
+
+	describe("proposals", () => {
+		const editor = { name: "Jane Editor", email: "jane@example.com" };
+		let fileManager: GithubFileManager;
+
+		beforeEach(() => {
+			fileManager = createFakeFileManager();
+			fakeApi.seed({ "index.html": "<h1>Home</h1>" });
+		});
+
+		it("commits the changes on a new branch and opens a pull request", async () => {
+			const mainHead = fakeApi.getBranchHead();
+			const proposal = await fileManager.proposeChanges(
+				(tx) => {
+					tx.updateTextFile("/index.html", "<h1>New home</h1>");
+					tx.updateTextFile("/about.html", "<h1>About</h1>");
+				},
+				{ title: "New home page", body: "Please review", labels: ["content"] }
+			);
+
+			expect(proposal).toMatchObject({
+				number: 1,
+				url: "https://github.com/fake/repo/pull/1",
+				title: "New home page",
+				body: "Please review",
+				labels: ["content"],
+				base: "main",
+				state: "open",
+				merged: false
+			});
+			expect(proposal.branch).toStartWith("proposals/");
+			expect(fakeApi.getPullRequest(1)?.labels).toEqual(["content"]);
+			expect(fakeApi.getBranchHead()).toBe(mainHead);
+			expect(fakeApi.readFile("about.html", proposal.branch)).toBe("<h1>About</h1>");
+
+			const commit = fakeApi.getCommit(fakeApi.getBranchHead(proposal.branch) as string);
+			expect(commit?.message).toBe("New home page");
+			expect(commit?.parents).toEqual([mainHead as string]);
+		});
+
+		it("uses the given branch, commit message and identities", async () => {
+			const { branch } = await fileManager.proposeChanges((tx) => tx.deleteFile("/index.html"), {
+				title: "Remove the home page",
+				branch: "remove-home",
+				message: "Remove index.html",
+				author: editor,
+				committer: editor
+			});
+
+			const commit = fakeApi.getCommit(fakeApi.getBranchHead("remove-home") as string);
+			expect(branch).toBe("remove-home");
+			expect(commit?.message).toBe("Remove index.html");
+			expect(commit?.author).toMatchObject(editor);
+			expect(commit?.committer).toMatchObject(editor);
+		});
+
+		it("leaves nothing behind when the pull request cannot be opened", async () => {
+			fakeApi.interceptor = (method, route) =>
+				method === "POST" && route === "pulls"
+					? Response.json({ message: "Boom" }, { status: 500 })
+					: undefined;
+
+			await expect(
+				fileManager.proposeChanges((tx) => tx.updateTextFile("/index.html", "Nope"), {
+					title: "Broken",
+					branch: "broken"
+				})
+			).rejects.toThrow();
+			expect(fakeApi.getBranchHead("broken")).toBeUndefined();
+		});
+
+		it("lists, merges and closes the proposals", async () => {
+			const first = await fileManager.proposeChanges((tx) => tx.updateTextFile("/a.txt", "A"), {
+				title: "Add A"
+			});
+			const second = await fileManager.proposeChanges((tx) => tx.updateTextFile("/b.txt", "B"), {
+				title: "Add B"
+			});
+			expect((await fileManager.listProposals()).map(({ number }) => number)).toEqual([1, 2]);
+
+			await fileManager.mergeProposal(first.number, { method: "squash" });
+			expect(await fileManager.getFileContent("/a.txt")).toBe("A");
+			expect(fakeApi.getBranchHead(first.branch)).toBeUndefined();
+
+			// The second proposal is not based on the last commit of main anymore
+			await expect(fileManager.mergeProposal(second.number)).rejects.toMatchObject({ code: 409 });
+
+			await fileManager.closeProposal(second.number);
+			expect(fakeApi.getPullRequest(second.number)?.state).toBe("closed");
+			expect(fakeApi.getBranchHead(second.branch)).toBeUndefined();
+			expect(await fileManager.listProposals()).toEqual([]);
+		});
+
+		it("commits the direct writes with the configured identity and message", async () => {
+			const editorManager = new GithubFileManager({
+				githubRepoUrl: "https://github.com/fake/repo",
+				githubApplicationToken: "fake-token",
+				githubApiUrl,
+				author: editor
+			});
+
+			await editorManager.updateTextFile("/index.html", "<h1>Hi</h1>", { message: "Say hi" });
+
+			const commit = fakeApi.getCommit(fakeApi.getBranchHead() as string);
+			expect(commit?.message).toBe("Say hi");
+			expect(commit?.author).toMatchObject(editor);
+		});
+	});
+
+	describe("recursive listings", () => {
+		const files = {
+			"site/index.md": "Index",
+			"site/posts/2024/first.md": "First",
+			"site/posts/2024/second.md": "Second",
+			"site/assets/logo.svg": "<svg/>",
+			"other/readme.md": "Readme"
+		};
+		const listedPaths = (resources: { path: string }[]) => resources.map(({ path }) => path).sort();
+
+		it("lists the whole tree of a directory with a single request", async () => {
+			const fileManager = createFakeFileManager({ rootDir: "site", branch: "main" });
+			fakeApi.seed(files);
+			fakeApi.requestsCount = 0;
+
+			const resources = await fileManager.listDirectoryContent("/posts/", true);
+			expect(listedPaths(resources)).toEqual([
+				"/posts/2024/",
+				"/posts/2024/first.md",
+				"/posts/2024/second.md"
+			]);
+			// The parent directory listing (to find the tree sha) and the tree itself
+			expect(fakeApi.requestsCount).toBe(2);
+
+			const first = resources.find(({ path }) => path === "/posts/2024/first.md");
+			expect(first?.size).toBe(5);
+			expect(first?.etag).toBe((await fileManager.stat("/posts/2024/first.md")).etag);
+		});
+
+		it("lists the root directory inside the root folder of the file manager", async () => {
+			const fileManager = createFakeFileManager({ rootDir: "site" });
+			fakeApi.seed(files);
+
+			expect(listedPaths(await fileManager.listDirectoryContent("/", true))).toEqual([
+				"/assets/",
+				"/assets/logo.svg",
+				"/index.md",
+				"/posts/",
+				"/posts/2024/",
+				"/posts/2024/first.md",
+				"/posts/2024/second.md"
+			]);
+			expect(await fileManager.listDirectoryContent("/missing/", true)).toEqual([]);
+		});
+
+		it("lists the trees one by one when Github truncates the listing", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed(files);
+			const expected = listedPaths(await fileManager.listDirectoryContent("/", true));
+			fakeApi.treeEntriesLimit = 3;
+
+			expect(listedPaths(await fileManager.listDirectoryContent("/", true))).toEqual(expected);
+			expect(expected).toContain("/site/posts/2024/second.md");
+		});
+
+		it("moves and deletes all the files of a directory when Github truncates the listing", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed(files);
+			fakeApi.treeEntriesLimit = 3;
+
+			await fileManager.move("/site/posts/", "/blog/");
+			expect(fakeApi.readFile("blog/2024/first.md")).toBe("First");
+			expect(fakeApi.readFile("blog/2024/second.md")).toBe("Second");
+			expect(fakeApi.readFile("site/posts/2024/second.md")).toBeUndefined();
+
+			await fileManager.deleteDirectory("/site/");
+			expect(fakeApi.readFile("site/index.md")).toBeUndefined();
+			expect(fakeApi.readFile("site/assets/logo.svg")).toBeUndefined();
+			expect(fakeApi.readFile("other/readme.md")).toBe("Readme");
+		});
+	});
+
+	describe("watch()", () => {
+		it("reports the changes of the new commits", async () => {
+			const fileManager = createFakeFileManager();
+			await fileManager.updateTextFile("/docs/draft.md", "Draft");
+			await fileManager.updateTextFile("/docs/index.md", "Index");
+			const watcher = fileManager.watch("/docs/", { interval: 10 });
+			const changes = watcher[Symbol.asyncIterator]();
+			await watcher.ready;
+			const startCursor = watcher.cursor;
+
+			await fileManager.batch((tx) => {
+				tx.updateTextFile("/docs/index.md", "New index");
+				tx.deleteFile("/docs/draft.md");
+				tx.updateTextFile("/docs/post.md", "Draft");
+				tx.updateTextFile("/elsewhere.md", "Not watched");
+			}, "Publish the draft");
+
+			const events = [(await changes.next()).value, (await changes.next()).value];
+			expect(events.map(({ type, resource, from }) => [type, resource.path, from?.path])).toEqual([
+				["updated", "/docs/index.md", undefined],
+				["moved", "/docs/post.md", "/docs/draft.md"]
+			]);
+			expect(watcher.cursor).toBe(fakeApi.getBranchHead() as string);
+			await watcher.close();
+
+			// The same changes are reported again when resuming from the cursor taken before them
+			const resumed = fileManager.watch("/docs/", { cursor: startCursor, interval: 10 });
+			expect((await resumed[Symbol.asyncIterator]().next()).value).toMatchObject({ type: "updated" });
+			await resumed.close();
+		});
+	});
+
+	describe("write options", () => {
+		const author = { name: "Jane Editor", email: "jane@example.com" };
+		const lastCommit = () => fakeApi.getCommit(fakeApi.getBranchHead() as string);
+
+		it("commits with the given message, author and committer", async () => {
+			const fileManager = createFakeFileManager();
+			await fileManager.updateBinaryFile("/logo.png", Buffer.from([1, 2, 3]), {
+				message: "Add the logo",
+				author,
+				committer: author
+			});
+
+			expect(lastCommit()?.message).toBe("Add the logo");
+			expect(lastCommit()?.author).toMatchObject(author);
+			expect(lastCommit()?.committer).toMatchObject(author);
+
+			await fileManager.move("/logo.png", "/assets/logo.png", { message: "Move the logo", author });
+			expect(lastCommit()?.message).toBe("Move the logo");
+			expect(lastCommit()?.author).toMatchObject(author);
+		});
+
+		it("adds the metadata as trailers of the commit message", async () => {
+			const fileManager = createFakeFileManager();
+			await fileManager.updateTextFile("/docs/index.md", "# Docs");
+			await fileManager.deleteDirectory("/docs/", {
+				metadata: { "Reviewed-by": "Jane Editor", Ticket: "DOC-42" }
+			});
+
+			expect(lastCommit()?.message).toBe("Deleted docs\n\nReviewed-by: Jane Editor\nTicket: DOC-42");
+		});
+
+		it("builds the default messages with the message template", async () => {
+			const fileManager = createFakeFileManager({
+				rootDir: "site",
+				messageTemplate: ({ operation, path, destination }) =>
+					`[cms] ${operation} ${path}${destination ? ` -> ${destination}` : ""}`
+			});
+
+			await fileManager.createDirectory("/posts/");
+			expect(lastCommit()?.message).toBe("[cms] createDirectory site/posts");
+			expect(fakeApi.readFile("site/posts/.gitkeep")).toBe("");
+
+			await fileManager.updateTextFile("/posts/hello.md", "Hello");
+			expect(lastCommit()?.message).toBe("[cms] create site/posts/hello.md");
+			await fileManager.updateTextFile("/posts/hello.md", "Hello world");
+			expect(lastCommit()?.message).toBe("[cms] update site/posts/hello.md");
+			await fileManager.copy("/posts/hello.md", "/posts/hi.md");
+			expect(lastCommit()?.message).toBe("[cms] copy site/posts/hello.md -> site/posts/hi.md");
+
+			await fileManager.deleteFile("/posts/hi.md", { message: "Remove the duplicate" });
+			expect(lastCommit()?.message).toBe("Remove the duplicate");
+		});
+	});
+});
@@ -1,9 +1,31 @@
 import { Octokit } from "@octokit/core";
 import { type Api, restEndpointMethods } from "@octokit/plugin-rest-endpoint-methods";
-import type { FileManagerInterface } from "./FileManagerInterface";
-import { FileManagerError, FileNotFoundError, FileUpdateError } from "./FileManagerErrors";
+import type {
+	FileManagerInterface,
+	FindOptions,
+	Identity,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	MessageTemplate,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteDescription,
+	WriteOptions
+} from "./FileManagerInterface";
+import { ConflictError, FileManagerError, FileNotFoundError, FileUpdateError } from "./FileManagerErrors";
+import { findResources } from "../utils/glob-utils";
+import { paginate } from "../utils/paging-utils";
 import { ResourceInfo } from "../utils/ResourceInfo";
-import { normalizePath } from "../utils";
+import { GIT_PATH_RULES, normalizePath, resolvePath } from "../utils";
+import { mapConcurrently } from "../utils/async-utils";
+import { searchFiles } from "../utils/search-utils";
+import { bufferedWritableStream, bytesToStream } from "../utils/stream-utils";
+import { diffResources, Watcher } from "../utils/Watcher";
 
 const OctokitWithRestApi = Octokit.plugin(restEndpointMethods);
 
@@ -16,6 +38,244 @@ type GithubFileInfo = {
 	sha: string | null;
 };
 
+/**
+ * An entry of a Git tree, as accepted by the Git Data API
+ * (a `null` sha removes the entry from the tree)
+ */
+type GitTreeEntry = {
+	path: string;
+	mode: "100644" | "100755" | "040000" | "160000" | "120000";
+	type: "blob" | "tree" | "commit";
+	sha: string | null;
+};
+
+/**
+ * An entry of a Git tree, as listed by the Git Data API
+ */
+type GitTreeListEntry = {
+	path?: string;
+	mode?: string;
+	type?: string;
+	sha?: string;
+	size?: number;
+};
+
+/**
+ * The last commit of a branch and all the files of its tree
+ */
+type GitHead = {
+	branch: string;
+	commitSha: string;
+	treeSha: string;
+	blobs: GitTreeEntry[];
+};
+
+/**
+ * The maximum number of blobs uploaded at the same time when committing a batch of changes
+ */
+const BLOBS_UPLOAD_CONCURRENCY = 8;
+
+/**
+ * The maximum number of file versions retrieved at the same time when listing the revisions of a file
+ */
+const REVISIONS_CONCURRENCY = 8;
+
+/**
+ * The maximum number of Git trees retrieved at the same time when a recursive listing is truncated
+ */
+const TREES_CONCURRENCY = 8;
+
+/**
+ * How often the head of the branch is checked by `watch()` (in milliseconds)
+ */
+const WATCH_INTERVAL = 30_000;
+
+/**
+ * Tells if a path of the Git tree is the given path or is inside this directory path
+ */
+const isInsidePath = (path: string, dirPath: string) => path === dirPath || path.startsWith(`${dirPath}/`);
+
+/**
+ * The commit messages used when no message is given
+ */
+const defaultMessageTemplate: MessageTemplate = ({ operation, path, destination, revision }) => {
+	switch (operation) {
+		case "create":
+			return `Created ${path}`;
+		case "update":
+			return `Updated ${path}`;
+		case "delete":
+			return `Deleted '${path}'`;
+		case "createDirectory":
+			return `Created directory ${path}`;
+		case "deleteDirectory":
+			return `Deleted ${path}`;
+		case "move":
+			return `Moved ${path} to ${destination}`;
+		case "copy":
+			return `Copied ${path} to ${destination}`;
+		case "restore":
+			return `Restored ${path} to ${revision}`;
+	}
+};
+
+/**
+ * A change to apply to the files of the repository :
+ * the creation or update of a file, or the deletion of a file or of a whole directory
+ */
+export type GithubFileChange =
+	| { type: "write"; path: string; content: string | Buffer }
+	| { type: "delete"; path: string };
+
+/**
+ * Collects the changes of a batch : nothing is sent to Github until the batch is committed
+ * @see GithubFileManager.batch()
+ */
+export class GithubBatch {
+	readonly changes: GithubFileChange[] = [];
+
+	updateTextFile(path: string, content: string) {
+		this.changes.push({ type: "write", path, content });
+	}
+
+	updateBinaryFile(path: string, content: Buffer) {
+		this.changes.push({ type: "write", path, content });
+	}
+
+	deleteFile(path: string) {
+		this.changes.push({ type: "delete", path });
+	}
+
+	/**
+	 * Git has no directories : we create instead an empty `.gitkeep` file inside
+	 */
+	createDirectory(path: string) {
+		this.changes.push({ type: "write", path: `${normalizePath(path)}/.gitkeep`, content: "" });
+	}
+
+	deleteDirectory(path: string) {
+		this.changes.push({ type: "delete", path });
+	}
+}
+
+/**
+ * Options of the commits created by `commitChanges()`
+ */
+export interface GithubCommitOptions {
+	/**
+	 * The branch to commit to. Default: the branch of the file manager
+	 */
+	branch?: string;
+	/**
+	 * Default: the author given to the file manager, or the owner of the token
+	 */
+	author?: Identity;
+	/**
+	 * Default: the committer given to the file manager, or the owner of the token
+	 */
+	committer?: Identity;
+}
+
+/**
+ * Options of the read operations
+ * (a revision is a commit SHA : it's the same as a `ref`)
+ */
+export interface GithubReadOptions extends ReadOptions {
+	/**
+	 * The branch, tag or commit SHA to read from.
+	 * Default: the branch of the file manager
+	 */
+	ref?: string;
+}
+
+/**
+ * A branch of the repository and the commit it points to
+ */
+export interface GithubBranch {
+	name: string;
+	sha: string;
+}
+
+/**
+ * Describes the pull request that will carry a set of changes
+ */
+export interface GithubProposalOptions extends Omit<GithubCommitOptions, "branch"> {
+	title: string;
+	body?: string;
+	labels?: string[];
+	/**
+	 * The branch created to hold the changes.
+	 * Default: `proposals/` followed by a unique name built from the title
+	 */
+	branch?: string;
+	/**
+	 * The commit message. Default: the title
+	 */
+	message?: string;
+	draft?: boolean;
+}
+
+/**
+ * A pull request opened to propose changes
+ */
+export interface GithubProposal {
+	number: number;
+	url: string;
+	title: string;
+	body: string;
+	labels: string[];
+	/**
+	 * The branch holding the proposed changes
+	 */
+	branch: string;
+	/**
+	 * The branch the changes are proposed to
+	 */
+	base: string;
+	state: "open" | "closed";
+	merged: boolean;
+}
+
+/**
+ * The subset of a Github pull request that describes a proposal
+ */
+type GithubPullRequest = {
+	number: number;
+	html_url: string;
+	title: string;
+	body?: string | null;
+	state: string;
+	merged?: boolean;
+	merged_at?: string | null;
+	head: { ref: string };
+	base: { ref: string };
+	labels: Array<{ name?: string } | string>;
+};
+
+const toProposal = (pull: GithubPullRequest): GithubProposal => ({
+	number: pull.number,
+	url: pull.html_url,
+	title: pull.title,
+	body: pull.body || "",
+	labels: pull.labels.map((label) => (typeof label === "string" ? label : label.name || "")),
+	branch: pull.head.ref,
+	base: pull.base.ref,
+	state: pull.state === "open" ? "open" : "closed",
+	merged: Boolean(pull.merged || pull.merged_at)
+});
+
+/**
+ * Builds a unique branch name from the title of a proposal
+ */
+const getProposalBranchName = (title: string) => {
+	const slug = title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "")
+		.substring(0, 40);
+	return `proposals/${Date.now().toString(36)}-${slug || "changes"}`;
+};
+
 export interface GithubFileManagerOptions {
 	/**
 	 * The URL of the Github repository to use for file storage.
@@ -30,6 +290,31 @@ export interface GithubFileManagerOptions {
 	 * If not provided, the repository's root directory will be used.
 	 */
 	rootDir?: string;
+	/**
+	 * The base URL of the Github REST API (for Github Enterprise Server or a local fake API).
+	 * Default: `https://api.github.com`
+	 */
+	githubApiUrl?: string;
+	/**
+	 * The branch to read from and to commit to.
+	 * If not provided, the repository's default branch will be used.
+	 */
+	branch?: string;
+	/**
+	 * The author of the commits.
+	 * If not provided, Github uses the owner of the token.
+	 */
+	author?: Identity;
+	/**
+	 * The committer of the commits.
+	 * If not provided, Github uses the owner of the token.
+	 */
+	committer?: Identity;
+	/**
+	 * Builds the commit messages of the changes made without a message.
+	 * Default: `Created ${path}`, `Updated ${path}`..
+	 */
+	messageTemplate?: MessageTemplate;
 }
 
 /**
@@ -40,6 +325,10 @@ export class GithubFileManager implements FileManagerInterface {
 	private owner: string;
 	private repo: string;
 	private rootDir: string;
+	private branch?: string;
+	private author?: Identity;
+	private committer?: Identity;
+	private messageTemplate: MessageTemplate;
 	private githubApplicationToken: string;
 	private octokit: Octokit & Api;
 
@@ -48,17 +337,31 @@ export class GithubFileManager implements FileManagerInterface {
 	 * that we will reuse through all methods to access the github repository
 	 * whose URL is passed to the constructor
 	 */
-	constructor({ githubRepoUrl, githubApplicationToken, rootDir = "" }: GithubFileManagerOptions) {
+	constructor({
+		githubRepoUrl,
+		githubApplicationToken,
+		rootDir = "",
+		githubApiUrl,
+		branch,
+		author,
+		committer,
+		messageTemplate = defaultMessageTemplate
+	}: GithubFileManagerOptions) {
 		this.githubApplicationToken = githubApplicationToken;
 		this.octokit = new OctokitWithRestApi({
 			auth: this.githubApplicationToken,
-			userAgent: "Github File Manager Service/v1.0.0"
+			userAgent: "Github File Manager Service/v1.0.0",
+			baseUrl: githubApiUrl
 		});
 		const { owner, repo } = this.extractOwnerAndRepo(githubRepoUrl);
 		this.owner = owner;
 		this.repo = repo;
 		// Remove leading and trailing slashes as well as multiple
 		this.rootDir = normalizePath(rootDir);
+		this.branch = branch;
+		this.author = author;
+		this.committer = committer;
+		this.messageTemplate = messageTemplate;
 	}
 
 	/**
@@ -75,22 +378,116 @@ export class GithubFileManager implements FileManagerInterface {
 
 	/**
 	 * Add the root directory to the path
+	 * @throws PathError if the path escapes the root directory or contains a name refused by Git
 	 */
 	private getPathFromRoot(path: string): string {
-		return normalizePath(`${this.rootDir}/${path}`);
+		return normalizePath(`${this.rootDir}/${resolvePath(path, GIT_PATH_RULES)}`);
+	}
+
+	/**
+	 * Build the message of a commit : the given message (or the one built by the template)
+	 * followed by the metadata as Git trailers
+	 */
+	private getCommitMessage(write: WriteDescription, { message, metadata = {} }: WriteOptions = {}): string {
+		const subject = message || this.messageTemplate(write);
+		const trailers = Object.entries(metadata).map(([key, value]) => `${key}: ${value}`);
+		return trailers.length > 0 ? `${subject}\n\n${trailers.join("\n")}` : subject;
+	}
+
+	/**
+	 * Retrieve the name of the branch where the changes are committed
+	 * (the default branch of the repository when no branch was given)
+	 */
+	private async getBranch(): Promise<string> {
+		if (!this.branch) {
+			const { data } = await this.octokit.rest.repos.get({
+				owner: this.owner,
+				repo: this.repo
+			});
+			this.branch = data.default_branch;
+		}
+		return this.branch;
+	}
+
+	/**
+	 * Retrieve the last commit of a branch and the whole tree of its files
+	 * using the Git Data API (all the files, even when Github truncates the listing)
+	 * @param branch Default: the branch of the file manager
+	 */
+	private async getHead(branch?: string): Promise<GitHead> {
+		const { owner, repo } = this;
+		const branchName = branch || (await this.getBranch());
+		const { data: ref } = await this.octokit.rest.git.getRef({
+			owner,
+			repo,
+			ref: `heads/${branchName}`
+		});
+		const { data: commit } = await this.octokit.rest.git.getCommit({
+			owner,
+			repo,
+			commit_sha: ref.object.sha
+		});
+		const entries = await this.fetchTreeEntries(commit.tree.sha);
+
+		return {
+			branch: branchName,
+			commitSha: commit.sha,
+			treeSha: commit.tree.sha,
+			blobs: entries.filter(({ type }) => type === "blob") as GitTreeEntry[]
+		};
+	}
+
+	/**
+	 * Apply a set of changes to the tree of the branch's head in a single commit.
+	 * The branch is only updated if it still points to the same head
+	 * so that a concurrent commit is never overwritten.
+	 * @param head The branch's head on which the changes are based
+	 * @param changes The tree entries to add, replace or remove
+	 * @param message The commit message
+	 * @param identity The author and committer of the commit
+	 */
+	private async commitTree(
+		head: GitHead,
+		changes: GitTreeEntry[],
+		message: string,
+		{ author = this.author, committer = this.committer }: GithubCommitOptions = {}
+	): Promise<void> {
+		const { owner, repo } = this;
+		const { data: tree } = await this.octokit.rest.git.createTree({
+			owner,
+			repo,
+			base_tree: head.treeSha,
+			tree: changes
+		});
+		const { data: commit } = await this.octokit.rest.git.createCommit({
+			owner,
+			repo,
+			message,
+			tree: tree.sha,
+			parents: [head.commitSha],
+			author,
+			committer
+		});
+		await this.octokit.rest.git.updateRef({
+			owner,
+			repo,
+			ref: `heads/${head.branch}`,
+			sha: commit.sha
+		});
 	}
 
 	/**
 	 * Catch the 404 error when a file does not exist
 	 * and return instead a description with an empty content and sha
 	 */
-	private async getFileInfos(path: string): Promise<GithubFileInfo> {
+	private async getFileInfos(path: string, ref = this.branch): Promise<GithubFileInfo> {
 		const fullPath = this.getPathFromRoot(path);
 		return this.octokit.rest.repos
 			.getContent({
 				owner: this.owner,
 				repo: this.repo,
-				path: fullPath
+				path: fullPath,
+				ref
 			})
 			.then(({ data }) => {
 				if (Array.isArray(data) || data.type !== "file") {
@@ -102,7 +499,7 @@ export class GithubFileManager implements FileManagerInterface {
 			.catch((err) => {
 				if (err.status === 404) {
 					return {
-						path,
+						path: fullPath,
 						content: null,
 						encoding: "base64",
 						type: "file",
@@ -122,92 +519,246 @@ export class GithubFileManager implements FileManagerInterface {
 		return new ResourceInfo(path, { rootDir: this.rootDir });
 	}
 
-	async getFileContent(path: string): Promise<string | Buffer> {
-		const { content, encoding } = await this.getFileInfos(path);
+	/**
+	 * Retrieves the resource description from the contents API
+	 * and the date of the last commit that modified it
+	 * @param path The path of the file or folder
+	 * @param options The branch, tag or commit to read from
+	 */
+	async stat(path: string, { ref = this.branch }: GithubReadOptions = {}): Promise<ResourceInfo> {
+		const fullPath = this.getPathFromRoot(path);
+		const rootDir = this.rootDir;
+
+		try {
+			const [{ data }, { data: commits }] = await Promise.all([
+				this.octokit.rest.repos.getContent({
+					owner: this.owner,
+					repo: this.repo,
+					path: fullPath,
+					ref
+				}),
+				this.octokit.rest.repos.listCommits({
+					owner: this.owner,
+					repo: this.repo,
+					path: fullPath,
+					sha: ref,
+					per_page: 1
+				})
+			]);
+			const lastCommitDate = commits[0]?.commit.committer?.date;
+			const modifiedTime = lastCommitDate ? new Date(lastCommitDate) : undefined;
+
+			if (Array.isArray(data)) {
+				return new ResourceInfo(fullPath, { rootDir, type: "dir", modifiedTime });
+			}
+			return new ResourceInfo(fullPath, {
+				rootDir,
+				type: "file",
+				size: data.size,
+				etag: data.sha,
+				modifiedTime
+			});
+		} catch (err) {
+			if ((err as { status?: number }).status === 404) {
+				throw new FileNotFoundError(path, `'${path}' does not exist`);
+			}
+			throw err;
+		}
+	}
+
+	async exists(path: string, options?: GithubReadOptions): Promise<boolean> {
+		return this.stat(path, options).then(
+			() => true,
+			(err) => {
+				if (err instanceof FileNotFoundError) return false;
+				throw err;
+			}
+		);
+	}
+
+	/**
+	 * Retrieves the content of a file
+	 * @param path The path of the file
+	 * @param options The branch, tag or commit to read from
+	 */
+	async getFileContent(path: string, { ref, revision }: GithubReadOptions = {}): Promise<string | Buffer> {
+		const { content, encoding } = await this.getFileInfos(path, ref || revision);
 		if (content === null) {
 			throw new FileNotFoundError(path, "File does not exist");
 		}
 
 		if (encoding === "base64") {
-			return Buffer.from(content, "base64");
+			const buffer = Buffer.from(content, "base64");
+			return this.getInfo(path).isText ? buffer.toString("utf-8") : buffer;
 		}
 		return content;
 	}
 
+	/**
+	 * Lists the commits of the branch that changed a file
+	 * (the commits that deleted the file are skipped : there is no content to restore)
+	 * @param path The path of the file
+	 */
+	async listRevisions(path: string): Promise<Revision[]> {
+		const perPage = 100;
+		const branch = await this.getBranch();
+		const commits = [];
+
+		for (let page = 1; ; page++) {
+			const { data } = await this.octokit.rest.repos.listCommits({
+				owner: this.owner,
+				repo: this.repo,
+				path: this.getPathFromRoot(path),
+				sha: branch,
+				per_page: perPage,
+				page
+			});
+			commits.push(...data);
+			if (data.length < perPage) break;
+		}
+
+		// The size of the file must be retrieved at each commit
+		const revisions = await mapConcurrently(commits, REVISIONS_CONCURRENCY, async ({ sha, commit }) => {
+			const { sha: blobSha, size } = await this.getFileInfos(path, sha);
+			const identity = commit.author || commit.committer;
+			return blobSha === null
+				? null
+				: {
+						id: sha,
+						timestamp: new Date(commit.committer?.date || commit.author?.date || 0),
+						author: identity
+							? { name: identity.name || "", email: identity.email || "" }
+							: undefined,
+						size,
+						message: commit.message
+					};
+		});
+		return revisions.filter((revision) => revision !== null);
+	}
+
+	/**
+	 * Commits the content that a file had at a past commit
+	 * @param path The path of the file
+	 * @param revision The sha of the commit
+	 * @param options The commit message, author and committer
+	 */
+	async restoreRevision(path: string, revision: string, options?: WriteOptions): Promise<void> {
+		const { content } = await this.getFileInfos(path, revision);
+		if (content === null) {
+			throw new FileNotFoundError(path, `'${path}' does not exist at revision ${revision}`);
+		}
+		return this.writeFile(path, Buffer.from(content, "base64"), options, {
+			operation: "restore",
+			path: this.getPathFromRoot(path),
+			revision
+		});
+	}
+
+	/**
+	 * The Github contents API has no streaming support :
+	 * the file content is entirely retrieved before being streamed
+	 * @param path The path of the file
+	 * @param options The branch, tag or commit to read from
+	 */
+	async readStream(path: string, options?: GithubReadOptions): Promise<ReadableStream<Uint8Array>> {
+		return bytesToStream(await this.getFileContent(path, options));
+	}
+
+	/**
+	 * The Github contents API has no streaming support :
+	 * the written chunks are buffered and committed when the stream is closed
+	 * @param path The path of the file
+	 * @param options The commit message, author and committer
+	 */
+	async writeStream(path: string, options?: WriteOptions): Promise<WritableStream<Uint8Array>> {
+		return bufferedWritableStream((content) =>
+			this.updateBinaryFile(path, Buffer.from(content), options)
+		);
+	}
+
 	/**
 	 * Creates or updates a text file on the github repository
 	 * @param path The path of the file
 	 * @param content New text content of the file
-	 * @param message Optionnal commit message
+	 * @param options The commit message, author and committer
 	 * @returns A promise that resolves to void on success, or rejects with an error
 	 */
-	async updateTextFile(filePath: string, content: string, _message?: string) {
-		// Retrieve the infos of the file to update
-		const { sha, path } = await this.getFileInfos(filePath);
-
-		try {
-			if (sha) {
-				// File already exists, it's an update
-				await this.octokit.rest.repos.createOrUpdateFileContents({
-					owner: this.owner,
-					repo: this.repo,
-					path,
-					message: `Updated ${path}`,
-					content: Buffer.from(content, "utf-8").toString("base64"),
-					sha
-				});
-			} else {
-				await this.octokit.rest.repos.createOrUpdateFileContents({
-					owner: this.owner,
-					repo: this.repo,
-					path,
-					message: `Created ${path}`,
-					content: Buffer.from(content, "utf-8").toString("base64")
-				});
-			}
-		} catch (err) {
-			throw new FileUpdateError(path, (err as Error).message);
-		}
+	async updateTextFile(filePath: string, content: string, options?: WriteOptions) {
+		return this.writeFile(filePath, Buffer.from(content, "utf-8"), options);
 	}
 
 	/**
 	 * Creates or updates a binary file on the github repository
 	 * @param filePath The path of the file
 	 * @param content New binary content of the file
+	 * @param options The commit message, author and committer
 	 * @returns A promise that resolves to void on success, or rejects with an error
 	 */
-	async updateBinaryFile(filePath: string, content: Buffer): Promise<void> {
-		// Retrieve the infos of the file to update
-		const { sha, path } = await this.getFileInfos(filePath);
+	async updateBinaryFile(filePath: string, content: Buffer, options?: WriteOptions): Promise<void> {
+		return this.writeFile(filePath, content, options);
+	}
+
+	/**
+	 * Commits the new content of a file with the contents API.
+	 * The preconditions are checked by Github itself : the expected sha is sent instead of the current one.
+	 * @param description Describes the change for the commit message. Default: the creation or update of the file
+	 */
+	private async writeFile(
+		filePath: string,
+		content: Buffer,
+		options: WriteOptions = {},
+		description?: WriteDescription
+	): Promise<void> {
+		const { ifMatch, ifNoneMatch } = options;
+		// Retrieve the infos of the file to update (unless the expected ones are given)
+		const { sha, path } =
+			ifMatch || ifNoneMatch
+				? { sha: ifMatch || null, path: this.getPathFromRoot(filePath) }
+				: await this.getFileInfos(filePath);
 
 		try {
-			if (sha) {
-				// File already exists, it's an update
-				await this.octokit.rest.repos.createOrUpdateFileContents({
-					owner: this.owner,
-					repo: this.repo,
-					path,
-					message: `Updated ${path}`,
-					content: content.toString("base64"),
-					sha
-				});
-			} else {
-				await this.octokit.rest.repos.createOrUpdateFileContents({
-					owner: this.owner,
-					repo: this.repo,
-					path,
-					message: `Created ${path}`,
-					content: content.toString("base64")
-				});
-			}
+			await this.octokit.rest.repos.createOrUpdateFileContents({
+				owner: this.owner,
+				repo: this.repo,
+				path,
+				branch: this.branch,
+				author: options.author || this.author,
+				committer: options.committer || this.committer,
+				message: this.getCommitMessage(
+					description || { operation: sha ? "update" : "create", path },
+					options
+				),
+				content: content.toString("base64"),
+				// The sha of the existing file is needed to update it
+				sha: sha || undefined
+			});
 		} catch (err) {
-			throw new FileUpdateError(path, (err as Error).message);
+			throw this.toWriteError(err, filePath, Boolean(ifMatch || ifNoneMatch));
 		}
 	}
 
-	async deleteFile(filePath: string) {
-		// Retrieve the infos of the file to update
-		const { sha, path } = await this.getFileInfos(filePath);
+	/**
+	 * Tells a conflict (the file has changed, or appeared, or disappeared)
+	 * from any other failure of the contents API
+	 * @param hasPrecondition The request was sent with the sha expected by the caller
+	 */
+	private toWriteError(err: unknown, path: string, hasPrecondition: boolean): FileManagerError {
+		const status = (err as { status?: number }).status;
+		if (status === 409 || (hasPrecondition && (status === 404 || status === 422))) {
+			return new ConflictError(
+				path,
+				`'${path}' has been changed by someone else : ${(err as Error).message}`
+			);
+		}
+		return new FileUpdateError(path, (err as Error).message);
+	}
+
+	async deleteFile(filePath: string, options: WriteOptions = {}) {
+		const { ifMatch } = options;
+		// Retrieve the infos of the file to delete (unless the expected ones are given)
+		const { sha, path } = ifMatch
+			? { sha: ifMatch, path: this.getPathFromRoot(filePath) }
+			: await this.getFileInfos(filePath);
 
 		if (sha === null) {
 			// File does not exist.
@@ -219,69 +770,612 @@ export class GithubFileManager implements FileManagerInterface {
 				owner: this.owner,
 				repo: this.repo,
 				path,
-				message: `Deleted '${path}'`,
+				branch: this.branch,
+				author: options.author || this.author,
+				committer: options.committer || this.committer,
+				message: this.getCommitMessage({ operation: "delete", path }, options),
 				sha
 			});
 		} catch (err) {
-			throw new FileUpdateError(filePath, (err as Error).message);
+			throw this.toWriteError(err, filePath, Boolean(ifMatch));
+		}
+	}
+
+	/**
+	 * Moves or renames a file or a directory in a single commit
+	 * @param from The path of the file or directory to move
+	 * @param to The new path of the file or directory
+	 * @param options What to do if the destination already exists, and the commit message, author and committer
+	 */
+	async move(from: string, to: string, options?: TransferOptions): Promise<void> {
+		return this.transfer(from, to, true, options);
+	}
+
+	/**
+	 * Copies a file or a directory in a single commit
+	 * (the copies reuse the existing blobs : no content is uploaded)
+	 * @param from The path of the file or directory to copy
+	 * @param to The path of the copy
+	 * @param options What to do if the destination already exists, and the commit message, author and committer
+	 */
+	async copy(from: string, to: string, options?: TransferOptions): Promise<void> {
+		return this.transfer(from, to, false, options);
+	}
+
+	/**
+	 * Copy the blobs of a file or a directory to a new path inside the branch's tree
+	 * and optionally remove the original ones
+	 */
+	private async transfer(
+		from: string,
+		to: string,
+		removeSource: boolean,
+		options: TransferOptions = {}
+	): Promise<void> {
+		const { onConflict = "fail" } = options;
+		const sourcePath = this.getPathFromRoot(from);
+		const destinationPath = this.getPathFromRoot(to);
+		const head = await this.getHead();
+		const sources = head.blobs.filter(({ path }) => isInsidePath(path, sourcePath));
+		if (sources.length === 0) {
+			throw new FileNotFoundError(from, `'${from}' does not exist`);
+		}
+		if (sourcePath === destinationPath) {
+			throw new FileManagerError(400, "Source and destination are the same", to);
+		}
+		if (isInsidePath(destinationPath, sourcePath) || isInsidePath(sourcePath, destinationPath)) {
+			throw new FileManagerError(400, `Cannot transfer '${from}' inside itself or over its parent`, to);
+		}
+
+		const isDirectory = !sources.some(({ path }) => path === sourcePath);
+		const existing = head.blobs.filter(({ path }) => isInsidePath(path, destinationPath));
+		const changes = new Map<string, GitTreeEntry>();
+
+		if (existing.length > 0) {
+			if (onConflict === "fail") {
+				throw new ConflictError(to, `'${to}' already exists`);
+			}
+			if (onConflict === "overwrite" || !isDirectory) {
+				for (const { path, mode, type } of existing) {
+					changes.set(path, { path, mode, type, sha: null });
+				}
+			}
+		}
+		if (removeSource) {
+			for (const { path, mode, type } of sources) {
+				changes.set(path, { path, mode, type, sha: null });
+			}
+		}
+		for (const { path, mode, type, sha } of sources) {
+			const newPath = `${destinationPath}${path.substring(sourcePath.length)}`;
+			changes.set(newPath, { path: newPath, mode, type, sha });
+		}
+
+		try {
+			await this.commitTree(
+				head,
+				[...changes.values()],
+				this.getCommitMessage(
+					{
+						operation: removeSource ? "move" : "copy",
+						path: sourcePath,
+						destination: destinationPath
+					},
+					options
+				),
+				options
+			);
+		} catch (err) {
+			throw new FileUpdateError(to, (err as Error).message);
 		}
 	}
 
 	/**
-	 * Lists contents of a directory
-	 * @param path Directory path relative to root directory
-	 * @param recursive Whether to list contents recursively
-	 * @returns Array of ResourceInfo objects describing directory contents
+	 * A recursive listing fetches the whole Git tree of the directory at once (using the Git Data API)
+	 * @param dirPath The path of the directory
+	 * @param recursive Pass TRUE to list the content of all the sub directories
+	 * @param options The branch, tag or commit to list. Default: the branch of the file manager
 	 */
-	async listDirectoryContent(dirPath: string, recursive = false) {
-		const entries: ResourceInfo[] = [];
-		const pendingSubDirs: Promise<ResourceInfo[]>[] = [];
+	async listDirectoryContent(
+		dirPath: string,
+		recursive = false,
+		{ ref = this.branch }: GithubReadOptions = {}
+	): Promise<ResourceInfo[]> {
+		if (recursive) {
+			return this.listTree(dirPath, ref);
+		}
 		const rootDir = this.rootDir;
 
 		// Get the directory content from the github repository
-		const { data } = await this.octokit.rest.repos.getContent({
+		// (Git has no empty directories : a directory without files does not exist anymore)
+		const { data } = await this.octokit.rest.repos
+			.getContent({
+				owner: this.owner,
+				repo: this.repo,
+				path: this.getPathFromRoot(dirPath),
+				ref
+			})
+			.catch((err) => {
+				if (err.status === 404) return { data: [] };
+				throw err;
+			});
+
+		// Extract entries type, path, size and blob sha from the directory content
+		return (Array.isArray(data) ? data : []).flatMap(({ type, path, size, sha }) => {
+			if (type === "file") return [new ResourceInfo(path, { type, rootDir, size, etag: sha })];
+			if (type === "dir") return [new ResourceInfo(path, { type, rootDir, etag: sha })];
+			return [];
+		});
+	}
+
+	/**
+	 * List all the files and directories inside a directory
+	 * @param dirPath The path of the directory
+	 * @param ref The branch, tag or commit to list
+	 */
+	private async listTree(dirPath: string, ref?: string): Promise<ResourceInfo[]> {
+		const rootDir = this.rootDir;
+		const repoPath = this.getPathFromRoot(dirPath);
+		const treeSha = await this.getTreeSha(repoPath, ref || (await this.getBranch()));
+		if (!treeSha) return [];
+
+		return (await this.fetchTreeEntries(treeSha, repoPath)).flatMap(({ type, path, size, sha }) => {
+			if (type === "blob") return [new ResourceInfo(path, { type: "file", rootDir, size, etag: sha })];
+			if (type === "tree") return [new ResourceInfo(path, { type: "dir", rootDir, etag: sha })];
+			// Submodules are not part of the repository
+			return [];
+		});
+	}
+
+	/**
+	 * Fetch all the entries of a Git tree with a single request to the trees API,
+	 * or else tree by tree when Github truncates the listing of a huge tree
+	 * @param treeSha The SHA of the tree (or of its commit)
+	 * @param treePath The path of the tree in the repository, which the paths of the entries start with
+	 */
+	private async fetchTreeEntries(
+		treeSha: string,
+		treePath = ""
+	): Promise<(GitTreeListEntry & { path: string })[]> {
+		const { owner, repo } = this;
+		const withFullPaths = (entries: GitTreeListEntry[], parentPath: string) =>
+			entries.flatMap(({ path, ...entry }) =>
+				path ? [{ ...entry, path: parentPath ? `${parentPath}/${path}` : path }] : []
+			);
+
+		const { data } = await this.octokit.rest.git.getTree({
+			owner,
+			repo,
+			tree_sha: treeSha,
+			recursive: "true"
+		});
+		if (!data.truncated) {
+			return withFullPaths(data.tree, treePath);
+		}
+
+		// Fetch the sub trees level by level, a few at a time
+		const entries: (GitTreeListEntry & { path: string })[] = [];
+		let pendingTrees = [{ sha: treeSha, path: treePath }];
+		while (pendingTrees.length > 0) {
+			const subTrees = await mapConcurrently(pendingTrees, TREES_CONCURRENCY, async ({ sha, path }) => {
+				const { data: tree } = await this.octokit.rest.git.getTree({ owner, repo, tree_sha: sha });
+				const treeEntries = withFullPaths(tree.tree, path);
+				entries.push(...treeEntries);
+				return treeEntries.flatMap((entry) =>
+					entry.type === "tree" && entry.sha ? [{ sha: entry.sha, path: entry.path }] : []
+				);
+			});
+			pendingTrees = subTrees.flat();
+		}
+		return entries;
+	}
+
+	/**
+	 * Find the SHA of the Git tree of a directory
+	 * @param repoPath The path of the directory in the repository
+	 * @param ref The branch, tag or commit
+	 * @returns nothing if the directory does not exist
+	 */
+	private async getTreeSha(repoPath: string, ref: string): Promise<string | undefined> {
+		if (!repoPath) return ref;
+		// The listing of the parent directory gives the SHA of its sub directories
+		const parentPath = repoPath.split("/").slice(0, -1).join("/");
+		const { data } = await this.octokit.rest.repos
+			.getContent({ owner: this.owner, repo: this.repo, path: parentPath, ref })
+			.catch((err) => {
+				if (err.status === 404) return { data: [] };
+				throw err;
+			});
+		return Array.isArray(data)
+			? data.find(({ type, path }) => type === "dir" && path === repoPath)?.sha
+			: undefined;
+	}
+
+	/**
+	 * The directories are listed one after the other, when the iteration reaches them
+	 * (a Github directory listing is never paginated)
+	 */
+	async *iterateDirectory(
+		path: string,
+		options: IterateDirectoryOptions = {}
+	): AsyncGenerator<ResourceInfo> {
+		for (const resource of await this.listDirectoryContent(path)) {
+			yield resource;
+			if (options.recursive && resource.isDirectory) {
+				yield* this.iterateDirectory(resource.path, options);
+			}
+		}
+	}
+
+	async listPage(path: string, options?: ListPageOptions): Promise<ListPage> {
+		return paginate(await this.listDirectoryContent(path), options);
+	}
+
+	async createDirectory(path: string, options?: WriteOptions): Promise<void> {
+		// The github API does not support creating directories,
+		// so we create instead an empty `.gitkeep` file inside
+		const dummyFilePath = `${normalizePath(path)}/.gitkeep`;
+
+		return this.writeFile(dummyFilePath, Buffer.alloc(0), options, {
+			operation: "createDirectory",
+			path: this.getPathFromRoot(path)
+		});
+	}
+
+	/**
+	 * Deletes all the files of a directory in a single commit
+	 */
+	async deleteDirectory(dirPath: string, options?: WriteOptions): Promise<void> {
+		return this.commitChanges(
+			[{ type: "delete", path: dirPath }],
+			this.getCommitMessage(
+				{ operation: "deleteDirectory", path: this.getPathFromRoot(dirPath) },
+				options
+			),
+			options
+		);
+	}
+
+	/**
+	 * Polls the head of the branch and compares the trees of the successive commits
+	 * (a file deleted and created with the same content is reported as moved).
+	 * The cursors are commit SHAs.
+	 */
+	watch(path: string, options: WatchOptions = {}): Watcher {
+		const watcher = new Watcher(path, options);
+		const { interval = WATCH_INTERVAL } = options;
+		let lastSha = options.cursor;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		const poll = async () => {
+			const { data: ref } = await this.octokit.rest.git.getRef({
+				owner: this.owner,
+				repo: this.repo,
+				ref: `heads/${await this.getBranch()}`
+			});
+			const commitSha = ref.object.sha;
+			if (!lastSha) {
+				watcher.cursor = commitSha;
+			} else if (commitSha !== lastSha) {
+				const [before, after] = await Promise.all([
+					this.getTreeFiles(lastSha),
+					this.getTreeFiles(commitSha)
+				]);
+				for (const event of diffResources(before, after, commitSha)) {
+					watcher.push(event);
+				}
+			}
+			lastSha = commitSha;
+		};
+		const schedule = () => {
+			if (watcher.closed) return;
+			timer = setTimeout(() => poll().then(schedule, (err) => watcher.fail(err)), interval);
+		};
+
+		poll().then(
+			() => {
+				watcher.started();
+				schedule();
+			},
+			(err) => watcher.fail(err)
+		);
+		watcher.onClose(() => clearTimeout(timer));
+		return watcher;
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return findResources(this, query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return searchFiles(this, path, query, options);
+	}
+
+	/**
+	 * List all the files of the root directory at a commit
+	 */
+	private async getTreeFiles(commitSha: string): Promise<ResourceInfo[]> {
+		const entries = await this.fetchTreeEntries(commitSha);
+		const rootDir = this.rootDir;
+		return entries.flatMap(({ type, path, size, sha }) =>
+			type === "blob" && path && (!rootDir || isInsidePath(path, rootDir))
+				? [new ResourceInfo(path, { type: "file", rootDir, size, etag: sha })]
+				: []
+		);
+	}
+
+	/**
+	 * Creates a new branch pointing to the same commit as another branch, a tag or a commit
+	 * @param name The name of the branch to create
+	 * @param fromRef The branch, tag or commit SHA to start from. Default: the branch of the file manager
+	 * @returns The new branch and the commit it points to
+	 */
+	async createBranch(name: string, fromRef?: string): Promise<GithubBranch> {
+		const { owner, repo } = this;
+		const ref = fromRef || (await this.getBranch());
+		const { data: commit } = await this.octokit.rest.repos
+			.getCommit({ owner, repo, ref })
+			.catch((err) => {
+				if (err.status === 404 || err.status === 422) {
+					throw new FileManagerError(404, `Unknown ref '${ref}'`);
+				}
+				throw err;
+			});
+
+		try {
+			await this.octokit.rest.git.createRef({
+				owner,
+				repo,
+				ref: `refs/heads/${name}`,
+				sha: commit.sha
+			});
+		} catch (err) {
+			if ((err as { status?: number }).status === 422) {
+				throw new ConflictError(name, `Branch '${name}' already exists`);
+			}
+			throw err;
+		}
+		return { name, sha: commit.sha };
+	}
+
+	/**
+	 * Deletes a branch of the repository
+	 * @param name The name of the branch to delete
+	 */
+	async deleteBranch(name: string): Promise<void> {
+		await this.octokit.rest.git.deleteRef({
 			owner: this.owner,
 			repo: this.repo,
-			path: this.getPathFromRoot(dirPath)
+			ref: `heads/${name}`
 		});
+	}
 
-		if (Array.isArray(data)) {
-			// Extract entries type and path from the directory content
-			for (const { type, path } of data) {
-				if (type === "dir" || type === "file") {
-					entries.push(new ResourceInfo(path, { type, rootDir }));
+	/**
+	 * Lists all the branches of the repository
+	 */
+	async listBranches(): Promise<GithubBranch[]> {
+		const perPage = 100;
+		const branches: GithubBranch[] = [];
+
+		for (let page = 1; ; page++) {
+			const { data } = await this.octokit.rest.repos.listBranches({
+				owner: this.owner,
+				repo: this.repo,
+				per_page: perPage,
+				page
+			});
+			branches.push(...data.map(({ name, commit }) => ({ name, sha: commit.sha })));
+			if (data.length < perPage) return branches;
+		}
+	}
+
+	/**
+	 * Runs a callback that collects changes, then commits all of them at once.
+	 * Nothing is committed if the callback fails.
+	 * @example
+	 * await githubManager.batch(async (tx) => {
+	 *   tx.updateTextFile("/index.html", html);
+	 *   tx.deleteFile("/old-page.html");
+	 * }, "Publish the site");
+	 * @param callback Receives the batch to fill with changes
+	 * @param message The commit message
+	 */
+	async batch(callback: (tx: GithubBatch) => Promise<void> | void, message: string): Promise<void> {
+		const tx = new GithubBatch();
+		await callback(tx);
+		return this.commitChanges(tx.changes, message);
+	}
 
-					// If recursive is true and this is a directory, collect the promise
-					if (recursive && type === "dir") {
-						pendingSubDirs.push(this.listDirectoryContent(path, true));
+	/**
+	 * Applies a set of changes in a single atomic commit using the Git Data API :
+	 * the blobs are uploaded, then a new tree and a new commit are created and the branch is moved to this commit.
+	 * If anything fails (including a concurrent commit on the branch), the branch is left untouched.
+	 * @param changes The files to write and the files or directories to delete (applied in order)
+	 * @param message The commit message
+	 * @param options The branch to commit to, the author and the committer of the commit
+	 */
+	async commitChanges(
+		changes: GithubFileChange[],
+		message: string,
+		options: GithubCommitOptions = {}
+	): Promise<void> {
+		if (changes.length === 0) return;
+
+		try {
+			const head = await this.getHead(options.branch);
+			const treeChanges = new Map<string, GitTreeEntry>();
+
+			const blobs = await mapConcurrently(changes, BLOBS_UPLOAD_CONCURRENCY, async (change) =>
+				change.type === "write" ? this.createBlob(change.content) : null
+			);
+
+			changes.forEach((change, i) => {
+				const path = this.getPathFromRoot(change.path);
+
+				if (change.type === "write") {
+					const existing = head.blobs.find((blob) => blob.path === path);
+					treeChanges.set(path, {
+						path,
+						mode: existing?.mode || "100644",
+						type: "blob",
+						sha: blobs[i]
+					});
+					return;
+				}
+				// Cancel the previous writes in the batch, then remove the existing files
+				for (const pendingPath of [...treeChanges.keys()]) {
+					if (isInsidePath(pendingPath, path)) treeChanges.delete(pendingPath);
+				}
+				for (const { path: blobPath, mode, type } of head.blobs) {
+					if (isInsidePath(blobPath, path)) {
+						treeChanges.set(blobPath, { path: blobPath, mode, type, sha: null });
 					}
 				}
+			});
+
+			if (treeChanges.size > 0) {
+				await this.commitTree(head, [...treeChanges.values()], message, options);
 			}
+		} catch (err) {
+			throw new FileUpdateError(changes[0].path, (err as Error).message);
 		}
+	}
 
-		// Wait for all subdirectories content to be retrieved in parallel
-		const subEntries = await Promise.all(pendingSubDirs);
-		return entries.concat(...subEntries);
+	/**
+	 * Upload a file content
+	 * @returns the sha of the created blob
+	 */
+	private async createBlob(content: string | Buffer): Promise<string> {
+		const { data } = await this.octokit.rest.git.createBlob({
+			owner: this.owner,
+			repo: this.repo,
+			content: (typeof content === "string" ? Buffer.from(content, "utf-8") : content).toString(
+				"base64"
+			),
+			encoding: "base64"
+		});
+		return data.sha;
 	}
 
-	async createDirectory(path: string): Promise<void> {
-		const dirPath = this.getPathFromRoot(path);
-		// The github API does not support creating directories,
-		// so we create instead an empty `.gitkeep` file inside
-		const dummyFilePath = `${dirPath}/.gitkeep`;
+	/**
+	 * Commits a set of changes on a new branch, then opens a pull request to merge them
+	 * into the branch of the file manager. Nothing is left behind if any step fails.
+	 * @example
+	 * const { number, url } = await githubManager.proposeChanges(
+	 *   (tx) => tx.updateTextFile("/posts/hello.md", post),
+	 *   { title: "New post : Hello", labels: ["blog"] }
+	 * );
+	 * @param callback Receives the batch to fill with changes
+	 * @param options The title, body and labels of the pull request, and the commit options
+	 * @returns The opened pull request
+	 */
+	async proposeChanges(
+		callback: (tx: GithubBatch) => Promise<void> | void,
+		{ title, body, labels = [], branch, message, draft, author, committer }: GithubProposalOptions
+	): Promise<GithubProposal> {
+		const { owner, repo } = this;
+		const tx = new GithubBatch();
+		await callback(tx);
+		if (tx.changes.length === 0) {
+			throw new FileManagerError(400, "There is no change to propose");
+		}
+
+		const base = await this.getBranch();
+		const head = branch || getProposalBranchName(title);
+		await this.createBranch(head, base);
 
-		return this.updateTextFile(dummyFilePath, "", `Created directory ${dirPath}`);
+		try {
+			await this.commitChanges(tx.changes, message || title, { branch: head, author, committer });
+			const { data: pull } = await this.octokit.rest.pulls.create({
+				owner,
+				repo,
+				title,
+				body,
+				head,
+				base,
+				draft
+			});
+			if (labels.length > 0) {
+				await this.octokit.rest.issues.addLabels({ owner, repo, issue_number: pull.number, labels });
+			}
+			return { ...toProposal(pull), labels };
+		} catch (err) {
+			// Deleting the branch also closes the pull request if it was opened
+			await this.deleteBranch(head).catch(() => undefined);
+			throw err;
+		}
+	}
+
+	/**
+	 * Lists the pull requests that are still open on the branch of the file manager
+	 */
+	async listProposals(): Promise<GithubProposal[]> {
+		const perPage = 100;
+		const base = await this.getBranch();
+		const proposals: GithubProposal[] = [];
+
+		for (let page = 1; ; page++) {
+			const { data } = await this.octokit.rest.pulls.list({
+				owner: this.owner,
+				repo: this.repo,
+				state: "open",
+				base,
+				per_page: perPage,
+				page
+			});
+			proposals.push(...data.map(toProposal));
+			if (data.length < perPage) return proposals;
+		}
 	}
 
-	async deleteDirectory(dirPath: string): Promise<void> {
-		const dirListing = await this.listDirectoryContent(dirPath);
+	/**
+	 * Merges a proposal then deletes its branch
+	 * @param number The number of the pull request
+	 * @param options The merge method and the message of the merge commit
+	 * @returns The sha of the merge commit
+	 * @throws ConflictError if the pull request cannot be merged
+	 */
+	async mergeProposal(
+		number: number,
+		{ method = "merge", message }: { method?: "merge" | "squash" | "rebase"; message?: string } = {}
+	): Promise<string> {
+		const { owner, repo } = this;
+		const { data: pull } = await this.octokit.rest.pulls.get({ owner, repo, pull_number: number });
 
-		for (const entry of dirListing) {
-			if (entry.isFile) {
-				await this.deleteFile(entry.path);
-			} else if (entry.isDirectory) {
-				await this.deleteDirectory(entry.path);
+		try {
+			const { data } = await this.octokit.rest.pulls.merge({
+				owner,
+				repo,
+				pull_number: number,
+				merge_method: method,
+				commit_title: message
+			});
+			await this.deleteBranch(pull.head.ref).catch(() => undefined);
+			return data.sha;
+		} catch (err) {
+			const status = (err as { status?: number }).status;
+			if (status === 405 || status === 409) {
+				throw new ConflictError(
+					pull.head.ref,
+					`Proposal #${number} cannot be merged : ${(err as Error).message}`
+				);
 			}
+			throw err;
 		}
 	}
+
+	/**
+	 * Closes a proposal without merging it and deletes its branch
+	 * @param number The number of the pull request
+	 */
+	async closeProposal(number: number): Promise<void> {
+		const { owner, repo } = this;
+		const { data: pull } = await this.octokit.rest.pulls.update({
+			owner,
+			repo,
+			pull_number: number,
+			state: "closed"
+		});
+		await this.deleteBranch(pull.head.ref).catch(() => undefined);
+	}
 }
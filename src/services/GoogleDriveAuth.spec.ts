@@ -0,0 +1,180 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import { FakeOAuthServer } from "../testing/FakeOAuthServer";
+import { AuthenticationError } from "./FileManagerErrors";
+import { createOAuthState, DRIVE_SCOPES, GoogleDriveAuth, getServiceAccountClient } from "./GoogleDriveAuth";
+import { FileTokenStore, InMemoryTokenStore, type TokenStore } from "./TokenStore";
+
+const tokensDir = join(import.meta.dirname, "../../_testsRoot_auth");
+
+describe("GoogleDriveAuth (fake OAuth server)", () => {
+	const fakeServer = new FakeOAuthServer();
+	fakeServer.start();
+
+	const credentials = {
+		clientId: "fake-client",
+		clientSecret: "fake-secret",
+		redirectUri: "http://localhost/oauth/callback"
+	};
+
+	/**
+	 * Each test starts without any issued token
+	 */
+	function createAuth(tokenStore: TokenStore = new InMemoryTokenStore()) {
+		fakeServer.reset();
+		return new GoogleDriveAuth({
+			credentials,
+			tokenStore,
+			endpoints: { authUrl: fakeServer.authUrl, tokenUrl: fakeServer.tokenUrl }
+		});
+	}
+
+	/**
+	 * The callback of a user who consented, with the state kept in its session
+	 */
+	function handleCallback(auth: GoogleDriveAuth, code = fakeServer.issueCode()) {
+		const state = createOAuthState();
+		return auth.handleCallback("alice", code, state, state);
+	}
+
+	afterAll(async () => {
+		fakeServer.stop();
+		await rm(tokensDir, { recursive: true, force: true });
+	});
+
+	it("builds the consent URL", () => {
+		const state = createOAuthState();
+		expect(state).not.toBe(createOAuthState());
+		const consentUrl = new URL(createAuth().getConsentUrl(state));
+		expect(`${consentUrl.origin}${consentUrl.pathname}`).toBe(fakeServer.authUrl);
+		expect(consentUrl.searchParams.get("client_id")).toBe("fake-client");
+		expect(consentUrl.searchParams.get("redirect_uri")).toBe(credentials.redirectUri);
+		expect(consentUrl.searchParams.get("access_type")).toBe("offline");
+		expect(consentUrl.searchParams.get("scope")).toBe(DRIVE_SCOPES.join(" "));
+		expect(consentUrl.searchParams.get("state")).toBe(state);
+	});
+
+	it("asks for the consent of an unknown user", async () => {
+		const auth = createAuth();
+		const err = await auth.getOAuth2Client("alice").catch((err) => err);
+		expect(err).toBeInstanceOf(AuthenticationError);
+		expect(err.code).toBe(401);
+		expect(err.consentState).toBeDefined();
+		expect(err.consentUrl).toBe(auth.getConsentUrl(err.consentState));
+	});
+
+	it("exchanges the code of the callback for the tokens", async () => {
+		const tokenStore = new InMemoryTokenStore();
+		const auth = createAuth(tokenStore);
+
+		const client = await handleCallback(auth);
+		expect(client.credentials.access_token).toBeDefined();
+		const stored = await tokenStore.get("alice");
+		expect(stored?.refresh_token).toBe(client.credentials.refresh_token as string);
+
+		// The access token is still valid
+		expect(await auth.getAccessToken("alice")).toBe(stored?.access_token as string);
+		expect(fakeServer.requestsCount).toBe(1);
+
+		// A code can only be used once
+		const err = await handleCallback(auth, "code-unknown").catch((err) => err);
+		expect(err).toBeInstanceOf(AuthenticationError);
+		expect(err.consentUrl).toBeDefined();
+	});
+
+	it("refuses a callback whose state does not match the session of the user", async () => {
+		const tokenStore = new InMemoryTokenStore();
+		const auth = createAuth(tokenStore);
+		const state = createOAuthState();
+
+		for (const [received, expected] of [
+			[createOAuthState(), state],
+			[undefined, state],
+			[state, undefined]
+		]) {
+			const err = await auth
+				.handleCallback("alice", fakeServer.issueCode(), received, expected)
+				.catch((err) => err);
+			expect(err).toBeInstanceOf(AuthenticationError);
+			expect(err.consentState).not.toBe(state);
+		}
+		expect(fakeServer.requestsCount).toBe(0);
+		expect(await tokenStore.get("alice")).toBeUndefined();
+	});
+
+	it("refreshes the expired access tokens", async () => {
+		const tokenStore = new InMemoryTokenStore();
+		const auth = createAuth(tokenStore);
+		fakeServer.expiresIn = 1;
+		const { access_token } = (await handleCallback(auth)).credentials;
+
+		const refreshed = await auth.getAccessToken("alice");
+		expect(refreshed).not.toBe(access_token as string);
+		expect((await tokenStore.get("alice"))?.access_token).toBe(refreshed);
+		expect(fakeServer.requestsCount).toBe(2);
+	});
+
+	it("stores the rotated refresh tokens", async () => {
+		const filePath = join(tokensDir, "tokens.json");
+		const auth = createAuth(new FileTokenStore(filePath));
+		fakeServer.expiresIn = 1;
+		fakeServer.rotateRefreshTokens = true;
+		const { refresh_token } = (await handleCallback(auth)).credentials;
+
+		await auth.getAccessToken("alice");
+		const rotated = (await new FileTokenStore(filePath).get("alice"))?.refresh_token;
+		expect(rotated).toBeDefined();
+		expect(rotated).not.toBe(refresh_token as string);
+
+		// The previous refresh token is revoked : the next refresh uses the stored one
+		expect(await auth.getAccessToken("alice")).toBeDefined();
+	});
+
+	it("forgets the tokens of a user who revoked the access", async () => {
+		const tokenStore = new InMemoryTokenStore();
+		const auth = createAuth(tokenStore);
+		fakeServer.expiresIn = 1;
+		const { refresh_token } = (await handleCallback(auth)).credentials;
+		fakeServer.revoke(refresh_token as string);
+
+		const err = await auth.getAccessToken("alice").catch((err) => err);
+		expect(err).toBeInstanceOf(AuthenticationError);
+		expect(err.consentUrl).toBe(auth.getConsentUrl(err.consentState));
+		expect(await tokenStore.get("alice")).toBeUndefined();
+	});
+
+	it("reports the refreshed tokens that could not be saved", async () => {
+		const tokenStore = new InMemoryTokenStore();
+		const auth = createAuth(tokenStore);
+		fakeServer.expiresIn = 1;
+		await handleCallback(auth);
+		tokenStore.set = async () => {
+			throw new Error("The token store is unavailable");
+		};
+
+		await expect(auth.getAccessToken("alice")).rejects.toThrow("The token store is unavailable");
+	});
+
+	it("signs a user out", async () => {
+		const auth = createAuth();
+		await handleCallback(auth);
+		await auth.signOut("alice");
+		await expect(auth.getOAuth2Client("alice")).rejects.toBeInstanceOf(AuthenticationError);
+	});
+});
+
+describe("getServiceAccountClient", () => {
+	const key = { client_email: "robot@project.iam.gserviceaccount.com", private_key: "fake-key" };
+
+	it("authenticates as a service account", () => {
+		const client = getServiceAccountClient(JSON.stringify(key), { subject: "alice@example.com" });
+		expect(client.email).toBe(key.client_email);
+		expect(client.scopes).toEqual(DRIVE_SCOPES);
+		expect(client.subject).toBe("alice@example.com");
+	});
+
+	it("rejects an incomplete key", () => {
+		expect(() => getServiceAccountClient({ ...key, private_key: "" })).toThrow(AuthenticationError);
+	});
+});
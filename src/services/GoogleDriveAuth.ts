@@ -1,6 +1,8 @@
+import { randomBytes } from "node:crypto";
 import { google } from "googleapis";
-import type { OAuth2Client } from "google-auth-library";
-import { FileManagerError } from "./FileManagerErrors";
+import type { Credentials, JWT, OAuth2Client } from "google-auth-library";
+import { AuthenticationError, FileManagerError } from "./FileManagerErrors";
+import { InMemoryTokenStore, type TokenStore } from "./TokenStore";
 
 interface GoogleAPICredentials {
 	clientId: string;
@@ -8,16 +10,29 @@ interface GoogleAPICredentials {
 	redirectUri: string;
 }
 
+/**
+ * The fields of the JSON key of a service account that we need
+ */
+export interface ServiceAccountKey {
+	client_email: string;
+	private_key: string;
+}
+
+/**
+ * The full access to the files of the Drive
+ */
+export const DRIVE_SCOPES = ["https://www.googleapis.com/auth/drive"];
+
 export const retrieveGoogleAPICredentials = (): GoogleAPICredentials => {
 	const { GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET, GOOGLE_OAUTH_REDIRECT_URI } = process.env;
 
 	if (!GOOGLE_OAUTH_CLIENT_ID || !GOOGLE_OAUTH_CLIENT_SECRET || !GOOGLE_OAUTH_REDIRECT_URI) {
 		throw new FileManagerError(
 			500,
-			`Missing Google OAuth credentials. 
-Add the following secrets to your environment : 
-* GOOGLE_OAUTH_CLIENT_ID 
-* GOOGLE_OAUTH_CLIENT_SECRET 
+			`Missing Google OAuth credentials.
+Add the following secrets to your environment :
+* GOOGLE_OAUTH_CLIENT_ID
+* GOOGLE_OAUTH_CLIENT_SECRET
 * GOOGLE_OAUTH_REDIRECT_URI`
 		);
 	}
@@ -30,27 +45,221 @@ Add the following secrets to your environment :
 };
 
 /**
- * Retrieves a user unique OAuth token to access it's Google Drive
- * @param userEmail
+ * Tells if the OAuth server refused a code or a refresh token (expired, revoked or already used)
  */
-export const getAuthToken = async (_client: OAuth2Client, userEmail: string) => {
-	const { clientId, clientSecret, redirectUri } = retrieveGoogleAPICredentials();
-	const auth = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
-	auth.setCredentials({ refresh_token: userEmail });
-	const { token } = await auth.getAccessToken();
+const isInvalidGrant = (err: unknown) =>
+	(err as { response?: { data?: { error?: string } } })?.response?.data?.error === "invalid_grant";
 
-	if (!token) {
-		throw new FileManagerError(500, "Failed to retrieve OAuth Access token to Google Drive");
+/**
+ * Creates the random `state` of a consent request, to keep in the session of the user until the callback
+ */
+export const createOAuthState = (): string => randomBytes(24).toString("base64url");
+
+export interface GoogleDriveAuthOptions {
+	/**
+	 * The OAuth client of the application. Default: read from the environment variables
+	 */
+	credentials?: GoogleAPICredentials;
+	/**
+	 * Where the tokens of the users are kept. Default: in memory
+	 */
+	tokenStore?: TokenStore;
+	/**
+	 * The access requested to the users. Default: DRIVE_SCOPES
+	 */
+	scopes?: string[];
+	/**
+	 * The URLs of the consent page and of the token endpoint (to use a fake OAuth server in the tests)
+	 */
+	endpoints?: { authUrl?: string; tokenUrl?: string };
+}
+
+/**
+ * The OAuth flow giving access to the Drive of the users :
+ * send the user to `getConsentUrl()` with a random state kept in its session, call `handleCallback()`
+ * with the code and the state received on the redirect URI, then get an authenticated client with `getOAuth2Client()`.
+ * The refresh tokens are persisted in the token store, and saved again when they are rotated.
+ */
+export class GoogleDriveAuth {
+	private credentials?: GoogleAPICredentials;
+	private tokenStore: TokenStore;
+	private scopes: string[];
+	private endpoints: GoogleDriveAuthOptions["endpoints"];
+	/**
+	 * The refreshed tokens being saved
+	 */
+	private pendingSaves = new Set<Promise<void>>();
+	/**
+	 * The last failed save of the refreshed tokens of each user, thrown by the next `getAccessToken()`
+	 */
+	private failedSaves = new Map<string, unknown>();
+
+	constructor({ credentials, tokenStore, scopes = DRIVE_SCOPES, endpoints }: GoogleDriveAuthOptions = {}) {
+		this.credentials = credentials;
+		this.tokenStore = tokenStore || new InMemoryTokenStore();
+		this.scopes = scopes;
+		this.endpoints = endpoints;
 	}
 
-	return token;
+	/**
+	 * The page where a user grants the access to its Drive
+	 * @param state Sent back to the redirect URI with the code : a random value (see `createOAuthState()`)
+	 * kept in the session of the user, and checked by `handleCallback()` to reject the forged callbacks
+	 */
+	getConsentUrl(state: string): string {
+		return this.createClient().generateAuthUrl({
+			access_type: "offline",
+			// Without it, Google only returns a refresh token the first time the user consents
+			prompt: "consent",
+			scope: this.scopes,
+			state
+		});
+	}
+
+	/**
+	 * Exchanges the code received on the redirect URI for the tokens of the user, and stores them
+	 * @param userId The id of the user in the token store
+	 * @param code The `code` parameter of the redirect URI
+	 * @param state The `state` parameter of the redirect URI
+	 * @param expectedState The state kept in the session of the user when it was sent to the consent page
+	 * @throws AuthenticationError if the state does not match, if the code is invalid, or if no refresh token was granted
+	 */
+	async handleCallback(
+		userId: string,
+		code: string,
+		state: string | undefined,
+		expectedState: string | undefined
+	): Promise<OAuth2Client> {
+		// Otherwise the tokens of someone else's Drive could be stored for this user
+		if (!expectedState || state !== expectedState) {
+			throw this.createConsentError("The state of the callback does not match the consent request");
+		}
+		const client = this.createClient();
+		let tokens: Credentials;
+		try {
+			({ tokens } = await client.getToken(code));
+		} catch (err) {
+			if (!isInvalidGrant(err)) throw err;
+			throw this.createConsentError("The authorization code is invalid or expired");
+		}
+
+		// Google may not send the refresh token again to a user who already consented
+		const refreshToken = tokens.refresh_token || (await this.tokenStore.get(userId))?.refresh_token;
+		if (!refreshToken) {
+			throw this.createConsentError("No offline access was granted");
+		}
+		await this.tokenStore.set(userId, { ...tokens, refresh_token: refreshToken });
+		return this.getOAuth2Client(userId);
+	}
+
+	/**
+	 * Creates a client with the stored tokens of a user : the access token is refreshed when it expires,
+	 * and the new tokens are stored (a failed save is thrown by the next `getAccessToken()` of the user)
+	 * @throws AuthenticationError if the user has not consented yet
+	 */
+	async getOAuth2Client(userId: string): Promise<OAuth2Client> {
+		const tokens = await this.tokenStore.get(userId);
+		if (!tokens?.refresh_token) {
+			throw this.createConsentError(`The user '${userId}' must consent to the access to its Drive`);
+		}
+
+		const client = this.createClient();
+		client.setCredentials(tokens);
+		client.on("tokens", (tokens: Credentials) => {
+			// Copied at once : the client then overwrites a rotated refresh token with the previous one
+			const refreshed = { ...tokens };
+			const save = this.tokenStore
+				.get(userId)
+				.then((stored) => this.tokenStore.set(userId, { ...stored, ...refreshed }))
+				// A lost rotated refresh token makes the next sessions fail : the error must not go unnoticed
+				.catch((err) => {
+					this.failedSaves.set(userId, err);
+				});
+			this.pendingSaves.add(save);
+			save.finally(() => this.pendingSaves.delete(save));
+		});
+		return client;
+	}
+
+	/**
+	 * Get a valid access token for a user, refreshing it if needed
+	 * @throws AuthenticationError if the user has not consented, or has revoked the access
+	 * (the stored tokens are then forgotten)
+	 * @throws the error of the token store if the refreshed tokens of the user could not be saved
+	 */
+	async getAccessToken(userId: string): Promise<string> {
+		const client = await this.getOAuth2Client(userId);
+		try {
+			const { token } = await client.getAccessToken();
+			await Promise.all(this.pendingSaves);
+			if (this.failedSaves.has(userId)) {
+				const err = this.failedSaves.get(userId);
+				this.failedSaves.delete(userId);
+				throw err;
+			}
+			if (!token) {
+				throw new FileManagerError(500, "Failed to retrieve OAuth Access token to Google Drive");
+			}
+			return token;
+		} catch (err) {
+			if (!isInvalidGrant(err)) throw err;
+			await this.tokenStore.delete(userId);
+			throw this.createConsentError(`The access of the user '${userId}' has expired or was revoked`);
+		}
+	}
+
+	/**
+	 * Forgets the tokens of a user
+	 */
+	async signOut(userId: string): Promise<void> {
+		await this.tokenStore.delete(userId);
+	}
+
+	/**
+	 * An AuthenticationError with a new consent request
+	 */
+	private createConsentError(message: string): AuthenticationError {
+		const state = createOAuthState();
+		return new AuthenticationError(message, this.getConsentUrl(state), state);
+	}
+
+	private createClient(): OAuth2Client {
+		const { clientId, clientSecret, redirectUri } = this.credentials || retrieveGoogleAPICredentials();
+		const { authUrl, tokenUrl } = this.endpoints || {};
+		return new google.auth.OAuth2({
+			clientId,
+			clientSecret,
+			redirectUri,
+			endpoints: {
+				...(authUrl && { oauth2AuthBaseUrl: authUrl }),
+				...(tokenUrl && { oauth2TokenUrl: tokenUrl })
+			}
+		});
+	}
+}
+
+/**
+ * Creates a client authenticated as a service account (no consent is needed)
+ * @param key The JSON key of the service account (parsed or not)
+ * @param options The access requested, and the user to impersonate (with a domain-wide delegation)
+ */
+export const getServiceAccountClient = (
+	key: ServiceAccountKey | string,
+	{ scopes = DRIVE_SCOPES, subject }: { scopes?: string[]; subject?: string } = {}
+): JWT => {
+	const { client_email, private_key }: ServiceAccountKey = typeof key === "string" ? JSON.parse(key) : key;
+	if (!client_email || !private_key) {
+		throw new AuthenticationError("The service account key needs a client_email and a private_key");
+	}
+	return new google.auth.JWT({ email: client_email, key: private_key, scopes, subject });
 };
 
 /**
  * Returns an authenticated OAuth2Client instance to access the Google Drive
  * of the referenced user
- * @param userEmail The user's email
+ * @param _userEmail The user's email
  * @param refreshToken The user's refresh token (null if not yet available)
+ * @throws AuthenticationError with the consent URL when there is no refresh token yet
  * @see https://cloud.google.com/nodejs/docs/reference/google-auth-library/latest#a-complete-oauth2-example
  */
 export const getOAuth2Client = async (
@@ -61,19 +270,41 @@ export const getOAuth2Client = async (
 
 	const oAuth2Client = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
 
-	if (refreshToken) {
-		// We already have a refresh token, so we can use it to get a new access token
-		oAuth2Client.setCredentials({
-			refresh_token: refreshToken
-		});
-	} else {
-		// We don't have a refresh token yet, so we need to get one
-		const _authUrl = oAuth2Client.generateAuthUrl({
-			access_type: "offline",
-			scope: ["https://www.googleapis.com/auth/drive"],
-			prompt: "consent"
-		});
+	if (!refreshToken) {
+		// We don't have a refresh token yet, so the user must consent first
+		throw new AuthenticationError(
+			"Missing refresh token : the user must consent to the access to its Drive",
+			oAuth2Client.generateAuthUrl({
+				access_type: "offline",
+				scope: DRIVE_SCOPES,
+				prompt: "consent"
+			})
+		);
 	}
 
+	// We already have a refresh token, so we can use it to get a new access token
+	oAuth2Client.setCredentials({
+		refresh_token: refreshToken
+	});
 	return oAuth2Client;
 };
+
+/**
+ * Retrieves a valid access token with an authenticated client (refreshing it if needed)
+ * @throws AuthenticationError if the refresh token has expired or was revoked
+ */
+export const getAuthToken = async (client: OAuth2Client): Promise<string> => {
+	let token: string | null | undefined;
+	try {
+		({ token } = await client.getAccessToken());
+	} catch (err) {
+		if (!isInvalidGrant(err)) throw err;
+		throw new AuthenticationError("The refresh token has expired or was revoked");
+	}
+
+	if (!token) {
+		throw new FileManagerError(500, "Failed to retrieve OAuth Access token to Google Drive");
+	}
+
+	return token;
+};
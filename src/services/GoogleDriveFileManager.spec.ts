@@ -0,0 +1,311 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { OAuth2Client } from "google-auth-library";
+import { FakeDriveApi } from "../testing/FakeDriveApi";
+import { hostilePathsTestSuite, testSuite } from "./FileManager.spec";
+import { FileManagerError, FileNotFoundError } from "./FileManagerErrors";
+import { GoogleDriveFileManager, type GoogleDriveFileManagerOptions } from "./GoogleDriveFileManager";
+
+describe("GoogleDriveFileManager (fake Drive API)", () => {
+	const fakeApi = new FakeDriveApi();
+	const driveApiUrl = fakeApi.start();
+
+	/**
+	 * Each test starts with an empty Drive
+	 */
+	function createFakeFileManager(rootDir = "/", options: GoogleDriveFileManagerOptions = {}) {
+		fakeApi.reset();
+		const oauth2Client = new OAuth2Client();
+		oauth2Client.setCredentials({ access_token: "fake-token" });
+		return new GoogleDriveFileManager(oauth2Client, rootDir, { driveApiUrl, ...options });
+	}
+
+	const pathsOf = (resources: { path: string }[]) => resources.map(({ path }) => path).sort();
+
+	afterAll(() => fakeApi.stop());
+
+	testSuite("GoogleDriveFileManager", () => createFakeFileManager())();
+
+	hostilePathsTestSuite("GoogleDriveFileManager", () => createFakeFileManager())();
+
+	describe("listings", () => {
+		it("lists a directory with the full paths of its content", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "docs/index.md": "Index", "docs/guides/start.md": "Start", "other.txt": "Other" });
+
+			const resources = await fileManager.listDirectoryContent("/docs");
+			expect(pathsOf(resources)).toEqual(["/docs/guides/", "/docs/index.md"]);
+			const index = resources.find(({ path }) => path === "/docs/index.md");
+			expect(index?.isFile).toBe(true);
+			expect(index?.size).toBe(5);
+			expect(index?.etag).toBeDefined();
+		});
+
+		it("lists the content of all the sub directories when recursive", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({
+				"docs/index.md": "Index",
+				"docs/guides/start.md": "Start",
+				"docs/guides/advanced/tips.md": "Tips",
+				"docs/empty/": ""
+			});
+
+			expect(pathsOf(await fileManager.listDirectoryContent("/docs/", true))).toEqual([
+				"/docs/empty/",
+				"/docs/guides/",
+				"/docs/guides/advanced/",
+				"/docs/guides/advanced/tips.md",
+				"/docs/guides/start.md",
+				"/docs/index.md"
+			]);
+		});
+
+		it("returns paths relative to the root directory", async () => {
+			const fileManager = createFakeFileManager("/site/");
+			fakeApi.seed({ "site/content/site.md": "Site", "site/index.md": "Home", "index.md": "Outside" });
+
+			expect(pathsOf(await fileManager.listDirectoryContent("/", true))).toEqual([
+				"/content/",
+				"/content/site.md",
+				"/index.md"
+			]);
+			expect((await fileManager.getFileContent("/index.md")).toString()).toBe("Home");
+			expect((await fileManager.stat("/content/site.md")).path).toBe("/content/site.md");
+		});
+
+		it("caches the IDs of the listed resources", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "docs/guides/start.md": "Start" });
+			await fileManager.listDirectoryContent("/", true);
+
+			fakeApi.requestsCount = 0;
+			expect((await fileManager.getFileContent("/docs/guides/start.md")).toString()).toBe("Start");
+			await fileManager.listDirectoryContent("/docs/guides/");
+			expect(fakeApi.requestsCount).toBe(2);
+		});
+
+		it("keeps the files and the folders with the same name apart", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "notes/todo.md": "Todo", notes: "A file named like the folder" });
+			await fileManager.listDirectoryContent("/", true);
+
+			expect((await fileManager.getFileContent("/notes")).toString()).toBe(
+				"A file named like the folder"
+			);
+			expect(pathsOf(await fileManager.listDirectoryContent("/notes/"))).toEqual(["/notes/todo.md"]);
+		});
+
+		it("lists the shortcuts as the files and folders they point to", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "shared/report.md": "Report", "shared/data/table.csv": "a,b" });
+			fakeApi.addShortcut("links/report.md", "shared/report.md");
+			fakeApi.addShortcut("links/data", "shared/data/");
+
+			const resources = await fileManager.listDirectoryContent("/links/", true);
+			expect(pathsOf(resources)).toEqual(["/links/data/", "/links/data/table.csv", "/links/report.md"]);
+			expect(resources.find(({ path }) => path === "/links/report.md")?.size).toBe(6);
+
+			expect((await fileManager.getFileContent("/links/report.md")).toString()).toBe("Report");
+			expect(pathsOf(await fileManager.listDirectoryContent("/links/data/"))).toEqual([
+				"/links/data/table.csv"
+			]);
+		});
+
+		it("follows the shortcuts without listing the cached resources", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "shared/data/table.csv": "a,b" });
+			fakeApi.addShortcut("links/data", "shared/data/");
+
+			expect((await fileManager.getFileContent("/links/data/table.csv")).toString()).toBe("a,b");
+			expect(await fileManager.exists("/links/data/")).toBe(true);
+		});
+
+		it("skips the broken shortcuts and does not list a folder inside itself", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "docs/index.md": "Index" });
+			fakeApi.addShortcut("docs/missing.md", "deleted.md");
+			fakeApi.addShortcut("docs/loop", "docs/");
+
+			expect(pathsOf(await fileManager.listDirectoryContent("/docs/", true))).toEqual([
+				"/docs/index.md",
+				"/docs/loop/"
+			]);
+		});
+
+		it("iterates over the pages of a directory with full paths", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "docs/a.md": "A", "docs/b.md": "B", "docs/sub/c.md": "C" });
+
+			const paths: string[] = [];
+			for await (const resource of fileManager.iterateDirectory("/docs/", {
+				recursive: true,
+				pageSize: 1
+			})) {
+				paths.push(resource.path);
+			}
+			expect(paths.sort()).toEqual(["/docs/a.md", "/docs/b.md", "/docs/sub/", "/docs/sub/c.md"]);
+		});
+	});
+
+	describe("writes", () => {
+		it("creates the missing files and folders with a MIME type", async () => {
+			const fileManager = createFakeFileManager("/site/");
+
+			await fileManager.updateTextFile("/docs/guides/start.md", "# Start");
+			await fileManager.updateBinaryFile("/images/logo.png", Buffer.from([137, 80, 78, 71]));
+
+			expect(fakeApi.readFile("site/docs/guides/start.md")).toBe("# Start");
+			expect(fakeApi.getFile("site/docs/guides/start.md")?.mimeType).toBe("text/markdown");
+			expect(fakeApi.getFile("site/images/logo.png")?.mimeType).toBe("image/png");
+			expect(await fileManager.getFileContent("/docs/guides/start.md")).toBe("# Start");
+			expect(await fileManager.getFileContent("/images/logo.png")).toEqual(
+				Buffer.from([137, 80, 78, 71])
+			);
+		});
+
+		it("keeps the ID of an updated file", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "docs/index.md": "Index" });
+			const fileId = fakeApi.getFile("docs/index.md")?.id;
+
+			await fileManager.updateTextFile("/docs/index.md", "New index");
+
+			expect(fakeApi.getFile("docs/index.md")?.id).toBe(fileId as string);
+			expect(fakeApi.readFile("docs/index.md")).toBe("New index");
+		});
+
+		it("reports a file deleted by another client as missing", async () => {
+			const fileManager = createFakeFileManager();
+			fakeApi.seed({ "docs/index.md": "Index" });
+			expect(await fileManager.exists("/docs/index.md")).toBeTrue();
+
+			const file = fakeApi.getFile("docs/index.md");
+			if (file) file.trashed = true;
+			await expect(fileManager.stat("/docs/index.md")).rejects.toThrow(FileNotFoundError);
+			expect(await fileManager.exists("/docs/index.md")).toBeFalse();
+
+			// The cached ID is forgotten : the new file of the same name is found
+			fakeApi.seed({ "docs/index.md": "New index" });
+			expect(await fileManager.getFileContent("/docs/index.md")).toBe("New index");
+		});
+
+		it("does not create the missing folders when told so", async () => {
+			const fileManager = createFakeFileManager("/", { createParentFolders: false });
+			fakeApi.seed({ "docs/": "" });
+
+			await fileManager.updateTextFile("/docs/index.md", "Index");
+			await expect(fileManager.updateTextFile("/drafts/index.md", "Draft")).rejects.toThrow(
+				FileNotFoundError
+			);
+			expect(fakeApi.getFile("drafts/")).toBeUndefined();
+		});
+
+		it("describes the files written without a message with the message template", async () => {
+			const fileManager = createFakeFileManager("/", {
+				messageTemplate: ({ operation, path }) => `[cms] ${operation} ${path}`
+			});
+
+			await fileManager.updateTextFile("/docs/index.md", "Index");
+			expect(fakeApi.getFile("docs/index.md")?.description).toBe("[cms] create /docs/index.md");
+			await fileManager.updateTextFile("/docs/index.md", "New index", { message: "Rewrite the index" });
+			expect(fakeApi.getFile("docs/index.md")?.description).toBe("Rewrite the index");
+		});
+	});
+
+	describe("Google documents", () => {
+		const DOCUMENT = "application/vnd.google-apps.document";
+		const SPREADSHEET = "application/vnd.google-apps.spreadsheet";
+		const PRESENTATION = "application/vnd.google-apps.presentation";
+
+		function seedDocuments() {
+			fakeApi.addDocument("docs/Report", DOCUMENT, {
+				"text/markdown": "# Report\nThe needle",
+				"text/html": "<h1>Report</h1>"
+			});
+			fakeApi.addDocument("docs/Budget", SPREADSHEET, { "text/csv": "a,b\n1,2" });
+			fakeApi.addDocument("docs/Pitch", PRESENTATION, { "application/pdf": "%PDF" });
+		}
+
+		it("lists the documents with the extension of their export", async () => {
+			const fileManager = createFakeFileManager();
+			seedDocuments();
+
+			const resources = await fileManager.listDirectoryContent("/docs/");
+			expect(pathsOf(resources)).toEqual([
+				"/docs/Budget.gsheet.csv",
+				"/docs/Pitch.gslides.pdf",
+				"/docs/Report.gdoc.md"
+			]);
+			expect(resources.map(({ mimeType }) => mimeType).sort()).toEqual([
+				"application/pdf",
+				"text/csv",
+				"text/markdown"
+			]);
+			expect((await fileManager.stat("/docs/Report.gdoc.md")).mimeType).toBe("text/markdown");
+		});
+
+		it("reads the documents by exporting them", async () => {
+			const fileManager = createFakeFileManager();
+			seedDocuments();
+
+			expect(await fileManager.getFileContent("/docs/Report.gdoc.md")).toBe("# Report\nThe needle");
+			expect(await fileManager.getFileContent("/docs/Budget.gsheet.csv")).toBe("a,b\n1,2");
+			expect((await fileManager.getFileContent("/docs/Pitch.gslides.pdf")).toString()).toBe("%PDF");
+			expect(await fileManager.exists("/docs/Report.gdoc.html")).toBe(false);
+
+			const matches = await fileManager.search("/docs/", "needle");
+			expect(matches.map(({ path }) => path)).toEqual(["/docs/Report.gdoc.md"]);
+		});
+
+		it("exports the documents to the configured formats", async () => {
+			const fileManager = createFakeFileManager("/", { exportFormats: { document: "html" } });
+			seedDocuments();
+
+			expect(pathsOf(await fileManager.listDirectoryContent("/docs/"))).toContain(
+				"/docs/Report.gdoc.html"
+			);
+			expect(await fileManager.getFileContent("/docs/Report.gdoc.html")).toBe("<h1>Report</h1>");
+			expect(() => createFakeFileManager("/", { exportFormats: { spreadsheet: "docx" } })).toThrow(
+				FileManagerError
+			);
+		});
+
+		it("refuses to write the exports unless the imports are enabled", async () => {
+			const fileManager = createFakeFileManager();
+			seedDocuments();
+
+			await expect(fileManager.updateTextFile("/docs/Report.gdoc.md", "# New")).rejects.toThrow(
+				FileManagerError
+			);
+			expect(await fileManager.getFileContent("/docs/Report.gdoc.md")).toBe("# Report\nThe needle");
+		});
+
+		it("imports the content written to the exports", async () => {
+			const fileManager = createFakeFileManager("/", { importDocuments: true });
+			seedDocuments();
+			const reportId = fakeApi.getFile("docs/Report")?.id;
+
+			await fileManager.updateTextFile("/docs/Report.gdoc.md", "# New report");
+			await fileManager.updateTextFile("/docs/Sales.gsheet.csv", "x,y");
+
+			expect(fakeApi.getFile("docs/Report")?.id).toBe(reportId as string);
+			expect(await fileManager.getFileContent("/docs/Report.gdoc.md")).toBe("# New report");
+			expect(fakeApi.getFile("docs/Sales")?.mimeType).toBe(SPREADSHEET);
+			expect(await fileManager.getFileContent("/docs/Sales.gsheet.csv")).toBe("x,y");
+			await expect(fileManager.updateTextFile("/docs/Pitch.gslides.pdf", "%PDF")).rejects.toThrow(
+				FileManagerError
+			);
+		});
+
+		it("moves the documents without their virtual extension", async () => {
+			const fileManager = createFakeFileManager();
+			seedDocuments();
+
+			await fileManager.move("/docs/Report.gdoc.md", "/archive/Old report.gdoc.md");
+
+			expect(fakeApi.getFile("archive/Old report")?.mimeType).toBe(DOCUMENT);
+			expect(pathsOf(await fileManager.listDirectoryContent("/archive/"))).toEqual([
+				"/archive/Old report.gdoc.md"
+			]);
+		});
+	});
+});
@@ -1,13 +1,165 @@
+import { once } from "node:events";
+import { PassThrough, Readable } from "node:stream";
 import type { OAuth2Client } from "google-auth-library";
 import { type drive_v3, google } from "googleapis";
-import { FileManagerError, FileNotFoundError } from "./FileManagerErrors";
-import type { FileManagerInterface } from "./FileManagerInterface";
+import { AuthenticationError, FileManagerError, FileNotFoundError } from "./FileManagerErrors";
+import type {
+	ChangeEvent,
+	FileManagerInterface,
+	FindOptions,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	MessageTemplate,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteDescription,
+	WriteOptions
+} from "./FileManagerInterface";
+import { mapConcurrently } from "../utils/async-utils";
+import { findResources } from "../utils/glob-utils";
+import { getMimeType } from "../utils/mime-utils";
+import { checkPageSize, DEFAULT_PAGE_SIZE, iteratePages } from "../utils/paging-utils";
+import { checkPreconditions } from "../utils/precondition-utils";
 import { ResourceInfo } from "../utils/ResourceInfo";
-import { normalizePath, splitPath } from "../utils";
+import { normalizePath, resolvePath, splitPath } from "../utils";
+import { searchFiles } from "../utils/search-utils";
+import { streamToBytes, writeToStream } from "../utils/stream-utils";
+import { planTransfer } from "../utils/transfer-utils";
+import { Watcher } from "../utils/Watcher";
+
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+const SHORTCUT_MIME_TYPE = "application/vnd.google-apps.shortcut";
+
+/**
+ * The fields of a Drive file resource that we need to describe it
+ */
+const FILE_FIELDS = "id, name, mimeType, parents, size, modifiedTime, md5Checksum, shortcutDetails";
+
+/**
+ * The largest page of files returned by the Drive API
+ */
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * How often the changes feed is checked by `watch()` (in milliseconds)
+ */
+const WATCH_INTERVAL = 30_000;
+
+/**
+ * How many folders are listed at the same time by a recursive listing
+ */
+const LISTING_CONCURRENCY = 8;
+
+/**
+ * The Google Workspace documents : they have no content of their own and are read by exporting them.
+ * They are listed with a virtual extension made of their own extension and of their export format (`Report.gdoc.md`).
+ */
+const GOOGLE_DOCUMENTS = {
+	document: {
+		mimeType: "application/vnd.google-apps.document",
+		extension: "gdoc",
+		exports: ["md", "html", "txt", "pdf", "docx", "odt"],
+		imports: ["md", "html", "txt", "docx", "odt"]
+	},
+	spreadsheet: {
+		mimeType: "application/vnd.google-apps.spreadsheet",
+		extension: "gsheet",
+		exports: ["csv", "pdf", "xlsx"],
+		imports: ["csv", "xlsx"]
+	},
+	presentation: {
+		mimeType: "application/vnd.google-apps.presentation",
+		extension: "gslides",
+		exports: ["pdf", "pptx", "txt"],
+		imports: ["pptx"]
+	}
+};
+
+export type GoogleDocumentType = keyof typeof GOOGLE_DOCUMENTS;
+
+const DOCUMENT_TYPES = Object.keys(GOOGLE_DOCUMENTS) as GoogleDocumentType[];
+
+/**
+ * @returns the type of Google document of a Drive MIME type, or nothing for the other files
+ */
+const getDocumentType = (mimeType?: string | null) =>
+	DOCUMENT_TYPES.find((type) => GOOGLE_DOCUMENTS[type].mimeType === mimeType);
+
+/**
+ * The format each type of Google document is exported to
+ */
+export type GoogleDocumentFormats = Record<GoogleDocumentType, string>;
+
+const DEFAULT_EXPORT_FORMATS: GoogleDocumentFormats = {
+	document: "md",
+	spreadsheet: "csv",
+	presentation: "pdf"
+};
+
+/**
+ * A Google document designated by the path of its export
+ */
+interface GoogleDocumentExport {
+	type: GoogleDocumentType;
+	/**
+	 * The name of the document on the Drive
+	 */
+	name: string;
+	format: string;
+	/**
+	 * The MIME type of the export
+	 */
+	mimeType: string;
+}
+
+/**
+ * Escape a value inserted inside a quoted string of a Drive search query
+ */
+const escapeQueryValue = (value: string) => value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+
+export interface GoogleDriveFileManagerOptions {
+	/**
+	 * The root URL of the Google APIs (to use a proxy, or a fake API in the tests).
+	 * Default: `https://www.googleapis.com/`
+	 */
+	driveApiUrl?: string;
+	/**
+	 * Pass FALSE to only write files inside existing folders
+	 * (the writes are then rejected with a FileNotFoundError). Default: TRUE
+	 */
+	createParentFolders?: boolean;
+	/**
+	 * The formats the Google documents are exported to (see GOOGLE_DOCUMENTS for the available formats).
+	 * Default: Markdown for the documents, CSV for the spreadsheets and PDF for the presentations
+	 */
+	exportFormats?: Partial<GoogleDocumentFormats>;
+	/**
+	 * Pass TRUE to write the exports of the Google documents : the written content is converted back
+	 * by the Drive API (from Markdown, HTML, CSV...). Otherwise these writes are rejected. Default: FALSE
+	 */
+	importDocuments?: boolean;
+	/**
+	 * Builds the description of the written files when no message is given
+	 */
+	messageTemplate?: MessageTemplate;
+}
 
 export class GoogleDriveFileManager implements FileManagerInterface {
 	private drive: drive_v3.Drive;
 	private rootDir: string;
+	private messageTemplate?: MessageTemplate;
+	private createParentFolders: boolean;
+	private exportFormats: GoogleDocumentFormats;
+	private importDocuments: boolean;
+	/**
+	 * The options of the upload requests : the media URLs ignore the root URL given to the Drive client
+	 */
+	private uploadOptions: { rootUrl?: string };
 
 	private idsCache = new Map<string, string>(
 		Object.entries({
@@ -15,104 +167,439 @@ export class GoogleDriveFileManager implements FileManagerInterface {
 		})
 	);
 
-	constructor(oauth2Client: OAuth2Client, rootDir = "/") {
-		this.drive = google.drive({ version: "v3", auth: oauth2Client });
+	/**
+	 * The last known path of the files reported by `watch()`, by file ID
+	 */
+	private watchedPaths = new Map<string, string>();
+	private rootFolderId?: string;
+
+	/**
+	 * @param oauth2Client The authenticated client used to call the Drive API
+	 * @param rootDir The root folder of the file manager
+	 * @param options The URL of the API, how to write the files and how to describe them
+	 */
+	constructor(
+		oauth2Client: OAuth2Client,
+		rootDir = "/",
+		{
+			driveApiUrl,
+			createParentFolders = true,
+			exportFormats,
+			importDocuments = false,
+			messageTemplate
+		}: GoogleDriveFileManagerOptions = {}
+	) {
+		this.drive = google.drive({
+			version: "v3",
+			auth: oauth2Client,
+			...(driveApiUrl && { rootUrl: driveApiUrl })
+		});
 		this.rootDir = rootDir;
+		this.messageTemplate = messageTemplate;
+		this.createParentFolders = createParentFolders;
+		this.exportFormats = { ...DEFAULT_EXPORT_FORMATS, ...exportFormats };
+		this.importDocuments = importDocuments;
+		for (const [type, format] of Object.entries(this.exportFormats)) {
+			if (!GOOGLE_DOCUMENTS[type as GoogleDocumentType]?.exports.includes(format)) {
+				throw new FileManagerError(400, `A Google ${type} cannot be exported to '${format}'`);
+			}
+		}
+		this.uploadOptions = driveApiUrl ? { rootUrl: driveApiUrl } : {};
 	}
 	/**
 	 * Get detailed info about the resource on this path
 	 * @param path The path of the file or folder
 	 */
 	getInfo(path: string): ResourceInfo {
-		return new ResourceInfo(path, { rootDir: this.rootDir });
+		return new ResourceInfo(path);
+	}
+
+	/**
+	 * Retrieves the Drive file metadata of a file or folder
+	 * @param path The path of the file or folder
+	 * @throws FileNotFoundError if the resource does not exist (or was deleted since its ID was cached)
+	 * @throws AuthenticationError if the access to the Drive was refused
+	 */
+	async stat(path: string): Promise<ResourceInfo> {
+		const rscPath = resolvePath(path);
+		const fileId = await this.getResourceId(path);
+		try {
+			const { data } = await this.drive.files.get({ fileId, fields: FILE_FIELDS });
+			return this.getDriveFileInfo(rscPath, data);
+		} catch (err) {
+			const status = (err as { response?: { status?: number } }).response?.status;
+			if (status === 404) {
+				this.idsCache.delete(this.getCacheKey(path));
+				throw new FileNotFoundError(rscPath, `File '${rscPath}' does not exist`);
+			}
+			if (status === 401) {
+				throw new AuthenticationError(
+					`The access to the Drive was refused: ${(err as Error).message}`
+				);
+			}
+			throw new FileManagerError(
+				status || 500,
+				`Failed to retrieve metadata of the resource at path: ${path}`
+			);
+		}
 	}
 
-	async getFileContent(path: string): Promise<string | Buffer> {
+	async exists(path: string): Promise<boolean> {
+		return this.stat(path).then(
+			() => true,
+			(err) => {
+				if (err instanceof FileNotFoundError) return false;
+				throw err;
+			}
+		);
+	}
+
+	/**
+	 * Retrieves the content of a file, or of one of its revisions
+	 * @param path The path of the file
+	 * @param options The id of the Drive revision to read
+	 */
+	async getFileContent(path: string, { revision }: ReadOptions = {}): Promise<string | Buffer> {
+		const content = Buffer.from(
+			await streamToBytes(
+				revision ? await this.readRevisionStream(path, revision) : await this.readStream(path)
+			)
+		);
+		return this.getInfo(path).isText ? content.toString("utf-8") : content;
+	}
+
+	/**
+	 * Lists the revisions of a file with the Drive revisions API
+	 * (Drive may merge or purge the old revisions of a file)
+	 * @param path The path of the file
+	 */
+	async listRevisions(path: string): Promise<Revision[]> {
 		const fileId = await this.getFileIdByPath(path);
+		const revisions: drive_v3.Schema$Revision[] = [];
 		try {
-			const response = await this.drive.files.get(
+			let pageToken: string | undefined;
+			do {
+				const { data } = await this.drive.revisions.list({
+					fileId,
+					pageToken,
+					fields: "nextPageToken, revisions(id, modifiedTime, size, lastModifyingUser(displayName, emailAddress))"
+				});
+				revisions.push(...(data.revisions || []));
+				pageToken = data.nextPageToken || undefined;
+			} while (pageToken);
+		} catch (_error) {
+			throw new FileManagerError(500, `Failed to list the revisions of the file at path: ${path}`);
+		}
+
+		// Drive lists the oldest revisions first
+		return revisions.reverse().map(({ id, modifiedTime, size, lastModifyingUser }) => ({
+			id: id || "",
+			timestamp: new Date(modifiedTime || 0),
+			author: lastModifyingUser
+				? { name: lastModifyingUser.displayName || "", email: lastModifyingUser.emailAddress || "" }
+				: undefined,
+			size: size ? Number(size) : undefined
+		}));
+	}
+
+	/**
+	 * Uploads the content of a past revision as a new revision of the file
+	 * @param path The path of the file
+	 * @param revision The id of the Drive revision to restore
+	 * @param options The message and metadata stored with the file
+	 */
+	async restoreRevision(path: string, revision: string, options: WriteOptions = {}): Promise<void> {
+		const content = await streamToBytes(await this.readRevisionStream(path, revision));
+		const message = options.message || this.messageTemplate?.({ operation: "restore", path, revision });
+		await writeToStream(await this.writeStream(path, { ...options, message }), content);
+	}
+
+	/**
+	 * Streams the content of a revision of a file from the Drive API
+	 */
+	private async readRevisionStream(path: string, revisionId: string): Promise<ReadableStream<Uint8Array>> {
+		const fileId = await this.getFileIdByPath(path);
+		try {
+			const response = await this.drive.revisions.get(
 				{
 					fileId,
+					revisionId,
 					alt: "media"
 				},
-				{ responseType: "arraybuffer" }
+				{ responseType: "stream" }
 			);
 
-			return Buffer.from(response.data as ArrayBuffer);
+			return Readable.toWeb(
+				response.data as unknown as Readable
+			) as unknown as ReadableStream<Uint8Array>;
 		} catch (_error) {
-			throw new FileManagerError(500, `Failed to retrieve content of the file at path: ${path}`);
+			throw new FileManagerError(
+				500,
+				`Failed to retrieve revision ${revisionId} of the file at path: ${path}`
+			);
 		}
 	}
 
-	async updateTextFile(path: string, content: string): Promise<void> {
+	/**
+	 * Streams the file media content from the Drive API (or the export of a Google document)
+	 * @param path The path of the file to read
+	 */
+	async readStream(path: string): Promise<ReadableStream<Uint8Array>> {
 		const fileId = await this.getFileIdByPath(path);
+		const document = this.getDocumentExport(resolvePath(path));
 		try {
-			await this.drive.files.update({
-				fileId,
-				media: {
-					body: content
-				}
-			});
+			const response = document
+				? await this.drive.files.export(
+						{ fileId, mimeType: document.mimeType },
+						{ responseType: "stream" }
+					)
+				: await this.drive.files.get(
+						{
+							fileId,
+							alt: "media"
+						},
+						{ responseType: "stream" }
+					);
+
+			return Readable.toWeb(
+				response.data as unknown as Readable
+			) as unknown as ReadableStream<Uint8Array>;
 		} catch (_error) {
-			throw new FileManagerError(500, `Failed to update text file at path: ${path}`);
+			throw new FileManagerError(500, `Failed to retrieve content of the file at path: ${path}`);
 		}
 	}
 
-	async updateBinaryFile(path: string, content: Buffer): Promise<void> {
+	/**
+	 * Streams the written chunks as the media body of a Drive API upload.
+	 * A missing file is created (with a MIME type guessed from its extension), an existing one keeps its ID.
+	 * The content written to the export of a Google document is imported into the document.
+	 * The upload is completed when the stream is closed.
+	 * @param path The path of the file to write
+	 * @param options The preconditions of the change, and the message and metadata stored with the file
+	 */
+	async writeStream(path: string, options?: WriteOptions): Promise<WritableStream<Uint8Array>> {
+		const resource = this.getInfo(resolvePath(path));
+		const document = this.getDocumentExport(resource.path);
+		if (document) this.checkImport(document, path);
+		await checkPreconditions(this, path, options);
+		const fileId = await this.getFileIdByPath(path).catch((err) => {
+			if (err instanceof FileNotFoundError) return undefined;
+			throw err;
+		});
+		const mimeType = document?.mimeType || getMimeType(resource);
+		const body = new PassThrough();
+		const media = { mimeType, body };
+		const request = fileId
+			? this.drive.files.update(
+					{
+						fileId,
+						requestBody: this.getChangeDescription({ operation: "update", path }, options),
+						media
+					},
+					this.uploadOptions
+				)
+			: this.drive.files.create(
+					{
+						requestBody: {
+							name: this.getDriveName(resource),
+							// The Drive API converts the uploaded content to the type of the Google document
+							mimeType: document ? GOOGLE_DOCUMENTS[document.type].mimeType : mimeType,
+							parents: [
+								await this.getFolderIdByPath(
+									resource.parent?.path || "/",
+									this.createParentFolders
+								)
+							],
+							...this.getChangeDescription({ operation: "create", path }, options)
+						},
+						media,
+						fields: "id"
+					},
+					this.uploadOptions
+				);
+		const upload = request.then(
+			({ data }) => {
+				if (data.id) this.idsCache.set(this.getCacheKey(resource.path), data.id);
+			},
+			() => new FileManagerError(500, `Failed to update file at path: ${path}`)
+		);
+
+		return new WritableStream<Uint8Array>({
+			async write(chunk) {
+				if (!body.write(chunk)) {
+					// Wait for the upload to consume the chunks, unless it has already failed
+					const error = await Promise.race([once(body, "drain").then(() => undefined), upload]);
+					if (error) throw error;
+				}
+			},
+			async close() {
+				body.end();
+				const error = await upload;
+				if (error) throw error;
+			},
+			abort(reason) {
+				body.destroy(reason instanceof Error ? reason : undefined);
+			}
+		});
+	}
+
+	async updateTextFile(path: string, content: string, options?: WriteOptions): Promise<void> {
+		await writeToStream(await this.writeStream(path, options), content);
+	}
+
+	async updateBinaryFile(path: string, content: Buffer, options?: WriteOptions): Promise<void> {
+		await writeToStream(await this.writeStream(path, options), content);
+	}
+
+	async deleteFile(path: string, options?: WriteOptions): Promise<void> {
+		await checkPreconditions(this, path, options);
 		const fileId = await this.getFileIdByPath(path);
 		try {
+			await this.drive.files.delete({ fileId });
+		} catch (_error) {
+			throw new FileManagerError(500, `Failed to delete file at path: ${path}`);
+		} finally {
+			this.idsCache.delete(this.getCacheKey(path, false));
+		}
+	}
+
+	/**
+	 * Moves or renames a file or a folder by updating its parents and its name
+	 * (the Drive file ID and its sharing settings are preserved)
+	 * @param from The path of the file or folder to move
+	 * @param to The new path of the file or folder
+	 * @param options What to do if the destination already exists, and the message and metadata stored with it
+	 */
+	async move(from: string, to: string, options?: TransferOptions): Promise<void> {
+		const { source, destination, conflict } = await planTransfer(this, from, to, options);
+		const sourceId = await this.getResourceId(source.path);
+		const description = this.getChangeDescription(
+			{ operation: "move", path: source.path, destination: destination.path },
+			options
+		);
+		try {
+			if (conflict === "merge") {
+				const targetId = await this.getFolderIdByPath(destination.path);
+				await this.moveFolderContent(sourceId, targetId);
+				await this.drive.files.delete({ fileId: sourceId });
+				await this.describeResource(targetId, description);
+				return;
+			}
+			if (conflict === "overwrite") {
+				await this.drive.files.delete({ fileId: await this.getResourceId(destination.path) });
+				this.resetIdsCache();
+			}
+			const parentId = await this.getFolderIdByPath(destination.parent?.path || "/", true);
+			const { data } = await this.drive.files.get({ fileId: sourceId, fields: "parents" });
 			await this.drive.files.update({
-				fileId,
-				media: {
-					body: content
-				}
+				fileId: sourceId,
+				addParents: parentId,
+				removeParents: (data.parents || []).join(","),
+				requestBody: { name: this.getDriveName(destination), ...description }
 			});
 		} catch (_error) {
-			throw new FileManagerError(500, `Failed to update binary file at path: ${path}`);
+			throw new FileManagerError(500, `Failed to move '${from}' to '${to}'`);
+		} finally {
+			this.resetIdsCache();
 		}
 	}
 
-	async deleteFile(path: string): Promise<void> {
-		const fileId = await this.getFileIdByPath(path);
+	/**
+	 * Copies a file or a folder (folders are recreated and their files copied one by one)
+	 * @param from The path of the file or folder to copy
+	 * @param to The path of the copy
+	 * @param options What to do if the destination already exists, and the message and metadata stored with the copy
+	 */
+	async copy(from: string, to: string, options?: TransferOptions): Promise<void> {
+		const { source, destination, conflict } = await planTransfer(this, from, to, options);
+		const sourceId = await this.getResourceId(source.path);
+		const description = this.getChangeDescription(
+			{ operation: "copy", path: source.path, destination: destination.path },
+			options
+		);
 		try {
-			await this.drive.files.delete({ fileId });
+			if (conflict === "overwrite") {
+				await this.drive.files.delete({ fileId: await this.getResourceId(destination.path) });
+				this.resetIdsCache();
+			}
+			if (source.isDirectory) {
+				const targetId = await this.getFolderIdByPath(destination.path, true);
+				await this.copyFolderContent(sourceId, targetId);
+				await this.describeResource(targetId, description);
+			} else {
+				const parentId = await this.getFolderIdByPath(destination.parent?.path || "/", true);
+				await this.drive.files.copy({
+					fileId: sourceId,
+					requestBody: { name: this.getDriveName(destination), parents: [parentId], ...description }
+				});
+			}
 		} catch (_error) {
-			throw new FileManagerError(500, `Failed to delete file at path: ${path}`);
+			throw new FileManagerError(500, `Failed to copy '${from}' to '${to}'`);
+		} finally {
+			this.resetIdsCache();
 		}
 	}
 
 	/**
-	 * List the content of a Google Drive directory
+	 * List the content of a Google Drive directory.
+	 * The shortcuts are listed as the files or folders they point to, and the IDs of the listed resources are cached.
 	 * @param {string} path The path of the directory to scan
 	 * @param {boolean} recursive Pass TRUE to scan all child directories. Default: FALSE
 	 * @returns A promise that resolves to an array of FileInfo objects
 	 */
-	async listDirectoryContent(path: string, _recursive = false): Promise<ResourceInfo[]> {
+	async listDirectoryContent(path: string, recursive = false): Promise<ResourceInfo[]> {
 		const folderId = await this.getFolderIdByPath(path);
+		const rscPath = resolvePath(path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
 		try {
-			const files =
-				(
-					await this.drive.files.list({
-						q: `'${folderId}' in parents and trashed = false`,
-						fields: "files(id, name, mimeType, parents)"
-					})
-				).data.files || [];
-
-			return files.map(
-				(file: any) =>
-					new ResourceInfo(file.name, {
-						rootDir: this.rootDir,
-						type: file.mimeType === "application/vnd.google-apps.folder" ? "dir" : "file"
-					})
-			);
+			return await this.listFolders(folderId, dirPath, recursive);
+		} catch (_error) {
+			throw new FileManagerError(500, `Failed to list directory content at path: ${path}`);
+		}
+	}
+
+	iterateDirectory(path: string, options?: IterateDirectoryOptions): AsyncIterable<ResourceInfo> {
+		return iteratePages(this, path, options);
+	}
+
+	/**
+	 * The cursors are the Drive page tokens
+	 */
+	async listPage(
+		path: string,
+		{ pageSize = DEFAULT_PAGE_SIZE, cursor }: ListPageOptions = {}
+	): Promise<ListPage> {
+		const folderId = await this.getFolderIdByPath(path);
+		const rscPath = resolvePath(path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+		try {
+			const { data } = await this.drive.files.list({
+				q: `'${folderId}' in parents and trashed = false`,
+				pageSize: Math.min(checkPageSize(pageSize), MAX_PAGE_SIZE),
+				pageToken: cursor,
+				orderBy: "folder,name",
+				fields: `nextPageToken, files(${FILE_FIELDS})`
+			});
+			return {
+				items: (await this.resolveShortcuts(data.files || [])).map((file) =>
+					this.cacheFileInfo(dirPath, file)
+				),
+				cursor: data.nextPageToken || undefined
+			};
 		} catch (_error) {
 			throw new FileManagerError(500, `Failed to list directory content at path: ${path}`);
 		}
 	}
 
-	async createDirectory(path: string): Promise<void> {
+	async createDirectory(path: string, options?: WriteOptions): Promise<void> {
+		// The invalid paths are rejected before any call to the Drive API
+		const rscPath = resolvePath(path);
 		try {
-			await this.getFolderIdByPath(path, true);
+			const folderId = await this.getFolderIdByPath(rscPath, true);
+			await this.describeResource(
+				folderId,
+				this.getChangeDescription({ operation: "createDirectory", path }, options)
+			);
 		} catch (_error) {
 			throw new FileManagerError(500, `Failed to create directory at path: ${path}`);
 		}
@@ -124,88 +611,381 @@ export class GoogleDriveFileManager implements FileManagerInterface {
 			await this.drive.files.delete({ fileId: folderId });
 		} catch (_error) {
 			throw new FileManagerError(500, `Failed to delete directory at path: ${path}`);
+		} finally {
+			this.resetIdsCache();
 		}
 	}
 
+	/**
+	 * Build the Drive file fields that keep the description of a change :
+	 * the message (or the one built by the template) and the metadata
+	 */
+	private getChangeDescription(
+		write: WriteDescription,
+		{ message, metadata }: WriteOptions = {}
+	): drive_v3.Schema$File {
+		const description = message || this.messageTemplate?.(write);
+		return {
+			...(description && { description }),
+			...(metadata && { appProperties: metadata })
+		};
+	}
+
+	/**
+	 * Store the description of a change on an existing file or folder
+	 */
+	private async describeResource(fileId: string, description: drive_v3.Schema$File): Promise<void> {
+		if (Object.keys(description).length > 0) {
+			await this.drive.files.update({ fileId, requestBody: description });
+		}
+	}
+
+	/**
+	 * Describes a Drive file with the metadata returned by the Drive API
+	 * (the md5 checksum is only available for binary content, otherwise we use the modification time)
+	 */
+	private getDriveFileInfo(path: string, file: drive_v3.Schema$File): ResourceInfo {
+		const isFolder = file.mimeType === FOLDER_MIME_TYPE;
+		const resource = new ResourceInfo(path, {
+			type: isFolder ? "dir" : "file",
+			size: file.size ? Number(file.size) : undefined,
+			modifiedTime: file.modifiedTime ? new Date(file.modifiedTime) : undefined,
+			etag: file.md5Checksum || file.modifiedTime || undefined,
+			mimeType: isFolder ? undefined : file.mimeType || undefined
+		});
+		if (!getDocumentType(file.mimeType)) return resource;
+		// A Google document is described as its export
+		return new ResourceInfo(path, {
+			...resource.metadata,
+			type: "file",
+			mimeType: getMimeType(resource)
+		});
+	}
+
+	/**
+	 * The name of a file in the listings : the Google documents get the virtual extension of their export
+	 */
+	private getFileName(file: drive_v3.Schema$File): string {
+		const type = getDocumentType(file.mimeType);
+		if (!type) return file.name || "";
+		return `${file.name}.${GOOGLE_DOCUMENTS[type].extension}.${this.exportFormats[type]}`;
+	}
+
+	/**
+	 * The name of a file on the Drive : the virtual extension of the Google documents is removed
+	 */
+	private getDriveName(resource: ResourceInfo): string {
+		return this.getDocumentExport(resource.path)?.name || resource.fullname;
+	}
+
+	/**
+	 * Find the Google document exported at a path, like `/docs/Report.gdoc.md`
+	 * @returns nothing for the other files, and for the exports to another format than the configured one
+	 */
+	private getDocumentExport(path: string): GoogleDocumentExport | undefined {
+		const fullname = path.substring(path.lastIndexOf("/") + 1);
+		for (const type of DOCUMENT_TYPES) {
+			const format = this.exportFormats[type];
+			const extension = `.${GOOGLE_DOCUMENTS[type].extension}.${format}`;
+			if (fullname.length > extension.length && fullname.endsWith(extension)) {
+				return {
+					type,
+					name: fullname.slice(0, -extension.length),
+					format,
+					mimeType: getMimeType(new ResourceInfo(path, { type: "file" }))
+				};
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * @throws FileManagerError (400) if the content written to the export of a Google document cannot be imported
+	 */
+	private checkImport({ type, format }: GoogleDocumentExport, path: string) {
+		if (!this.importDocuments) {
+			throw new FileManagerError(
+				400,
+				`'${path}' is the export of a Google ${type} : enable importDocuments to write it`,
+				path
+			);
+		}
+		if (!GOOGLE_DOCUMENTS[type].imports.includes(format)) {
+			throw new FileManagerError(400, `A Google ${type} cannot be imported from '${format}'`, path);
+		}
+	}
+
+	/**
+	 * List the files and folders directly inside a Drive folder
+	 * @param folderId The ID of the parent folder
+	 */
+	private async listFolderChildren(folderId: string): Promise<drive_v3.Schema$File[]> {
+		const files: drive_v3.Schema$File[] = [];
+		let pageToken: string | undefined;
+		do {
+			const { data } = await this.drive.files.list({
+				q: `'${folderId}' in parents and trashed = false`,
+				pageSize: MAX_PAGE_SIZE,
+				pageToken,
+				fields: `nextPageToken, files(${FILE_FIELDS})`
+			});
+			files.push(...(data.files || []));
+			pageToken = data.nextPageToken || undefined;
+		} while (pageToken);
+		return files;
+	}
+
+	/**
+	 * List the content of a folder, and the content of all its sub folders when recursive (level by level)
+	 * @param folderId The ID of the folder
+	 * @param dirPath The path of the folder
+	 * @param recursive Pass TRUE to list the sub folders
+	 */
+	private async listFolders(
+		folderId: string,
+		dirPath: string,
+		recursive: boolean
+	): Promise<ResourceInfo[]> {
+		const resources: ResourceInfo[] = [];
+		// A shortcut to one of the ancestors of a folder would make us list it forever
+		let pendingFolders = [{ id: folderId, path: dirPath, ancestors: new Set([folderId]) }];
+		while (pendingFolders.length > 0) {
+			const listings = await mapConcurrently(pendingFolders, LISTING_CONCURRENCY, async (folder) => ({
+				folder,
+				files: await this.resolveShortcuts(await this.listFolderChildren(folder.id))
+			}));
+			pendingFolders = [];
+			for (const { folder, files } of listings) {
+				for (const file of files) {
+					const resource = this.cacheFileInfo(folder.path, file);
+					const id = file.id as string;
+					resources.push(resource);
+					if (recursive && resource.isDirectory && !folder.ancestors.has(id)) {
+						pendingFolders.push({
+							id,
+							path: resource.path,
+							ancestors: new Set([...folder.ancestors, id])
+						});
+					}
+				}
+			}
+		}
+		return resources;
+	}
+
+	/**
+	 * Replace the shortcuts by the files or folders they point to, keeping the names of the shortcuts
+	 * @returns the files, without the shortcuts whose target no longer exists
+	 */
+	private async resolveShortcuts(files: drive_v3.Schema$File[]): Promise<drive_v3.Schema$File[]> {
+		const resolved = await mapConcurrently(files, LISTING_CONCURRENCY, async (file) => {
+			if (file.mimeType !== SHORTCUT_MIME_TYPE) return [file];
+			try {
+				const { data } = await this.drive.files.get({
+					fileId: file.shortcutDetails?.targetId as string,
+					fields: `${FILE_FIELDS}, trashed`
+				});
+				return data.trashed ? [] : [{ ...data, name: file.name }];
+			} catch (_error) {
+				return [];
+			}
+		});
+		return resolved.flat();
+	}
+
+	/**
+	 * Describes a listed file or folder, and remembers its ID
+	 * @param dirPath The path of the parent folder
+	 */
+	private cacheFileInfo(dirPath: string, file: drive_v3.Schema$File): ResourceInfo {
+		const resource = this.getDriveFileInfo(`${dirPath}${this.getFileName(file)}`, file);
+		this.idsCache.set(this.getCacheKey(resource.path), file.id as string);
+		return resource;
+	}
+
+	/**
+	 * Create a new folder
+	 * @param name The name of the folder
+	 * @param parentId The ID of the parent folder
+	 * @returns the ID of the created folder
+	 */
+	private async createFolder(name: string, parentId: string): Promise<string> {
+		const { data } = await this.drive.files.create({
+			requestBody: {
+				name,
+				mimeType: FOLDER_MIME_TYPE,
+				parents: [parentId]
+			},
+			fields: "id"
+		});
+		return data.id || "";
+	}
+
+	/**
+	 * Copy all the files of a folder inside another folder.
+	 * Sub-folders with the same name are merged, files with the same name are replaced.
+	 */
+	private async copyFolderContent(sourceId: string, targetId: string): Promise<void> {
+		const [children, existing] = await Promise.all([
+			this.listFolderChildren(sourceId),
+			this.listFolderChildren(targetId)
+		]);
+
+		for (const child of children) {
+			const homonym = existing.find(({ name }) => name === child.name);
+			const isFolder = child.mimeType === FOLDER_MIME_TYPE;
+
+			if (homonym && (!isFolder || homonym.mimeType !== FOLDER_MIME_TYPE)) {
+				await this.drive.files.delete({ fileId: homonym.id as string });
+			}
+			if (isFolder) {
+				const folderId =
+					homonym?.mimeType === FOLDER_MIME_TYPE
+						? (homonym.id as string)
+						: await this.createFolder(child.name as string, targetId);
+				await this.copyFolderContent(child.id as string, folderId);
+			} else {
+				await this.drive.files.copy({
+					fileId: child.id as string,
+					requestBody: { name: child.name, parents: [targetId] }
+				});
+			}
+		}
+	}
+
+	/**
+	 * Move all the files of a folder inside another folder, keeping their IDs.
+	 * Sub-folders with the same name are merged, files with the same name are replaced.
+	 */
+	private async moveFolderContent(sourceId: string, targetId: string): Promise<void> {
+		const [children, existing] = await Promise.all([
+			this.listFolderChildren(sourceId),
+			this.listFolderChildren(targetId)
+		]);
+
+		for (const child of children) {
+			const homonym = existing.find(({ name }) => name === child.name);
+			const isFolder = child.mimeType === FOLDER_MIME_TYPE;
+
+			if (isFolder && homonym?.mimeType === FOLDER_MIME_TYPE) {
+				await this.moveFolderContent(child.id as string, homonym.id as string);
+				await this.drive.files.delete({ fileId: child.id as string });
+				continue;
+			}
+			if (homonym) {
+				await this.drive.files.delete({ fileId: homonym.id as string });
+			}
+			await this.drive.files.update({
+				fileId: child.id as string,
+				addParents: targetId,
+				removeParents: sourceId
+			});
+		}
+	}
+
+	/**
+	 * Forget the cached IDs after a change in the folders structure
+	 */
+	private resetIdsCache() {
+		this.idsCache.clear();
+		this.idsCache.set("/", "root");
+	}
+
+	/**
+	 * Get the ID of a file or a folder (folders paths end with a trailing slash)
+	 */
+	private async getResourceId(path: string): Promise<string> {
+		return path.endsWith("/") ? this.getFolderIdByPath(path) : this.getFileIdByPath(path);
+	}
+
 	/**
 	 * Append the root directory to the path
+	 * @throws PathError if the path escapes the root directory
 	 */
 	private getPathFromRoot(path: string): string {
-		return normalizePath(`${this.rootDir}/${path}`);
+		return normalizePath(`${this.rootDir}/${resolvePath(path)}`);
+	}
+
+	/**
+	 * The key of a file or a folder in the IDs cache : its path from the root of the Drive,
+	 * with a trailing slash for the folders (a file and a folder may have the same name)
+	 */
+	private getCacheKey(path: string, isFolder = path.endsWith("/")): string {
+		const pathFromRoot = this.getPathFromRoot(path);
+		return isFolder ? `${pathFromRoot}/` : pathFromRoot;
 	}
 
 	/**
-	 * Get a folder's ID
+	 * Get a folder's ID, following the shortcuts to folders
 	 * Optionally create the folder if it doesn't exist
 	 * @param folderPath like "get/me/somewhere/"
 	 * @param createIfNotExist Force the creation of the folder
 	 */
 	private async getFolderIdByPath(folderPath: string, createIfNotExist = false): Promise<string> {
-		folderPath = this.getPathFromRoot(folderPath);
-
-		const cachedId = this.idsCache.get(folderPath);
+		const cachedId = this.idsCache.get(this.getCacheKey(folderPath, true));
 
 		if (cachedId) return cachedId;
 
 		let folderId = "root";
-		// biome-ignore lint/suspicious/noImplicitAnyLet: it is a temporary result
-		let resp;
-		let files: drive_v3.Schema$File[];
+		let walkedPath = "";
 
-		const folderNames = folderPath.split("/").filter(Boolean);
+		for (const folderName of this.getPathFromRoot(folderPath).split("/").filter(Boolean)) {
+			walkedPath += `${folderName}/`;
+			const walkedId = this.idsCache.get(walkedPath);
+			if (walkedId) {
+				folderId = walkedId;
+				continue;
+			}
 
-		for (const folderName of folderNames) {
-			resp = await this.drive.files.list({
-				q: `'${folderId}' in parents and name='${folderName}' and mimeType='application/vnd.google-apps.folder' and trashed=false`,
-				fields: "files(id, name)"
+			const { data } = await this.drive.files.list({
+				q: `'${folderId}' in parents and name='${escapeQueryValue(folderName)}' and (mimeType='${FOLDER_MIME_TYPE}' or mimeType='${SHORTCUT_MIME_TYPE}') and trashed=false`,
+				fields: "files(id, name, mimeType, shortcutDetails)"
 			});
-			files = resp.data.files || [];
+			const folder = (data.files || []).find(
+				({ mimeType, shortcutDetails }) =>
+					mimeType === FOLDER_MIME_TYPE || shortcutDetails?.targetMimeType === FOLDER_MIME_TYPE
+			);
 
-			if (files.length > 0) {
-				folderId = files[0].id || "";
+			if (folder) {
+				folderId = folder.shortcutDetails?.targetId || folder.id || "";
 			} else {
 				// This directory doesn't exist
 				if (createIfNotExist === false) {
-					throw new FileNotFoundError(folderPath, `Folder '${folderPath}' does not exist`);
+					const rscPath = resolvePath(folderPath);
+					throw new FileNotFoundError(rscPath, `Folder '${rscPath}' does not exist`);
 				}
-				resp = await this.drive.files.create({
-					requestBody: {
-						name: folderName,
-						mimeType: "application/vnd.google-apps.folder",
-						parents: [folderId]
-					},
-					fields: "id"
-				});
-				folderId = resp.data.id || "";
+				folderId = await this.createFolder(folderName, folderId);
 			}
+			this.idsCache.set(walkedPath, folderId);
 		}
 
-		this.idsCache.set(folderPath, folderId);
 		return folderId;
 	}
 
 	/**
-	 * Get a file's ID
+	 * Get a file's ID (or the ID of the file a shortcut points to)
 	 * @param filePath
 	 */
 	private async getFileIdByPath(filePath: string): Promise<string> {
-		const normalizedPath = normalizePath(filePath, {
-			addLeadingSlash: true,
-			addTrailingSlash: false
-		});
+		const normalizedPath = resolvePath(filePath);
+		const cacheKey = this.getCacheKey(normalizedPath, false);
 
-		if (this.idsCache.has(normalizedPath)) {
-			return this.idsCache.get(normalizedPath) as string;
+		if (this.idsCache.has(cacheKey)) {
+			return this.idsCache.get(cacheKey) as string;
 		}
 
 		const [parentFolder, fileName] = splitPath(normalizedPath);
+		const document = this.getDocumentExport(normalizedPath);
+		const nameQuery = document
+			? `name='${escapeQueryValue(document.name)}' and mimeType='${GOOGLE_DOCUMENTS[document.type].mimeType}'`
+			: `name='${escapeQueryValue(fileName)}'`;
 
 		// Get the parent folder's id then get the file id
 		return this.getFolderIdByPath(parentFolder)
 			.then((parentFolderId) =>
 				this.drive.files.list({
-					q: `'${parentFolderId}' in parents and name='${fileName}' and trashed = false`,
-					fields: "files(id)"
+					q: `'${parentFolderId}' in parents and ${nameQuery} and trashed = false`,
+					fields: "files(id, shortcutDetails)"
 				})
 			)
 			.then(({ data }) => {
@@ -214,9 +994,122 @@ export class GoogleDriveFileManager implements FileManagerInterface {
 					throw new FileNotFoundError(normalizedPath, `File '${normalizedPath}' does not exist`);
 				}
 				// We found the file's id let's cache it
-				const fileId = files[0].id || "";
-				this.idsCache.set(normalizedPath, fileId);
+				const fileId = files[0].shortcutDetails?.targetId || files[0].id || "";
+				this.idsCache.set(cacheKey, fileId);
 				return fileId;
 			});
 	}
+
+	/**
+	 * Polls the Drive changes feed. The cursors are the page tokens of the feed.
+	 * As the feed only knows the file IDs, the deletions and moves are only reported
+	 * for the files already seen by the watchers of this file manager.
+	 */
+	watch(path: string, options: WatchOptions = {}): Watcher {
+		const watcher = new Watcher(path, options);
+		const { interval = WATCH_INTERVAL } = options;
+		let pageToken = options.cursor;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		const poll = async () => {
+			if (!pageToken) {
+				const { data } = await this.drive.changes.getStartPageToken({});
+				pageToken = data.startPageToken || undefined;
+				watcher.cursor = pageToken;
+				return;
+			}
+			for (;;) {
+				const { data }: { data: drive_v3.Schema$ChangeList } = await this.drive.changes.list({
+					pageToken,
+					fields: `nextPageToken, newStartPageToken, changes(fileId, removed, file(${FILE_FIELDS}, createdTime, trashed))`
+				});
+				const cursor: string = data.nextPageToken || data.newStartPageToken || pageToken;
+				for (const change of data.changes || []) {
+					const event = await this.describeChange(change, cursor);
+					if (event) watcher.push(event);
+				}
+				pageToken = cursor;
+				if (!data.nextPageToken) break;
+			}
+		};
+		const schedule = () => {
+			if (watcher.closed) return;
+			timer = setTimeout(() => poll().then(schedule, (err) => watcher.fail(err)), interval);
+		};
+
+		poll().then(
+			() => {
+				watcher.started();
+				schedule();
+			},
+			(err) => watcher.fail(err)
+		);
+		watcher.onClose(() => clearTimeout(timer));
+		return watcher;
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return findResources(this, query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return searchFiles(this, path, query, options);
+	}
+
+	/**
+	 * Translate an entry of the changes feed
+	 * @returns nothing for the files that are (and were) outside of the root directory
+	 */
+	private async describeChange(
+		change: drive_v3.Schema$Change,
+		cursor: string
+	): Promise<ChangeEvent | undefined> {
+		const { fileId, file } = change;
+		if (!fileId) return undefined;
+		const previousPath = this.watchedPaths.get(fileId);
+		const path = change.removed || !file || file.trashed ? undefined : await this.getPathById(file);
+
+		if (!path) {
+			if (!previousPath) return undefined;
+			this.watchedPaths.delete(fileId);
+			return { type: "deleted", resource: this.getInfo(previousPath), cursor };
+		}
+
+		this.watchedPaths.set(fileId, path);
+		const resource = this.getDriveFileInfo(path, file as drive_v3.Schema$File);
+		if (previousPath && previousPath !== path) {
+			return { type: "moved", resource, from: this.getInfo(previousPath), cursor };
+		}
+		const isNew = !previousPath && file?.createdTime === file?.modifiedTime;
+		return { type: isNew ? "created" : "updated", resource, cursor };
+	}
+
+	/**
+	 * Rebuild the path of a Drive file by walking up its parents to the root directory
+	 * @returns nothing if the file is outside of the root directory
+	 */
+	private async getPathById(file: drive_v3.Schema$File): Promise<string | undefined> {
+		if (!this.rootFolderId) {
+			// The root folder ID may be the "root" alias : we need the real one to compare it with the parents
+			const { data } = await this.drive.files.get({
+				fileId: await this.getFolderIdByPath("/"),
+				fields: "id"
+			});
+			this.rootFolderId = data.id || undefined;
+		}
+
+		const names: string[] = [];
+		let current = file;
+		while (current.id !== this.rootFolderId) {
+			const parentId = current.parents?.[0];
+			if (!parentId || !current.name) return undefined;
+			names.unshift(current === file ? this.getFileName(file) : current.name);
+			({ data: current } = await this.drive.files.get({
+				fileId: parentId,
+				fields: "id, name, parents"
+			}));
+		}
+		if (names.length === 0) return "/";
+		return `/${names.join("/")}${file.mimeType === FOLDER_MIME_TYPE ? "/" : ""}`;
+	}
 }
@@ -1,15 +1,127 @@
-import { describe, it } from "bun:test";
-import { testSuite } from "./FileManager.spec";
+import { describe, expect, it } from "bun:test";
+import { InMemorySnapshotStore } from "../utils/SnapshotStore";
+import type { Watcher } from "../utils/Watcher";
+import {
+	concurrentWritesTestSuite,
+	hostilePathsTestSuite,
+	revisionsTestSuite,
+	testSuite
+} from "./FileManager.spec";
+import type { ChangeEvent } from "./FileManagerInterface";
 import { InMemoryFileManager } from "./InMemoryFileManager";
 
+/**
+ * Consume the first changes reported by a watcher (this closes the watcher)
+ */
+async function takeChanges(watcher: Watcher, count: number) {
+	const events: ChangeEvent[] = [];
+	for await (const event of watcher) {
+		events.push(event);
+		if (events.length === count) break;
+	}
+	return events.map(({ type, resource, from }) => [type, resource.path, from?.path]);
+}
+
 function createFileManager() {
 	return new InMemoryFileManager();
 }
 
 async function cleanup() {}
 
-describe("InMemoryFileManager", async () => {
-	it("Should pass the common test suite", async () => {
-		await testSuite("InMemoryFileManager", createFileManager, cleanup)();
+describe("InMemoryFileManager", () => {
+	testSuite("InMemoryFileManager", createFileManager, cleanup)();
+
+	revisionsTestSuite(
+		"InMemoryFileManager",
+		() => new InMemoryFileManager({ snapshots: new InMemorySnapshotStore() })
+	)();
+
+	hostilePathsTestSuite("InMemoryFileManager", createFileManager)();
+
+	concurrentWritesTestSuite("InMemoryFileManager", createFileManager)();
+
+	describe("watch()", () => {
+		it("reports the changes of a directory as soon as they are made", async () => {
+			const fileManager = createFileManager();
+			const watcher = fileManager.watch("/dir/");
+
+			await fileManager.updateTextFile("/dir/a.txt", "v1");
+			await fileManager.updateTextFile("/dir/a.txt", "v2");
+			await fileManager.updateTextFile("/dir/sub/ignored.txt", "Not a direct child");
+			await fileManager.move("/dir/a.txt", "/dir/b.txt");
+			await fileManager.deleteFile("/dir/b.txt");
+
+			expect(await takeChanges(watcher, 4)).toEqual([
+				["created", "/dir/a.txt", undefined],
+				["updated", "/dir/a.txt", undefined],
+				["moved", "/dir/b.txt", "/dir/a.txt"],
+				["deleted", "/dir/b.txt", undefined]
+			]);
+		});
+
+		it("reports the changes of the sub directories when recursive", async () => {
+			const fileManager = createFileManager();
+			const watcher = fileManager.watch("/", { recursive: true });
+
+			await fileManager.updateTextFile("/dir/sub/a.txt", "Deep");
+			await fileManager.deleteDirectory("/dir/");
+
+			expect(await takeChanges(watcher, 2)).toEqual([
+				["created", "/dir/sub/a.txt", undefined],
+				["deleted", "/dir/sub/a.txt", undefined]
+			]);
+		});
+
+		it("resumes from a cursor", async () => {
+			const fileManager = createFileManager();
+			const watcher = fileManager.watch("/");
+			await fileManager.updateTextFile("/a.txt", "Seen");
+			await takeChanges(watcher, 1);
+			const { cursor } = watcher;
+
+			await fileManager.updateTextFile("/b.txt", "Missed");
+			expect(await takeChanges(fileManager.watch("/", { cursor }), 1)).toEqual([
+				["created", "/b.txt", undefined]
+			]);
+		});
+
+		it("only keeps the last changes to resume from a cursor", async () => {
+			const fileManager = new InMemoryFileManager({ retainedChanges: 2 });
+			const watcher = fileManager.watch("/");
+			const { cursor } = watcher;
+			await watcher.close();
+
+			await fileManager.updateTextFile("/a.txt", "Kept");
+			expect(await takeChanges(fileManager.watch("/", { cursor }), 1)).toEqual([
+				["created", "/a.txt", undefined]
+			]);
+			await fileManager.updateTextFile("/b.txt", "Kept");
+			await fileManager.updateTextFile("/c.txt", "Kept");
+			await expect(takeChanges(fileManager.watch("/", { cursor }), 1)).rejects.toMatchObject({
+				code: 410
+			});
+			await expect(takeChanges(fileManager.watch("/", { cursor: "next" }), 1)).rejects.toMatchObject({
+				code: 410
+			});
+		});
+
+		it("stops reporting once closed", async () => {
+			const fileManager = createFileManager();
+			const watcher = fileManager.watch("/");
+			const events: ChangeEvent[] = [];
+			watcher.on("change", (event) => events.push(event));
+
+			await fileManager.updateTextFile("/a.txt", "Seen");
+			await watcher.close();
+			await fileManager.updateTextFile("/b.txt", "Not seen");
+			expect(events.length).toBe(1);
+		});
+	});
+
+	it("has no revisions without a snapshot store", async () => {
+		const fileManager = createFileManager();
+		await fileManager.updateTextFile("/doc.md", "v1");
+
+		await expect(fileManager.listRevisions("/doc.md")).rejects.toMatchObject({ code: 501 });
 	});
 });
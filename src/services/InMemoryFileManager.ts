@@ -1,64 +1,295 @@
-import { FileNotFoundError } from "./FileManagerErrors";
-import type { FileManagerInterface } from "./FileManagerInterface";
+import { createHash } from "node:crypto";
+import { FileManagerError, FileNotFoundError } from "./FileManagerErrors";
+import type {
+	ChangeEvent,
+	ChangeType,
+	ConflictStrategy,
+	FileManagerInterface,
+	FindOptions,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteOptions
+} from "./FileManagerInterface";
+import { findResources } from "../utils/glob-utils";
+import { iteratePages, paginate } from "../utils/paging-utils";
+import { resolvePath } from "../utils/path-utils";
+import { checkCurrentVersion, checkPreconditions } from "../utils/precondition-utils";
 import { ResourceInfo } from "../utils/ResourceInfo";
+import { searchFiles } from "../utils/search-utils";
+import type { SnapshotStore } from "../utils/SnapshotStore";
+import { bufferedWritableStream, bytesToStream, streamToBytes, writeToStream } from "../utils/stream-utils";
+import { planTransfer } from "../utils/transfer-utils";
+import { Watcher } from "../utils/Watcher";
+
+/**
+ * A file (or a directory when its path ends with a trailing slash) stored in memory
+ */
+interface InMemoryEntry {
+	content: Uint8Array;
+	modifiedTime: Date;
+}
+
+/**
+ * The number of changes kept to resume the watchers by default
+ */
+const DEFAULT_RETAINED_CHANGES = 1000;
+
+export interface InMemoryFileManagerOptions {
+	/**
+	 * Where to keep the successive versions of the files.
+	 * If not provided, the files have no revisions.
+	 */
+	snapshots?: SnapshotStore;
+	/**
+	 * The number of changes kept to resume the watchers from a cursor : an older cursor has expired.
+	 * Default: 1000
+	 */
+	retainedChanges?: number;
+}
 
 /**
  * This file manager uses a Map to store the files in memory.
  * This is useful for testing and debugging.
  */
 export class InMemoryFileManager implements FileManagerInterface {
-	private fileSystem: Map<string, Buffer | string> = new Map();
+	private fileSystem: Map<string, InMemoryEntry> = new Map();
+	private snapshots?: SnapshotStore;
+	private watchers = new Set<Watcher>();
+	/**
+	 * The last changes (the cursors are their sequence numbers)
+	 */
+	private changes: ChangeEvent[] = [];
+	/**
+	 * The number of changes since the creation of the file manager
+	 */
+	private changesCount = 0;
+	private retainedChanges: number;
+
+	constructor({ snapshots, retainedChanges = DEFAULT_RETAINED_CHANGES }: InMemoryFileManagerOptions = {}) {
+		this.snapshots = snapshots;
+		this.retainedChanges = retainedChanges;
+	}
 
 	getInfo(path: string): ResourceInfo {
 		return new ResourceInfo(path);
 	}
 
-	async getFileContent(path: string): Promise<string | Buffer> {
-		const content = this.fileSystem.get(path);
-		if (!content) {
+	/**
+	 * Describes a stored entry with all its metadata
+	 */
+	private entryInfo(rscPath: string, { content, modifiedTime }: InMemoryEntry): ResourceInfo {
+		if (rscPath.endsWith("/")) {
+			return new ResourceInfo(rscPath, { type: "dir", modifiedTime });
+		}
+		return new ResourceInfo(rscPath, {
+			type: "file",
+			size: content.length,
+			modifiedTime,
+			etag: createHash("sha1").update(content).digest("hex")
+		});
+	}
+
+	async stat(rscPath: string): Promise<ResourceInfo> {
+		const path = resolvePath(rscPath);
+		const file = this.fileSystem.get(path);
+		if (file && !path.endsWith("/")) {
+			return this.entryInfo(path, file);
+		}
+
+		const dirPath = path.endsWith("/") ? path : `${path}/`;
+		const dir = this.fileSystem.get(dirPath);
+		if (dir) {
+			return this.entryInfo(dirPath, dir);
+		}
+		// The root and the directories containing files exist implicitly
+		if (dirPath === "/" || [...this.fileSystem.keys()].some((key) => key.startsWith(dirPath))) {
+			return new ResourceInfo(dirPath, { type: "dir" });
+		}
+		throw new FileNotFoundError(path, `'${path}' does not exist`);
+	}
+
+	async exists(path: string): Promise<boolean> {
+		return this.stat(path).then(
+			() => true,
+			(err) => {
+				if (err instanceof FileNotFoundError) return false;
+				throw err;
+			}
+		);
+	}
+
+	async getFileContent(path: string, { revision }: ReadOptions = {}): Promise<string | Buffer> {
+		const content = Buffer.from(
+			revision
+				? await this.getSnapshots().get(path, revision)
+				: await streamToBytes(await this.readStream(path))
+		);
+		return this.getInfo(path).isText ? content.toString("utf-8") : content;
+	}
+
+	async listRevisions(path: string): Promise<Revision[]> {
+		return this.getSnapshots().list(path);
+	}
+
+	async restoreRevision(path: string, revision: string, options?: WriteOptions): Promise<void> {
+		const content = await this.getSnapshots().get(path, revision);
+		await writeToStream(
+			await this.writeStream(path, { message: `Restored revision ${revision}`, ...options }),
+			content
+		);
+	}
+
+	/**
+	 * The revisions are only available when a snapshot store was given
+	 */
+	private getSnapshots(): SnapshotStore {
+		if (!this.snapshots) {
+			throw new FileManagerError(501, "Revisions are not enabled : no snapshot store was given");
+		}
+		return this.snapshots;
+	}
+
+	async readStream(rscPath: string): Promise<ReadableStream<Uint8Array>> {
+		const path = resolvePath(rscPath);
+		const file = this.fileSystem.get(path);
+		if (!file || path.endsWith("/")) {
 			throw new FileNotFoundError(path, "File not found");
 		}
-		return content;
+		return bytesToStream(file.content);
 	}
 
-	async updateTextFile(path: string, content: string) {
-		this.fileSystem.set(path, content);
+	/**
+	 * The written chunks are kept aside until the stream is closed
+	 * so that readers never see a partially written file
+	 * (the preconditions are checked again when the content is stored, in case of a concurrent write)
+	 * @param options The preconditions of the change, and the message and author kept with the snapshot of the file (if any)
+	 */
+	async writeStream(rscPath: string, options?: WriteOptions): Promise<WritableStream<Uint8Array>> {
+		const path = resolvePath(rscPath);
+		await checkPreconditions(this, path, options);
+		return bufferedWritableStream(async (content) => {
+			const current = this.fileSystem.get(path);
+			checkCurrentVersion(path, current && this.entryInfo(path, current), options);
+			const entry = { content, modifiedTime: new Date() };
+			this.fileSystem.set(path, entry);
+			this.notify(current ? "updated" : "created", this.entryInfo(path, entry));
+			await this.snapshots?.save(path, content, options);
+		});
 	}
 
-	async updateBinaryFile(path: string, content: Buffer) {
-		this.fileSystem.set(path, content);
+	async updateTextFile(path: string, content: string, options?: WriteOptions) {
+		await writeToStream(await this.writeStream(path, options), content);
 	}
 
-	async deleteFile(path: string): Promise<void> {
+	async updateBinaryFile(path: string, content: Buffer, options?: WriteOptions) {
+		await writeToStream(await this.writeStream(path, options), content);
+	}
+
+	async deleteFile(rscPath: string, options?: WriteOptions): Promise<void> {
+		const path = resolvePath(rscPath);
 		const fileInfo = this.fileSystem.get(path);
 		if (!fileInfo) {
 			throw new FileNotFoundError(path, "Cannot delete file");
 		}
+		checkCurrentVersion(path, this.entryInfo(path, fileInfo), options);
 		this.fileSystem.delete(path);
+		this.notify("deleted", this.entryInfo(path, fileInfo));
+	}
+
+	async move(from: string, to: string, options?: TransferOptions) {
+		const { source, destination, conflict } = await planTransfer(this, from, to, options);
+		this.transferEntries(source.path, destination.path, conflict, true);
+	}
+
+	async copy(from: string, to: string, options?: TransferOptions) {
+		const { source, destination, conflict } = await planTransfer(this, from, to, options);
+		this.transferEntries(source.path, destination.path, conflict, false);
+	}
+
+	/**
+	 * Rekeys (or duplicates) all the entries of a file or a directory
+	 */
+	private transferEntries(
+		sourcePath: string,
+		destinationPath: string,
+		conflict: ConflictStrategy | undefined,
+		removeSource: boolean
+	) {
+		const fs = this.fileSystem;
+		const isInside = (rscPath: string, path: string) =>
+			rscPath === path || (path.endsWith("/") && rscPath.startsWith(path));
+
+		if (conflict === "overwrite") {
+			for (const [rscPath, entry] of [...fs.entries()]) {
+				if (isInside(rscPath, destinationPath)) {
+					fs.delete(rscPath);
+					this.notify("deleted", this.entryInfo(rscPath, entry));
+				}
+			}
+		}
+		for (const [rscPath, entry] of [...fs.entries()]) {
+			if (isInside(rscPath, sourcePath)) {
+				const newPath = `${destinationPath}${rscPath.substring(sourcePath.length)}`;
+				const newEntry = removeSource ? entry : { content: entry.content, modifiedTime: new Date() };
+				const existed = fs.has(newPath);
+				fs.set(newPath, newEntry);
+				if (removeSource) {
+					fs.delete(rscPath);
+					this.notify("moved", this.entryInfo(newPath, newEntry), this.entryInfo(rscPath, entry));
+				} else {
+					this.notify(existed ? "updated" : "created", this.entryInfo(newPath, newEntry));
+				}
+			}
+		}
 	}
 
-	async listDirectoryContent(dirPath: string, recursive = false) {
+	/**
+	 * The sub directories that exist implicitly (because they contain files) are part of the listing
+	 * when it is not recursive, so that the whole tree can be walked level by level
+	 */
+	async listDirectoryContent(path: string, recursive = false) {
 		const fs = this.fileSystem;
-		const dirContent: ResourceInfo[] = [];
-		for (const rscPath of fs.keys()) {
+		const dirPath = resolvePath(path);
+		const dirContent = new Map<string, ResourceInfo>();
+		for (const [rscPath, entry] of fs.entries()) {
 			if (rscPath.startsWith(dirPath) && rscPath !== dirPath) {
 				if (recursive) {
-					dirContent.push(new ResourceInfo(rscPath));
+					dirContent.set(rscPath, this.entryInfo(rscPath, entry));
 				} else {
 					const relativePath = rscPath.substring(dirPath.length);
 					const segments = relativePath.split("/").filter(Boolean);
 					if (segments.length === 1) {
-						dirContent.push(new ResourceInfo(rscPath));
+						dirContent.set(rscPath, this.entryInfo(rscPath, entry));
+					} else {
+						const subDirPath = `${dirPath}${segments[0]}/`;
+						if (!dirContent.has(subDirPath) && !fs.has(subDirPath)) {
+							dirContent.set(subDirPath, new ResourceInfo(subDirPath, { type: "dir" }));
+						}
 					}
 				}
 			}
 		}
-		return dirContent;
+		return [...dirContent.values()];
+	}
+
+	iterateDirectory(path: string, options?: IterateDirectoryOptions): AsyncIterable<ResourceInfo> {
+		return iteratePages(this, path, options);
+	}
+
+	async listPage(path: string, options?: ListPageOptions): Promise<ListPage> {
+		return paginate(await this.listDirectoryContent(path), options);
 	}
 
-	async createDirectory(dirPath: string) {
+	async createDirectory(path: string) {
 		// Ensure the path follows the convention for directories
-		if (!dirPath.endsWith("/")) dirPath += "/";
+		const dirPath = resolvePath(path.endsWith("/") ? path : `${path}/`);
 
 		const pathParts = dirPath.split("/").filter(Boolean);
 		let currentPath = "";
@@ -66,17 +297,72 @@ export class InMemoryFileManager implements FileManagerInterface {
 			currentPath += `/${part}`;
 			const currentDirPath = `${currentPath}/`;
 			if (!this.fileSystem.has(currentDirPath)) {
-				this.fileSystem.set(currentDirPath, "");
+				const entry = { content: new Uint8Array(0), modifiedTime: new Date() };
+				this.fileSystem.set(currentDirPath, entry);
+				this.notify("created", this.entryInfo(currentDirPath, entry));
 			}
 		}
 	}
 
-	async deleteDirectory(dirPath: string) {
+	async deleteDirectory(path: string) {
 		const fs = this.fileSystem;
-		for (const rscPath of fs.keys()) {
+		const dirPath = resolvePath(path);
+		for (const [rscPath, entry] of fs.entries()) {
 			if (rscPath.startsWith(dirPath)) {
 				fs.delete(rscPath);
+				this.notify("deleted", this.entryInfo(rscPath, entry));
 			}
 		}
 	}
+
+	/**
+	 * The changes are reported synchronously, as soon as they are made.
+	 * A cursor resumes from any of the last `retainedChanges` changes : the watchers of an older cursor fail
+	 * with a FileManagerError (410).
+	 */
+	watch(path: string, options: WatchOptions = {}): Watcher {
+		const watcher = new Watcher(path, options);
+		const firstRetained = this.changesCount - this.changes.length;
+		const since = options.cursor ? Number(options.cursor) : this.changesCount;
+		if (!Number.isInteger(since) || since < firstRetained || since > this.changesCount) {
+			watcher.fail(
+				new FileManagerError(
+					410,
+					`The cursor '${options.cursor}' has expired : only the last ${this.retainedChanges} changes are kept`
+				)
+			);
+			return watcher;
+		}
+		const missedChanges = this.changes.slice(since - firstRetained);
+		watcher.cursor = String(since);
+
+		this.watchers.add(watcher);
+		watcher.onClose(() => this.watchers.delete(watcher));
+		watcher.started();
+		// Give the caller a chance to listen before replaying the missed changes
+		queueMicrotask(() => {
+			for (const event of missedChanges) watcher.push(event);
+		});
+		return watcher;
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return findResources(this, query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return searchFiles(this, path, query, options);
+	}
+
+	/**
+	 * Record a change and report it to the watchers
+	 */
+	private notify(type: ChangeType, resource: ResourceInfo, from?: ResourceInfo) {
+		const event: ChangeEvent = { type, resource, from, cursor: String(++this.changesCount) };
+		this.changes.push(event);
+		if (this.changes.length > this.retainedChanges) {
+			this.changes.shift();
+		}
+		for (const watcher of this.watchers) watcher.push(event);
+	}
 }
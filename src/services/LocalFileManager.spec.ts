@@ -1,23 +1,183 @@
-import { describe, it } from "bun:test";
-import { mkdir, rm } from "node:fs/promises";
+import { describe, expect, it } from "bun:test";
+import { existsSync, mkdirSync, rmSync, symlinkSync } from "node:fs";
+import { rm, utimes } from "node:fs/promises";
 import { join } from "node:path";
-import { testSuite } from "./FileManager.spec";
+import { DirectorySnapshotStore } from "../utils/SnapshotStore";
+import { FileNotFoundError, PathError } from "./FileManagerErrors";
+import {
+	concurrentWritesTestSuite,
+	hostilePathsTestSuite,
+	revisionsTestSuite,
+	testSuite
+} from "./FileManager.spec";
 import { LocalFileManager } from "./LocalFileManager";
 
 const rootDir = join(import.meta.dirname, "../../_testsRoot");
+// The snapshots are kept outside of the root directory
+const snapshotsDir = join(import.meta.dirname, "../../_testsRoot_snapshots");
+// A directory outside of the root directory that the tests must never touch
+const outsideDir = join(import.meta.dirname, "../../_testsRoot_outside");
 
+/**
+ * Each test starts with an empty root directory
+ */
 function createFileManager() {
-	console.log(`Creating the root dir for tests inside '${rootDir}'`);
-	mkdir(rootDir, { recursive: true });
+	rmSync(rootDir, { recursive: true, force: true });
+	mkdirSync(rootDir, { recursive: true });
 	return new LocalFileManager({ rootDir });
 }
 
+/**
+ * Each test starts with an empty root directory and no snapshots
+ */
+function createFileManagerWithSnapshots() {
+	createFileManager();
+	rmSync(snapshotsDir, { recursive: true, force: true });
+	return new LocalFileManager({ rootDir, snapshots: new DirectorySnapshotStore(snapshotsDir) });
+}
+
 async function cleanup() {
-	rm(rootDir, { recursive: true, force: true });
+	await rm(rootDir, { recursive: true, force: true });
+	await rm(snapshotsDir, { recursive: true, force: true });
+	await rm(outsideDir, { recursive: true, force: true });
 }
 
-describe("LocalFileManager", async () => {
-	it("Should pass the common test suite", async () => {
-		await testSuite("LocalFileManager", createFileManager, cleanup)();
+describe("LocalFileManager", () => {
+	testSuite("LocalFileManager", createFileManager, cleanup)();
+
+	revisionsTestSuite("LocalFileManager", createFileManagerWithSnapshots)();
+
+	it("keeps the snapshots between two instances", async () => {
+		await createFileManagerWithSnapshots().updateTextFile("/doc.md", "v1");
+		const fileManager = new LocalFileManager({
+			rootDir,
+			snapshots: new DirectorySnapshotStore(snapshotsDir)
+		});
+		const [revision] = await fileManager.listRevisions("/doc.md");
+
+		expect(revision.timestamp).toBeInstanceOf(Date);
+		expect(await fileManager.getFileContent("/doc.md", { revision: revision.id })).toBe("v1");
+		await cleanup();
+	});
+
+	it("keeps all the snapshots of the concurrent writes, whatever the length of the path", async () => {
+		const snapshots = new DirectorySnapshotStore(snapshotsDir);
+		const longPath = `/${"a".repeat(300)}.txt`;
+		await Promise.all(
+			["v1", "v2", "v3"].map((content) => snapshots.save(longPath, new TextEncoder().encode(content)))
+		);
+
+		const revisions = await snapshots.list(longPath);
+		expect(revisions.map(({ id }) => id)).toEqual(["3", "2", "1"]);
+		const contents = await Promise.all(revisions.map(({ id }) => snapshots.get(longPath, id)));
+		expect(contents.map((content) => new TextDecoder().decode(content)).sort()).toEqual([
+			"v1",
+			"v2",
+			"v3"
+		]);
+		await cleanup();
+	});
+
+	it("keeps the previous content until the written file is complete", async () => {
+		const fileManager = createFileManager();
+		await fileManager.updateTextFile("/doc.md", "v1");
+		const writer = (await fileManager.writeStream("/doc.md")).getWriter();
+		await writer.write(new TextEncoder().encode("v2 in"));
+
+		expect(await fileManager.getFileContent("/doc.md")).toBe("v1");
+		expect((await fileManager.listDirectoryContent("/")).map(({ path }) => path)).toEqual(["/doc.md"]);
+		await writer.abort();
+		expect(await fileManager.getFileContent("/doc.md")).toBe("v1");
+		expect((await fileManager.listDirectoryContent("/")).map(({ path }) => path)).toEqual(["/doc.md"]);
+		await cleanup();
+	});
+
+	hostilePathsTestSuite("LocalFileManager", createFileManager)();
+
+	concurrentWritesTestSuite("LocalFileManager", createFileManager)();
+
+	describe("watch()", () => {
+		it("reports the changes noticed by the file system", async () => {
+			const fileManager = createFileManager();
+			const watcher = fileManager.watch("/", { recursive: true, debounce: 50 });
+			const changes = watcher[Symbol.asyncIterator]();
+			await watcher.ready;
+
+			await fileManager.updateTextFile("/dir/a.txt", "Watched");
+			const created = (await changes.next()).value;
+			expect(created).toMatchObject({ type: "created", resource: { path: "/dir/" } });
+			expect((await changes.next()).value).toMatchObject({
+				type: "created",
+				resource: { path: "/dir/a.txt" }
+			});
+
+			await fileManager.deleteFile("/dir/a.txt");
+			expect((await changes.next()).value).toMatchObject({
+				type: "deleted",
+				resource: { path: "/dir/a.txt" }
+			});
+			await watcher.close();
+			await cleanup();
+		});
+
+		it("reports the files modified since a cursor", async () => {
+			const fileManager = createFileManager();
+			await fileManager.updateTextFile("/old.txt", "Before");
+			const cursor = String(Date.now() + 1000);
+			await fileManager.updateTextFile("/new.txt", "After");
+			await utimes(join(rootDir, "new.txt"), new Date(), new Date(Date.now() + 5000));
+
+			const watcher = fileManager.watch("/", { cursor });
+			const changes = watcher[Symbol.asyncIterator]();
+			expect((await changes.next()).value).toMatchObject({
+				type: "updated",
+				resource: { path: "/new.txt" }
+			});
+			await watcher.close();
+			await cleanup();
+		});
+
+		it("fails when the watched path does not exist", async () => {
+			const fileManager = createFileManager();
+			const watcher = fileManager.watch("/missing/");
+
+			await expect(watcher[Symbol.asyncIterator]().next()).rejects.toThrow(FileNotFoundError);
+			await cleanup();
+		});
+	});
+
+	describe("symbolic links", () => {
+		/**
+		 * The root directory contains a link to a directory outside of it
+		 */
+		function createFileManagerWithLink(followExternalSymlinks: boolean) {
+			createFileManager();
+			rmSync(outsideDir, { recursive: true, force: true });
+			mkdirSync(outsideDir, { recursive: true });
+			symlinkSync(outsideDir, join(rootDir, "link"));
+			return new LocalFileManager({ rootDir, followExternalSymlinks });
+		}
+
+		it("follows the links leading outside of the root directory by default", async () => {
+			const fileManager = createFileManagerWithLink(true);
+			await fileManager.updateTextFile("/link/file.txt", "Linked");
+
+			expect(existsSync(join(outsideDir, "file.txt"))).toBeTrue();
+			await cleanup();
+		});
+
+		it("refuses the links leading outside of the root directory with followExternalSymlinks: false", async () => {
+			const fileManager = createFileManagerWithLink(false);
+
+			await expect(fileManager.updateTextFile("/link/file.txt", "Linked")).rejects.toThrow(PathError);
+			await expect(fileManager.listDirectoryContent("/link/")).rejects.toThrow(PathError);
+			await expect(fileManager.createDirectory("/link/sub/")).rejects.toThrow(PathError);
+			expect(existsSync(join(outsideDir, "file.txt"))).toBeFalse();
+
+			// The paths inside the root directory are still accepted
+			await fileManager.updateTextFile("/dir/file.txt", "Inside");
+			expect(await fileManager.getFileContent("/dir/file.txt")).toBe("Inside");
+			await cleanup();
+		});
 	});
 });
@@ -1,10 +1,58 @@
-import { mkdir, readdir, rm, rmdir } from "node:fs/promises";
-import { join } from "node:path";
-import type { FileManagerInterface } from "./FileManagerInterface";
+import { watch as watchFileSystem } from "node:fs";
+import { randomUUID } from "node:crypto";
+import { cp, lstat, mkdir, opendir, readdir, realpath, rename, rm, rmdir, stat } from "node:fs/promises";
+import { basename, dirname, join, resolve, sep } from "node:path";
+import { FileManagerError, FileNotFoundError, PathError } from "./FileManagerErrors";
+import type {
+	ChangeEvent,
+	FileManagerInterface,
+	FindOptions,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteOptions
+} from "./FileManagerInterface";
+import { findResources } from "../utils/glob-utils";
+import { checkPageSize, DEFAULT_PAGE_SIZE, parseOffsetCursor } from "../utils/paging-utils";
+import { type PathRules, resolvePath, WINDOWS_PATH_RULES } from "../utils/path-utils";
+import { checkPreconditions } from "../utils/precondition-utils";
 import { ResourceInfo } from "../utils/ResourceInfo";
+import { searchFiles } from "../utils/search-utils";
+import type { SnapshotStore } from "../utils/SnapshotStore";
+import { streamToBytes, writeToStream } from "../utils/stream-utils";
+import { planTransfer } from "../utils/transfer-utils";
+import { Watcher } from "../utils/Watcher";
+
+/**
+ * The names refused by the file system of the platform
+ */
+const LOCAL_PATH_RULES: PathRules = process.platform === "win32" ? WINDOWS_PATH_RULES : {};
+
+/**
+ * The files being written (`.name.<uuid>.partial`), renamed into place once complete
+ */
+const PARTIAL_FILE_PATTERN = /^\..*\.[0-9a-f-]{36}\.partial$/;
+
+const isPartialFile = (fullPath: string) => PARTIAL_FILE_PATTERN.test(basename(fullPath));
 
 export interface LocalFileManagerOptions {
 	rootDir: string;
+	/**
+	 * Pass FALSE to refuse to read or write through the symbolic links that lead outside of the root directory.
+	 * Default: TRUE
+	 */
+	followExternalSymlinks?: boolean;
+	/**
+	 * Where to keep the successive versions of the files.
+	 * If not provided, the files have no revisions.
+	 */
+	snapshots?: SnapshotStore;
 }
 
 /**
@@ -12,10 +60,75 @@ export interface LocalFileManagerOptions {
  */
 export class LocalFileManager implements FileManagerInterface {
 	private rootDir: string;
+	private snapshots?: SnapshotStore;
+	private followExternalSymlinks: boolean;
+	/**
+	 * The changes of a file are made one after the other, by full path
+	 */
+	private lastChanges = new Map<string, Promise<unknown>>();
 
 	constructor(options: LocalFileManagerOptions) {
 		this.rootDir = options.rootDir || "/";
+		this.snapshots = options.snapshots;
+		this.followExternalSymlinks = options.followExternalSymlinks ?? true;
+	}
+
+	/**
+	 * Resolve a path inside the root directory
+	 * @param path Path relative to root directory
+	 * @throws PathError if the path leads outside of the root directory
+	 */
+	private async getFullPath(path: string): Promise<string> {
+		const fullPath = join(this.rootDir, resolvePath(path, LOCAL_PATH_RULES));
+		if (!this.followExternalSymlinks) {
+			await this.checkSymlinks(path, fullPath);
+		}
+		return fullPath;
+	}
+
+	/**
+	 * Check that the real location of a path (or of its deepest existing parent)
+	 * is still inside the root directory once the symbolic links are followed
+	 */
+	private async checkSymlinks(path: string, fullPath: string): Promise<void> {
+		const realRoot = await realpath(this.rootDir).catch(() => resolve(this.rootDir));
+		let existingPath = fullPath;
+
+		for (;;) {
+			try {
+				const realPath = await realpath(existingPath);
+				if (realPath === realRoot || realPath.startsWith(`${realRoot}${sep}`)) return;
+				break;
+			} catch (err) {
+				if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+				// A dangling symbolic link : we cannot tell where it leads
+				if (
+					await lstat(existingPath).then(
+						() => true,
+						() => false
+					)
+				)
+					break;
+				existingPath = dirname(existingPath);
+			}
+		}
+		throw new PathError(path, `'${path}' leads outside of the root directory`);
+	}
+
+	/**
+	 * Run a change of a file once the previous changes of this file are done
+	 */
+	private serialize<T>(fullPath: string, change: () => Promise<T>): Promise<T> {
+		const result = (this.lastChanges.get(fullPath) || Promise.resolve()).then(change);
+		// A failed change must not block the next ones
+		const lastChange = result.catch(() => undefined);
+		this.lastChanges.set(fullPath, lastChange);
+		lastChange.then(() => {
+			if (this.lastChanges.get(fullPath) === lastChange) this.lastChanges.delete(fullPath);
+		});
+		return result;
 	}
+
 	/**
 	 * Get detailed info about the resource on this path
 	 * @param path The path of the file or folder
@@ -24,44 +137,217 @@ export class LocalFileManager implements FileManagerInterface {
 		return new ResourceInfo(path, { rootDir: this.rootDir });
 	}
 
+	/**
+	 * Retrieves the file system stats of a file or folder
+	 * @param path Path relative to root directory
+	 */
+	async stat(path: string): Promise<ResourceInfo> {
+		const fullPath = await this.getFullPath(path);
+		try {
+			const stats = await stat(fullPath);
+			const isDirectory = stats.isDirectory();
+			return new ResourceInfo(fullPath, {
+				rootDir: this.rootDir,
+				type: isDirectory ? "dir" : "file",
+				size: isDirectory ? undefined : stats.size,
+				modifiedTime: stats.mtime,
+				etag: `${stats.size.toString(16)}-${stats.mtimeMs.toString(16).replace(".", "")}`,
+				mimeType: isDirectory ? undefined : Bun.file(fullPath).type
+			});
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+				throw new FileNotFoundError(path, `'${path}' does not exist`);
+			}
+			throw err;
+		}
+	}
+
+	/**
+	 * Checks if a file or folder exists
+	 * @param path Path relative to root directory
+	 */
+	async exists(path: string): Promise<boolean> {
+		return this.stat(path).then(
+			() => true,
+			(err) => {
+				if (err instanceof FileNotFoundError) return false;
+				throw err;
+			}
+		);
+	}
+
 	/**
 	 * Gets file content as text or binary buffer
 	 * @param path Path to file relative to root directory
+	 * @param options The revision to read (when a snapshot store was given)
 	 * @returns File contents as string or Buffer
 	 */
-	async getFileContent(path: string): Promise<string | Buffer> {
-		const fullPath = join(this.rootDir, path);
+	async getFileContent(path: string, { revision }: ReadOptions = {}): Promise<string | Buffer> {
+		const content = Buffer.from(
+			revision
+				? await this.getSnapshots().get(path, revision)
+				: await streamToBytes(await this.readStream(path))
+		);
+		return this.getInfo(path).isText ? content.toString("utf-8") : content;
+	}
+
+	/**
+	 * Lists the snapshots of a file
+	 * @param path Path to file relative to root directory
+	 */
+	async listRevisions(path: string): Promise<Revision[]> {
+		return this.getSnapshots().list(path);
+	}
+
+	/**
+	 * Writes back the content of a snapshot
+	 * @param path Path to file relative to root directory
+	 * @param revision The id of the snapshot
+	 */
+	async restoreRevision(path: string, revision: string, options?: WriteOptions): Promise<void> {
+		const content = await this.getSnapshots().get(path, revision);
+		await writeToStream(
+			await this.writeStream(path, { message: `Restored revision ${revision}`, ...options }),
+			content
+		);
+	}
+
+	/**
+	 * The revisions are only available when a snapshot store was given
+	 */
+	private getSnapshots(): SnapshotStore {
+		if (!this.snapshots) {
+			throw new FileManagerError(501, "Revisions are not enabled : no snapshot store was given");
+		}
+		return this.snapshots;
+	}
+
+	/**
+	 * Opens a Bun file stream to read the file content
+	 * @param path Path to file relative to root directory
+	 */
+	async readStream(path: string): Promise<ReadableStream<Uint8Array>> {
+		const fullPath = await this.getFullPath(path);
 		const file = Bun.file(fullPath);
-		return file.text();
+		if (!(await file.exists())) {
+			throw new FileNotFoundError(path, `File '${path}' does not exist`);
+		}
+		return file.stream();
+	}
+
+	/**
+	 * Opens a Bun file writer on a partial file next to the target, renamed into place when the stream is closed,
+	 * so that readers never see a partially written file and an aborted write leaves the file untouched.
+	 * The preconditions are checked again just before the rename, after the previous writes of the file.
+	 * @param path Path to file relative to root directory
+	 * @param options The preconditions of the change, and the message and author kept with the snapshot of the file (if any)
+	 */
+	async writeStream(path: string, options?: WriteOptions): Promise<WritableStream<Uint8Array>> {
+		await checkPreconditions(this, path, options);
+		const fullPath = await this.getFullPath(path);
+		const partialPath = join(dirname(fullPath), `.${basename(fullPath)}.${randomUUID()}.partial`);
+		// Create the partial file first (and the missing parent directories)
+		await Bun.write(partialPath, "");
+		const sink = Bun.file(partialPath).writer();
+		const snapshots = this.snapshots;
+		const commit = () =>
+			this.serialize(fullPath, async () => {
+				try {
+					await checkPreconditions(this, path, options);
+				} catch (err) {
+					await rm(partialPath, { force: true });
+					throw err;
+				}
+				await rename(partialPath, fullPath);
+				await snapshots?.save(path, new Uint8Array(await Bun.file(fullPath).arrayBuffer()), options);
+			});
+
+		return new WritableStream<Uint8Array>({
+			async write(chunk) {
+				sink.write(chunk);
+				await sink.flush();
+			},
+			async close() {
+				await sink.end();
+				await commit();
+			},
+			async abort() {
+				await sink.end();
+				await rm(partialPath, { force: true });
+			}
+		});
 	}
 
 	/**
 	 * Updates a text file with new content
 	 * @param path Path to file relative to root directory
 	 * @param content New text content to write
+	 * @param options The message and author kept with the snapshot of the file (if any)
 	 */
-	async updateTextFile(path: string, content: string): Promise<void> {
-		const fullPath = join(this.rootDir, path);
-		await Bun.write(fullPath, content);
+	async updateTextFile(path: string, content: string, options?: WriteOptions): Promise<void> {
+		await writeToStream(await this.writeStream(path, options), content);
 	}
 
 	/**
 	 * Updates a binary file with new content
 	 * @param path Path to file relative to root directory
 	 * @param content New binary content to write
+	 * @param options The message and author kept with the snapshot of the file (if any)
 	 */
-	async updateBinaryFile(path: string, content: Buffer): Promise<void> {
-		const fullPath = join(this.rootDir, path);
-		await Bun.write(fullPath, new Uint8Array(content));
+	async updateBinaryFile(path: string, content: Buffer, options?: WriteOptions): Promise<void> {
+		await writeToStream(await this.writeStream(path, options), content);
 	}
 
 	/**
 	 * Deletes a file
 	 * @param path Path to file relative to root directory
+	 * @param options The preconditions of the deletion
 	 */
-	async deleteFile(path: string): Promise<void> {
-		const fullPath = join(this.rootDir, path);
-		await rm(fullPath);
+	async deleteFile(path: string, options?: WriteOptions): Promise<void> {
+		const fullPath = await this.getFullPath(path);
+		await this.serialize(fullPath, async () => {
+			await checkPreconditions(this, path, options);
+			await rm(fullPath);
+		});
+	}
+
+	/**
+	 * Moves or renames a file or a directory (parent directories are created if needed)
+	 * @param from Path of the file or directory to move
+	 * @param to New path of the file or directory
+	 * @param options What to do if the destination already exists
+	 */
+	async move(from: string, to: string, options?: TransferOptions): Promise<void> {
+		const { source, destination, conflict } = await planTransfer(this, from, to, options);
+		const sourcePath = await this.getFullPath(source.path);
+		const destinationPath = await this.getFullPath(destination.path);
+
+		if (conflict === "merge") {
+			await cp(sourcePath, destinationPath, { recursive: true, force: true });
+			await rm(sourcePath, { recursive: true });
+			return;
+		}
+		if (conflict === "overwrite") {
+			await rm(destinationPath, { recursive: true, force: true });
+		}
+		await mkdir(dirname(destinationPath), { recursive: true });
+		await rename(sourcePath, destinationPath);
+	}
+
+	/**
+	 * Copies a file or a directory (parent directories are created if needed)
+	 * @param from Path of the file or directory to copy
+	 * @param to Path of the copy
+	 * @param options What to do if the destination already exists
+	 */
+	async copy(from: string, to: string, options?: TransferOptions): Promise<void> {
+		const { source, destination, conflict } = await planTransfer(this, from, to, options);
+		const destinationPath = await this.getFullPath(destination.path);
+
+		if (conflict === "overwrite") {
+			await rm(destinationPath, { recursive: true, force: true });
+		}
+		await cp(await this.getFullPath(source.path), destinationPath, { recursive: true, force: true });
 	}
 
 	/**
@@ -72,19 +358,62 @@ export class LocalFileManager implements FileManagerInterface {
 	 */
 	async listDirectoryContent(path: string, recursive = false): Promise<ResourceInfo[]> {
 		const rootDir = this.rootDir;
-		const fullPath = join(rootDir, path);
+		const fullPath = await this.getFullPath(path);
 		const dirEntries = await readdir(fullPath, {
 			withFileTypes: true,
 			recursive
 		});
 
-		return dirEntries.map(
-			(entry) =>
-				new ResourceInfo(join(entry.parentPath, entry.name), {
-					rootDir,
-					type: entry.isDirectory() ? "dir" : "file"
-				})
-		);
+		return dirEntries
+			.filter((entry) => !isPartialFile(entry.name))
+			.map(
+				(entry) =>
+					new ResourceInfo(join(entry.parentPath, entry.name), {
+						rootDir,
+						type: entry.isDirectory() ? "dir" : "file"
+					})
+			);
+	}
+
+	/**
+	 * Streams the entries of the directories with `opendir()` : the directories are never read at once
+	 */
+	async *iterateDirectory(
+		path: string,
+		options: IterateDirectoryOptions = {}
+	): AsyncGenerator<ResourceInfo> {
+		const fullPath = await this.getFullPath(path);
+		for await (const entry of await opendir(fullPath)) {
+			if (isPartialFile(entry.name)) continue;
+			const resource = new ResourceInfo(join(entry.parentPath, entry.name), {
+				rootDir: this.rootDir,
+				type: entry.isDirectory() ? "dir" : "file"
+			});
+			yield resource;
+			if (options.recursive && resource.isDirectory) {
+				yield* this.iterateDirectory(resource.path, options);
+			}
+		}
+	}
+
+	/**
+	 * The cursors are the positions of the first entry of the pages, in the order of the file system
+	 */
+	async listPage(
+		path: string,
+		{ pageSize = DEFAULT_PAGE_SIZE, cursor }: ListPageOptions = {}
+	): Promise<ListPage> {
+		const start = parseOffsetCursor(cursor);
+		const end = start + checkPageSize(pageSize);
+		const items: ResourceInfo[] = [];
+		let position = 0;
+		for await (const resource of this.iterateDirectory(path)) {
+			if (position === end) {
+				return { items, cursor: String(end) };
+			}
+			if (position++ >= start) items.push(resource);
+		}
+		return { items };
 	}
 
 	/**
@@ -92,7 +421,7 @@ export class LocalFileManager implements FileManagerInterface {
 	 * @param path Directory path to create relative to root directory
 	 */
 	async createDirectory(path: string): Promise<void> {
-		const fullPath = join(this.rootDir, path);
+		const fullPath = await this.getFullPath(path);
 		await mkdir(fullPath, { recursive: true });
 	}
 
@@ -101,7 +430,82 @@ export class LocalFileManager implements FileManagerInterface {
 	 * @param path Directory path to delete relative to root directory
 	 */
 	async deleteDirectory(path: string): Promise<void> {
-		const fullPath = join(this.rootDir, path);
+		const fullPath = await this.getFullPath(path);
 		await rmdir(fullPath);
 	}
+
+	/**
+	 * Uses the native file system notifications.
+	 * The cursors are timestamps : as the file system keeps no history, resuming from a cursor
+	 * reports the files modified since as `updated`, but cannot report the files deleted since.
+	 */
+	watch(path: string, options: WatchOptions = {}): Watcher {
+		const watcher = new Watcher(path, options);
+		this.startWatching(watcher, options).catch((err) => watcher.fail(err));
+		return watcher;
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return findResources(this, query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return searchFiles(this, path, query, options);
+	}
+
+	private async startWatching(watcher: Watcher, { recursive = false, cursor }: WatchOptions) {
+		const watched = await this.stat(watcher.path);
+		const fullPath = await this.getFullPath(watched.path);
+		if (watcher.closed) return;
+
+		const fsWatcher = watchFileSystem(fullPath, { recursive }, (eventType, fileName) => {
+			if (fileName && isPartialFile(fileName)) return;
+			// When a file is watched, the file name is its own name. Some platforms give no file name :
+			// the change is then reported on the watched directory itself
+			const rscPath =
+				watched.isDirectory && fileName
+					? `${watched.path}${fileName.split(sep).join("/")}`
+					: watched.path;
+			this.describeChange(rscPath, eventType).then(
+				(event) => watcher.push(event),
+				(err) => watcher.fail(err)
+			);
+		});
+		fsWatcher.on("error", (err) => watcher.fail(err));
+		watcher.onClose(() => fsWatcher.close());
+		watcher.started();
+
+		if (!cursor) {
+			watcher.cursor = String(Date.now());
+			return;
+		}
+		const since = Number(cursor);
+		const resources = watched.isDirectory
+			? await this.listDirectoryContent(watched.path, recursive)
+			: [watched];
+		const files = await Promise.all(
+			resources.filter(({ isFile }) => isFile).map(({ path: rscPath }) => this.stat(rscPath))
+		);
+		const modifiedFiles = files
+			.map((resource) => ({ resource, modifiedTime: resource.modifiedTime?.getTime() || 0 }))
+			.filter(({ modifiedTime }) => modifiedTime > since)
+			.sort((a, b) => a.modifiedTime - b.modifiedTime);
+		for (const { resource, modifiedTime } of modifiedFiles) {
+			watcher.push({ type: "updated", resource, cursor: String(modifiedTime) });
+		}
+	}
+
+	/**
+	 * Translate a file system notification : a `rename` is either a creation or a deletion
+	 */
+	private async describeChange(rscPath: string, eventType: string): Promise<ChangeEvent> {
+		const cursor = String(Date.now());
+		try {
+			const resource = await this.stat(rscPath);
+			return { type: eventType === "rename" ? "created" : "updated", resource, cursor };
+		} catch (err) {
+			if (!(err instanceof FileNotFoundError)) throw err;
+			return { type: "deleted", resource: this.getInfo(rscPath), cursor };
+		}
+	}
 }
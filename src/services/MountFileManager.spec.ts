@@ -0,0 +1,137 @@
+import { describe, expect, it } from "bun:test";
+import { hostilePathsTestSuite, testSuite } from "./FileManager.spec";
+import { ConflictError, FileManagerError, PathError } from "./FileManagerErrors";
+import { InMemoryFileManager } from "./InMemoryFileManager";
+import { MountFileManager } from "./MountFileManager";
+
+/**
+ * Two backends mounted side by side, with a third one nested inside the first
+ */
+function createFileManagers() {
+	const content = new InMemoryFileManager();
+	const uploads = new InMemoryFileManager();
+	const images = new InMemoryFileManager();
+	const fileManager = new MountFileManager({
+		"/content/": content,
+		"/uploads": uploads,
+		"/content/images/": images
+	});
+	return { content, uploads, images, fileManager };
+}
+
+const paths = (resources: { path: string }[]) => resources.map(({ path }) => path).sort();
+
+describe("MountFileManager", () => {
+	testSuite("MountFileManager", () => new MountFileManager({ "/": new InMemoryFileManager() }))();
+
+	hostilePathsTestSuite(
+		"MountFileManager",
+		() => new MountFileManager({ "/": new InMemoryFileManager() })
+	)();
+
+	it("routes each path to the file manager with the longest mount point", async () => {
+		const { content, uploads, images, fileManager } = createFileManagers();
+		await fileManager.updateTextFile("/content/index.md", "Index");
+		await fileManager.updateTextFile("/uploads/report.txt", "Report");
+		await fileManager.updateBinaryFile("/content/images/logo.png", Buffer.from([1, 2]));
+
+		expect(await content.getFileContent("/index.md")).toBe("Index");
+		expect(await uploads.getFileContent("/report.txt")).toBe("Report");
+		expect(await images.exists("/logo.png")).toBeTrue();
+		expect(await content.exists("/images/logo.png")).toBeFalse();
+		expect((await fileManager.stat("/content/images/logo.png")).path).toBe("/content/images/logo.png");
+	});
+
+	it("lists the mount points as directories", async () => {
+		const { fileManager } = createFileManagers();
+		await fileManager.updateTextFile("/content/index.md", "Index");
+		await fileManager.updateBinaryFile("/content/images/logo.png", Buffer.from([1, 2]));
+
+		expect(paths(await fileManager.listDirectoryContent("/"))).toEqual(["/content/", "/uploads/"]);
+		expect(paths(await fileManager.listDirectoryContent("/content/"))).toEqual([
+			"/content/images/",
+			"/content/index.md"
+		]);
+		expect(paths(await fileManager.listDirectoryContent("/", true))).toEqual([
+			"/content/",
+			"/content/images/",
+			"/content/images/logo.png",
+			"/content/index.md",
+			"/uploads/"
+		]);
+		expect((await fileManager.stat("/")).isDirectory).toBeTrue();
+	});
+
+	it("rejects the paths outside of the mount points", async () => {
+		const { fileManager } = createFileManagers();
+
+		await expect(fileManager.updateTextFile("/elsewhere.txt", "Lost")).rejects.toThrow(PathError);
+		expect(await fileManager.exists("/elsewhere.txt")).toBeFalse();
+	});
+
+	it("copies and moves files and directories between file managers", async () => {
+		const { content, uploads, fileManager } = createFileManagers();
+		await fileManager.updateTextFile("/uploads/drafts/post.md", "Post");
+		await fileManager.updateTextFile("/uploads/drafts/notes/todo.txt", "Todo");
+
+		await fileManager.copy("/uploads/drafts/post.md", "/content/post.md");
+		expect(await content.getFileContent("/post.md")).toBe("Post");
+
+		await fileManager.move("/uploads/drafts/", "/content/drafts/");
+		expect(await fileManager.getFileContent("/content/drafts/notes/todo.txt")).toBe("Todo");
+		expect(await uploads.exists("/drafts/post.md")).toBeFalse();
+		expect(await uploads.exists("/drafts/")).toBeFalse();
+
+		await fileManager.updateTextFile("/uploads/post.md", "Other post");
+		await expect(fileManager.copy("/uploads/post.md", "/content/post.md")).rejects.toThrow(ConflictError);
+		await fileManager.copy("/uploads/post.md", "/content/post.md", { onConflict: "overwrite" });
+		expect(await content.getFileContent("/post.md")).toBe("Other post");
+	});
+
+	it("mounts and unmounts file managers at runtime", async () => {
+		const { fileManager } = createFileManagers();
+		const scratch = new InMemoryFileManager();
+
+		fileManager.mount("/tmp/", scratch);
+		expect(() => fileManager.mount("/tmp", new InMemoryFileManager())).toThrow(FileManagerError);
+		await fileManager.updateTextFile("/tmp/scratch.txt", "Scratch");
+		expect(await scratch.exists("/scratch.txt")).toBeTrue();
+		expect(fileManager.listMounts().map(({ path }) => path)).toEqual([
+			"/content/",
+			"/content/images/",
+			"/tmp/",
+			"/uploads/"
+		]);
+
+		fileManager.unmount("/tmp/");
+		expect(await fileManager.exists("/tmp/scratch.txt")).toBeFalse();
+	});
+
+	it("refuses to delete a mount point", async () => {
+		const { fileManager } = createFileManagers();
+
+		await expect(fileManager.deleteDirectory("/content/")).rejects.toMatchObject({ code: 400 });
+		await expect(fileManager.move("/content/", "/uploads/content/")).rejects.toMatchObject({ code: 400 });
+	});
+
+	it("watches the changes of all the mounted file managers", async () => {
+		const { fileManager } = createFileManagers();
+		const watcher = fileManager.watch("/", { recursive: true });
+		const changes = watcher[Symbol.asyncIterator]();
+		await watcher.ready;
+
+		await fileManager.updateTextFile("/content/index.md", "Index");
+		await fileManager.updateTextFile("/uploads/report.txt", "Report");
+
+		expect((await changes.next()).value).toMatchObject({
+			type: "created",
+			resource: { path: "/content/index.md" }
+		});
+		expect((await changes.next()).value).toMatchObject({
+			type: "created",
+			resource: { path: "/uploads/report.txt" }
+		});
+		expect(JSON.parse(watcher.cursor as string)).toMatchObject({ "/content/": "1", "/uploads/": "1" });
+		await watcher.close();
+	});
+});
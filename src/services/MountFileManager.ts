@@ -0,0 +1,352 @@
+import { FileManagerError, FileNotFoundError, PathError } from "./FileManagerErrors";
+import type {
+	FileManagerInterface,
+	FindOptions,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteOptions
+} from "./FileManagerInterface";
+import { findResources } from "../utils/glob-utils";
+import { iteratePages, paginate } from "../utils/paging-utils";
+import { resolvePath } from "../utils/path-utils";
+import { ResourceInfo } from "../utils/ResourceInfo";
+import { searchFiles } from "../utils/search-utils";
+import { copyRecursively, deleteRecursively, planTransfer } from "../utils/transfer-utils";
+import { combineWatchers, Watcher } from "../utils/Watcher";
+
+/**
+ * A file manager attached to a directory of the mount file manager
+ */
+export interface MountPoint {
+	/**
+	 * The directory where the files of the file manager appear (with a trailing slash)
+	 */
+	path: string;
+	fileManager: FileManagerInterface;
+}
+
+/**
+ * The mount point of a path and the path of the resource inside the mounted file manager
+ */
+interface MountedPath extends MountPoint {
+	innerPath: string;
+}
+
+/**
+ * Presents several file managers as a single tree of files, each one being mounted on its own directory
+ * (for instance `/content/` on Github, `/uploads/` on Google Drive and `/tmp/` in memory).
+ * The paths are routed to the file manager with the longest matching mount point,
+ * and the copies and moves between two file managers are streamed from one to the other.
+ */
+export class MountFileManager implements FileManagerInterface {
+	private mounts = new Map<string, MountPoint>();
+
+	/**
+	 * @param mounts The file managers to mount, by mount path
+	 */
+	constructor(mounts: Record<string, FileManagerInterface> = {}) {
+		for (const [path, fileManager] of Object.entries(mounts)) {
+			this.mount(path, fileManager);
+		}
+	}
+
+	/**
+	 * Attach a file manager to a directory
+	 * @param path The directory where the files of the file manager appear
+	 * @param fileManager The mounted file manager
+	 * @throws FileManagerError (409) if another file manager is already mounted on this directory
+	 */
+	mount(path: string, fileManager: FileManagerInterface) {
+		const mountPath = resolvePath(path.endsWith("/") ? path : `${path}/`);
+		if (this.mounts.has(mountPath)) {
+			throw new FileManagerError(409, `A file manager is already mounted on '${mountPath}'`, mountPath);
+		}
+		this.mounts.set(mountPath, { path: mountPath, fileManager });
+	}
+
+	/**
+	 * Detach the file manager mounted on a directory
+	 * @throws FileNotFoundError if nothing is mounted on this directory
+	 */
+	unmount(path: string) {
+		const mountPath = resolvePath(path.endsWith("/") ? path : `${path}/`);
+		if (!this.mounts.delete(mountPath)) {
+			throw new FileNotFoundError(mountPath, `Nothing is mounted on '${mountPath}'`);
+		}
+	}
+
+	/**
+	 * @returns the mount points, sorted by path
+	 */
+	listMounts(): MountPoint[] {
+		return [...this.mounts.values()].sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	/**
+	 * Find the file manager of a path
+	 * @returns nothing if the path is not inside a mount point
+	 */
+	private findMount(path: string): MountedPath | undefined {
+		const rscPath = resolvePath(path);
+		let found: MountPoint | undefined;
+		for (const mount of this.mounts.values()) {
+			const isInside = rscPath.startsWith(mount.path) || `${rscPath}/` === mount.path;
+			if (isInside && (!found || mount.path.length > found.path.length)) {
+				found = mount;
+			}
+		}
+		return found && { ...found, innerPath: `/${rscPath.substring(found.path.length)}` };
+	}
+
+	/**
+	 * @throws PathError if the path is not inside a mount point
+	 */
+	private getMount(path: string): MountedPath {
+		const mount = this.findMount(path);
+		if (!mount) {
+			throw new PathError(path, `No file manager is mounted on '${path}'`);
+		}
+		return mount;
+	}
+
+	/**
+	 * The mount points inside a directory
+	 */
+	private getMountsInside(dirPath: string): MountPoint[] {
+		return this.listMounts().filter(({ path }) => path !== dirPath && path.startsWith(dirPath));
+	}
+
+	/**
+	 * Mount points cannot be removed with the files
+	 * @throws FileManagerError (400) if a mount point is inside the directory
+	 */
+	private checkNoMountInside(path: string) {
+		const rscPath = resolvePath(path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+		if (this.mounts.has(dirPath) || this.getMountsInside(dirPath).length > 0) {
+			throw new FileManagerError(400, `'${dirPath}' contains a mount point : unmount it first`, path);
+		}
+	}
+
+	/**
+	 * Translate a resource of a mounted file manager to the mount file manager tree
+	 */
+	private toMountedInfo(mountPath: string, info: ResourceInfo): ResourceInfo {
+		return new ResourceInfo(`${mountPath}${info.path.substring(1)}`, {
+			type: info.isDirectory ? "dir" : "file",
+			...info.metadata
+		});
+	}
+
+	getInfo(path: string): ResourceInfo {
+		return new ResourceInfo(path);
+	}
+
+	/**
+	 * The directories leading to the mount points exist even if no file manager is mounted on them
+	 */
+	async stat(path: string): Promise<ResourceInfo> {
+		const mount = this.findMount(path);
+		if (mount) {
+			return this.toMountedInfo(mount.path, await mount.fileManager.stat(mount.innerPath));
+		}
+		const rscPath = resolvePath(path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+		if (dirPath === "/" || this.getMountsInside(dirPath).length > 0) {
+			return new ResourceInfo(dirPath, { type: "dir" });
+		}
+		throw new FileNotFoundError(path, `'${path}' does not exist`);
+	}
+
+	async exists(path: string): Promise<boolean> {
+		return this.stat(path).then(
+			() => true,
+			(err) => {
+				if (err instanceof FileNotFoundError) return false;
+				throw err;
+			}
+		);
+	}
+
+	async getFileContent(path: string, options?: ReadOptions): Promise<string | Buffer> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.getFileContent(innerPath, options);
+	}
+
+	async listRevisions(path: string): Promise<Revision[]> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.listRevisions(innerPath);
+	}
+
+	async restoreRevision(path: string, revision: string, options?: WriteOptions): Promise<void> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.restoreRevision(innerPath, revision, options);
+	}
+
+	async readStream(path: string): Promise<ReadableStream<Uint8Array>> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.readStream(innerPath);
+	}
+
+	async writeStream(path: string, options?: WriteOptions): Promise<WritableStream<Uint8Array>> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.writeStream(innerPath, options);
+	}
+
+	async updateTextFile(path: string, content: string, options?: WriteOptions): Promise<void> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.updateTextFile(innerPath, content, options);
+	}
+
+	async updateBinaryFile(path: string, content: Buffer, options?: WriteOptions): Promise<void> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.updateBinaryFile(innerPath, content, options);
+	}
+
+	async deleteFile(path: string, options?: WriteOptions): Promise<void> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.deleteFile(innerPath, options);
+	}
+
+	async move(from: string, to: string, options?: TransferOptions): Promise<void> {
+		return this.transfer(from, to, true, options);
+	}
+
+	async copy(from: string, to: string, options?: TransferOptions): Promise<void> {
+		return this.transfer(from, to, false, options);
+	}
+
+	/**
+	 * Use the native copy or move of the file manager when both paths are on the same mount point,
+	 * or else stream each file from one file manager to the other
+	 */
+	private async transfer(from: string, to: string, removeSource: boolean, options: TransferOptions = {}) {
+		const source = this.getMount(from);
+		const destination = this.getMount(to);
+		if (removeSource) this.checkNoMountInside(from);
+
+		if (source.path === destination.path) {
+			return removeSource
+				? source.fileManager.move(source.innerPath, destination.innerPath, options)
+				: source.fileManager.copy(source.innerPath, destination.innerPath, options);
+		}
+
+		const { onConflict, ...writeOptions } = options;
+		const plan = await planTransfer(this, from, to, options);
+		if (plan.conflict === "overwrite") {
+			await deleteRecursively(this, plan.destination, writeOptions);
+		}
+		const content = await copyRecursively(this, plan.source, plan.destination.path, writeOptions);
+		if (removeSource) {
+			await deleteRecursively(this, plan.source, writeOptions, content);
+		}
+	}
+
+	/**
+	 * The mount points inside the directory appear as sub directories
+	 * (with their content when the listing is recursive)
+	 */
+	async listDirectoryContent(path: string, recursive = false): Promise<ResourceInfo[]> {
+		const rscPath = resolvePath(path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+		const mount = this.findMount(dirPath);
+		const mountsInside = this.getMountsInside(dirPath);
+		if (!mount && mountsInside.length === 0 && dirPath !== "/") {
+			throw new FileNotFoundError(path, `'${path}' does not exist`);
+		}
+
+		const entries = new Map<string, ResourceInfo>();
+		if (mount) {
+			for (const info of await mount.fileManager.listDirectoryContent(mount.innerPath, recursive)) {
+				const resource = this.toMountedInfo(mount.path, info);
+				entries.set(resource.path, resource);
+			}
+		}
+		for (const { path: mountPath, fileManager } of mountsInside) {
+			// The directories leading to the mount point
+			const segments = mountPath.substring(dirPath.length).split("/").filter(Boolean);
+			const depth = recursive ? segments.length : 1;
+			for (let i = 1; i <= depth; i++) {
+				const subDirPath = `${dirPath}${segments.slice(0, i).join("/")}/`;
+				entries.set(subDirPath, new ResourceInfo(subDirPath, { type: "dir" }));
+			}
+			if (recursive) {
+				for (const info of await fileManager.listDirectoryContent("/", true)) {
+					const resource = this.toMountedInfo(mountPath, info);
+					entries.set(resource.path, resource);
+				}
+			}
+		}
+		return [...entries.values()];
+	}
+
+	iterateDirectory(path: string, options?: IterateDirectoryOptions): AsyncIterable<ResourceInfo> {
+		return iteratePages(this, path, options);
+	}
+
+	async listPage(path: string, options?: ListPageOptions): Promise<ListPage> {
+		return paginate(await this.listDirectoryContent(path), options);
+	}
+
+	async createDirectory(path: string, options?: WriteOptions): Promise<void> {
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.createDirectory(innerPath, options);
+	}
+
+	/**
+	 * @throws FileManagerError (400) if the directory is (or contains) a mount point
+	 */
+	async deleteDirectory(path: string, options?: WriteOptions): Promise<void> {
+		this.checkNoMountInside(path);
+		const { fileManager, innerPath } = this.getMount(path);
+		return fileManager.deleteDirectory(innerPath, options);
+	}
+
+	/**
+	 * Watch the file managers of the path (all the mount points inside the directory when recursive).
+	 * The cursor gathers the cursors of each file manager, by mount point.
+	 */
+	watch(path: string, options: WatchOptions = {}): Watcher {
+		const watcher = new Watcher(path, options);
+		const dirPath = watcher.path.endsWith("/") ? watcher.path : `${watcher.path}/`;
+
+		const watched: MountedPath[] = [];
+		const mount = this.findMount(watcher.path);
+		if (mount) watched.push(mount);
+		if (options.recursive) {
+			watched.push(...this.getMountsInside(dirPath).map((inside) => ({ ...inside, innerPath: "/" })));
+		}
+
+		const sources = new Map(
+			watched.map(({ path: mountPath, fileManager, innerPath }) => [
+				mountPath,
+				(cursor?: string) =>
+					fileManager.watch(innerPath, {
+						recursive: options.recursive,
+						interval: options.interval,
+						cursor
+					})
+			])
+		);
+		return combineWatchers(watcher, sources, (mountPath, event) => ({
+			...event,
+			resource: this.toMountedInfo(mountPath, event.resource),
+			from: event.from && this.toMountedInfo(mountPath, event.from)
+		}));
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return findResources(this, query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return searchFiles(this, path, query, options);
+	}
+}
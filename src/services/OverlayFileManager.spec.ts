@@ -0,0 +1,149 @@
+import { describe, expect, it } from "bun:test";
+import { hostilePathsTestSuite, testSuite } from "./FileManager.spec";
+import { ConflictError, FileNotFoundError } from "./FileManagerErrors";
+import { InMemoryFileManager } from "./InMemoryFileManager";
+import { OverlayFileManager } from "./OverlayFileManager";
+
+/**
+ * An overlay over a lower layer that already contains a few files
+ */
+async function createFileManagers() {
+	const lower = new InMemoryFileManager();
+	await lower.updateTextFile("/README.md", "Readme");
+	await lower.updateTextFile("/docs/guide.md", "Guide");
+	await lower.updateTextFile("/docs/api/index.md", "API");
+	const upper = new InMemoryFileManager();
+	return { lower, upper, fileManager: new OverlayFileManager(lower, upper) };
+}
+
+const paths = (resources: { path: string }[]) => resources.map(({ path }) => path).sort();
+
+describe("OverlayFileManager", () => {
+	testSuite("OverlayFileManager", () => new OverlayFileManager(new InMemoryFileManager()))();
+
+	hostilePathsTestSuite("OverlayFileManager", () => new OverlayFileManager(new InMemoryFileManager()))();
+
+	it("reads through to the lower layer and writes in the upper layer", async () => {
+		const { lower, upper, fileManager } = await createFileManagers();
+		expect(await fileManager.getFileContent("/docs/guide.md")).toBe("Guide");
+
+		await fileManager.updateTextFile("/docs/guide.md", "New guide");
+		expect(await fileManager.getFileContent("/docs/guide.md")).toBe("New guide");
+		expect(await lower.getFileContent("/docs/guide.md")).toBe("Guide");
+		expect(await upper.getFileContent("/docs/guide.md")).toBe("New guide");
+	});
+
+	it("hides the deleted files and directories of the lower layer", async () => {
+		const { lower, fileManager } = await createFileManagers();
+
+		await fileManager.deleteFile("/README.md");
+		await fileManager.deleteDirectory("/docs/api/");
+		expect(await fileManager.exists("/README.md")).toBeFalse();
+		expect(await fileManager.exists("/docs/api/index.md")).toBeFalse();
+		await expect(fileManager.getFileContent("/README.md")).rejects.toThrow(FileNotFoundError);
+		expect(await lower.exists("/README.md")).toBeTrue();
+
+		// A deleted file can be written again
+		await fileManager.updateTextFile("/README.md", "New readme");
+		expect(await fileManager.getFileContent("/README.md")).toBe("New readme");
+	});
+
+	it("keeps a file deleted when its new content is not written", async () => {
+		const { fileManager } = await createFileManagers();
+		await fileManager.deleteFile("/README.md");
+
+		const writer = (await fileManager.writeStream("/README.md")).getWriter();
+		await writer.write(new TextEncoder().encode("Aborted"));
+		await writer.abort();
+		expect(await fileManager.exists("/README.md")).toBeFalse();
+
+		await fileManager.deleteFile("/docs/guide.md");
+		await expect(
+			fileManager.updateTextFile("/docs/guide.md", "Conflict", { ifMatch: "unknown" })
+		).rejects.toThrow(ConflictError);
+		expect(await fileManager.exists("/docs/guide.md")).toBeFalse();
+	});
+
+	it("checks the preconditions against both layers", async () => {
+		const { fileManager } = await createFileManagers();
+		const { etag } = await fileManager.stat("/docs/guide.md");
+
+		await expect(
+			fileManager.updateTextFile("/docs/guide.md", "New", { ifNoneMatch: "*" })
+		).rejects.toThrow(ConflictError);
+		await fileManager.updateTextFile("/docs/guide.md", "New guide", { ifMatch: etag });
+		expect(await fileManager.getFileContent("/docs/guide.md")).toBe("New guide");
+		await expect(fileManager.deleteFile("/docs/guide.md", { ifMatch: etag })).rejects.toThrow(
+			ConflictError
+		);
+
+		const { etag: readmeEtag } = await fileManager.stat("/README.md");
+		await fileManager.deleteFile("/README.md", { ifMatch: readmeEtag });
+		expect(await fileManager.exists("/README.md")).toBeFalse();
+	});
+
+	it("merges the listings of both layers", async () => {
+		const { fileManager } = await createFileManagers();
+		await fileManager.updateTextFile("/docs/tutorial.md", "Tutorial");
+		await fileManager.deleteFile("/docs/guide.md");
+
+		expect(paths(await fileManager.listDirectoryContent("/docs/", true))).toEqual([
+			"/docs/api/index.md",
+			"/docs/tutorial.md"
+		]);
+		await expect(fileManager.listDirectoryContent("/missing/")).rejects.toThrow(FileNotFoundError);
+	});
+
+	it("moves the files of the lower layer", async () => {
+		const { lower, fileManager } = await createFileManagers();
+
+		await fileManager.move("/docs/", "/documentation/");
+		expect(await fileManager.getFileContent("/documentation/api/index.md")).toBe("API");
+		expect(await fileManager.exists("/docs/guide.md")).toBeFalse();
+		expect(await lower.exists("/docs/guide.md")).toBeTrue();
+	});
+
+	it("lists the pending changes", async () => {
+		const { fileManager } = await createFileManagers();
+		await fileManager.updateTextFile("/docs/guide.md", "New guide");
+		await fileManager.updateTextFile("/CHANGELOG.md", "Changes");
+		await fileManager.deleteDirectory("/docs/api/");
+		await fileManager.deleteFile("/README.md");
+
+		expect(await fileManager.getChanges()).toEqual({
+			added: ["/CHANGELOG.md"],
+			modified: ["/docs/guide.md"],
+			deleted: ["/README.md", "/docs/api/index.md"]
+		});
+	});
+
+	it("commits the changes to the lower layer", async () => {
+		const { lower, upper, fileManager } = await createFileManagers();
+		await fileManager.updateTextFile("/docs/guide.md", "New guide");
+		await fileManager.updateTextFile("/CHANGELOG.md", "Changes");
+		await fileManager.deleteDirectory("/docs/api/");
+
+		const changes = await fileManager.commit();
+		expect(changes.deleted).toEqual(["/docs/api/index.md"]);
+		expect(await lower.getFileContent("/docs/guide.md")).toBe("New guide");
+		expect(await lower.getFileContent("/CHANGELOG.md")).toBe("Changes");
+		expect(await lower.exists("/docs/api/")).toBeFalse();
+		expect(await upper.listDirectoryContent("/", true)).toEqual([]);
+		expect(await fileManager.getChanges()).toEqual({ added: [], modified: [], deleted: [] });
+	});
+
+	it("discards the changes", async () => {
+		const { lower, fileManager } = await createFileManagers();
+		await fileManager.updateTextFile("/docs/guide.md", "New guide");
+		await fileManager.deleteFile("/README.md");
+
+		await fileManager.discard();
+		expect(await fileManager.getFileContent("/docs/guide.md")).toBe("Guide");
+		expect(await fileManager.getFileContent("/README.md")).toBe("Readme");
+		expect(paths(await lower.listDirectoryContent("/", true))).toEqual([
+			"/README.md",
+			"/docs/api/index.md",
+			"/docs/guide.md"
+		]);
+	});
+});
@@ -0,0 +1,390 @@
+import { FileNotFoundError } from "./FileManagerErrors";
+import type {
+	FileManagerInterface,
+	FindOptions,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteOptions
+} from "./FileManagerInterface";
+import { InMemoryFileManager } from "./InMemoryFileManager";
+import { findResources } from "../utils/glob-utils";
+import { iteratePages, paginate } from "../utils/paging-utils";
+import { resolvePath } from "../utils/path-utils";
+import { checkPreconditions } from "../utils/precondition-utils";
+import type { ResourceInfo } from "../utils/ResourceInfo";
+import { searchFiles } from "../utils/search-utils";
+import { copyRecursively, deleteRecursively, planTransfer } from "../utils/transfer-utils";
+import { combineWatchers, Watcher } from "../utils/Watcher";
+
+/**
+ * The files changed in the upper layer and not yet committed to the lower layer
+ */
+export interface OverlayChanges {
+	/**
+	 * The files that do not exist in the lower layer
+	 */
+	added: string[];
+	/**
+	 * The files of the lower layer that have a new content
+	 */
+	modified: string[];
+	/**
+	 * The files of the lower layer that have been deleted
+	 */
+	deleted: string[];
+}
+
+/**
+ * Lists a directory of a layer, or nothing if the directory does not exist in this layer
+ */
+const listLayer = async (
+	layer: FileManagerInterface,
+	dirPath: string,
+	recursive: boolean
+): Promise<ResourceInfo[]> => {
+	if (!(await layer.exists(dirPath))) return [];
+	return layer.listDirectoryContent(dirPath, recursive);
+};
+
+/**
+ * Layers a writable file manager (in memory by default) over another file manager used read-only :
+ * the writes land in the upper layer, the reads fall through to the lower layer,
+ * and the deletions of the files of the lower layer are recorded as whiteouts.
+ * The changes can then be committed to the lower layer, or discarded.
+ */
+export class OverlayFileManager implements FileManagerInterface {
+	private lower: FileManagerInterface;
+	private upper: FileManagerInterface;
+	/**
+	 * The deleted paths of the lower layer (a directory path hides all its content)
+	 */
+	private whiteouts = new Set<string>();
+
+	/**
+	 * @param lower The file manager that is never written until `commit()`
+	 * @param upper Where the changes are kept. Default: in memory
+	 */
+	constructor(lower: FileManagerInterface, upper: FileManagerInterface = new InMemoryFileManager()) {
+		this.lower = lower;
+		this.upper = upper;
+	}
+
+	/**
+	 * Tells if a resource of the lower layer has been deleted
+	 */
+	private isWhitedOut(path: string): boolean {
+		const rscPath = resolvePath(path);
+		for (const whiteout of this.whiteouts) {
+			const isHidden = whiteout.endsWith("/")
+				? `${rscPath}/`.startsWith(whiteout)
+				: rscPath === whiteout;
+			if (isHidden) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Find the layer where a resource is visible
+	 * @throws FileNotFoundError if the resource is in none of the layers
+	 */
+	private async getLayer(path: string): Promise<FileManagerInterface> {
+		if (await this.upper.exists(path)) return this.upper;
+		if (!this.isWhitedOut(path) && (await this.lower.exists(path))) return this.lower;
+		throw new FileNotFoundError(path, `'${path}' does not exist`);
+	}
+
+	/**
+	 * Hide a resource of the lower layer
+	 */
+	private async whiteOut(resource: ResourceInfo) {
+		if (!(await this.lower.exists(resource.path))) return;
+		if (!resource.isDirectory) {
+			this.whiteouts.add(resolvePath(resource.path));
+			return;
+		}
+		// A directory whiteout replaces the whiteouts of its content
+		const rscPath = resolvePath(resource.path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+		for (const whiteout of this.whiteouts) {
+			if (whiteout.startsWith(dirPath)) this.whiteouts.delete(whiteout);
+		}
+		this.whiteouts.add(dirPath);
+	}
+
+	getInfo(path: string): ResourceInfo {
+		return this.lower.getInfo(path);
+	}
+
+	async stat(path: string): Promise<ResourceInfo> {
+		return (await this.getLayer(path)).stat(path);
+	}
+
+	async exists(path: string): Promise<boolean> {
+		return this.stat(path).then(
+			() => true,
+			(err) => {
+				if (err instanceof FileNotFoundError) return false;
+				throw err;
+			}
+		);
+	}
+
+	/**
+	 * The past revisions are read from the lower layer
+	 */
+	async getFileContent(path: string, options?: ReadOptions): Promise<string | Buffer> {
+		if (options?.revision) {
+			return this.lower.getFileContent(path, options);
+		}
+		return (await this.getLayer(path)).getFileContent(path, options);
+	}
+
+	async listRevisions(path: string): Promise<Revision[]> {
+		return this.lower.listRevisions(path);
+	}
+
+	/**
+	 * The restored content is written in the upper layer, like any other change
+	 */
+	async restoreRevision(path: string, revision: string, options?: WriteOptions): Promise<void> {
+		const content = await this.lower.getFileContent(path, { revision });
+		await (typeof content === "string"
+			? this.updateTextFile(path, content, options)
+			: this.updateBinaryFile(path, content, options));
+	}
+
+	async readStream(path: string): Promise<ReadableStream<Uint8Array>> {
+		return (await this.getLayer(path)).readStream(path);
+	}
+
+	/**
+	 * The preconditions are checked against both layers when the stream is opened and closed,
+	 * and a deleted file of the lower layer stays deleted until the stream is closed
+	 */
+	async writeStream(path: string, options: WriteOptions = {}): Promise<WritableStream<Uint8Array>> {
+		const { ifMatch, ifNoneMatch, ...upperOptions } = options;
+		await checkPreconditions(this, path, { ifMatch, ifNoneMatch });
+		const writer = (await this.upper.writeStream(path, upperOptions)).getWriter();
+		return new WritableStream<Uint8Array>({
+			write: (chunk) => writer.write(chunk),
+			close: async () => {
+				try {
+					await checkPreconditions(this, path, { ifMatch, ifNoneMatch });
+				} catch (err) {
+					await writer.abort(err);
+					throw err;
+				}
+				await writer.close();
+				this.whiteouts.delete(resolvePath(path));
+			},
+			abort: (reason) => writer.abort(reason)
+		});
+	}
+
+	async updateTextFile(path: string, content: string, options: WriteOptions = {}): Promise<void> {
+		const { ifMatch, ifNoneMatch, ...upperOptions } = options;
+		await checkPreconditions(this, path, { ifMatch, ifNoneMatch });
+		await this.upper.updateTextFile(path, content, upperOptions);
+		this.whiteouts.delete(resolvePath(path));
+	}
+
+	async updateBinaryFile(path: string, content: Buffer, options: WriteOptions = {}): Promise<void> {
+		const { ifMatch, ifNoneMatch, ...upperOptions } = options;
+		await checkPreconditions(this, path, { ifMatch, ifNoneMatch });
+		await this.upper.updateBinaryFile(path, content, upperOptions);
+		this.whiteouts.delete(resolvePath(path));
+	}
+
+	/**
+	 * The preconditions are checked against both layers
+	 */
+	async deleteFile(path: string, options: WriteOptions = {}): Promise<void> {
+		const { ifMatch, ifNoneMatch, ...upperOptions } = options;
+		await checkPreconditions(this, path, { ifMatch, ifNoneMatch });
+		const resource = await this.stat(path);
+		if (await this.upper.exists(path)) {
+			await this.upper.deleteFile(path, upperOptions);
+		}
+		await this.whiteOut(resource);
+	}
+
+	async move(from: string, to: string, options?: TransferOptions): Promise<void> {
+		return this.transfer(from, to, true, options);
+	}
+
+	async copy(from: string, to: string, options?: TransferOptions): Promise<void> {
+		return this.transfer(from, to, false, options);
+	}
+
+	/**
+	 * The content is copied to the upper layer, and the source is deleted (or whited out) for a move
+	 */
+	private async transfer(from: string, to: string, removeSource: boolean, options: TransferOptions = {}) {
+		const { onConflict, ...writeOptions } = options;
+		const { source, destination, conflict } = await planTransfer(this, from, to, options);
+		if (conflict === "overwrite") {
+			await this.deleteResource(destination, writeOptions);
+		}
+		await copyRecursively(this, source, destination.path, writeOptions);
+		if (removeSource) {
+			await this.deleteResource(source, writeOptions);
+		}
+	}
+
+	private async deleteResource(resource: ResourceInfo, options: WriteOptions) {
+		return resource.isDirectory
+			? this.deleteDirectory(resource.path, options)
+			: this.deleteFile(resource.path, options);
+	}
+
+	/**
+	 * Merges the content of both layers (the upper layer wins), without the whited out resources
+	 */
+	async listDirectoryContent(path: string, recursive = false): Promise<ResourceInfo[]> {
+		await this.getLayer(path);
+		const [upperContent, lowerContent] = await Promise.all([
+			listLayer(this.upper, path, recursive),
+			this.isWhitedOut(path) ? [] : listLayer(this.lower, path, recursive)
+		]);
+		const entries = new Map<string, ResourceInfo>();
+		for (const resource of lowerContent) {
+			if (!this.isWhitedOut(resource.path)) entries.set(resource.path, resource);
+		}
+		for (const resource of upperContent) {
+			entries.set(resource.path, resource);
+		}
+		return [...entries.values()];
+	}
+
+	iterateDirectory(path: string, options?: IterateDirectoryOptions): AsyncIterable<ResourceInfo> {
+		return iteratePages(this, path, options);
+	}
+
+	async listPage(path: string, options?: ListPageOptions): Promise<ListPage> {
+		return paginate(await this.listDirectoryContent(path), options);
+	}
+
+	async createDirectory(path: string, options?: WriteOptions): Promise<void> {
+		return this.upper.createDirectory(path, options);
+	}
+
+	async deleteDirectory(path: string, options?: WriteOptions): Promise<void> {
+		const resource = await this.stat(path);
+		if (await this.upper.exists(path)) {
+			await deleteRecursively(this.upper, await this.upper.stat(path), options);
+		}
+		await this.whiteOut(resource);
+	}
+
+	/**
+	 * Watch both layers : the changes of the lower layer hidden by a whiteout are ignored
+	 */
+	watch(path: string, options: WatchOptions = {}): Watcher {
+		const watcher = new Watcher(path, options);
+		const { cursor, debounce, ...layerOptions } = options;
+		const sources = new Map([
+			[
+				"upper",
+				(layerCursor?: string) => this.upper.watch(path, { ...layerOptions, cursor: layerCursor })
+			],
+			[
+				"lower",
+				(layerCursor?: string) => this.lower.watch(path, { ...layerOptions, cursor: layerCursor })
+			]
+		]);
+		return combineWatchers(watcher, sources, (layer, event) =>
+			layer === "lower" && this.isWhitedOut(event.resource.path) ? undefined : event
+		);
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return findResources(this, query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return searchFiles(this, path, query, options);
+	}
+
+	/**
+	 * @returns The changes not yet committed to the lower layer
+	 */
+	async getChanges(): Promise<OverlayChanges> {
+		const changes: OverlayChanges = { added: [], modified: [], deleted: [] };
+		const upperFiles = (await listLayer(this.upper, "/", true)).filter(({ isFile }) => isFile);
+		for (const { path } of upperFiles) {
+			const isModified = !this.isWhitedOut(path) && (await this.lower.exists(path));
+			(isModified ? changes.modified : changes.added).push(path);
+		}
+
+		const upperPaths = new Set(upperFiles.map(({ path }) => path));
+		for (const whiteout of this.whiteouts) {
+			const deletedFiles = whiteout.endsWith("/")
+				? (await listLayer(this.lower, whiteout, true))
+						.filter(({ isFile }) => isFile)
+						.map(({ path }) => path)
+				: [whiteout];
+			changes.deleted.push(...deletedFiles.filter((path) => !upperPaths.has(path)));
+		}
+
+		// The files re-created in a deleted directory replace the files of the lower layer
+		for (const path of changes.added) {
+			if (this.isWhitedOut(path) && (await this.lower.exists(path))) {
+				changes.modified.push(path);
+			}
+		}
+		changes.added = changes.added.filter((path) => !changes.modified.includes(path));
+
+		return {
+			added: changes.added.sort(),
+			modified: changes.modified.sort(),
+			deleted: changes.deleted.sort()
+		};
+	}
+
+	/**
+	 * Apply the changes to the lower layer (the deletions first, then the written files),
+	 * then empty the upper layer
+	 * @param options Describes the changes made on the lower layer
+	 */
+	async commit(options?: WriteOptions): Promise<OverlayChanges> {
+		const changes = await this.getChanges();
+		for (const path of changes.deleted) {
+			await this.lower.deleteFile(path, options);
+		}
+		// The deleted directories that are now empty
+		for (const whiteout of [...this.whiteouts].filter((path) => path.endsWith("/"))) {
+			const content = await listLayer(this.lower, whiteout, true);
+			if ((await this.lower.exists(whiteout)) && content.every(({ isDirectory }) => isDirectory)) {
+				await deleteRecursively(this.lower, await this.lower.stat(whiteout), options, content);
+			}
+		}
+		for (const path of [...changes.added, ...changes.modified]) {
+			await (await this.upper.readStream(path)).pipeTo(await this.lower.writeStream(path, options));
+		}
+		await this.discard();
+		return changes;
+	}
+
+	/**
+	 * Forget all the changes not yet committed
+	 */
+	async discard(): Promise<void> {
+		const content = await listLayer(this.upper, "/", true);
+		for (const file of content.filter(({ isFile }) => isFile)) {
+			await this.upper.deleteFile(file.path);
+		}
+		// The directories created explicitly, the deepest first
+		const directories = content.filter(({ isDirectory }) => isDirectory);
+		for (const directory of directories.sort((a, b) => b.path.length - a.path.length)) {
+			if (await this.upper.exists(directory.path)) await this.upper.deleteDirectory(directory.path);
+		}
+		this.whiteouts.clear();
+	}
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "bun:test";
+import { FileManagerError } from "./FileManagerErrors";
+import { InMemoryFileManager } from "./InMemoryFileManager";
+import { ReadOnlyFileManager } from "./ReadOnlyFileManager";
+
+describe("ReadOnlyFileManager", () => {
+	it("reads the content of the wrapped file manager", async () => {
+		const backend = new InMemoryFileManager();
+		await backend.updateTextFile("/docs/index.md", "Index");
+		const fileManager = new ReadOnlyFileManager(backend);
+
+		expect(await fileManager.getFileContent("/docs/index.md")).toBe("Index");
+		expect(await fileManager.exists("/docs/index.md")).toBeTrue();
+		expect((await fileManager.listDirectoryContent("/docs/")).map(({ path }) => path)).toEqual([
+			"/docs/index.md"
+		]);
+		expect(await fileManager.search("/", "Index")).toHaveLength(1);
+	});
+
+	it("rejects all the changes", async () => {
+		const backend = new InMemoryFileManager();
+		await backend.updateTextFile("/docs/index.md", "Index");
+		const fileManager = new ReadOnlyFileManager(backend);
+
+		const changes = [
+			() => fileManager.updateTextFile("/docs/index.md", "Changed"),
+			() => fileManager.updateBinaryFile("/logo.png", Buffer.from([1])),
+			() => fileManager.writeStream("/docs/index.md"),
+			() => fileManager.deleteFile("/docs/index.md"),
+			() => fileManager.move("/docs/index.md", "/index.md"),
+			() => fileManager.copy("/docs/index.md", "/index.md"),
+			() => fileManager.createDirectory("/new/"),
+			() => fileManager.deleteDirectory("/docs/"),
+			() => fileManager.restoreRevision("/docs/index.md", "1")
+		];
+		for (const change of changes) {
+			const err = await change().catch((err) => err);
+			expect(err).toBeInstanceOf(FileManagerError);
+			expect(err.code).toBe(403);
+		}
+		expect(await backend.getFileContent("/docs/index.md")).toBe("Index");
+		expect(await backend.exists("/index.md")).toBeFalse();
+	});
+});
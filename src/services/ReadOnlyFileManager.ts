@@ -0,0 +1,120 @@
+import { FileManagerError } from "./FileManagerErrors";
+import type {
+	FileManagerInterface,
+	FindOptions,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteOptions
+} from "./FileManagerInterface";
+import type { ResourceInfo } from "../utils/ResourceInfo";
+import type { Watcher } from "../utils/Watcher";
+
+/**
+ * Wraps another file manager to only let its content be read :
+ * all the changes are rejected with a FileManagerError (403) before reaching the backend.
+ */
+export class ReadOnlyFileManager implements FileManagerInterface {
+	private fileManager: FileManagerInterface;
+
+	/**
+	 * @param fileManager The file manager whose content is exposed
+	 */
+	constructor(fileManager: FileManagerInterface) {
+		this.fileManager = fileManager;
+	}
+
+	private reject(path: string): never {
+		throw new FileManagerError(403, `'${path}' can't be changed : the file manager is read-only`, path);
+	}
+
+	getInfo(path: string): ResourceInfo {
+		return this.fileManager.getInfo(path);
+	}
+
+	async stat(path: string): Promise<ResourceInfo> {
+		return this.fileManager.stat(path);
+	}
+
+	async exists(path: string): Promise<boolean> {
+		return this.fileManager.exists(path);
+	}
+
+	async getFileContent(path: string, options?: ReadOptions): Promise<string | Buffer> {
+		return this.fileManager.getFileContent(path, options);
+	}
+
+	async listRevisions(path: string): Promise<Revision[]> {
+		return this.fileManager.listRevisions(path);
+	}
+
+	async restoreRevision(path: string, _revision: string, _options?: WriteOptions): Promise<void> {
+		this.reject(path);
+	}
+
+	async readStream(path: string): Promise<ReadableStream<Uint8Array>> {
+		return this.fileManager.readStream(path);
+	}
+
+	async writeStream(path: string, _options?: WriteOptions): Promise<WritableStream<Uint8Array>> {
+		this.reject(path);
+	}
+
+	async updateTextFile(path: string, _content: string, _options?: WriteOptions): Promise<void> {
+		this.reject(path);
+	}
+
+	async updateBinaryFile(path: string, _content: Buffer, _options?: WriteOptions): Promise<void> {
+		this.reject(path);
+	}
+
+	async deleteFile(path: string, _options?: WriteOptions): Promise<void> {
+		this.reject(path);
+	}
+
+	async move(from: string, _to: string, _options?: TransferOptions): Promise<void> {
+		this.reject(from);
+	}
+
+	async copy(_from: string, to: string, _options?: TransferOptions): Promise<void> {
+		this.reject(to);
+	}
+
+	async listDirectoryContent(path: string, recursive = false): Promise<ResourceInfo[]> {
+		return this.fileManager.listDirectoryContent(path, recursive);
+	}
+
+	iterateDirectory(path: string, options?: IterateDirectoryOptions): AsyncIterable<ResourceInfo> {
+		return this.fileManager.iterateDirectory(path, options);
+	}
+
+	async listPage(path: string, options?: ListPageOptions): Promise<ListPage> {
+		return this.fileManager.listPage(path, options);
+	}
+
+	async createDirectory(path: string, _options?: WriteOptions): Promise<void> {
+		this.reject(path);
+	}
+
+	async deleteDirectory(path: string, _options?: WriteOptions): Promise<void> {
+		this.reject(path);
+	}
+
+	watch(path: string, options?: WatchOptions): Watcher {
+		return this.fileManager.watch(path, options);
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return this.fileManager.find(query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return this.fileManager.search(path, query, options);
+	}
+}
@@ -0,0 +1,222 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { FakeS3Server } from "../testing/FakeS3Server";
+import { InMemorySnapshotStore } from "../utils/SnapshotStore";
+import { hostilePathsTestSuite, revisionsTestSuite, testSuite } from "./FileManager.spec";
+import { AuthenticationError, FileManagerError, FileNotFoundError } from "./FileManagerErrors";
+import { S3FileManager, type S3FileManagerOptions } from "./S3FileManager";
+
+describe("S3FileManager (fake S3 server)", () => {
+	const fakeS3 = new FakeS3Server();
+	const endpoint = fakeS3.start();
+
+	/**
+	 * Each test starts with an empty bucket
+	 */
+	function createFakeFileManager(options: Partial<S3FileManagerOptions> = {}) {
+		fakeS3.reset();
+		return new S3FileManager({ bucket: fakeS3.bucket, endpoint, ...fakeS3.credentials, ...options });
+	}
+
+	const pathsOf = (resources: { path: string }[]) => resources.map(({ path }) => path).sort();
+
+	afterAll(() => fakeS3.stop());
+
+	testSuite("S3FileManager", () => createFakeFileManager())();
+
+	hostilePathsTestSuite("S3FileManager", () => createFakeFileManager())();
+
+	revisionsTestSuite("S3FileManager", () =>
+		createFakeFileManager({ snapshots: new InMemorySnapshotStore() })
+	)();
+
+	describe("keys", () => {
+		it("stores the files under the prefix, with markers for the empty directories", async () => {
+			const fileManager = createFakeFileManager({ prefix: "/sites/blog" });
+			fakeS3.seed({ "sites/other.md": "Outside" });
+			await fileManager.updateTextFile("/docs/index.md", "Index");
+			await fileManager.createDirectory("/drafts/");
+
+			expect(fakeS3.keys).toEqual(["sites/blog/docs/index.md", "sites/blog/drafts/", "sites/other.md"]);
+			expect(pathsOf(await fileManager.listDirectoryContent("/"))).toEqual(["/docs/", "/drafts/"]);
+			expect((await fileManager.stat("/docs/index.md")).mimeType).toBe("text/markdown");
+		});
+
+		it("encodes the special characters of the keys", async () => {
+			const fileManager = createFakeFileManager();
+			await fileManager.updateTextFile("/a b/100% (draft)+été.md", "Special");
+
+			expect(fakeS3.keys).toEqual(["a b/100% (draft)+été.md"]);
+			expect(pathsOf(await fileManager.listDirectoryContent("/a b/"))).toEqual([
+				"/a b/100% (draft)+été.md"
+			]);
+			expect(await fileManager.getFileContent("/a b/100% (draft)+été.md")).toBe("Special");
+		});
+	});
+
+	describe("listings", () => {
+		it("lists the directories found in the keys", async () => {
+			const fileManager = createFakeFileManager();
+			fakeS3.seed({
+				"docs/index.md": "Index",
+				"docs/guides/start.md": "Start",
+				"docs/guides/advanced/tips.md": "Tips",
+				"docs/empty/": ""
+			});
+
+			const resources = await fileManager.listDirectoryContent("/docs");
+			expect(pathsOf(resources)).toEqual(["/docs/empty/", "/docs/guides/", "/docs/index.md"]);
+			expect(resources.find(({ path }) => path === "/docs/index.md")).toMatchObject({ size: 5 });
+			expect(pathsOf(await fileManager.listDirectoryContent("/docs/", true))).toEqual([
+				"/docs/empty/",
+				"/docs/guides/",
+				"/docs/guides/advanced/",
+				"/docs/guides/advanced/tips.md",
+				"/docs/guides/start.md",
+				"/docs/index.md"
+			]);
+			expect((await fileManager.stat("/docs/guides")).isDirectory).toBeTrue();
+			await expect(fileManager.listDirectoryContent("/missing/")).rejects.toThrow(FileNotFoundError);
+		});
+
+		it("follows the continuation tokens", async () => {
+			const fileManager = createFakeFileManager();
+			fakeS3.seed(
+				Object.fromEntries(Array.from({ length: 1001 }, (_, index) => [`many/${index}.txt`, ""]))
+			);
+
+			expect(await fileManager.listDirectoryContent("/many/")).toHaveLength(1001);
+			expect(fakeS3.requestsCount).toBe(2);
+
+			fakeS3.requestsCount = 0;
+			const firstPage = await fileManager.listPage("/many/", { pageSize: 600 });
+			const lastPage = await fileManager.listPage("/many/", {
+				pageSize: 600,
+				cursor: firstPage.cursor
+			});
+			expect([firstPage.items.length, lastPage.items.length]).toEqual([600, 401]);
+			expect(lastPage.cursor).toBeUndefined();
+			expect(fakeS3.requestsCount).toBe(2);
+		});
+	});
+
+	describe("multipart uploads", () => {
+		const MiB = 1024 * 1024;
+
+		it("uploads the large files in parts", async () => {
+			const fileManager = createFakeFileManager({ partSize: 5 * MiB });
+			const writer = (await fileManager.writeStream("/video.mp4")).getWriter();
+			for (let index = 0; index < 11; index++) {
+				await writer.write(new Uint8Array(MiB).fill(index));
+			}
+			await writer.close();
+
+			const info = await fileManager.stat("/video.mp4");
+			expect(info.size).toBe(11 * MiB);
+			expect(info.etag).toEndWith("-3");
+			const content = (await fileManager.getFileContent("/video.mp4")) as Buffer;
+			expect([content[0], content[5 * MiB], content[11 * MiB - 1]]).toEqual([0, 5, 10]);
+			expect(fakeS3.pendingUploads).toBe(0);
+		});
+
+		it("aborts the upload when a part is rejected", async () => {
+			const fileManager = createFakeFileManager({ partSize: 5 * MiB });
+			fakeS3.interceptor = (method, _key, query) =>
+				method === "PUT" && query.get("partNumber") === "2"
+					? new Response(null, { status: 500 })
+					: undefined;
+
+			const writer = (await fileManager.writeStream("/video.mp4")).getWriter();
+			const writes = async () => {
+				for (let index = 0; index < 11; index++) {
+					await writer.write(new Uint8Array(MiB));
+				}
+			};
+			await expect(writes()).rejects.toThrow(FileManagerError);
+			expect(fakeS3.pendingUploads).toBe(0);
+			expect(await fileManager.exists("/video.mp4")).toBeFalse();
+		});
+
+		it("rejects the parts smaller than the minimum of S3", () => {
+			expect(() => createFakeFileManager({ partSize: MiB })).toThrow("at least 5242880 bytes");
+		});
+	});
+
+	describe("errors", () => {
+		it("rejects the wrong credentials with an AuthenticationError", async () => {
+			const fileManager = createFakeFileManager({ secretAccessKey: "wrong" });
+			fakeS3.seed({ "index.md": "Index" });
+
+			const err = await fileManager.getFileContent("/index.md").catch((err) => err);
+			expect(err).toBeInstanceOf(AuthenticationError);
+			expect(err.message).toContain("signature");
+			// The HEAD responses have no body to tell why the request was refused
+			await expect(fileManager.exists("/index.md")).rejects.toMatchObject({ code: 403 });
+			await expect(fileManager.exists("/docs/")).rejects.toBeInstanceOf(AuthenticationError);
+		});
+
+		it("tells a missing bucket from a missing file", async () => {
+			const fileManager = createFakeFileManager({ bucket: "missing-bucket" });
+
+			const err = await fileManager.listDirectoryContent("/docs/").catch((err) => err);
+			expect(err).not.toBeInstanceOf(FileNotFoundError);
+			expect(err).toMatchObject({ code: 404, message: expect.stringContaining("NoSuchBucket") });
+		});
+
+		it("keeps the status and the code of the other errors", async () => {
+			const fileManager = createFakeFileManager();
+			fakeS3.interceptor = () =>
+				new Response(
+					"<Error><Code>SlowDown</Code><Message>Please reduce your request rate.</Message></Error>",
+					{
+						status: 503
+					}
+				);
+
+			await expect(fileManager.readStream("/index.md")).rejects.toMatchObject({
+				code: 503,
+				message: "SlowDown: Please reduce your request rate.",
+				path: "/index.md"
+			});
+		});
+	});
+
+	describe("watch()", () => {
+		it("reports the changes between the listings", async () => {
+			const fileManager = createFakeFileManager();
+			await fileManager.updateTextFile("/docs/draft.md", "Draft");
+			await fileManager.updateTextFile("/docs/index.md", "Index");
+			const watcher = fileManager.watch("/docs/", { interval: 10 });
+			const changes = watcher[Symbol.asyncIterator]();
+			await watcher.ready;
+			const startCursor = watcher.cursor;
+			await Bun.sleep(5);
+
+			fakeS3.seed({
+				"docs/index.md": "New index",
+				"docs/post.md": "Post",
+				"elsewhere.md": "Not watched"
+			});
+			const events = [(await changes.next()).value, (await changes.next()).value];
+			expect(events.map(({ type, resource }) => [type, resource.path])).toEqual([
+				["updated", "/docs/index.md"],
+				["created", "/docs/post.md"]
+			]);
+			await fileManager.deleteFile("/docs/draft.md");
+			expect((await changes.next()).value).toMatchObject({
+				type: "deleted",
+				resource: { path: "/docs/draft.md" }
+			});
+			await watcher.close();
+
+			// The files modified since the cursor are reported as updated
+			const resumed = fileManager.watch("/docs/", { cursor: startCursor, interval: 10 });
+			const resumedChanges = resumed[Symbol.asyncIterator]();
+			const resumedEvents = [(await resumedChanges.next()).value, (await resumedChanges.next()).value];
+			expect(pathsOf(resumedEvents.map(({ resource }) => resource))).toEqual([
+				"/docs/index.md",
+				"/docs/post.md"
+			]);
+			await resumed.close();
+		});
+	});
+});
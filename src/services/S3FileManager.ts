@@ -0,0 +1,825 @@
+import { createHash } from "node:crypto";
+import { AuthenticationError, ConflictError, FileManagerError, FileNotFoundError } from "./FileManagerErrors";
+import type {
+	FileManagerInterface,
+	FindOptions,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions,
+	ReadOptions,
+	Revision,
+	SearchMatch,
+	SearchOptions,
+	TransferOptions,
+	WatchOptions,
+	WriteOptions
+} from "./FileManagerInterface";
+import { findResources } from "../utils/glob-utils";
+import { getMimeType } from "../utils/mime-utils";
+import { checkPageSize, DEFAULT_PAGE_SIZE, iteratePages } from "../utils/paging-utils";
+import { resolvePath } from "../utils/path-utils";
+import { checkPreconditions } from "../utils/precondition-utils";
+import { ResourceInfo } from "../utils/ResourceInfo";
+import { searchFiles } from "../utils/search-utils";
+import {
+	type AwsCredentials,
+	EMPTY_PAYLOAD_HASH,
+	encodeRfc3986,
+	sha256Hex,
+	signRequest
+} from "../utils/sigv4-utils";
+import type { SnapshotStore } from "../utils/SnapshotStore";
+import { bytesToStream, concatBytes, streamToBytes, writeToStream } from "../utils/stream-utils";
+import { planTransfer, type TransferPlan } from "../utils/transfer-utils";
+import { diffResources, Watcher } from "../utils/Watcher";
+
+export interface S3FileManagerOptions extends AwsCredentials {
+	bucket: string;
+	/**
+	 * The key prefix of the root directory (`sites/blog/`). Default: the whole bucket
+	 */
+	prefix?: string;
+	/**
+	 * Default: `us-east-1`
+	 */
+	region?: string;
+	/**
+	 * The URL of an S3 compatible service (MinIO, Cloudflare R2..). Default: the AWS endpoint of the region
+	 */
+	endpoint?: string;
+	/**
+	 * Pass TRUE to put the bucket in the path of the URLs (`https://endpoint/bucket/key`)
+	 * rather than in their host name. Default: TRUE with a custom endpoint
+	 */
+	forcePathStyle?: boolean;
+	/**
+	 * The files larger than this (in bytes) are uploaded in parts of this size. Default: 8 MiB (minimum: 5 MiB)
+	 */
+	partSize?: number;
+	/**
+	 * Where to keep the successive versions of the files.
+	 * If not provided, the files have no revisions.
+	 */
+	snapshots?: SnapshotStore;
+}
+
+/**
+ * S3 rejects the parts of a multipart upload smaller than this (but the last one)
+ */
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * The maximum number of keys in a DeleteObjects request
+ */
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * How often the listing of the watched path is checked by `watch()` (in milliseconds)
+ */
+const WATCH_INTERVAL = 30_000;
+
+/**
+ * The error codes of the rejected credentials
+ */
+const AUTHENTICATION_ERRORS = [
+	"InvalidAccessKeyId",
+	"SignatureDoesNotMatch",
+	"ExpiredToken",
+	"InvalidToken",
+	"TokenRefreshRequired"
+];
+
+/**
+ * An object of a listing, with its key (the path of the resource can't always give it back)
+ */
+interface S3Object {
+	key: string;
+	resource: ResourceInfo;
+}
+
+/**
+ * A page of ListObjectsV2
+ */
+interface S3Listing {
+	objects: S3Object[];
+	/**
+	 * The sub directories found by the delimiter (`CommonPrefixes`)
+	 */
+	directories: ResourceInfo[];
+	/**
+	 * The continuation token of the next page
+	 */
+	cursor?: string;
+}
+
+interface S3Request {
+	/**
+	 * The undefined parameters are left out
+	 */
+	query?: Record<string, string | undefined>;
+	headers?: Record<string, string>;
+	body?: Uint8Array | string;
+}
+
+interface MultipartUpload {
+	key: string;
+	uploadId: string;
+	parts: { partNumber: number; etag: string }[];
+}
+
+const escapeXml = (value: string) => value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const unescapeXml = (value: string) =>
+	value
+		.replace(/&#x([0-9a-fA-F]+);/g, (_, code) => String.fromCodePoint(Number.parseInt(code, 16)))
+		.replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, "&");
+
+/**
+ * The inner XML of all the elements with this name (the S3 responses have no attributes on their elements)
+ */
+const xmlElements = (xml: string, name: string) =>
+	[...xml.matchAll(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`, "g"))].map(([, inner]) => inner);
+
+/**
+ * The text of the first element with this name
+ */
+const xmlValue = (xml: string, name: string): string | undefined => {
+	const [inner] = xmlElements(xml, name);
+	return inner === undefined ? undefined : unescapeXml(inner);
+};
+
+/**
+ * Percent-encodes the segments of a key for the path of an URL
+ */
+const encodeKey = (key: string) => key.split("/").map(encodeRfc3986).join("/");
+
+/**
+ * The keys of the listings requested with `encoding-type=url`
+ */
+const decodeKey = (key: string) => decodeURIComponent(key.replace(/\+/g, " "));
+
+/**
+ * The ETags are quoted in the responses, but not in the ResourceInfo
+ */
+const unquote = (etag?: string | null) => etag?.replace(/^"|"$/g, "") || undefined;
+
+/**
+ * The conditional headers that make S3 check the preconditions of a write
+ */
+const preconditionHeaders = ({ ifMatch, ifNoneMatch }: WriteOptions): Record<string, string> => ({
+	...(ifMatch && { "if-match": `"${ifMatch}"` }),
+	...(ifNoneMatch && { "if-none-match": ifNoneMatch })
+});
+
+/**
+ * Translates an S3 error code (or the HTTP status of a response without body, like the HEAD responses)
+ * @param path The resource concerned by the request
+ */
+const toFileManagerError = (
+	status: number,
+	code: string | undefined,
+	message: string,
+	path: string
+): FileManagerError => {
+	if (code && AUTHENTICATION_ERRORS.includes(code)) {
+		return new AuthenticationError(`The S3 credentials were rejected: ${message}`);
+	}
+	if (status === 404 && (!code || code === "NoSuchKey")) {
+		return new FileNotFoundError(path, `'${path}' does not exist`);
+	}
+	if (status === 412 || code === "PreconditionFailed" || code === "ConditionalRequestConflict") {
+		return new ConflictError(path, `'${path}' has been changed by another request`);
+	}
+	return new FileManagerError(status, code ? `${code}: ${message}` : message, path);
+};
+
+/**
+ * S3 answers 412 when a precondition fails, and 404 when the file expected by `ifMatch` has been deleted
+ */
+const toPreconditionError = (err: unknown, path: string, { ifMatch, ifNoneMatch }: WriteOptions) => {
+	if (ifMatch && (err instanceof ConflictError || err instanceof FileNotFoundError)) {
+		return new ConflictError(path, `'${path}' has been modified or deleted since version ${ifMatch}`);
+	}
+	if (ifNoneMatch && err instanceof ConflictError) {
+		return new ConflictError(path, `'${path}' already exists`);
+	}
+	return err;
+};
+
+/**
+ * This file manager stores the files as the objects of a bucket on S3, or on an S3 compatible service
+ * (MinIO, Cloudflare R2..), with requests signed with the Signature Version 4.
+ * The key of an object is the path of its file (after the prefix of the root directory).
+ * The directories are key prefixes : they exist as long as they contain objects,
+ * and the empty ones are kept with a marker object (an empty object whose key ends with a slash).
+ */
+export class S3FileManager implements FileManagerInterface {
+	private bucket: string;
+	/**
+	 * The key of the root directory : empty, or ending with a slash
+	 */
+	private prefix: string;
+	private region: string;
+	private credentials: AwsCredentials;
+	/**
+	 * The URL of the bucket, without a trailing slash
+	 */
+	private bucketUrl: string;
+	private partSize: number;
+	private snapshots?: SnapshotStore;
+
+	/**
+	 * @throws FileManagerError (400) if the bucket, the credentials or the part size are missing or invalid
+	 */
+	constructor({
+		bucket,
+		prefix = "",
+		region = "us-east-1",
+		endpoint,
+		forcePathStyle = endpoint !== undefined,
+		partSize = DEFAULT_PART_SIZE,
+		snapshots,
+		accessKeyId,
+		secretAccessKey,
+		sessionToken
+	}: S3FileManagerOptions) {
+		if (!bucket) {
+			throw new FileManagerError(400, "An S3 file manager needs a bucket");
+		}
+		if (!accessKeyId || !secretAccessKey) {
+			throw new FileManagerError(400, "An S3 file manager needs an accessKeyId and a secretAccessKey");
+		}
+		if (!Number.isInteger(partSize) || partSize < MIN_PART_SIZE) {
+			throw new FileManagerError(
+				400,
+				`The part size must be at least ${MIN_PART_SIZE} bytes (received ${partSize})`
+			);
+		}
+		this.bucket = bucket;
+		this.prefix = resolvePath(`/${prefix}/`).substring(1);
+		this.region = region;
+		this.credentials = { accessKeyId, secretAccessKey, sessionToken };
+		this.partSize = partSize;
+		this.snapshots = snapshots;
+
+		const url = new URL(endpoint ?? `https://s3.${region}.amazonaws.com`);
+		const basePath = url.pathname.replace(/\/$/, "");
+		this.bucketUrl = forcePathStyle
+			? `${url.origin}${basePath}/${encodeRfc3986(bucket)}`
+			: `${url.protocol}//${bucket}.${url.host}${basePath}`;
+	}
+
+	getInfo(path: string): ResourceInfo {
+		return new ResourceInfo(path);
+	}
+
+	/**
+	 * The key of the object of a resource
+	 */
+	private toKey(path: string) {
+		return `${this.prefix}${path.substring(1)}`;
+	}
+
+	/**
+	 * The path of the resource of an object
+	 */
+	private toPath(key: string) {
+		return `/${key.substring(this.prefix.length)}`;
+	}
+
+	/**
+	 * Resolves the path of a directory, with its trailing slash
+	 */
+	private resolveDirPath(path: string) {
+		const dirPath = resolvePath(path);
+		return dirPath.endsWith("/") ? dirPath : `${dirPath}/`;
+	}
+
+	/**
+	 * Sends a signed request about an object (or about the bucket, with an empty key)
+	 * @param path The resource concerned by the request, for the errors
+	 * @throws FileManagerError translated from the S3 error
+	 */
+	private async request(
+		method: string,
+		key: string,
+		path: string,
+		{ query = {}, headers = {}, body }: S3Request = {}
+	): Promise<Response> {
+		const url = new URL(`${this.bucketUrl}/${encodeKey(key)}`);
+		url.search = Object.entries(query)
+			.filter(([, value]) => value !== undefined)
+			.map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value as string)}`)
+			.join("&");
+		const response = await fetch(url, {
+			method,
+			headers: await signRequest({
+				method,
+				url,
+				headers,
+				payloadHash: body === undefined ? EMPTY_PAYLOAD_HASH : await sha256Hex(body),
+				credentials: this.credentials,
+				region: this.region
+			}),
+			body
+		});
+		if (!response.ok) {
+			const text = await response.text();
+			throw toFileManagerError(
+				response.status,
+				xmlValue(text, "Code"),
+				xmlValue(text, "Message") || response.statusText,
+				path
+			);
+		}
+		return response;
+	}
+
+	/**
+	 * Reads an XML response : CopyObject and CompleteMultipartUpload may report an error with a 200 status
+	 */
+	private async readXml(response: Response, path: string): Promise<string> {
+		const text = await response.text();
+		if (/^(<\?xml[^>]*\?>\s*)?<Error>/.test(text)) {
+			throw toFileManagerError(500, xmlValue(text, "Code"), xmlValue(text, "Message") || "", path);
+		}
+		return text;
+	}
+
+	/**
+	 * Requests a page of the keys starting with the key of a resource
+	 * @param path The path whose key is the prefix of the listed keys
+	 * @param params The other parameters of ListObjectsV2
+	 */
+	private async listObjects(
+		path: string,
+		params: Record<string, string | undefined> = {}
+	): Promise<S3Listing> {
+		const response = await this.request("GET", "", path, {
+			query: { "list-type": "2", prefix: this.toKey(path), "encoding-type": "url", ...params }
+		});
+		const text = await this.readXml(response, path);
+		return {
+			objects: xmlElements(text, "Contents").map((contents) => {
+				const key = decodeKey(xmlValue(contents, "Key") || "");
+				const modifiedTime = new Date(xmlValue(contents, "LastModified") || 0);
+				const resource = key.endsWith("/")
+					? new ResourceInfo(this.toPath(key), { type: "dir", modifiedTime })
+					: new ResourceInfo(this.toPath(key), {
+							type: "file",
+							size: Number(xmlValue(contents, "Size")),
+							modifiedTime,
+							etag: unquote(xmlValue(contents, "ETag"))
+						});
+				return { key, resource };
+			}),
+			directories: xmlElements(text, "CommonPrefixes").map(
+				(commonPrefix) =>
+					new ResourceInfo(this.toPath(decodeKey(xmlValue(commonPrefix, "Prefix") || "")), {
+						type: "dir"
+					})
+			),
+			cursor:
+				xmlValue(text, "IsTruncated") === "true" ? xmlValue(text, "NextContinuationToken") : undefined
+		};
+	}
+
+	/**
+	 * Lists all the keys starting with the key of a resource, page after page
+	 * @param delimiter Pass `/` to only list the direct content of a directory
+	 */
+	private async listAllObjects(path: string, delimiter?: string): Promise<Omit<S3Listing, "cursor">> {
+		const listing: Omit<S3Listing, "cursor"> = { objects: [], directories: [] };
+		let cursor: string | undefined;
+		do {
+			const page = await this.listObjects(path, { delimiter, "continuation-token": cursor });
+			listing.objects.push(...page.objects);
+			listing.directories.push(...page.directories);
+			cursor = page.cursor;
+		} while (cursor);
+		return listing;
+	}
+
+	/**
+	 * A file is described by HeadObject, a directory by the first key of its content
+	 */
+	async stat(rscPath: string): Promise<ResourceInfo> {
+		const path = resolvePath(rscPath);
+		if (!path.endsWith("/")) {
+			try {
+				const { headers } = await this.request("HEAD", this.toKey(path), path);
+				return new ResourceInfo(path, {
+					type: "file",
+					size: Number(headers.get("content-length")),
+					modifiedTime: new Date(headers.get("last-modified") || 0),
+					etag: unquote(headers.get("etag")),
+					mimeType: headers.get("content-type") || undefined
+				});
+			} catch (err) {
+				if (!(err instanceof FileNotFoundError)) throw err;
+			}
+		}
+
+		const dirPath = path.endsWith("/") ? path : `${path}/`;
+		if (dirPath === "/") {
+			return new ResourceInfo(dirPath, { type: "dir" });
+		}
+		const { objects } = await this.listObjects(dirPath, { "max-keys": "1" });
+		if (objects.length === 0) {
+			throw new FileNotFoundError(path, `'${path}' does not exist`);
+		}
+		// The marker of the directory is listed first
+		const [{ resource }] = objects;
+		return resource.path === dirPath ? resource : new ResourceInfo(dirPath, { type: "dir" });
+	}
+
+	async exists(path: string): Promise<boolean> {
+		return this.stat(path).then(
+			() => true,
+			(err) => {
+				if (err instanceof FileNotFoundError) return false;
+				throw err;
+			}
+		);
+	}
+
+	async getFileContent(path: string, { revision }: ReadOptions = {}): Promise<string | Buffer> {
+		const content = Buffer.from(
+			revision
+				? await this.getSnapshots().get(path, revision)
+				: await streamToBytes(await this.readStream(path))
+		);
+		return this.getInfo(path).isText ? content.toString("utf-8") : content;
+	}
+
+	async listRevisions(path: string): Promise<Revision[]> {
+		return this.getSnapshots().list(path);
+	}
+
+	async restoreRevision(path: string, revision: string, options?: WriteOptions): Promise<void> {
+		const content = await this.getSnapshots().get(path, revision);
+		await writeToStream(
+			await this.writeStream(path, { message: `Restored revision ${revision}`, ...options }),
+			content
+		);
+	}
+
+	/**
+	 * The revisions are only available when a snapshot store was given
+	 * (the versioning of the bucket is not used)
+	 */
+	private getSnapshots(): SnapshotStore {
+		if (!this.snapshots) {
+			throw new FileManagerError(501, "Revisions are not enabled : no snapshot store was given");
+		}
+		return this.snapshots;
+	}
+
+	async readStream(rscPath: string): Promise<ReadableStream<Uint8Array>> {
+		const path = resolvePath(rscPath);
+		if (path.endsWith("/")) {
+			throw new FileNotFoundError(path, "File not found");
+		}
+		const response = await this.request("GET", this.toKey(path), path);
+		return response.body ?? bytesToStream(new Uint8Array(0));
+	}
+
+	/**
+	 * The content is sent with PutObject when the stream is closed, or by parts (with a multipart upload)
+	 * as soon as it exceeds the part size : only one part is held in memory at a time.
+	 * The preconditions are sent with the request that creates the object, so that S3 checks them.
+	 * A failed multipart upload is aborted, so that its parts are not kept (and billed).
+	 * @param options The preconditions of the change, and the message and author kept with the snapshot of the file (if any)
+	 */
+	async writeStream(rscPath: string, options: WriteOptions = {}): Promise<WritableStream<Uint8Array>> {
+		const path = resolvePath(rscPath);
+		const key = this.toKey(path);
+		const contentType = getMimeType(this.getInfo(path));
+		let chunks: Uint8Array[] = [];
+		let buffered = 0;
+		let upload: MultipartUpload | undefined;
+		// The snapshot store needs the whole content
+		const written: Uint8Array[] | undefined = this.snapshots && [];
+
+		const takeBuffer = () => {
+			const content = concatBytes(chunks);
+			chunks = [];
+			buffered = 0;
+			return content;
+		};
+		const abortUpload = async () => {
+			if (!upload) return;
+			const { uploadId } = upload;
+			upload = undefined;
+			await this.request("DELETE", key, path, { query: { uploadId } }).catch(() => undefined);
+		};
+
+		return new WritableStream<Uint8Array>({
+			write: async (chunk) => {
+				chunks.push(chunk);
+				buffered += chunk.length;
+				written?.push(chunk);
+				if (buffered < this.partSize) return;
+				try {
+					upload ??= await this.createUpload(key, path, contentType);
+					await this.uploadPart(upload, path, takeBuffer());
+				} catch (err) {
+					await abortUpload();
+					throw err;
+				}
+			},
+			close: async () => {
+				try {
+					if (upload) {
+						if (buffered > 0) await this.uploadPart(upload, path, takeBuffer());
+						await this.completeUpload(upload, path, options);
+						upload = undefined;
+					} else {
+						await this.request("PUT", key, path, {
+							headers: { "content-type": contentType, ...preconditionHeaders(options) },
+							body: takeBuffer()
+						});
+					}
+				} catch (err) {
+					await abortUpload();
+					throw toPreconditionError(err, path, options);
+				}
+				if (written) {
+					await this.snapshots?.save(path, concatBytes(written), options);
+				}
+			},
+			abort: async () => {
+				chunks = [];
+				await abortUpload();
+			}
+		});
+	}
+
+	private async createUpload(key: string, path: string, contentType: string): Promise<MultipartUpload> {
+		const response = await this.request("POST", key, path, {
+			query: { uploads: "" },
+			headers: { "content-type": contentType }
+		});
+		const uploadId = xmlValue(await this.readXml(response, path), "UploadId");
+		if (!uploadId) {
+			throw new FileManagerError(502, "S3 did not return the id of the multipart upload", path);
+		}
+		return { key, uploadId, parts: [] };
+	}
+
+	private async uploadPart(upload: MultipartUpload, path: string, content: Uint8Array) {
+		const partNumber = upload.parts.length + 1;
+		const response = await this.request("PUT", upload.key, path, {
+			query: { partNumber: String(partNumber), uploadId: upload.uploadId },
+			body: content
+		});
+		upload.parts.push({ partNumber, etag: response.headers.get("etag") || "" });
+	}
+
+	private async completeUpload(
+		{ key, uploadId, parts }: MultipartUpload,
+		path: string,
+		options: WriteOptions
+	) {
+		const body = `<CompleteMultipartUpload>${parts
+			.map(
+				({ partNumber, etag }) =>
+					`<Part><PartNumber>${partNumber}</PartNumber><ETag>${escapeXml(etag)}</ETag></Part>`
+			)
+			.join("")}</CompleteMultipartUpload>`;
+		const response = await this.request("POST", key, path, {
+			query: { uploadId },
+			headers: preconditionHeaders(options),
+			body
+		});
+		await this.readXml(response, path);
+	}
+
+	async updateTextFile(path: string, content: string, options?: WriteOptions) {
+		await writeToStream(await this.writeStream(path, options), content);
+	}
+
+	async updateBinaryFile(path: string, content: Buffer, options?: WriteOptions) {
+		await writeToStream(await this.writeStream(path, options), content);
+	}
+
+	/**
+	 * S3 deletes the missing objects without error : the file is checked first
+	 */
+	async deleteFile(rscPath: string, options?: WriteOptions): Promise<void> {
+		const path = resolvePath(rscPath);
+		if (path.endsWith("/") || !(await this.stat(path)).isFile) {
+			throw new FileNotFoundError(path, "Cannot delete file");
+		}
+		await checkPreconditions(this, path, options);
+		await this.request("DELETE", this.toKey(path), path);
+	}
+
+	async move(from: string, to: string, options?: TransferOptions) {
+		const plan = await planTransfer(this, from, to, options);
+		const keys = await this.copyObjects(plan);
+		await this.deleteObjects(keys, plan.source.path);
+	}
+
+	async copy(from: string, to: string, options?: TransferOptions) {
+		await this.copyObjects(await planTransfer(this, from, to, options));
+	}
+
+	/**
+	 * Copies the objects of a file or of a directory on the server side, with CopyObject
+	 * (which can't copy the objects larger than 5 GB)
+	 * @returns The keys of the copied objects
+	 */
+	private async copyObjects({ source, destination, conflict }: TransferPlan): Promise<string[]> {
+		if (conflict === "overwrite" && destination.isDirectory) {
+			await this.deleteDirectory(destination.path);
+		}
+		const sourceKey = this.toKey(source.path);
+		const destinationKey = this.toKey(destination.path);
+		const keys = source.isDirectory
+			? (await this.listAllObjects(source.path)).objects.map(({ key }) => key)
+			: [sourceKey];
+		for (const key of keys) {
+			const path = this.toPath(key);
+			const response = await this.request(
+				"PUT",
+				`${destinationKey}${key.substring(sourceKey.length)}`,
+				path,
+				{
+					headers: { "x-amz-copy-source": `/${encodeRfc3986(this.bucket)}/${encodeKey(key)}` }
+				}
+			);
+			await this.readXml(response, path);
+		}
+		return keys;
+	}
+
+	/**
+	 * Deletes objects by batches with DeleteObjects
+	 * @param path The deleted file or directory, for the errors
+	 */
+	private async deleteObjects(keys: string[], path: string) {
+		for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+			const body = `<Delete><Quiet>true</Quiet>${keys
+				.slice(start, start + DELETE_BATCH_SIZE)
+				.map((key) => `<Object><Key>${escapeXml(key)}</Key></Object>`)
+				.join("")}</Delete>`;
+			const response = await this.request("POST", "", path, {
+				query: { delete: "" },
+				headers: { "content-md5": createHash("md5").update(body).digest("base64") },
+				body
+			});
+			// In quiet mode, only the keys that could not be deleted are reported
+			const [error] = xmlElements(await this.readXml(response, path), "Error");
+			if (error) {
+				throw toFileManagerError(
+					500,
+					xmlValue(error, "Code"),
+					xmlValue(error, "Message") || "",
+					this.toPath(xmlValue(error, "Key") || "")
+				);
+			}
+		}
+	}
+
+	/**
+	 * The sub directories without a marker are found from the keys of their content
+	 * @throws FileNotFoundError if no key starts with the prefix of the directory
+	 */
+	async listDirectoryContent(path: string, recursive = false): Promise<ResourceInfo[]> {
+		const dirPath = this.resolveDirPath(path);
+		const { objects, directories } = await this.listAllObjects(dirPath, recursive ? undefined : "/");
+		if (objects.length === 0 && directories.length === 0 && dirPath !== "/") {
+			throw new FileNotFoundError(dirPath, `'${dirPath}' does not exist`);
+		}
+
+		const content = new Map<string, ResourceInfo>();
+		for (const resource of [...directories, ...objects.map(({ resource }) => resource)]) {
+			if (resource.path === dirPath) continue;
+			if (recursive) {
+				let parentPath = dirPath;
+				for (const segment of resource.path.substring(dirPath.length).split("/").slice(0, -1)) {
+					parentPath += `${segment}/`;
+					if (!content.has(parentPath)) {
+						content.set(parentPath, new ResourceInfo(parentPath, { type: "dir" }));
+					}
+				}
+			}
+			content.set(resource.path, resource);
+		}
+		return [...content.values()];
+	}
+
+	iterateDirectory(path: string, options?: IterateDirectoryOptions): AsyncIterable<ResourceInfo> {
+		return iteratePages(this, path, options);
+	}
+
+	/**
+	 * Lists the pages with ListObjectsV2 : the cursors are its continuation tokens
+	 */
+	async listPage(
+		path: string,
+		{ pageSize = DEFAULT_PAGE_SIZE, cursor }: ListPageOptions = {}
+	): Promise<ListPage> {
+		const dirPath = this.resolveDirPath(path);
+		const page = await this.listObjects(dirPath, {
+			delimiter: "/",
+			"max-keys": String(checkPageSize(pageSize)),
+			"continuation-token": cursor,
+			// Skips the marker of the directory
+			"start-after": cursor ? undefined : this.toKey(dirPath) || undefined
+		});
+		const items = [...page.directories, ...page.objects.map(({ resource }) => resource)].sort((a, b) =>
+			a.path.localeCompare(b.path)
+		);
+		if (!cursor && items.length === 0) {
+			await this.stat(dirPath);
+		}
+		return { items, cursor: page.cursor };
+	}
+
+	/**
+	 * Puts a marker for the directory and for each of its parents
+	 */
+	async createDirectory(path: string) {
+		const dirPath = this.resolveDirPath(path);
+		let currentPath = "/";
+		for (const segment of dirPath.split("/").filter(Boolean)) {
+			currentPath += `${segment}/`;
+			await this.request("PUT", this.toKey(currentPath), currentPath, { body: "" });
+		}
+	}
+
+	async deleteDirectory(path: string) {
+		const dirPath = this.resolveDirPath(path);
+		const { objects } = await this.listAllObjects(dirPath);
+		if (objects.length === 0 && dirPath !== "/") {
+			throw new FileNotFoundError(dirPath, `'${dirPath}' does not exist`);
+		}
+		await this.deleteObjects(
+			objects.map(({ key }) => key),
+			dirPath
+		);
+	}
+
+	/**
+	 * Polls the keys of the watched path and compares the successive listings
+	 * (a file deleted and created with the same etag is reported as moved).
+	 * The cursors are timestamps : as the bucket keeps no history, resuming from a cursor
+	 * reports the files modified since as `updated`, but cannot report the files deleted since.
+	 */
+	watch(path: string, options: WatchOptions = {}): Watcher {
+		const watcher = new Watcher(path, options);
+		const { interval = WATCH_INTERVAL, cursor } = options;
+		let before: ResourceInfo[] | undefined;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		const poll = async () => {
+			const polledAt = String(Date.now());
+			const { objects } = await this.listAllObjects(watcher.path);
+			const after = objects.map(({ resource }) => resource).filter(({ isFile }) => isFile);
+			if (before) {
+				for (const event of diffResources(before, after, polledAt)) {
+					watcher.push(event);
+				}
+			} else if (cursor) {
+				for (const resource of after) {
+					if ((resource.modifiedTime?.getTime() || 0) > Number(cursor)) {
+						watcher.push({ type: "updated", resource, cursor: polledAt });
+					}
+				}
+			}
+			watcher.cursor = polledAt;
+			before = after;
+		};
+		const schedule = () => {
+			if (watcher.closed) return;
+			timer = setTimeout(() => poll().then(schedule, (err) => watcher.fail(err)), interval);
+		};
+
+		poll().then(
+			() => {
+				watcher.started();
+				schedule();
+			},
+			(err) => watcher.fail(err)
+		);
+		watcher.onClose(() => clearTimeout(timer));
+		return watcher;
+	}
+
+	find(query: string | FindOptions): AsyncIterable<ResourceInfo> {
+		return findResources(this, query);
+	}
+
+	async search(path: string, query: string, options?: SearchOptions): Promise<SearchMatch[]> {
+		return searchFiles(this, path, query, options);
+	}
+}
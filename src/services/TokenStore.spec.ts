@@ -0,0 +1,42 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { rm, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { FileTokenStore, InMemoryTokenStore } from "./TokenStore";
+
+const tokensDir = join(import.meta.dirname, "../../_testsRoot_tokens");
+
+describe("TokenStore", () => {
+	afterAll(() => rm(tokensDir, { recursive: true, force: true }));
+
+	it("keeps the tokens in memory", async () => {
+		const store = new InMemoryTokenStore();
+		expect(await store.get("alice")).toBeUndefined();
+
+		await store.set("alice", { refresh_token: "refresh-1" });
+		expect(await store.get("alice")).toEqual({ refresh_token: "refresh-1" });
+
+		await store.delete("alice");
+		expect(await store.get("alice")).toBeUndefined();
+	});
+
+	it("keeps the tokens of all the users in a private file", async () => {
+		const filePath = join(tokensDir, "tokens.json");
+		const store = new FileTokenStore(filePath);
+		expect(await store.get("alice")).toBeUndefined();
+
+		await Promise.all([
+			store.set("alice", { refresh_token: "refresh-1" }),
+			store.set("bob", { refresh_token: "refresh-2" })
+		]);
+		expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+
+		// Another store reads the same file
+		const other = new FileTokenStore(filePath);
+		expect(await other.get("alice")).toEqual({ refresh_token: "refresh-1" });
+		expect(await other.get("bob")).toEqual({ refresh_token: "refresh-2" });
+
+		await store.delete("alice");
+		expect(await other.get("alice")).toBeUndefined();
+		expect(await other.get("bob")).toEqual({ refresh_token: "refresh-2" });
+	});
+});
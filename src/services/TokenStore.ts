@@ -0,0 +1,95 @@
+import { chmod, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Credentials } from "google-auth-library";
+
+/**
+ * Keeps the OAuth tokens of the users between two sessions
+ */
+export interface TokenStore {
+	/**
+	 * @returns the tokens of a user, or nothing if the user has never consented
+	 */
+	get(userId: string): Promise<Credentials | undefined>;
+	set(userId: string, tokens: Credentials): Promise<void>;
+	delete(userId: string): Promise<void>;
+}
+
+/**
+ * Keeps the tokens as long as the process lives
+ */
+export class InMemoryTokenStore implements TokenStore {
+	private tokens = new Map<string, Credentials>();
+
+	async get(userId: string): Promise<Credentials | undefined> {
+		const tokens = this.tokens.get(userId);
+		return tokens && { ...tokens };
+	}
+
+	async set(userId: string, tokens: Credentials): Promise<void> {
+		this.tokens.set(userId, { ...tokens });
+	}
+
+	async delete(userId: string): Promise<void> {
+		this.tokens.delete(userId);
+	}
+}
+
+/**
+ * Keeps the tokens of all the users in a JSON file, only readable by its owner.
+ * The file is replaced at once on each change, so that a crash never leaves it half written.
+ */
+export class FileTokenStore implements TokenStore {
+	private filePath: string;
+	/**
+	 * The changes are written one after the other
+	 */
+	private lastWrite: Promise<void> = Promise.resolve();
+
+	/**
+	 * @param filePath The path of the JSON file (it is created on the first change)
+	 */
+	constructor(filePath: string) {
+		this.filePath = filePath;
+	}
+
+	async get(userId: string): Promise<Credentials | undefined> {
+		await this.lastWrite;
+		return (await this.readAll())[userId];
+	}
+
+	async set(userId: string, tokens: Credentials): Promise<void> {
+		await this.update((all) => {
+			all[userId] = tokens;
+		});
+	}
+
+	async delete(userId: string): Promise<void> {
+		await this.update((all) => {
+			delete all[userId];
+		});
+	}
+
+	private async readAll(): Promise<Record<string, Credentials>> {
+		try {
+			return JSON.parse(await readFile(this.filePath, "utf-8"));
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+			throw err;
+		}
+	}
+
+	private update(change: (all: Record<string, Credentials>) => void): Promise<void> {
+		const write = this.lastWrite.then(async () => {
+			const all = await this.readAll();
+			change(all);
+			const tempPath = `${this.filePath}.${process.pid}.tmp`;
+			await mkdir(dirname(this.filePath), { recursive: true });
+			await writeFile(tempPath, JSON.stringify(all, null, "\t"), { mode: 0o600 });
+			await chmod(tempPath, 0o600);
+			await rename(tempPath, this.filePath);
+		});
+		// A failed write must not block the next ones
+		this.lastWrite = write.catch(() => undefined);
+		return write;
+	}
+}
@@ -1,3 +1,5 @@
+export * from "./CachingFileManager";
+export * from "./FileManagerConfig";
 export * from "./FileManagerErrors";
 export * from "./FileManagerFactory";
 export * from "./FileManagerInterface";
@@ -6,3 +8,8 @@ export * from "./GoogleDriveAuth";
 export * from "./GoogleDriveFileManager";
 export * from "./InMemoryFileManager";
 export * from "./LocalFileManager";
+export * from "./MountFileManager";
+export * from "./OverlayFileManager";
+export * from "./ReadOnlyFileManager";
+export * from "./S3FileManager";
+export * from "./TokenStore";
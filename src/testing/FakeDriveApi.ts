@@ -0,0 +1,445 @@
+import { createHash } from "node:crypto";
+import type { Server } from "bun";
+
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+const SHORTCUT_MIME_TYPE = "application/vnd.google-apps.shortcut";
+
+/**
+ * The Google documents, folders and shortcuts have no binary content
+ */
+const isGoogleType = (mimeType: string) => mimeType.startsWith("application/vnd.google-apps.");
+
+/**
+ * The ID of the root folder of the fake Drive (the `root` alias also designates it)
+ */
+const ROOT_ID = "fake-root-folder";
+
+type FakeDriveFile = {
+	id: string;
+	name: string;
+	mimeType: string;
+	parents: string[];
+	content?: Buffer;
+	/**
+	 * The exports of a Google document, by MIME type
+	 */
+	exports?: Record<string, string>;
+	createdTime: string;
+	modifiedTime: string;
+	description?: string;
+	appProperties?: Record<string, string>;
+	shortcutDetails?: { targetId: string; targetMimeType: string };
+	trashed: boolean;
+};
+
+/**
+ * Lets a test intercept a request (to simulate a failure) by returning its own response
+ */
+export type FakeDriveApiInterceptor = (method: string, route: string) => Response | undefined;
+
+const json = (data: unknown, status = 200) => Response.json(data, { status });
+
+const error = (status: number, message: string) =>
+	json({ error: { code: status, message, errors: [{ message, reason: "fake" }] } }, status);
+
+const unescapeQueryValue = (value: string) => value.replace(/\\(.)/g, "$1");
+
+/**
+ * Reads the parts of a `multipart/related` upload : the JSON metadata, then the media
+ */
+const parseMultipart = (body: Buffer, boundary: string): { type: string; content: Buffer }[] => {
+	const delimiter = `--${boundary}`;
+	const parts: { type: string; content: Buffer }[] = [];
+	let start = body.indexOf(delimiter);
+	while (start >= 0) {
+		const next = body.indexOf(delimiter, start + delimiter.length);
+		if (next < 0) break;
+		// Each part starts after the line of the delimiter and ends with a line break
+		const part = body.subarray(start + delimiter.length + 2, next - 2);
+		const headersEnd = part.indexOf("\r\n\r\n");
+		parts.push({
+			type:
+				part
+					.subarray(0, headersEnd)
+					.toString()
+					.match(/content-type:\s*(.+)/i)?.[1]
+					.trim() || "",
+			content: part.subarray(headersEnd + 4)
+		});
+		start = next;
+	}
+	return parts;
+};
+
+/**
+ * A minimal in-memory implementation of the parts of the Drive API v3 used by the GoogleDriveFileManager
+ * (files listing, metadata, media uploads and downloads, copies, exports) to run the tests offline.
+ * The search queries only support the clauses built by the file manager :
+ * the parent, the name, the MIME types (any of them) and the trashed flag.
+ */
+export class FakeDriveApi {
+	/**
+	 * Number of requests received since the last reset
+	 */
+	requestsCount = 0;
+	/**
+	 * Called before each request
+	 */
+	interceptor?: FakeDriveApiInterceptor;
+
+	private server?: Server<undefined>;
+	private files = new Map<string, FakeDriveFile>();
+	private nextId = 1;
+	private clock = Date.parse("2024-01-01T00:00:00Z");
+
+	constructor() {
+		this.reset();
+	}
+
+	/**
+	 * Starts the fake API on a random port
+	 * @returns the root URL of the API
+	 */
+	start(): string {
+		this.server = Bun.serve({
+			port: 0,
+			fetch: (request) => this.handle(request)
+		});
+		return this.url;
+	}
+
+	get url(): string {
+		return `http://localhost:${this.server?.port}/`;
+	}
+
+	stop() {
+		this.server?.stop(true);
+		this.server = undefined;
+	}
+
+	/**
+	 * Empties the Drive : only the root folder remains
+	 */
+	reset() {
+		this.files.clear();
+		this.requestsCount = 0;
+		this.interceptor = undefined;
+		this.files.set(
+			ROOT_ID,
+			this.createFile({ id: ROOT_ID, name: "My Drive", mimeType: FOLDER_MIME_TYPE })
+		);
+	}
+
+	/**
+	 * Directly writes files, creating their folders (to prepare a test)
+	 * @param files The content of the files by path (the paths ending with a slash are empty folders)
+	 */
+	seed(files: Record<string, string>) {
+		for (const [path, content] of Object.entries(files)) {
+			const segments = path.split("/").filter(Boolean);
+			const isFolder = path.endsWith("/");
+			const parentId = this.ensureFolder(isFolder ? segments : segments.slice(0, -1));
+			if (isFolder) continue;
+			const existing = this.findChild(parentId, segments[segments.length - 1]);
+			if (existing && existing.mimeType !== FOLDER_MIME_TYPE) this.files.delete(existing.id);
+			this.storeFile({
+				name: segments[segments.length - 1],
+				parents: [parentId],
+				content: Buffer.from(content)
+			});
+		}
+	}
+
+	/**
+	 * Creates a Google document (a Doc, a Sheet...) : it has no content of its own, only exports
+	 * @param path The path of the document (its name has no extension)
+	 * @param mimeType The Google type of the document, like `application/vnd.google-apps.document`
+	 * @param exports The content of the document for each export MIME type
+	 */
+	addDocument(path: string, mimeType: string, exports: Record<string, string>) {
+		const segments = path.split("/").filter(Boolean);
+		this.storeFile({
+			name: segments[segments.length - 1],
+			mimeType,
+			parents: [this.ensureFolder(segments.slice(0, -1))],
+			exports
+		});
+	}
+
+	/**
+	 * Creates a shortcut to a file or a folder
+	 * @param path The path of the shortcut
+	 * @param targetPath The path of the target (it may not exist, to create a broken shortcut)
+	 */
+	addShortcut(path: string, targetPath: string) {
+		const segments = path.split("/").filter(Boolean);
+		const target = this.getFile(targetPath);
+		this.storeFile({
+			name: segments[segments.length - 1],
+			mimeType: SHORTCUT_MIME_TYPE,
+			parents: [this.ensureFolder(segments.slice(0, -1))],
+			shortcutDetails: {
+				targetId: target?.id || "deleted-file",
+				targetMimeType: target?.mimeType || "text/plain"
+			}
+		});
+	}
+
+	/**
+	 * @returns the file or folder at a path of the Drive
+	 */
+	getFile(path: string): FakeDriveFile | undefined {
+		let current = this.files.get(ROOT_ID);
+		for (const name of path.split("/").filter(Boolean)) {
+			current = current && this.findChild(current.id, name);
+		}
+		return current;
+	}
+
+	/**
+	 * @returns the content of a file (or undefined if it doesn't exist)
+	 */
+	readFile(path: string): string | undefined {
+		return this.getFile(path)?.content?.toString("utf-8");
+	}
+
+	private createFile(file: Partial<FakeDriveFile>): FakeDriveFile {
+		this.clock += 1000;
+		const now = new Date(this.clock).toISOString();
+		const defined = Object.entries(file).filter(([, value]) => value !== undefined);
+		return {
+			name: "Untitled",
+			mimeType: "application/octet-stream",
+			parents: [ROOT_ID],
+			trashed: false,
+			...Object.fromEntries(defined),
+			id: file.id || `fake-id-${this.nextId++}`,
+			createdTime: now,
+			modifiedTime: now
+		};
+	}
+
+	private storeFile(file: Partial<FakeDriveFile>): FakeDriveFile {
+		const stored = this.createFile(file);
+		this.files.set(stored.id, stored);
+		return stored;
+	}
+
+	private findChild(parentId: string, name: string): FakeDriveFile | undefined {
+		return [...this.files.values()].find(
+			(file) => file.parents.includes(parentId) && file.name === name && !file.trashed
+		);
+	}
+
+	private ensureFolder(names: string[]): string {
+		let folderId = ROOT_ID;
+		for (const name of names) {
+			folderId =
+				this.findChild(folderId, name)?.id ||
+				this.storeFile({ name, mimeType: FOLDER_MIME_TYPE, parents: [folderId] }).id;
+		}
+		return folderId;
+	}
+
+	private resolveId(fileId: string): string {
+		return fileId === "root" ? ROOT_ID : fileId;
+	}
+
+	private describe(file: FakeDriveFile) {
+		const { content, ...metadata } = file;
+		const { exports: _exports, ...described } = metadata;
+		return {
+			kind: "drive#file",
+			...described,
+			parents: file.id === ROOT_ID ? undefined : file.parents,
+			...(!isGoogleType(file.mimeType) && {
+				size: String(content?.length || 0),
+				md5Checksum: createHash("md5")
+					.update(new Uint8Array(content || []))
+					.digest("hex")
+			})
+		};
+	}
+
+	/**
+	 * Tells if a file matches a search query
+	 */
+	private matches(file: FakeDriveFile, q: string): boolean {
+		const parent = q.match(/'((?:[^'\\]|\\.)*)' in parents/);
+		if (parent && !file.parents.includes(this.resolveId(unescapeQueryValue(parent[1])))) return false;
+		const name = q.match(/name\s*=\s*'((?:[^'\\]|\\.)*)'/);
+		if (name && file.name !== unescapeQueryValue(name[1])) return false;
+		const mimeTypes = [...q.matchAll(/mimeType\s*=\s*'((?:[^'\\]|\\.)*)'/g)].map(([, mimeType]) =>
+			unescapeQueryValue(mimeType)
+		);
+		if (mimeTypes.length > 0 && !mimeTypes.includes(file.mimeType)) return false;
+		const trashed = q.match(/trashed\s*=\s*(true|false)/);
+		return !trashed || String(file.trashed) === trashed[1];
+	}
+
+	private list(query: URLSearchParams): Response {
+		const q = query.get("q") || "";
+		const pageSize = Number(query.get("pageSize") || 100);
+		const offset = Number(query.get("pageToken") || 0);
+		const files = [...this.files.values()].filter((file) => file.id !== ROOT_ID && this.matches(file, q));
+		if (query.get("orderBy") === "folder,name") {
+			const isFolder = (file: FakeDriveFile) => (file.mimeType === FOLDER_MIME_TYPE ? 0 : 1);
+			files.sort((a, b) => isFolder(a) - isFolder(b) || a.name.localeCompare(b.name));
+		}
+		const end = offset + pageSize;
+		return json({
+			files: files.slice(offset, end).map((file) => this.describe(file)),
+			nextPageToken: end < files.length ? String(end) : undefined
+		});
+	}
+
+	/**
+	 * Deletes a file, or a folder with all its content
+	 */
+	private delete(fileId: string) {
+		for (const child of [...this.files.values()]) {
+			if (child.parents.includes(fileId)) this.delete(child.id);
+		}
+		this.files.delete(fileId);
+	}
+
+	/**
+	 * Applies the metadata of an update (and the moves requested by the query)
+	 */
+	private update(file: FakeDriveFile, metadata: Partial<FakeDriveFile>, query: URLSearchParams) {
+		const { name, mimeType, description, appProperties } = metadata;
+		const removed = query.get("removeParents")?.split(",") || [];
+		const added = query.get("addParents")?.split(",") || [];
+		file.parents = [
+			...file.parents.filter((parent) => !removed.includes(parent)),
+			...added.map((parent) => this.resolveId(parent))
+		];
+		Object.assign(file, {
+			...(name && { name }),
+			...(mimeType && { mimeType }),
+			...(description !== undefined && { description }),
+			...(appProperties && { appProperties: { ...file.appProperties, ...appProperties } })
+		});
+		this.clock += 1000;
+		file.modifiedTime = new Date(this.clock).toISOString();
+	}
+
+	/**
+	 * Reads the metadata and the media of an upload
+	 */
+	private async readUpload(request: Request, query: URLSearchParams) {
+		const body = Buffer.from(await request.arrayBuffer());
+		const contentType = request.headers.get("content-type") || "";
+		if (query.get("uploadType") === "media") return { metadata: {}, content: body, contentType };
+		const boundary = contentType.match(/boundary=(.+)$/)?.[1] || "";
+		const [metadata, media] = parseMultipart(body, boundary);
+		return {
+			metadata: JSON.parse(metadata.content.toString()),
+			content: media.content,
+			contentType: media.type
+		};
+	}
+
+	/**
+	 * Stores the uploaded content : the uploads to a Google document replace all its exports
+	 * (like the Drive API converting the content)
+	 */
+	private storeContent(file: FakeDriveFile, content: Buffer, contentType: string) {
+		if (isGoogleType(file.mimeType)) {
+			file.exports = { [contentType]: content.toString("utf-8") };
+		} else {
+			file.content = content;
+		}
+	}
+
+	private async handle(request: Request): Promise<Response> {
+		this.requestsCount++;
+		const url = new URL(request.url);
+		const method = request.method;
+		const route = url.pathname.replace(/^\/+/, "");
+		const intercepted = this.interceptor?.(method, route);
+		if (intercepted) return intercepted;
+
+		try {
+			return await this.route(request, route, url.searchParams);
+		} catch (err) {
+			return error(500, (err as Error).message);
+		}
+	}
+
+	private async route(request: Request, route: string, query: URLSearchParams): Promise<Response> {
+		const method = request.method;
+
+		if (method === "GET" && route === "drive/v3/files") return this.list(query);
+
+		if (method === "POST" && (route === "drive/v3/files" || route === "upload/drive/v3/files")) {
+			const { metadata, content, contentType } = route.startsWith("upload/")
+				? await this.readUpload(request, query)
+				: { metadata: await request.json(), content: undefined, contentType: "" };
+			const { name, mimeType, parents, description, appProperties } = metadata;
+			const file = this.storeFile({
+				name,
+				mimeType,
+				parents: (parents || [ROOT_ID]).map((parent: string) => this.resolveId(parent)),
+				description,
+				appProperties
+			});
+			if (content) this.storeContent(file, content, contentType);
+			return json(this.describe(file));
+		}
+
+		const match = route.match(/^(upload\/)?drive\/v3\/files\/([^/]+)(\/copy|\/export)?$/);
+		if (!match) return error(404, "Not Found");
+		const [, upload, encodedId, action] = match;
+		const file = this.files.get(this.resolveId(decodeURIComponent(encodedId)));
+		if (!file || file.trashed) return error(404, `File not found: ${encodedId}.`);
+
+		if (method === "GET" && action === "/export") {
+			if (!file.exports) return error(403, "Export only supports Docs Editors files.");
+			const mimeType = query.get("mimeType") || "";
+			const exported = file.exports[mimeType];
+			if (exported === undefined) return error(400, "The requested conversion is not supported.");
+			return new Response(exported, { headers: { "content-type": mimeType } });
+		}
+		if (method === "GET") {
+			if (query.get("alt") === "media") {
+				if (isGoogleType(file.mimeType)) {
+					return error(
+						403,
+						"Only files with binary content can be downloaded. Use Export with Docs Editors files."
+					);
+				}
+				return new Response(new Uint8Array(file.content || []));
+			}
+			return json(this.describe(file));
+		}
+		if (method === "PATCH") {
+			const { metadata, content, contentType } = upload
+				? await this.readUpload(request, query)
+				: { metadata: await request.json().catch(() => ({})), content: undefined, contentType: "" };
+			this.update(file, metadata, query);
+			if (content) this.storeContent(file, content, contentType);
+			return json(this.describe(file));
+		}
+		if (method === "DELETE") {
+			this.delete(file.id);
+			return new Response(null, { status: 204 });
+		}
+		if (method === "POST" && action === "/copy") {
+			if (file.mimeType === FOLDER_MIME_TYPE) return error(403, "Folders cannot be copied");
+			const { name, parents, description, appProperties } = await request.json().catch(() => ({}));
+			const copied = this.storeFile({
+				...file,
+				id: undefined,
+				name: name || `Copy of ${file.name}`,
+				parents: parents ? parents.map((parent: string) => this.resolveId(parent)) : file.parents,
+				content: file.content && Buffer.from(new Uint8Array(file.content)),
+				exports: file.exports && { ...file.exports },
+				...(description !== undefined && { description }),
+				...(appProperties && { appProperties })
+			});
+			return json(this.describe(copied));
+		}
+		return error(404, "Not Found");
+	}
+}
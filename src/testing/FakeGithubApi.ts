@@ -0,0 +1,698 @@
+import { createHash } from "node:crypto";
+import type { Server } from "bun";
+
+type FakeTreeEntry = { mode: string; sha: string };
+
+/**
+ * A flat Git tree : the path of every file of the tree with its mode and blob sha
+ */
+type FakeTree = Map<string, FakeTreeEntry>;
+
+type FakeIdentity = { name: string; email: string; date: string };
+
+type FakeCommit = {
+	sha: string;
+	tree: string;
+	parents: string[];
+	message: string;
+	author: FakeIdentity;
+	committer: FakeIdentity;
+};
+
+type FakePullRequest = {
+	number: number;
+	title: string;
+	body: string | null;
+	head: string;
+	base: string;
+	state: "open" | "closed";
+	merged: boolean;
+	draft: boolean;
+	labels: string[];
+};
+
+/**
+ * The fields of the request bodies that describe a commit
+ */
+type FakeChangeBody = {
+	message: string;
+	author?: Partial<FakeIdentity>;
+	committer?: Partial<FakeIdentity>;
+};
+
+/**
+ * Lets a test intercept a request (to simulate a failure) by returning its own response
+ */
+export type FakeGithubApiInterceptor = (method: string, route: string) => Response | undefined;
+
+const DEFAULT_IDENTITY = { name: "Fake Github", email: "fake@github.test" };
+
+const json = (data: unknown, status = 200) => Response.json(data, { status });
+
+const error = (status: number, message: string) => json({ message }, status);
+
+const sha1 = (content: string | Uint8Array) => createHash("sha1").update(content).digest("hex");
+
+const isInside = (path: string, dirPath: string) =>
+	dirPath === "" || path === dirPath || path.startsWith(`${dirPath}/`);
+
+/**
+ * A minimal in-memory implementation of the parts of the Github REST API used by the GithubFileManager
+ * (repository, Git Data API, contents API, commits listing and pull requests) to run the tests offline.
+ * Blobs shas are computed like Git does, so they can be compared to real ones.
+ */
+export class FakeGithubApi {
+	readonly defaultBranch = "main";
+	/**
+	 * Number of requests received since the last reset
+	 */
+	requestsCount = 0;
+	/**
+	 * Called before each request
+	 */
+	interceptor?: FakeGithubApiInterceptor;
+	/**
+	 * The maximum number of entries returned by the trees API (the real limit is 100 000) :
+	 * the bigger trees are reported as truncated
+	 */
+	treeEntriesLimit = Number.POSITIVE_INFINITY;
+
+	private server?: Server<undefined>;
+	private blobs = new Map<string, Buffer>();
+	private trees = new Map<string, FakeTree>();
+	private commits = new Map<string, FakeCommit>();
+	private refs = new Map<string, string>();
+	private pulls = new Map<number, FakePullRequest>();
+	private clock = Date.parse("2024-01-01T00:00:00Z");
+
+	constructor() {
+		this.reset();
+	}
+
+	/**
+	 * Starts the fake API on a random port
+	 * @returns the base URL of the API
+	 */
+	start(): string {
+		this.server = Bun.serve({
+			port: 0,
+			fetch: (request) => this.handle(request)
+		});
+		return this.url;
+	}
+
+	get url(): string {
+		return `http://localhost:${this.server?.port}`;
+	}
+
+	stop() {
+		this.server?.stop(true);
+		this.server = undefined;
+	}
+
+	/**
+	 * Empties the repository : the default branch points to a single commit with an empty tree
+	 */
+	reset() {
+		this.blobs.clear();
+		this.trees.clear();
+		this.commits.clear();
+		this.refs.clear();
+		this.pulls.clear();
+		this.requestsCount = 0;
+		this.interceptor = undefined;
+		this.treeEntriesLimit = Number.POSITIVE_INFINITY;
+		const commit = this.storeCommit(this.storeTree(new Map()), [], "Initial commit");
+		this.refs.set(`heads/${this.defaultBranch}`, commit.sha);
+	}
+
+	/**
+	 * Directly writes files on a branch (to prepare a test)
+	 */
+	seed(files: Record<string, string>, branch = this.defaultBranch): string {
+		const tree = new Map(this.getCommitTree(this.refs.get(`heads/${branch}`) as string));
+		for (const [path, content] of Object.entries(files)) {
+			tree.set(path, { mode: "100644", sha: this.storeBlob(Buffer.from(content)) });
+		}
+		return this.commitOnBranch(branch, tree, "Seed files").sha;
+	}
+
+	/**
+	 * Creates a tag pointing to a commit (the head of the default branch by default)
+	 */
+	tag(name: string, sha = this.getBranchHead() as string) {
+		this.refs.set(`tags/${name}`, sha);
+	}
+
+	/**
+	 * @returns a pull request of the repository
+	 */
+	getPullRequest(number: number): FakePullRequest | undefined {
+		return this.pulls.get(number);
+	}
+
+	/**
+	 * @returns the sha of the commit a branch points to
+	 */
+	getBranchHead(branch = this.defaultBranch): string | undefined {
+		return this.refs.get(`heads/${branch}`);
+	}
+
+	/**
+	 * @returns a commit of the repository
+	 */
+	getCommit(sha: string): FakeCommit | undefined {
+		return this.commits.get(sha);
+	}
+
+	/**
+	 * @returns the content of a file on a branch (or undefined if it doesn't exist)
+	 */
+	readFile(path: string, branch = this.defaultBranch): string | undefined {
+		const entry = this.getCommitTree(this.refs.get(`heads/${branch}`) as string).get(path);
+		return entry ? this.blobs.get(entry.sha)?.toString("utf-8") : undefined;
+	}
+
+	private storeBlob(content: Buffer): string {
+		const sha = createHash("sha1")
+			.update(`blob ${content.length}\0`)
+			.update(new Uint8Array(content))
+			.digest("hex");
+		this.blobs.set(sha, content);
+		return sha;
+	}
+
+	private storeTree(tree: FakeTree): string {
+		const sha = sha1(`tree ${JSON.stringify([...tree.entries()].sort())}`);
+		this.trees.set(sha, tree);
+		return sha;
+	}
+
+	private storeCommit(
+		tree: string,
+		parents: string[],
+		message: string,
+		author: Partial<FakeIdentity> = {},
+		committer: Partial<FakeIdentity> = {}
+	): FakeCommit {
+		this.clock += 1000;
+		const date = new Date(this.clock).toISOString();
+		const commit = {
+			sha: "",
+			tree,
+			parents,
+			message,
+			author: { ...DEFAULT_IDENTITY, date, ...author },
+			committer: { ...DEFAULT_IDENTITY, date, ...committer }
+		};
+		commit.sha = sha1(`commit ${JSON.stringify(commit)}`);
+		this.commits.set(commit.sha, commit);
+		return commit;
+	}
+
+	private commitOnBranch(
+		branch: string,
+		tree: FakeTree,
+		message: string,
+		author?: Partial<FakeIdentity>,
+		committer?: Partial<FakeIdentity>
+	): FakeCommit {
+		const parent = this.refs.get(`heads/${branch}`) as string;
+		const commit = this.storeCommit(this.storeTree(tree), [parent], message, author, committer);
+		this.refs.set(`heads/${branch}`, commit.sha);
+		return commit;
+	}
+
+	private getCommitTree(commitSha: string): FakeTree {
+		const commit = this.commits.get(commitSha);
+		return (commit && this.trees.get(commit.tree)) || new Map();
+	}
+
+	/**
+	 * Resolves a branch name, a tag or a commit sha to a commit sha
+	 */
+	private resolveRef(ref?: string | null): string | undefined {
+		if (!ref) return this.refs.get(`heads/${this.defaultBranch}`);
+		return (
+			this.refs.get(`heads/${ref}`) ||
+			this.refs.get(`tags/${ref}`) ||
+			this.refs.get(ref.replace(/^refs\//, "")) ||
+			(this.commits.has(ref) ? ref : undefined)
+		);
+	}
+
+	/**
+	 * Describes the direct children of a directory of a flat tree
+	 */
+	private listChildren(tree: FakeTree, dirPath: string) {
+		const children = new Map<string, { type: "file" | "dir"; path: string; sha: string; size: number }>();
+		for (const [path, { sha }] of tree) {
+			if (!isInside(path, dirPath) || path === dirPath) continue;
+			const relativePath = dirPath ? path.substring(dirPath.length + 1) : path;
+			const [name, ...rest] = relativePath.split("/");
+			const childPath = dirPath ? `${dirPath}/${name}` : name;
+			if (rest.length === 0) {
+				children.set(childPath, {
+					type: "file",
+					path: childPath,
+					sha,
+					size: this.blobs.get(sha)?.length || 0
+				});
+			} else if (!children.has(childPath)) {
+				const subTree = this.getSubTree(tree, childPath);
+				children.set(childPath, {
+					type: "dir",
+					path: childPath,
+					sha: this.storeTree(subTree),
+					size: 0
+				});
+			}
+		}
+		return [...children.values()].map((child) => ({ ...child, name: child.path.split("/").pop() }));
+	}
+
+	private getSubTree(tree: FakeTree, dirPath: string): FakeTree {
+		const subTree: FakeTree = new Map();
+		for (const [path, entry] of tree) {
+			if (path.startsWith(`${dirPath}/`)) subTree.set(path.substring(dirPath.length + 1), entry);
+		}
+		return subTree;
+	}
+
+	private describeTree(sha: string, recursive: boolean) {
+		const tree = this.trees.get(sha) as FakeTree;
+		if (!recursive) {
+			return this.listChildren(tree, "").map(({ type, path, sha, size }) =>
+				type === "dir"
+					? { path, mode: "040000", type: "tree", sha }
+					: { path, mode: tree.get(path)?.mode, type: "blob", sha, size }
+			);
+		}
+		const entries: unknown[] = [];
+		const dirs = new Set<string>();
+		for (const [path, { mode, sha }] of [...tree.entries()].sort()) {
+			const segments = path.split("/");
+			for (let i = 1; i < segments.length; i++) {
+				const dirPath = segments.slice(0, i).join("/");
+				if (!dirs.has(dirPath)) {
+					dirs.add(dirPath);
+					entries.push({
+						path: dirPath,
+						mode: "040000",
+						type: "tree",
+						sha: this.storeTree(this.getSubTree(tree, dirPath))
+					});
+				}
+			}
+			entries.push({ path, mode, type: "blob", sha, size: this.blobs.get(sha)?.length || 0 });
+		}
+		return entries;
+	}
+
+	private describeCommit({ sha, tree, parents, message, author, committer }: FakeCommit) {
+		return {
+			sha,
+			tree: { sha: tree },
+			parents: parents.map((parent) => ({ sha: parent })),
+			message,
+			author,
+			committer,
+			html_url: `https://github.com/fake/repo/commit/${sha}`
+		};
+	}
+
+	private describePull({ number, title, body, head, base, state, merged, draft, labels }: FakePullRequest) {
+		return {
+			number,
+			html_url: `https://github.com/fake/repo/pull/${number}`,
+			title,
+			body,
+			state,
+			merged,
+			draft,
+			head: { ref: head, sha: this.refs.get(`heads/${head}`) },
+			base: { ref: base, sha: this.refs.get(`heads/${base}`) },
+			labels: labels.map((name) => ({ name }))
+		};
+	}
+
+	private isAncestor(ancestor: string, sha: string): boolean {
+		const pending = [sha];
+		while (pending.length) {
+			const current = pending.pop() as string;
+			if (current === ancestor) return true;
+			pending.push(...(this.commits.get(current)?.parents || []));
+		}
+		return false;
+	}
+
+	/**
+	 * Tells if a file or a directory differs between two trees
+	 */
+	private hasChanged(path: string, tree: FakeTree, parentTree: FakeTree): boolean {
+		const describe = (t: FakeTree) =>
+			JSON.stringify([...t.entries()].filter(([entryPath]) => isInside(entryPath, path)).sort());
+		return describe(tree) !== describe(parentTree);
+	}
+
+	private async handle(request: Request): Promise<Response> {
+		this.requestsCount++;
+		const url = new URL(request.url);
+		const match = url.pathname.match(/^\/repos\/[^/]+\/[^/]+\/?(.*)$/);
+		if (!match) return error(404, "Not Found");
+
+		const route = decodeURIComponent(match[1]);
+		const method = request.method;
+		const intercepted = this.interceptor?.(method, route);
+		if (intercepted) return intercepted;
+
+		const body = method === "GET" ? {} : await request.json().catch(() => ({}));
+
+		try {
+			return this.route(method, route, url.searchParams, body);
+		} catch (err) {
+			return error(500, (err as Error).message);
+		}
+	}
+
+	private route(method: string, route: string, query: URLSearchParams, body: unknown): Response {
+		let match: RegExpMatchArray | null;
+
+		if (method === "GET" && route === "") {
+			return json({ name: "repo", full_name: "fake/repo", default_branch: this.defaultBranch });
+		}
+
+		// Git references
+		match = method === "GET" ? route.match(/^git\/ref\/(.+)$/) : null;
+		if (match) {
+			const sha = this.refs.get(match[1]);
+			if (!sha) return error(404, "Not Found");
+			return json({ ref: `refs/${match[1]}`, object: { sha, type: "commit" } });
+		}
+		match = method === "GET" ? route.match(/^git\/matching-refs\/(.*)$/) : null;
+		if (match) {
+			const prefix = match[1];
+			return json(
+				[...this.refs.entries()]
+					.filter(([ref]) => ref.startsWith(prefix))
+					.map(([ref, sha]) => ({ ref: `refs/${ref}`, object: { sha, type: "commit" } }))
+			);
+		}
+		if (method === "POST" && route === "git/refs") {
+			const data = body as { ref: string; sha: string };
+			const ref = String(data.ref).replace(/^refs\//, "");
+			if (this.refs.has(ref)) return error(422, "Reference already exists");
+			if (!this.commits.has(data.sha)) return error(422, "Object does not exist");
+			this.refs.set(ref, data.sha);
+			return json({ ref: `refs/${ref}`, object: { sha: data.sha, type: "commit" } }, 201);
+		}
+		match = method === "PATCH" ? route.match(/^git\/refs\/(.+)$/) : null;
+		if (match) {
+			const current = this.refs.get(match[1]);
+			if (!current) return error(422, "Reference does not exist");
+			const data = body as { sha: string; force?: boolean };
+			if (!data.force && !this.isAncestor(current, data.sha)) {
+				return error(422, "Update is not a fast forward");
+			}
+			this.refs.set(match[1], data.sha);
+			return json({ ref: `refs/${match[1]}`, object: { sha: data.sha, type: "commit" } });
+		}
+		match = method === "DELETE" ? route.match(/^git\/refs\/(.+)$/) : null;
+		if (match) {
+			if (!this.refs.delete(match[1])) return error(422, "Reference does not exist");
+			// Like Github, deleting the branch of a pull request closes it
+			for (const pull of this.pulls.values()) {
+				if (`heads/${pull.head}` === match[1]) pull.state = "closed";
+			}
+			return new Response(null, { status: 204 });
+		}
+		if (method === "GET" && route === "branches") {
+			const perPage = Number(query.get("per_page") || 30);
+			const page = Number(query.get("page") || 1);
+			return json(
+				[...this.refs.entries()]
+					.filter(([ref]) => ref.startsWith("heads/"))
+					.slice((page - 1) * perPage, page * perPage)
+					.map(([ref, sha]) => ({ name: ref.substring(6), commit: { sha }, protected: false }))
+			);
+		}
+
+		// Git objects
+		match = method === "GET" ? route.match(/^git\/commits\/(\w+)$/) : null;
+		if (match) {
+			const commit = this.commits.get(match[1]);
+			return commit ? json(this.describeCommit(commit)) : error(404, "Not Found");
+		}
+		if (method === "POST" && route === "git/commits") {
+			const data = body as FakeChangeBody & { tree: string; parents?: string[] };
+			if (!this.trees.has(data.tree)) return error(422, "Tree does not exist");
+			const commit = this.storeCommit(
+				data.tree,
+				data.parents || [],
+				data.message,
+				data.author,
+				data.committer
+			);
+			return json(this.describeCommit(commit), 201);
+		}
+		match = method === "GET" ? route.match(/^git\/trees\/(.+)$/) : null;
+		if (match) {
+			const recursive = Boolean(query.get("recursive"));
+			const sha = this.trees.has(match[1])
+				? match[1]
+				: this.commits.get(this.resolveRef(match[1]) as string)?.tree;
+			if (!sha) return error(404, "Not Found");
+			const tree = this.describeTree(sha, recursive);
+			const truncated = tree.length > this.treeEntriesLimit;
+			return json({ sha, tree: tree.slice(0, this.treeEntriesLimit), truncated });
+		}
+		if (method === "POST" && route === "git/trees") {
+			const data = body as {
+				base_tree?: string;
+				tree: { path: string; mode: string; type: string; sha?: string | null; content?: string }[];
+			};
+			const tree: FakeTree = new Map(data.base_tree ? this.trees.get(data.base_tree) : []);
+			for (const entry of data.tree) {
+				if (entry.type === "tree") {
+					for (const path of [...tree.keys()]) if (isInside(path, entry.path)) tree.delete(path);
+					for (const [path, subEntry] of this.trees.get(entry.sha as string) || []) {
+						tree.set(`${entry.path}/${path}`, subEntry);
+					}
+				} else if (entry.content !== undefined) {
+					tree.set(entry.path, {
+						mode: entry.mode,
+						sha: this.storeBlob(Buffer.from(entry.content))
+					});
+				} else if (entry.sha === null) {
+					if (!tree.has(entry.path)) return error(422, `Path ${entry.path} does not exist`);
+					tree.delete(entry.path);
+				} else {
+					if (!this.blobs.has(entry.sha as string)) return error(422, "Blob does not exist");
+					tree.set(entry.path, { mode: entry.mode, sha: entry.sha as string });
+				}
+			}
+			const sha = this.storeTree(tree);
+			return json({ sha, tree: this.describeTree(sha, false), truncated: false }, 201);
+		}
+		if (method === "POST" && route === "git/blobs") {
+			const data = body as { content: string; encoding?: string };
+			const content = Buffer.from(data.content, data.encoding === "base64" ? "base64" : "utf-8");
+			return json({ sha: this.storeBlob(content) }, 201);
+		}
+		match = method === "GET" ? route.match(/^git\/blobs\/(\w+)$/) : null;
+		if (match) {
+			const content = this.blobs.get(match[1]);
+			if (!content) return error(404, "Not Found");
+			return json({
+				sha: match[1],
+				size: content.length,
+				encoding: "base64",
+				content: content.toString("base64")
+			});
+		}
+
+		// Pull requests
+		if (method === "POST" && route === "pulls") {
+			const data = body as {
+				title: string;
+				body?: string;
+				head: string;
+				base: string;
+				draft?: boolean;
+			};
+			if (!this.refs.has(`heads/${data.head}`) || !this.refs.has(`heads/${data.base}`)) {
+				return error(422, "Validation Failed");
+			}
+			const pull: FakePullRequest = {
+				number: this.pulls.size + 1,
+				title: data.title,
+				body: data.body ?? null,
+				head: data.head,
+				base: data.base,
+				state: "open",
+				merged: false,
+				draft: Boolean(data.draft),
+				labels: []
+			};
+			this.pulls.set(pull.number, pull);
+			return json(this.describePull(pull), 201);
+		}
+		if (method === "GET" && route === "pulls") {
+			const state = query.get("state") || "open";
+			const base = query.get("base");
+			const perPage = Number(query.get("per_page") || 30);
+			const page = Number(query.get("page") || 1);
+			return json(
+				[...this.pulls.values()]
+					.filter(
+						(pull) => (state === "all" || pull.state === state) && (!base || pull.base === base)
+					)
+					.slice((page - 1) * perPage, page * perPage)
+					.map((pull) => this.describePull(pull))
+			);
+		}
+		match = route.match(/^pulls\/(\d+)(\/merge)?$/);
+		const pull = match && this.pulls.get(Number(match[1]));
+		if (match && !pull) return error(404, "Not Found");
+		if (match && pull && !match[2]) {
+			if (method === "PATCH") {
+				const data = body as Partial<Pick<FakePullRequest, "title" | "body" | "state">>;
+				Object.assign(pull, {
+					title: data.title ?? pull.title,
+					body: data.body ?? pull.body,
+					state: data.state ?? pull.state
+				});
+			}
+			return json(this.describePull(pull));
+		}
+		if (match && pull && method === "PUT") {
+			const baseSha = this.refs.get(`heads/${pull.base}`) as string;
+			const headSha = this.refs.get(`heads/${pull.head}`) as string;
+			// Only the pull requests based on the last commit of their base can be merged by this fake
+			if (pull.state !== "open" || !this.isAncestor(baseSha, headSha)) {
+				return error(405, "Pull Request is not mergeable");
+			}
+			const headCommit = this.commits.get(headSha) as FakeCommit;
+			const data = body as { commit_title?: string; merge_method?: string };
+			const message = data.commit_title || `Merge pull request #${pull.number}`;
+			let sha = headSha;
+			if (data.merge_method === "squash") {
+				sha = this.storeCommit(headCommit.tree, [baseSha], message).sha;
+			} else if (data.merge_method !== "rebase") {
+				sha = this.storeCommit(headCommit.tree, [baseSha, headSha], message).sha;
+			}
+			this.refs.set(`heads/${pull.base}`, sha);
+			Object.assign(pull, { state: "closed", merged: true });
+			return json({ sha, merged: true, message: "Pull Request successfully merged" });
+		}
+		match = method === "POST" ? route.match(/^issues\/(\d+)\/labels$/) : null;
+		if (match) {
+			const labelled = this.pulls.get(Number(match[1]));
+			if (!labelled) return error(404, "Not Found");
+			const { labels } = body as { labels: string[] };
+			labelled.labels.push(...labels.filter((label) => !labelled.labels.includes(label)));
+			return json(labelled.labels.map((name) => ({ name })));
+		}
+
+		// Contents API
+		match = route.match(/^contents\/?(.*)$/);
+		if (match) {
+			const path = match[1].replace(/\/$/, "");
+			const data = body as FakeChangeBody & { branch?: string; sha?: string; content: string };
+			const branch = data.branch || query.get("ref") || this.defaultBranch;
+			const commitSha = this.resolveRef(branch);
+			if (!commitSha) return error(404, "No commit found for the ref");
+			const tree = this.getCommitTree(commitSha);
+			const existing = tree.get(path);
+
+			if (method === "GET") {
+				if (existing) {
+					const content = this.blobs.get(existing.sha) as Buffer;
+					return json({
+						type: "file",
+						encoding: "base64",
+						size: content.length,
+						name: path.split("/").pop(),
+						path,
+						content: content.toString("base64"),
+						sha: existing.sha
+					});
+				}
+				const children = this.listChildren(tree, path);
+				if (path && children.length === 0) return error(404, "Not Found");
+				return json(children);
+			}
+			if (method === "PUT") {
+				if (existing && !data.sha) return error(422, `"sha" wasn't supplied.`);
+				if (existing && data.sha !== existing.sha)
+					return error(409, `${path} does not match ${data.sha}`);
+				if (!existing && data.sha) return error(409, `${path} does not exist`);
+				const newTree = new Map(tree);
+				const sha = this.storeBlob(Buffer.from(data.content, "base64"));
+				newTree.set(path, { mode: existing?.mode || "100644", sha });
+				const commit = this.commitOnBranch(
+					branch,
+					newTree,
+					data.message,
+					data.author,
+					data.committer
+				);
+				return json(
+					{ content: { path, sha }, commit: this.describeCommit(commit) },
+					existing ? 200 : 201
+				);
+			}
+			if (method === "DELETE") {
+				if (!existing) return error(404, "Not Found");
+				if (data.sha !== existing.sha) return error(409, `${path} does not match ${data.sha}`);
+				const newTree = new Map(tree);
+				newTree.delete(path);
+				const commit = this.commitOnBranch(
+					branch,
+					newTree,
+					data.message,
+					data.author,
+					data.committer
+				);
+				return json({ content: null, commit: this.describeCommit(commit) });
+			}
+		}
+
+		// Commits history
+		if (method === "GET" && route === "commits") {
+			const path = (query.get("path") || "").replace(/^\/|\/$/g, "");
+			const perPage = Number(query.get("per_page") || 30);
+			const page = Number(query.get("page") || 1);
+			let sha = this.resolveRef(query.get("sha"));
+			const history: FakeCommit[] = [];
+			while (sha) {
+				const commit = this.commits.get(sha) as FakeCommit;
+				const parentTree = commit.parents[0] ? this.getCommitTree(commit.parents[0]) : new Map();
+				if (!path || this.hasChanged(path, this.trees.get(commit.tree) as FakeTree, parentTree)) {
+					history.push(commit);
+				}
+				sha = commit.parents[0];
+			}
+			return json(
+				history.slice((page - 1) * perPage, page * perPage).map((commit) => ({
+					sha: commit.sha,
+					commit: { message: commit.message, author: commit.author, committer: commit.committer },
+					html_url: `https://github.com/fake/repo/commit/${commit.sha}`
+				}))
+			);
+		}
+
+		match = method === "GET" ? route.match(/^commits\/(.+)$/) : null;
+		if (match) {
+			const sha = this.resolveRef(match[1]);
+			if (!sha) return error(422, `No commit found for SHA: ${match[1]}`);
+			const commit = this.commits.get(sha) as FakeCommit;
+			return json({
+				sha,
+				commit: { message: commit.message, author: commit.author, committer: commit.committer }
+			});
+		}
+
+		return error(404, `Not Found: ${method} ${route}`);
+	}
+}
@@ -0,0 +1,123 @@
+import type { Server } from "bun";
+
+const json = (data: unknown, status = 200) => Response.json(data, { status });
+
+const invalidGrant = (description: string) =>
+	json({ error: "invalid_grant", error_description: description }, 400);
+
+/**
+ * A minimal OAuth 2 authorization server, playing the part of the Google token endpoint in the tests :
+ * it exchanges the codes issued by `issueCode()` for tokens, and refreshes the access tokens.
+ */
+export class FakeOAuthServer {
+	/**
+	 * Number of requests received since the last reset
+	 */
+	requestsCount = 0;
+	/**
+	 * Issue a new refresh token on each refresh (and revoke the previous one)
+	 */
+	rotateRefreshTokens = false;
+	/**
+	 * Lifetime of the access tokens, in seconds
+	 */
+	expiresIn = 3600;
+
+	private server?: Server<undefined>;
+	private codes = new Set<string>();
+	private refreshTokens = new Set<string>();
+	private nextId = 1;
+
+	/**
+	 * Starts the fake server on a random port
+	 * @returns the URL of the token endpoint
+	 */
+	start(): string {
+		this.server = Bun.serve({
+			port: 0,
+			fetch: (request) => this.handle(request)
+		});
+		return this.tokenUrl;
+	}
+
+	get authUrl(): string {
+		return `http://localhost:${this.server?.port}/auth`;
+	}
+
+	get tokenUrl(): string {
+		return `http://localhost:${this.server?.port}/token`;
+	}
+
+	stop() {
+		this.server?.stop(true);
+		this.server = undefined;
+	}
+
+	/**
+	 * Forgets all the codes and tokens
+	 */
+	reset() {
+		this.codes.clear();
+		this.refreshTokens.clear();
+		this.requestsCount = 0;
+		this.rotateRefreshTokens = false;
+		this.expiresIn = 3600;
+	}
+
+	/**
+	 * Simulates a user consenting : the code is sent to the redirect URI, and can only be used once
+	 */
+	issueCode(): string {
+		const code = `code-${this.nextId++}`;
+		this.codes.add(code);
+		return code;
+	}
+
+	/**
+	 * Simulates a user revoking the access of the application
+	 */
+	revoke(refreshToken: string) {
+		this.refreshTokens.delete(refreshToken);
+	}
+
+	private async handle(request: Request): Promise<Response> {
+		this.requestsCount++;
+		const url = new URL(request.url);
+		if (request.method !== "POST" || url.pathname !== "/token") {
+			return json({ error: "not_found" }, 404);
+		}
+
+		const form = new URLSearchParams(await request.text());
+		switch (form.get("grant_type")) {
+			case "authorization_code": {
+				const code = form.get("code") || "";
+				if (!this.codes.delete(code)) return invalidGrant("Malformed auth code.");
+				const refreshToken = `refresh-${this.nextId++}`;
+				this.refreshTokens.add(refreshToken);
+				return json({ ...this.createAccessToken(), refresh_token: refreshToken });
+			}
+			case "refresh_token": {
+				const refreshToken = form.get("refresh_token") || "";
+				if (!this.refreshTokens.has(refreshToken)) {
+					return invalidGrant("Token has been expired or revoked.");
+				}
+				if (!this.rotateRefreshTokens) return json(this.createAccessToken());
+				const rotated = `refresh-${this.nextId++}`;
+				this.refreshTokens.delete(refreshToken);
+				this.refreshTokens.add(rotated);
+				return json({ ...this.createAccessToken(), refresh_token: rotated });
+			}
+			default:
+				return json({ error: "unsupported_grant_type" }, 400);
+		}
+	}
+
+	private createAccessToken() {
+		return {
+			access_token: `access-${this.nextId++}`,
+			expires_in: this.expiresIn,
+			token_type: "Bearer",
+			scope: "https://www.googleapis.com/auth/drive"
+		};
+	}
+}
@@ -0,0 +1,520 @@
+import { createHash } from "node:crypto";
+import type { Server } from "bun";
+import { type AwsCredentials, sha256Hex, signRequest } from "../utils/sigv4-utils";
+import { concatBytes, toBytes } from "../utils/stream-utils";
+
+type FakeS3Object = {
+	content: Uint8Array;
+	etag: string;
+	contentType: string;
+	lastModified: Date;
+};
+
+type FakeMultipartUpload = {
+	key: string;
+	contentType: string;
+	parts: Map<number, { content: Uint8Array; etag: string }>;
+};
+
+export interface FakeS3ServerOptions {
+	/**
+	 * The only bucket of the server. Default: `test-bucket`
+	 */
+	bucket?: string;
+	/**
+	 * The credentials that the requests must be signed with
+	 */
+	credentials?: AwsCredentials;
+	/**
+	 * Default: `us-east-1`
+	 */
+	region?: string;
+	/**
+	 * The minimum size of the parts of a multipart upload (but the last one). Default: 5 MiB, like S3
+	 */
+	minPartSize?: number;
+}
+
+/**
+ * Lets a test intercept a request (to simulate a failure) by returning its own response
+ */
+export type FakeS3ServerInterceptor = (
+	method: string,
+	key: string,
+	query: URLSearchParams
+) => Response | undefined;
+
+const escapeXml = (value: string) => value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const unescapeXml = (value: string) =>
+	value
+		.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, "&");
+
+const xml = (body: string, status = 200) =>
+	new Response(`<?xml version="1.0" encoding="UTF-8"?>\n${body}`, {
+		status,
+		headers: { "Content-Type": "application/xml" }
+	});
+
+const s3Error = (status: number, code: string, message: string) =>
+	xml(`<Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`, status);
+
+const md5 = (content: Uint8Array) => createHash("md5").update(content);
+
+const textDecoder = new TextDecoder();
+
+/**
+ * `encoding-type=url` : the keys are URL encoded, but their slashes
+ */
+const encodeKey = (key: string) => encodeURIComponent(key).replace(/%2F/g, "/");
+
+/**
+ * A minimal in-memory implementation of the parts of the S3 API used by the S3FileManager
+ * (ListObjectsV2, the objects, the copies, the batch deletions and the multipart uploads) to run the tests offline.
+ * It serves a single bucket with path-style URLs, and checks the Signature Version 4 of every request.
+ */
+export class FakeS3Server {
+	/**
+	 * Number of requests received since the last reset
+	 */
+	requestsCount = 0;
+	/**
+	 * Called before each request
+	 */
+	interceptor?: FakeS3ServerInterceptor;
+
+	readonly bucket: string;
+	readonly credentials: AwsCredentials;
+	readonly region: string;
+	private minPartSize: number;
+	private server?: Server<undefined>;
+	private objects = new Map<string, FakeS3Object>();
+	private uploads = new Map<string, FakeMultipartUpload>();
+	private nextUploadId = 1;
+
+	constructor({
+		bucket = "test-bucket",
+		credentials = { accessKeyId: "fake-access-key", secretAccessKey: "fake-secret-key" },
+		region = "us-east-1",
+		minPartSize = 5 * 1024 * 1024
+	}: FakeS3ServerOptions = {}) {
+		this.bucket = bucket;
+		this.credentials = credentials;
+		this.region = region;
+		this.minPartSize = minPartSize;
+	}
+
+	/**
+	 * Starts the fake server on a random port
+	 * @returns the endpoint of the server
+	 */
+	start(): string {
+		this.server = Bun.serve({
+			port: 0,
+			fetch: (request) => this.handle(request)
+		});
+		return this.url;
+	}
+
+	get url(): string {
+		return `http://localhost:${this.server?.port}`;
+	}
+
+	stop() {
+		this.server?.stop(true);
+		this.server = undefined;
+	}
+
+	/**
+	 * Empties the bucket, and forgets the pending uploads
+	 */
+	reset() {
+		this.objects.clear();
+		this.uploads.clear();
+		this.requestsCount = 0;
+		this.interceptor = undefined;
+	}
+
+	/**
+	 * Directly writes objects (to prepare a test)
+	 * @param objects The content of the objects by key (the keys ending with a slash are directory markers)
+	 */
+	seed(objects: Record<string, string>) {
+		for (const [key, content] of Object.entries(objects)) {
+			this.putObject(key, toBytes(content), "application/octet-stream");
+		}
+	}
+
+	/**
+	 * The keys of the bucket, sorted
+	 */
+	get keys(): string[] {
+		return [...this.objects.keys()].sort();
+	}
+
+	/**
+	 * @returns the content of an object (or undefined if it doesn't exist)
+	 */
+	getObject(key: string): string | undefined {
+		const object = this.objects.get(key);
+		return object && textDecoder.decode(object.content);
+	}
+
+	/**
+	 * The number of multipart uploads neither completed nor aborted
+	 */
+	get pendingUploads(): number {
+		return this.uploads.size;
+	}
+
+	private putObject(
+		key: string,
+		content: Uint8Array,
+		contentType: string,
+		etag = md5(content).digest("hex")
+	) {
+		const object = { content, etag: `"${etag}"`, contentType, lastModified: new Date() };
+		this.objects.set(key, object);
+		return object;
+	}
+
+	private async handle(request: Request): Promise<Response> {
+		this.requestsCount++;
+		const url = new URL(request.url);
+		const [, bucket = "", ...keyParts] = url.pathname.split("/");
+		const key = decodeURIComponent(keyParts.join("/"));
+		const intercepted = this.interceptor?.(request.method, key, url.searchParams);
+		if (intercepted) return intercepted;
+
+		const body = new Uint8Array(await request.arrayBuffer());
+		const authError = await this.checkSignature(request, url, body);
+		if (authError) return authError;
+		if (decodeURIComponent(bucket) !== this.bucket) {
+			return s3Error(404, "NoSuchBucket", "The specified bucket does not exist");
+		}
+
+		const query = url.searchParams;
+		switch (request.method) {
+			case "GET":
+				return key ? this.getObjectResponse(key, true) : this.listObjects(query);
+			case "HEAD":
+				return this.getObjectResponse(key, false);
+			case "PUT":
+				if (query.has("uploadId")) return this.uploadPart(query, body);
+				if (request.headers.has("x-amz-copy-source")) return this.copyObject(request, key);
+				return this.handlePut(request, key, body);
+			case "POST":
+				if (!key && query.has("delete")) return this.deleteObjects(request, body);
+				if (query.has("uploads")) return this.createUpload(request, key);
+				if (query.has("uploadId")) return this.completeUpload(request, key, query, body);
+				break;
+			case "DELETE":
+				if (query.has("uploadId")) {
+					if (!this.uploads.delete(query.get("uploadId") || "")) {
+						return s3Error(404, "NoSuchUpload", "The specified upload does not exist");
+					}
+					return new Response(null, { status: 204 });
+				}
+				this.objects.delete(key);
+				return new Response(null, { status: 204 });
+		}
+		return s3Error(405, "MethodNotAllowed", `${request.method} is not supported here`);
+	}
+
+	/**
+	 * Signs the request again with the known credentials, and compares the signatures
+	 */
+	private async checkSignature(
+		request: Request,
+		url: URL,
+		body: Uint8Array
+	): Promise<Response | undefined> {
+		const authorization = request.headers.get("authorization") || "";
+		const match = authorization.match(
+			/^AWS4-HMAC-SHA256 Credential=([^/]+)\/\d{8}\/([^/]+)\/s3\/aws4_request, SignedHeaders=([a-z0-9;-]+), Signature=[0-9a-f]{64}$/
+		);
+		if (!match) {
+			return s3Error(403, "AccessDenied", "The request is not signed with AWS4-HMAC-SHA256");
+		}
+		const [, accessKeyId, region, signedHeaders] = match;
+		if (accessKeyId !== this.credentials.accessKeyId) {
+			return s3Error(403, "InvalidAccessKeyId", "The AWS Access Key Id does not exist in our records");
+		}
+		if (region !== this.region) {
+			return s3Error(400, "AuthorizationHeaderMalformed", `The region '${region}' is wrong`);
+		}
+		const payloadHash = request.headers.get("x-amz-content-sha256") || "";
+		if (payloadHash !== (await sha256Hex(body))) {
+			return s3Error(400, "XAmzContentSHA256Mismatch", "The body does not match its hash");
+		}
+
+		const headers: Record<string, string> = {};
+		for (const name of signedHeaders.split(";")) {
+			if (name !== "host") headers[name] = request.headers.get(name) ?? "";
+		}
+		const amzDate = headers["x-amz-date"] || "";
+		const expected = await signRequest({
+			method: request.method,
+			url,
+			headers,
+			payloadHash,
+			credentials: { accessKeyId, secretAccessKey: this.credentials.secretAccessKey },
+			region,
+			date: new Date(
+				amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, "$1-$2-$3T$4:$5:$6Z")
+			)
+		});
+		if (expected.authorization !== authorization) {
+			return s3Error(
+				403,
+				"SignatureDoesNotMatch",
+				"The request signature we calculated does not match"
+			);
+		}
+		if (
+			this.credentials.sessionToken &&
+			headers["x-amz-security-token"] !== this.credentials.sessionToken
+		) {
+			return s3Error(403, "InvalidToken", "The provided token is malformed or otherwise invalid");
+		}
+		return undefined;
+	}
+
+	/**
+	 * Checks the `If-Match` and `If-None-Match` headers of a write against the current object
+	 */
+	private checkConditions(request: Request, key: string): Response | undefined {
+		const current = this.objects.get(key);
+		const ifMatch = request.headers.get("if-match");
+		if (request.headers.get("if-none-match") === "*" && current) {
+			return s3Error(
+				412,
+				"PreconditionFailed",
+				"At least one of the pre-conditions you specified did not hold"
+			);
+		}
+		if (ifMatch && !current) {
+			return s3Error(404, "NoSuchKey", "The specified key does not exist.");
+		}
+		if (ifMatch && current && ifMatch !== current.etag) {
+			return s3Error(
+				412,
+				"PreconditionFailed",
+				"At least one of the pre-conditions you specified did not hold"
+			);
+		}
+		return undefined;
+	}
+
+	/**
+	 * GetObject, or HeadObject (whose errors have no body)
+	 */
+	private getObjectResponse(key: string, withContent: boolean): Response {
+		const object = this.objects.get(key);
+		if (!object) {
+			return withContent
+				? s3Error(404, "NoSuchKey", "The specified key does not exist.")
+				: new Response(null, { status: 404 });
+		}
+		// The body of a HEAD response is dropped, but its length is kept
+		return new Response(object.content, {
+			headers: {
+				"Content-Type": object.contentType,
+				ETag: object.etag,
+				"Last-Modified": object.lastModified.toUTCString()
+			}
+		});
+	}
+
+	private handlePut(request: Request, key: string, body: Uint8Array): Response {
+		const failure = this.checkConditions(request, key);
+		if (failure) return failure;
+		const object = this.putObject(
+			key,
+			body,
+			request.headers.get("content-type") || "application/octet-stream"
+		);
+		return new Response(null, { headers: { ETag: object.etag } });
+	}
+
+	private copyObject(request: Request, key: string): Response {
+		const copySource = decodeURIComponent(request.headers.get("x-amz-copy-source") || "").replace(
+			/^\//,
+			""
+		);
+		const sourceKey = copySource.substring(this.bucket.length + 1);
+		const source = copySource.startsWith(`${this.bucket}/`) && this.objects.get(sourceKey);
+		if (!source) {
+			return s3Error(404, "NoSuchKey", "The specified key does not exist.");
+		}
+		const object = this.putObject(key, source.content, source.contentType, source.etag.replace(/"/g, ""));
+		return xml(
+			`<CopyObjectResult><ETag>${escapeXml(object.etag)}</ETag><LastModified>${object.lastModified.toISOString()}</LastModified></CopyObjectResult>`
+		);
+	}
+
+	/**
+	 * ListObjectsV2 : the continuation tokens are the last keys listed, in base64
+	 */
+	private listObjects(query: URLSearchParams): Response {
+		const prefix = query.get("prefix") || "";
+		const delimiter = query.get("delimiter") || "";
+		const maxKeys = Number(query.get("max-keys") || 1000);
+		const token = query.get("continuation-token");
+		const encode = query.get("encoding-type") === "url" ? encodeKey : escapeXml;
+		let after = query.get("start-after") || "";
+		if (token) {
+			after = Buffer.from(token, "base64").toString();
+			if (Buffer.from(after).toString("base64") !== token) {
+				return s3Error(400, "InvalidArgument", "The continuation token provided is incorrect");
+			}
+		}
+
+		const contents: string[] = [];
+		const commonPrefixes: string[] = [];
+		let lastKey: string | undefined;
+		let isTruncated = false;
+		for (const key of this.keys) {
+			if (!key.startsWith(prefix) || key <= after) continue;
+			const separator = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+			const commonPrefix = separator < 0 ? undefined : key.substring(0, separator + delimiter.length);
+			if (commonPrefix && commonPrefix === commonPrefixes[commonPrefixes.length - 1]) {
+				lastKey = key;
+				continue;
+			}
+			if (contents.length + commonPrefixes.length >= maxKeys) {
+				isTruncated = true;
+				break;
+			}
+			if (commonPrefix) {
+				commonPrefixes.push(commonPrefix);
+			} else {
+				const { etag, content, lastModified } = this.objects.get(key) as FakeS3Object;
+				contents.push(
+					`<Contents><Key>${encode(key)}</Key><LastModified>${lastModified.toISOString()}</LastModified><ETag>${escapeXml(etag)}</ETag><Size>${content.length}</Size><StorageClass>STANDARD</StorageClass></Contents>`
+				);
+			}
+			lastKey = key;
+		}
+
+		return xml(
+			[
+				"<ListBucketResult>",
+				`<Name>${escapeXml(this.bucket)}</Name><Prefix>${encode(prefix)}</Prefix>`,
+				`<KeyCount>${contents.length + commonPrefixes.length}</KeyCount><MaxKeys>${maxKeys}</MaxKeys>`,
+				`<IsTruncated>${isTruncated}</IsTruncated>`,
+				...contents,
+				...commonPrefixes.map(
+					(commonPrefix) =>
+						`<CommonPrefixes><Prefix>${encode(commonPrefix)}</Prefix></CommonPrefixes>`
+				),
+				isTruncated && lastKey
+					? `<NextContinuationToken>${Buffer.from(lastKey).toString("base64")}</NextContinuationToken>`
+					: "",
+				query.get("encoding-type") === "url" ? "<EncodingType>url</EncodingType>" : "",
+				"</ListBucketResult>"
+			].join("")
+		);
+	}
+
+	/**
+	 * DeleteObjects : the body lists the keys, and must come with its MD5 digest
+	 */
+	private deleteObjects(request: Request, body: Uint8Array): Response {
+		if (request.headers.get("content-md5") !== md5(body).digest("base64")) {
+			return s3Error(400, "InvalidDigest", "The Content-MD5 you specified is not valid");
+		}
+		const keys = [...textDecoder.decode(body).matchAll(/<Key>([\s\S]*?)<\/Key>/g)].map(([, key]) =>
+			unescapeXml(key)
+		);
+		if (keys.length > 1000) {
+			return s3Error(400, "MalformedXML", "A batch can't delete more than 1000 objects");
+		}
+		for (const key of keys) this.objects.delete(key);
+		return xml("<DeleteResult></DeleteResult>");
+	}
+
+	private createUpload(request: Request, key: string): Response {
+		const uploadId = `upload-${this.nextUploadId++}`;
+		this.uploads.set(uploadId, {
+			key,
+			contentType: request.headers.get("content-type") || "application/octet-stream",
+			parts: new Map()
+		});
+		return xml(
+			`<InitiateMultipartUploadResult><Bucket>${escapeXml(this.bucket)}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`
+		);
+	}
+
+	private uploadPart(query: URLSearchParams, body: Uint8Array): Response {
+		const upload = this.uploads.get(query.get("uploadId") || "");
+		if (!upload) {
+			return s3Error(404, "NoSuchUpload", "The specified upload does not exist");
+		}
+		const etag = `"${md5(body).digest("hex")}"`;
+		upload.parts.set(Number(query.get("partNumber")), { content: body, etag });
+		return new Response(null, { headers: { ETag: etag } });
+	}
+
+	/**
+	 * The ETag of the object is the MD5 of the MD5 digests of its parts, followed by the number of parts
+	 */
+	private completeUpload(
+		request: Request,
+		key: string,
+		query: URLSearchParams,
+		body: Uint8Array
+	): Response {
+		const uploadId = query.get("uploadId") || "";
+		const upload = this.uploads.get(uploadId);
+		if (!upload || upload.key !== key) {
+			return s3Error(404, "NoSuchUpload", "The specified upload does not exist");
+		}
+		const requested = [...textDecoder.decode(body).matchAll(/<Part>([\s\S]*?)<\/Part>/g)].map(
+			([, part]) => ({
+				partNumber: Number(part.match(/<PartNumber>(\d+)<\/PartNumber>/)?.[1]),
+				etag: unescapeXml(part.match(/<ETag>([\s\S]*?)<\/ETag>/)?.[1] || "")
+			})
+		);
+		const parts = [];
+		for (const [index, { partNumber, etag }] of requested.entries()) {
+			const part = upload.parts.get(partNumber);
+			if (!part || part.etag !== etag) {
+				return s3Error(400, "InvalidPart", `The part ${partNumber} could not be found`);
+			}
+			if (index > 0 && partNumber <= requested[index - 1].partNumber) {
+				return s3Error(400, "InvalidPartOrder", "The list of parts was not in ascending order");
+			}
+			if (index < requested.length - 1 && part.content.length < this.minPartSize) {
+				return s3Error(
+					400,
+					"EntityTooSmall",
+					"Your proposed upload is smaller than the minimum allowed size"
+				);
+			}
+			parts.push(part.content);
+		}
+		if (parts.length === 0) {
+			return s3Error(400, "MalformedXML", "The multipart upload has no part");
+		}
+
+		const failure = this.checkConditions(request, key);
+		if (failure) return failure;
+		this.uploads.delete(uploadId);
+		const digests = concatBytes(parts.map((part) => new Uint8Array(md5(part).digest())));
+		const object = this.putObject(
+			key,
+			concatBytes(parts),
+			upload.contentType,
+			`${md5(digests).digest("hex")}-${parts.length}`
+		);
+		return xml(
+			`<CompleteMultipartUploadResult><Bucket>${escapeXml(this.bucket)}</Bucket><Key>${escapeXml(key)}</Key><ETag>${escapeXml(object.etag)}</ETag></CompleteMultipartUploadResult>`
+		);
+	}
+}
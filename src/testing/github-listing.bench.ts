@@ -0,0 +1,61 @@
+import { GithubFileManager } from "../services/GithubFileManager";
+import { FakeGithubApi } from "./FakeGithubApi";
+
+/**
+ * Compares the ways of listing a whole repository, against the fake Github API :
+ * the number of requests matters more than the time (that only measures the local fake)
+ * Run with `bun run bench`
+ */
+const DIRECTORIES = 40;
+const FILES_PER_DIRECTORY = 25;
+
+const fakeApi = new FakeGithubApi();
+const githubApiUrl = fakeApi.start();
+const fileManager = new GithubFileManager({
+	githubRepoUrl: "https://github.com/fake/repo",
+	githubApplicationToken: "fake-token",
+	githubApiUrl,
+	branch: "main"
+});
+
+const files: Record<string, string> = {};
+for (let dir = 0; dir < DIRECTORIES; dir++) {
+	for (let file = 0; file < FILES_PER_DIRECTORY; file++) {
+		files[`content/section-${dir % 5}/dir-${dir}/file-${file}.md`] = `Content of file ${file}`;
+	}
+}
+fakeApi.seed(files);
+
+const measure = async (name: string, list: () => Promise<number>) => {
+	fakeApi.requestsCount = 0;
+	const start = performance.now();
+	const count = await list();
+	const elapsed = performance.now() - start;
+	console.log(
+		`${name.padEnd(38)} ${String(count).padStart(6)} resources ${String(fakeApi.requestsCount).padStart(5)} requests ${elapsed.toFixed(1).padStart(8)} ms`
+	);
+};
+
+try {
+	console.log(`${DIRECTORIES * FILES_PER_DIRECTORY} files in ${DIRECTORIES} directories\n`);
+
+	await measure(
+		"trees API (recursive=1)",
+		async () => (await fileManager.listDirectoryContent("/", true)).length
+	);
+
+	fakeApi.treeEntriesLimit = 100;
+	await measure(
+		"trees API, truncated (tree by tree)",
+		async () => (await fileManager.listDirectoryContent("/", true)).length
+	);
+	fakeApi.treeEntriesLimit = Number.POSITIVE_INFINITY;
+
+	await measure("contents API (directory by directory)", async () => {
+		let count = 0;
+		for await (const _resource of fileManager.iterateDirectory("/", { recursive: true })) count++;
+		return count;
+	});
+} finally {
+	fakeApi.stop();
+}
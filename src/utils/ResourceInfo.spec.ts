@@ -181,6 +181,31 @@ describe("ResourceInfo", () => {
 		});
 	});
 
+	describe("resource's metadata", () => {
+		it("should be undefined when not reported by the backend", () => {
+			const rsc = new ResourceInfo("/foo/bar.txt");
+			expect(rsc.size).toBeUndefined();
+			expect(rsc.modifiedTime).toBeUndefined();
+			expect(rsc.etag).toBeUndefined();
+			expect(rsc.mimeType).toBeUndefined();
+			expect(rsc.metadata).toEqual({});
+		});
+
+		it("should expose the metadata passed in the options", () => {
+			const modifiedTime = new Date("2024-01-01T00:00:00Z");
+			const rsc = new ResourceInfo("/foo/bar.txt", {
+				size: 42,
+				modifiedTime,
+				etag: "abc123",
+				mimeType: "text/plain"
+			});
+			expect(rsc.size).toBe(42);
+			expect(rsc.modifiedTime).toBe(modifiedTime);
+			expect(rsc.etag).toBe("abc123");
+			expect(rsc.mimeType).toBe("text/plain");
+		});
+	});
+
 	describe("toString() and toJSON()", () => {
 		it("toString() returns the resource path", () => {
 			const rsc = new ResourceInfo("/foo/bar.txt");
@@ -198,6 +223,19 @@ describe("ResourceInfo", () => {
 			});
 		});
 
+		it("toJSON() includes the known metadata", () => {
+			const rsc = new ResourceInfo("/foo/bar.txt", { size: 42, etag: "abc123" });
+			expect(rsc.toJSON()).toEqual({
+				name: "bar",
+				ext: "txt",
+				path: "/foo/bar.txt",
+				isText: true,
+				type: "file",
+				size: 42,
+				etag: "abc123"
+			});
+		});
+
 		it("toJSON() returns an object of type folder for directory", () => {
 			const rsc = new ResourceInfo("/foo/bar/");
 			expect(rsc.toJSON()).toEqual({
@@ -1,6 +1,30 @@
 import { normalizePath } from ".";
+import { PathError } from "../services/FileManagerErrors";
 
-export interface ResourceInfoOptions {
+/**
+ * Optional metadata reported by the backend service about a resource
+ */
+export interface ResourceMetadata {
+	/**
+	 * Size of the file content in bytes
+	 */
+	size?: number;
+	/**
+	 * Date of the last modification of the resource
+	 */
+	modifiedTime?: Date;
+	/**
+	 * An opaque identifier of the current version of the resource content
+	 * (content hash, Git blob sha, Drive md5 checksum..)
+	 */
+	etag?: string;
+	/**
+	 * The MIME type of the file content
+	 */
+	mimeType?: string;
+}
+
+export interface ResourceInfoOptions extends ResourceMetadata {
 	/**
 	 * The root directory of the File System
 	 */
@@ -21,16 +45,19 @@ export interface ResourceInfoOptions {
  */
 export class ResourceInfo {
 	private _path: string;
+	private _metadata: ResourceMetadata;
 
 	constructor(rscPath?: string, options: ResourceInfoOptions = {}) {
 		if (!rscPath) {
-			throw new Error(
+			throw new PathError(
+				"",
 				`Bad parameter : empty path specified for new resource. 
 Use '/' to refer to the <root> directory.`
 			);
 		}
 
 		let { rootDir = "", type } = options;
+		const { size, modifiedTime, etag, mimeType } = options;
 
 		if (!type) {
 			if (rscPath.endsWith("/")) {
@@ -44,6 +71,7 @@ Use '/' to refer to the <root> directory.`
 			addLeadingSlash: true,
 			addTrailingSlash: type === "dir"
 		});
+		this._metadata = { size, modifiedTime, etag, mimeType };
 	}
 
 	/**
@@ -123,6 +151,43 @@ Use '/' to refer to the <root> directory.`
 		return !this._path.endsWith("/");
 	}
 
+	/**
+	 * @returns the size of the file in bytes (when reported by the backend)
+	 */
+	get size(): number | undefined {
+		return this._metadata.size;
+	}
+
+	/**
+	 * @returns the date of the last modification (when reported by the backend)
+	 */
+	get modifiedTime(): Date | undefined {
+		return this._metadata.modifiedTime;
+	}
+
+	/**
+	 * @returns an identifier of the current content version (when reported by the backend)
+	 */
+	get etag(): string | undefined {
+		return this._metadata.etag;
+	}
+
+	/**
+	 * @returns the MIME type of the file (when reported by the backend)
+	 */
+	get mimeType(): string | undefined {
+		return this._metadata.mimeType;
+	}
+
+	/**
+	 * @returns the metadata reported by the backend (without the undefined values)
+	 */
+	get metadata(): ResourceMetadata {
+		return Object.fromEntries(
+			Object.entries(this._metadata).filter(([, value]) => value !== undefined)
+		) as ResourceMetadata;
+	}
+
 	toString(): string {
 		return this._path;
 	}
@@ -135,14 +200,16 @@ Use '/' to refer to the <root> directory.`
 			? {
 					name: this.name,
 					path: this.path,
-					type: "folder"
+					type: "folder",
+					...this.metadata
 				}
 			: {
 					name: this.name,
 					ext: this.ext,
 					path: this.path,
 					type: "file",
-					isText: this.isText
+					isText: this.isText,
+					...this.metadata
 				};
 	}
 }
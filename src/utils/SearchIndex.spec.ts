@@ -0,0 +1,85 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { FileManagerError } from "../services/FileManagerErrors";
+import { InMemoryFileManager } from "../services/InMemoryFileManager";
+import { SearchIndex } from "./SearchIndex";
+import { searchFiles } from "./search-utils";
+
+async function createFileManager() {
+	const fileManager = new InMemoryFileManager();
+	await fileManager.updateTextFile("/docs/guide.md", "Install the package");
+	await fileManager.updateTextFile("/docs/api.md", "The package exports a function");
+	await fileManager.updateTextFile("/src/main.ts", "export const main = () => {}");
+	return fileManager;
+}
+
+describe("SearchIndex", () => {
+	it("gives the files that may contain each word of the query", async () => {
+		const index = new SearchIndex(await createFileManager());
+		await index.build();
+
+		expect(index.listFiles()).toEqual(["/docs/api.md", "/docs/guide.md", "/src/main.ts"]);
+		expect((await index.candidates("package"))?.sort()).toEqual(["/docs/api.md", "/docs/guide.md"]);
+		expect(await index.candidates("pack exp")).toEqual(["/docs/api.md"]);
+		expect(await index.candidates("missing")).toEqual([]);
+		expect(await index.candidates("pack.*", { regex: true })).toBeUndefined();
+	});
+
+	it("only reads the candidate files during a search", async () => {
+		const fileManager = await createFileManager();
+		const index = new SearchIndex(fileManager);
+		await index.build();
+		const getFileContent = spyOn(fileManager, "getFileContent");
+
+		const matches = await searchFiles(fileManager, "/docs/", "Install", { index });
+		expect(matches.map(({ path }) => path)).toEqual(["/docs/guide.md"]);
+		expect(getFileContent).toHaveBeenCalledTimes(1);
+	});
+
+	it("follows the changes made through the file manager", async () => {
+		const fileManager = await createFileManager();
+		const index = new SearchIndex(fileManager);
+		await index.build();
+		const watcher = index.watch();
+		await watcher.ready;
+
+		await fileManager.updateTextFile("/docs/new.md", "A brand new package");
+		await fileManager.move("/docs/guide.md", "/docs/install.md");
+		await fileManager.deleteFile("/docs/api.md");
+		expect((await index.candidates("package"))?.sort()).toEqual(["/docs/install.md", "/docs/new.md"]);
+		await watcher.close();
+	});
+
+	it("keeps the files that cannot be read for now, and forgets the deleted files", async () => {
+		const fileManager = await createFileManager();
+		const index = new SearchIndex(fileManager);
+		await index.build();
+
+		spyOn(fileManager, "getFileContent").mockRejectedValueOnce(new FileManagerError(429, "Rate limited"));
+		await expect(index.update("/docs/guide.md")).rejects.toMatchObject({ code: 429 });
+		expect(index.listFiles()).toContain("/docs/guide.md");
+
+		// A deleted candidate is skipped by the searches until the index forgets it
+		await fileManager.deleteFile("/docs/api.md");
+		const matches = await searchFiles(fileManager, "/", "package", { index });
+		expect(matches.map(({ path }) => path)).toEqual(["/docs/guide.md"]);
+		await index.update("/docs/api.md");
+		expect(index.listFiles()).not.toContain("/docs/api.md");
+	});
+
+	it("saves and reloads the index, reading again only the changed files", async () => {
+		const fileManager = await createFileManager();
+		const storage = new InMemoryFileManager();
+		const index = new SearchIndex(fileManager);
+		await index.build();
+		await index.save(storage, "/index.json");
+
+		await fileManager.updateTextFile("/docs/api.md", "Nothing to see");
+		const reloaded = new SearchIndex(fileManager);
+		await reloaded.load(storage, "/index.json");
+		const getFileContent = spyOn(fileManager, "getFileContent");
+		await reloaded.build();
+
+		expect(getFileContent).toHaveBeenCalledTimes(1);
+		expect(await reloaded.candidates("package")).toEqual(["/docs/guide.md"]);
+	});
+});
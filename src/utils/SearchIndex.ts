@@ -0,0 +1,204 @@
+import { FileNotFoundError } from "../services/FileManagerErrors";
+import type { FileManagerInterface, SearchOptions } from "../services/FileManagerInterface";
+import { mapConcurrently } from "./async-utils";
+import { findResources } from "./glob-utils";
+import { resolvePath } from "./path-utils";
+import type { Watcher } from "./Watcher";
+
+/**
+ * How many files are read at the same time when the index is built
+ */
+const INDEXING_CONCURRENCY = 8;
+
+/**
+ * The words of a text, in lower case
+ */
+const tokenize = (text: string): string[] => [...new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu))];
+
+/**
+ * The indexed words of a file, and the version of the file they were read from
+ */
+interface IndexedFile {
+	etag?: string;
+	tokens: string[];
+}
+
+/**
+ * The content of a saved index
+ */
+interface SavedIndex {
+	version: 1;
+	files: Record<string, IndexedFile>;
+}
+
+/**
+ * An inverted index of the words of the text files of a file manager :
+ * pass it to `search()` to only read the files that may contain the searched string.
+ * The index is kept up to date with the changes reported by `watch()`,
+ * and it can be saved to a file to be reloaded later (only the changed files are read again by `build()`).
+ */
+export class SearchIndex {
+	private fileManager: FileManagerInterface;
+	/**
+	 * The paths of the files containing each word
+	 */
+	private postings = new Map<string, Set<string>>();
+	private files = new Map<string, IndexedFile>();
+	/**
+	 * The updates triggered by the watched changes, and not yet applied
+	 */
+	private pending = new Set<Promise<void>>();
+
+	/**
+	 * @param fileManager The file manager whose files are indexed
+	 */
+	constructor(fileManager: FileManagerInterface) {
+		this.fileManager = fileManager;
+	}
+
+	/**
+	 * @returns the paths of the indexed files
+	 */
+	listFiles(): string[] {
+		return [...this.files.keys()].sort();
+	}
+
+	/**
+	 * Index all the text files of a directory, skipping the files whose etag has not changed
+	 * and forgetting the files that no longer exist
+	 * @param path The directory to index. Default: the root directory
+	 */
+	async build(path = "/"): Promise<void> {
+		const rscPath = resolvePath(path);
+		const dirPath = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+		const textFiles = [];
+		for await (const file of findResources(this.fileManager, { path: dirPath, type: "file" })) {
+			if (file.isText) textFiles.push(file);
+		}
+
+		const existing = new Set(textFiles.map((file) => file.path));
+		for (const indexed of this.files.keys()) {
+			if (indexed.startsWith(dirPath) && !existing.has(indexed)) this.remove(indexed);
+		}
+		await mapConcurrently(textFiles, INDEXING_CONCURRENCY, async (file) => {
+			if (!file.etag || this.files.get(file.path)?.etag !== file.etag) {
+				await this.update(file.path);
+			}
+		});
+	}
+
+	/**
+	 * Read a file again and index its new content
+	 * (the file is forgotten if it does not exist anymore, and kept as it was indexed when it cannot be read)
+	 */
+	async update(path: string): Promise<void> {
+		const rscPath = resolvePath(path);
+		try {
+			const [content, { etag }] = await Promise.all([
+				this.fileManager.getFileContent(rscPath),
+				this.fileManager.stat(rscPath)
+			]);
+			this.remove(rscPath);
+			this.add(rscPath, { etag, tokens: tokenize(content.toString()) });
+		} catch (err) {
+			if (!(err instanceof FileNotFoundError)) throw err;
+			this.remove(rscPath);
+		}
+	}
+
+	/**
+	 * Forget a file, or all the files of a directory
+	 */
+	remove(path: string) {
+		const rscPath = resolvePath(path);
+		for (const [indexedPath, { tokens }] of this.files) {
+			if (indexedPath === rscPath || (rscPath.endsWith("/") && indexedPath.startsWith(rscPath))) {
+				for (const token of tokens) {
+					const paths = this.postings.get(token);
+					paths?.delete(indexedPath);
+					if (paths?.size === 0) this.postings.delete(token);
+				}
+				this.files.delete(indexedPath);
+			}
+		}
+	}
+
+	private add(path: string, file: IndexedFile) {
+		this.files.set(path, file);
+		for (const token of file.tokens) {
+			const paths = this.postings.get(token) || new Set();
+			paths.add(path);
+			this.postings.set(token, paths);
+		}
+	}
+
+	/**
+	 * Find the files that may contain a query : each word of the query must be part of a word of the file
+	 * @returns the candidate files, or nothing if the index cannot tell (for a regular expression)
+	 */
+	async candidates(query: string, { regex }: SearchOptions = {}): Promise<string[] | undefined> {
+		await Promise.all(this.pending);
+		const queryTokens = tokenize(query);
+		if (regex || queryTokens.length === 0) return undefined;
+
+		let candidates: Set<string> | undefined;
+		for (const queryToken of queryTokens) {
+			const paths = new Set<string>();
+			for (const [token, tokenPaths] of this.postings) {
+				if (token.includes(queryToken)) {
+					for (const path of tokenPaths) paths.add(path);
+				}
+			}
+			candidates = candidates ? new Set([...candidates].filter((path) => paths.has(path))) : paths;
+		}
+		return [...(candidates || [])];
+	}
+
+	/**
+	 * Keep the index up to date with the changes of the file manager
+	 * @param path The watched directory. Default: the root directory
+	 * @returns The watcher : close it to stop updating the index. It fails when a changed file cannot be read
+	 * (the index may then miss the changes : call `build()` to catch up)
+	 */
+	watch(path = "/"): Watcher {
+		const watcher = this.fileManager.watch(path, { recursive: true });
+		watcher.on("change", ({ type, resource, from }) => {
+			if (from) this.remove(from.path);
+			if (type === "deleted") {
+				this.remove(resource.path);
+			} else if (resource.isText || resource.isDirectory) {
+				const update = (
+					resource.isDirectory ? this.build(resource.path) : this.update(resource.path)
+				).catch((err) => watcher.fail(err));
+				this.pending.add(update);
+				update.finally(() => this.pending.delete(update));
+			}
+		});
+		return watcher;
+	}
+
+	/**
+	 * Save the index to a JSON file
+	 * @param fileManager Where to save the index
+	 * @param path The path of the index file
+	 */
+	async save(fileManager: FileManagerInterface, path: string): Promise<void> {
+		await Promise.all(this.pending);
+		const saved: SavedIndex = { version: 1, files: Object.fromEntries(this.files) };
+		await fileManager.updateTextFile(path, JSON.stringify(saved));
+	}
+
+	/**
+	 * Replace the content of the index with a saved index : call `build()` next to index the files changed since
+	 * @param fileManager Where the index was saved
+	 * @param path The path of the index file
+	 */
+	async load(fileManager: FileManagerInterface, path: string): Promise<void> {
+		const saved: SavedIndex = JSON.parse((await fileManager.getFileContent(path)).toString());
+		this.files.clear();
+		this.postings.clear();
+		for (const [filePath, file] of Object.entries(saved.files)) {
+			this.add(filePath, file);
+		}
+	}
+}
@@ -0,0 +1,163 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { FileNotFoundError } from "../services/FileManagerErrors";
+import type { Revision, WriteOptions } from "../services/FileManagerInterface";
+import { normalizePath } from "./path-utils";
+
+/**
+ * Keeps the successive versions of the files written by a file manager
+ * whose backend has no history of its own (local file system, memory)
+ */
+export interface SnapshotStore {
+	/**
+	 * Records a new version of a file
+	 * @param path The path of the file
+	 * @param content The new content of the file
+	 * @param options The message and author of the change
+	 * @returns the created revision
+	 */
+	save(path: string, content: Uint8Array, options?: WriteOptions): Promise<Revision>;
+
+	/**
+	 * @returns the revisions of a file, the most recent first
+	 */
+	list(path: string): Promise<Revision[]>;
+
+	/**
+	 * @returns the content of a file at a revision
+	 * @throws FileNotFoundError if the file has no such revision
+	 */
+	get(path: string, revision: string): Promise<Uint8Array>;
+}
+
+/**
+ * Describes the next revision of a file (revisions ids are sequence numbers)
+ */
+const createRevision = (
+	previousRevisions: Revision[],
+	content: Uint8Array,
+	{ author, message }: WriteOptions = {}
+): Revision => ({
+	id: String(previousRevisions.length + 1),
+	timestamp: new Date(),
+	author,
+	size: content.length,
+	message
+});
+
+/**
+ * Keeps the snapshots in memory : they are lost when the process exits
+ */
+export class InMemorySnapshotStore implements SnapshotStore {
+	private snapshots = new Map<string, Array<{ revision: Revision; content: Uint8Array }>>();
+
+	async save(path: string, content: Uint8Array, options?: WriteOptions): Promise<Revision> {
+		const key = normalizePath(path);
+		const snapshots = this.snapshots.get(key) || [];
+		const revision = createRevision(
+			snapshots.map((snapshot) => snapshot.revision),
+			content,
+			options
+		);
+		snapshots.push({ revision, content: new Uint8Array(content) });
+		this.snapshots.set(key, snapshots);
+		return revision;
+	}
+
+	async list(path: string): Promise<Revision[]> {
+		return (this.snapshots.get(normalizePath(path)) || []).map(({ revision }) => revision).reverse();
+	}
+
+	async get(path: string, revision: string): Promise<Uint8Array> {
+		const snapshot = this.snapshots.get(normalizePath(path))?.find((s) => s.revision.id === revision);
+		if (!snapshot) {
+			throw new FileNotFoundError(path, `Revision '${revision}' of '${path}' does not exist`);
+		}
+		return snapshot.content;
+	}
+}
+
+/**
+ * The `revisions.json` index of the snapshots of a file
+ */
+interface SnapshotsIndex {
+	path: string;
+	revisions: Revision[];
+}
+
+/**
+ * Keeps the snapshots inside a directory of the local file system :
+ * each file gets a sub-directory with one file per revision and a `revisions.json` index
+ */
+export class DirectorySnapshotStore implements SnapshotStore {
+	private dir: string;
+	/**
+	 * The saves of a file are made one after the other, by path
+	 */
+	private lastSaves = new Map<string, Promise<unknown>>();
+
+	/**
+	 * @param dir The directory where the snapshots are stored (it should be outside of the managed files)
+	 */
+	constructor(dir: string) {
+		this.dir = dir;
+	}
+
+	/**
+	 * Each file path is hashed to a directory name (the path itself can be longer than a file name)
+	 */
+	private getSnapshotsDir(path: string): string {
+		return join(this.dir, createHash("sha1").update(normalizePath(path)).digest("hex"));
+	}
+
+	save(path: string, content: Uint8Array, options?: WriteOptions): Promise<Revision> {
+		const key = normalizePath(path);
+		const save = (this.lastSaves.get(key) || Promise.resolve()).then(async () => {
+			const snapshotsDir = this.getSnapshotsDir(path);
+			const revisions = await this.readIndex(path);
+			const revision = createRevision(revisions, content, options);
+			const index: SnapshotsIndex = { path: key, revisions: [...revisions, revision] };
+
+			await mkdir(snapshotsDir, { recursive: true });
+			await writeFile(join(snapshotsDir, revision.id), content);
+			await writeFile(join(snapshotsDir, "revisions.json"), JSON.stringify(index));
+			return revision;
+		});
+		// A failed save must not block the next ones
+		const lastSave = save.catch(() => undefined);
+		this.lastSaves.set(key, lastSave);
+		lastSave.then(() => {
+			if (this.lastSaves.get(key) === lastSave) this.lastSaves.delete(key);
+		});
+		return save;
+	}
+
+	async list(path: string): Promise<Revision[]> {
+		return (await this.readIndex(path)).reverse();
+	}
+
+	async get(path: string, revision: string): Promise<Uint8Array> {
+		const revisions = await this.readIndex(path);
+		if (!revisions.some(({ id }) => id === revision)) {
+			throw new FileNotFoundError(path, `Revision '${revision}' of '${path}' does not exist`);
+		}
+		return new Uint8Array(await readFile(join(this.getSnapshotsDir(path), revision)));
+	}
+
+	/**
+	 * Read the revisions of a file, the oldest first
+	 */
+	private async readIndex(path: string): Promise<Revision[]> {
+		try {
+			const index = await readFile(join(this.getSnapshotsDir(path), "revisions.json"), "utf-8");
+			return (JSON.parse(index) as SnapshotsIndex).revisions.map((revision) => ({
+				...revision,
+				timestamp: new Date(revision.timestamp)
+			}));
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+			throw err;
+		}
+	}
+}
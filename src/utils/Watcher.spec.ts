@@ -0,0 +1,128 @@
+import { describe, expect, it } from "bun:test";
+import type { ChangeEvent } from "../services/FileManagerInterface";
+import { ResourceInfo } from "./ResourceInfo";
+import { diffResources, isWatchedPath, Watcher } from "./Watcher";
+
+const file = (path: string, etag?: string) => new ResourceInfo(path, { type: "file", etag });
+
+describe("isWatchedPath()", () => {
+	it("matches the watched file itself", () => {
+		expect(isWatchedPath("/a.txt", "/a.txt")).toBeTrue();
+		expect(isWatchedPath("/b.txt", "/a.txt")).toBeFalse();
+	});
+
+	it("matches the direct children of a directory, or all its descendants when recursive", () => {
+		expect(isWatchedPath("/dir/a.txt", "/dir/")).toBeTrue();
+		expect(isWatchedPath("/dir/sub/", "/dir/")).toBeTrue();
+		expect(isWatchedPath("/dir/sub/a.txt", "/dir/")).toBeFalse();
+		expect(isWatchedPath("/dir/sub/a.txt", "/dir/", true)).toBeTrue();
+		expect(isWatchedPath("/directory/a.txt", "/dir/", true)).toBeFalse();
+	});
+});
+
+describe("diffResources()", () => {
+	it("describes the created, updated, deleted and moved files", () => {
+		const before = [
+			file("/kept.txt", "1"),
+			file("/edited.txt", "2"),
+			file("/old.txt", "3"),
+			file("/gone.txt", "4")
+		];
+		const after = [
+			file("/kept.txt", "1"),
+			file("/edited.txt", "5"),
+			file("/new.txt", "3"),
+			file("/added.txt", "6")
+		];
+
+		const changes = diffResources(before, after, "c1");
+
+		expect(changes.map(({ type, resource, from }) => [type, resource.path, from?.path])).toEqual([
+			["updated", "/edited.txt", undefined],
+			["moved", "/new.txt", "/old.txt"],
+			["deleted", "/gone.txt", undefined],
+			["created", "/added.txt", undefined]
+		]);
+		expect(changes.every(({ cursor }) => cursor === "c1")).toBeTrue();
+	});
+});
+
+describe("Watcher", () => {
+	const change = (type: ChangeEvent["type"], path: string, cursor?: string): ChangeEvent => ({
+		type,
+		resource: file(path),
+		cursor
+	});
+
+	it("delivers the changes of the watched path to the iterator and to the listeners", async () => {
+		const watcher = new Watcher("/dir/");
+		const listened: ChangeEvent[] = [];
+		watcher.on("change", (event) => listened.push(event));
+
+		const iterator = watcher[Symbol.asyncIterator]();
+		watcher.push(change("created", "/dir/a.txt", "1"));
+		watcher.push(change("created", "/other/b.txt", "2"));
+		watcher.push(change("deleted", "/dir/a.txt", "3"));
+		await watcher.close();
+
+		expect((await iterator.next()).value).toMatchObject({ type: "created" });
+		expect((await iterator.next()).value).toMatchObject({ type: "deleted" });
+		expect((await iterator.next()).done).toBeTrue();
+		expect(listened.length).toBe(2);
+		expect(watcher.cursor).toBe("3");
+	});
+
+	it("keeps the changes until they are consumed", async () => {
+		const watcher = new Watcher("/");
+		watcher.push(change("created", "/a.txt"));
+		watcher.push(change("created", "/b.txt"));
+
+		const events: ChangeEvent[] = [];
+		for await (const event of watcher) {
+			events.push(event);
+			if (events.length === 2) break;
+		}
+		expect(events.map(({ resource }) => resource.path)).toEqual(["/a.txt", "/b.txt"]);
+		expect(watcher.closed).toBeTrue();
+	});
+
+	it("merges the successive changes of a resource when debouncing", async () => {
+		const watcher = new Watcher("/", { debounce: 20 });
+		watcher.push(change("created", "/a.txt"));
+		watcher.push(change("updated", "/a.txt"));
+		watcher.push(change("created", "/b.txt"));
+		watcher.push(change("deleted", "/b.txt"));
+		watcher.push(change("deleted", "/c.txt"));
+		watcher.push(change("created", "/c.txt"));
+
+		const events: ChangeEvent[] = [];
+		for await (const event of watcher) {
+			events.push(event);
+			if (events.length === 2) break;
+		}
+		expect(events.map(({ type, resource }) => [type, resource.path])).toEqual([
+			["created", "/a.txt"],
+			["updated", "/c.txt"]
+		]);
+	});
+
+	it("throws the error that stopped the watcher", async () => {
+		const watcher = new Watcher("/");
+		watcher.push(change("created", "/a.txt"));
+		watcher.fail(new Error("Connection lost"));
+
+		const iterator = watcher[Symbol.asyncIterator]();
+		expect((await iterator.next()).value).toMatchObject({ type: "created" });
+		await expect(iterator.next()).rejects.toThrow("Connection lost");
+	});
+
+	it("runs the cleanups when closed", async () => {
+		const watcher = new Watcher("/");
+		let stopped = false;
+		watcher.onClose(() => {
+			stopped = true;
+		});
+		await watcher.close();
+		expect(stopped).toBeTrue();
+	});
+});
@@ -0,0 +1,260 @@
+import { EventEmitter } from "node:events";
+import type { ChangeEvent, WatchOptions } from "../services/FileManagerInterface";
+import { resolvePath } from "./path-utils";
+import type { ResourceInfo } from "./ResourceInfo";
+
+/**
+ * Tells if a resource is the watched resource or inside the watched directory
+ * @param rscPath The resolved path of the changed resource
+ * @param watchedPath The resolved path of the watched file or directory
+ * @param recursive Pass TRUE to include the content of the sub directories
+ */
+export const isWatchedPath = (rscPath: string, watchedPath: string, recursive = false) => {
+	const dirPath = watchedPath.endsWith("/") ? watchedPath : `${watchedPath}/`;
+	if (rscPath === watchedPath || rscPath === dirPath) return true;
+	if (!rscPath.startsWith(dirPath)) return false;
+	return recursive || !rscPath.substring(dirPath.length).replace(/\/$/, "").includes("/");
+};
+
+/**
+ * Merges two successive changes of the same resource into one
+ * @returns the merged change, or nothing if the changes cancel each other
+ */
+const mergeChanges = (previous: ChangeEvent, next: ChangeEvent): ChangeEvent | undefined => {
+	if (previous.type === "created" && next.type === "deleted") return undefined;
+	if (previous.type === "created" && next.type === "updated") return { ...next, type: "created" };
+	if (previous.type === "deleted" && next.type === "created") return { ...next, type: "updated" };
+	if (previous.type === "moved" && next.type === "updated")
+		return { ...next, type: "moved", from: previous.from };
+	return next;
+};
+
+/**
+ * Compares two listings of the files of a backend and describes the changes between them.
+ * A deleted file and a created file with the same etag are reported as a move.
+ * @param before The files before the changes
+ * @param after The files after the changes
+ * @param cursor The cursor given to the changes
+ */
+export const diffResources = (
+	before: ResourceInfo[],
+	after: ResourceInfo[],
+	cursor?: string
+): ChangeEvent[] => {
+	const previousFiles = new Map(before.map((rsc) => [rsc.path, rsc]));
+	const currentFiles = new Map(after.map((rsc) => [rsc.path, rsc]));
+	const created: ResourceInfo[] = [];
+	const changes: ChangeEvent[] = [];
+
+	for (const resource of after) {
+		const previous = previousFiles.get(resource.path);
+		if (!previous) {
+			created.push(resource);
+		} else if (previous.etag !== resource.etag) {
+			changes.push({ type: "updated", resource, cursor });
+		}
+	}
+	for (const previous of before) {
+		if (currentFiles.has(previous.path)) continue;
+		const movedIndex = previous.etag ? created.findIndex(({ etag }) => etag === previous.etag) : -1;
+		if (movedIndex === -1) {
+			changes.push({ type: "deleted", resource: previous, cursor });
+		} else {
+			const [resource] = created.splice(movedIndex, 1);
+			changes.push({ type: "moved", resource, from: previous, cursor });
+		}
+	}
+	return changes.concat(created.map((resource) => ({ type: "created", resource, cursor })));
+};
+
+interface PendingChange {
+	event: ChangeEvent;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Delivers the changes noticed by a file manager, either as an async iterator
+ * or to the listeners of its `change` event.
+ * The file managers push the changes they see : only the changes of the watched path are delivered.
+ */
+export class Watcher extends EventEmitter implements AsyncIterable<ChangeEvent> {
+	/**
+	 * The cursor of the last delivered change (or the one the watcher started from)
+	 */
+	cursor?: string;
+	closed = false;
+	/**
+	 * Resolves once the file manager has started watching its backend (or once the watcher is closed) :
+	 * the changes made before may not be reported
+	 */
+	readonly ready: Promise<void>;
+
+	readonly path: string;
+	readonly recursive: boolean;
+	private debounce: number;
+	private pending = new Map<string, PendingChange>();
+	private queue: ChangeEvent[] = [];
+	private iterating = false;
+	private waiting: Array<{
+		resolve: (result: IteratorResult<ChangeEvent>) => void;
+		reject: (err: Error) => void;
+	}> = [];
+	private error?: Error;
+	private cleanups: Array<() => unknown> = [];
+	private markReady!: () => void;
+
+	/**
+	 * @param path The watched file or directory
+	 * @throws PathError if the path is outside of the root directory
+	 */
+	constructor(path: string, { recursive = false, debounce = 0, cursor }: WatchOptions = {}) {
+		super();
+		this.path = resolvePath(path);
+		this.recursive = recursive;
+		this.debounce = debounce;
+		this.cursor = cursor;
+		this.ready = new Promise((resolve) => {
+			this.markReady = resolve;
+		});
+	}
+
+	/**
+	 * Tell that the backend is being watched
+	 */
+	started() {
+		this.markReady();
+	}
+
+	/**
+	 * Report a change (ignored if it is outside of the watched path)
+	 */
+	push(event: ChangeEvent) {
+		if (this.closed) return;
+		const { resource, from } = event;
+		const isWatched = (rscPath: string) => isWatchedPath(rscPath, this.path, this.recursive);
+		if (!isWatched(resource.path) && !(from && isWatched(from.path))) return;
+
+		if (this.debounce <= 0) {
+			this.deliver(event);
+			return;
+		}
+
+		const previous = this.pending.get(resource.path);
+		if (previous) clearTimeout(previous.timer);
+		const merged = previous ? mergeChanges(previous.event, event) : event;
+		if (!merged) {
+			this.pending.delete(resource.path);
+			return;
+		}
+		this.pending.set(resource.path, {
+			event: merged,
+			timer: setTimeout(() => {
+				this.pending.delete(resource.path);
+				this.deliver(merged);
+			}, this.debounce)
+		});
+	}
+
+	/**
+	 * Stop the watcher because of an error : the iterator throws it once the delivered changes are consumed
+	 */
+	fail(err: Error) {
+		if (this.closed) return;
+		if (this.listenerCount("error") > 0) this.emit("error", err);
+		this.error = err;
+		for (const { reject } of this.waiting.splice(0)) reject(err);
+		void this.close();
+	}
+
+	/**
+	 * Register what to do to stop watching the backend
+	 */
+	onClose(cleanup: () => unknown) {
+		this.cleanups.push(cleanup);
+	}
+
+	/**
+	 * Stop watching : the debounced changes are delivered, then the iteration ends
+	 */
+	async close() {
+		if (this.closed) return;
+		for (const { event, timer } of this.pending.values()) {
+			clearTimeout(timer);
+			this.deliver(event);
+		}
+		this.pending.clear();
+		this.closed = true;
+		this.markReady();
+		for (const { resolve } of this.waiting.splice(0)) resolve({ value: undefined, done: true });
+		await Promise.all(this.cleanups.map((cleanup) => cleanup()));
+		this.emit("close");
+	}
+
+	private deliver(event: ChangeEvent) {
+		if (event.cursor) this.cursor = event.cursor;
+		this.emit("change", event);
+		const waiting = this.waiting.shift();
+		if (waiting) {
+			waiting.resolve({ value: event, done: false });
+		} else if (this.iterating || this.listenerCount("change") === 0) {
+			// The changes are kept until someone consumes them
+			this.queue.push(event);
+		}
+	}
+
+	private next(): Promise<IteratorResult<ChangeEvent>> {
+		const event = this.queue.shift();
+		if (event) return Promise.resolve({ value: event, done: false });
+		if (this.error) return Promise.reject(this.error);
+		if (this.closed) return Promise.resolve({ value: undefined, done: true });
+		return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+	}
+
+	[Symbol.asyncIterator](): AsyncIterator<ChangeEvent> {
+		this.iterating = true;
+		return {
+			next: () => this.next(),
+			return: async () => {
+				await this.close();
+				return { value: undefined, done: true };
+			}
+		};
+	}
+}
+
+/**
+ * Gathers the changes reported by several watchers into one watcher.
+ * Its cursor is made of the cursors of each watcher, by name.
+ * @param watcher The watcher receiving all the changes (its cursor, if any, tells where to resume each watcher)
+ * @param sources Start each watcher, by name, from its own cursor
+ * @param translate Describes a change in the terms of the gathering watcher (return nothing to ignore the change)
+ * @returns The gathering watcher
+ */
+export const combineWatchers = (
+	watcher: Watcher,
+	sources: Map<string, (cursor?: string) => Watcher>,
+	translate: (name: string, event: ChangeEvent) => ChangeEvent | undefined
+): Watcher => {
+	const cursors: Record<string, string | undefined> = watcher.cursor ? JSON.parse(watcher.cursor) : {};
+
+	const innerWatchers = [...sources].map(([name, watch]) => {
+		const innerWatcher = watch(cursors[name]);
+		innerWatcher.on("change", (event: ChangeEvent) => {
+			cursors[name] = event.cursor;
+			const translated = translate(name, event);
+			if (translated) watcher.push({ ...translated, cursor: JSON.stringify(cursors) });
+		});
+		innerWatcher.on("error", (err) => watcher.fail(err));
+		return { name, innerWatcher };
+	});
+
+	Promise.all(innerWatchers.map(({ innerWatcher }) => innerWatcher.ready)).then(() => {
+		for (const { name, innerWatcher } of innerWatchers) {
+			cursors[name] ??= innerWatcher.cursor;
+		}
+		watcher.cursor = JSON.stringify(cursors);
+		watcher.started();
+	});
+	watcher.onClose(() => Promise.all(innerWatchers.map(({ innerWatcher }) => innerWatcher.close())));
+	return watcher;
+};
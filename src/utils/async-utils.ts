@@ -0,0 +1,26 @@
+/**
+ * Maps a list of items with an async function,
+ * never running more than `concurrency` calls at the same time
+ * @param items The items to map
+ * @param concurrency The maximum number of pending calls
+ * @param mapper The async function to apply to each item
+ * @returns The mapped results, in the same order as the items
+ */
+export const mapConcurrently = async <T, R>(
+	items: T[],
+	concurrency: number,
+	mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await mapper(items[index], index);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+	return results;
+};
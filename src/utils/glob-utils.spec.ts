@@ -0,0 +1,87 @@
+import { describe, expect, it } from "bun:test";
+import { InMemoryFileManager } from "../services/InMemoryFileManager";
+import { createResourceFinder, expandBraces, findResources, matchGlob } from "./glob-utils";
+import { ResourceInfo } from "./ResourceInfo";
+
+const find = async (...args: Parameters<typeof findResources>) => {
+	const paths: string[] = [];
+	for await (const resource of findResources(...args)) paths.push(resource.path);
+	return paths;
+};
+
+describe("expandBraces()", () => {
+	it("expands the alternatives, including the nested ones", () => {
+		expect(expandBraces("*.{md,txt}")).toEqual(["*.md", "*.txt"]);
+		expect(expandBraces("{a,b/{c,d}}/e")).toEqual(["a/e", "b/c/e", "b/d/e"]);
+		expect(expandBraces("no{brace")).toEqual(["no{brace"]);
+	});
+});
+
+describe("matchGlob()", () => {
+	it("matches the wildcards inside a segment", () => {
+		expect(matchGlob("content/index.md", "content/*.md")).toBeTrue();
+		expect(matchGlob("content/posts/index.md", "content/*.md")).toBeFalse();
+		expect(matchGlob("a1.txt", "a?.txt")).toBeTrue();
+		expect(matchGlob("a1.txt", "a[0-9].txt")).toBeTrue();
+		expect(matchGlob("ab.txt", "a[!b].txt")).toBeFalse();
+		expect(matchGlob("file.md", "file.(md)")).toBeFalse();
+	});
+
+	it("matches any number of directories with **", () => {
+		expect(matchGlob("content/index.md", "content/**/*.md")).toBeTrue();
+		expect(matchGlob("content/a/b/c.md", "content/**/*.md")).toBeTrue();
+		expect(matchGlob("other/c.md", "content/**/*.md")).toBeFalse();
+		expect(matchGlob("/content/a/", "**/a")).toBeTrue();
+	});
+});
+
+describe("createResourceFinder()", () => {
+	it("only explores the directories that can contain matches", () => {
+		const finder = createResourceFinder({
+			path: "/site",
+			pattern: ["content/*/*.md", "!content/drafts"]
+		});
+		expect(finder.root).toBe("/site/");
+		expect(finder.explores("/site/content/")).toBeTrue();
+		expect(finder.explores("/site/content/posts/")).toBeTrue();
+		expect(finder.explores("/site/content/posts/2024/")).toBeFalse();
+		expect(finder.explores("/site/content/drafts/")).toBeFalse();
+		expect(finder.explores("/site/assets/")).toBeFalse();
+	});
+
+	it("filters by type, extension, depth and predicate", () => {
+		const finder = createResourceFinder({
+			extensions: [".GZ", "md"],
+			maxDepth: 2,
+			filter: (resource) => resource.name !== "skip"
+		});
+		expect(finder.matches(new ResourceInfo("/backup.tar.gz"))).toBeTrue();
+		expect(finder.matches(new ResourceInfo("/a/readme.md"))).toBeTrue();
+		expect(finder.matches(new ResourceInfo("/a/b/readme.md"))).toBeFalse();
+		expect(finder.matches(new ResourceInfo("/skip.md"))).toBeFalse();
+		expect(finder.matches(new ResourceInfo("/a/"))).toBeFalse();
+		expect(createResourceFinder({ type: "dir" }).matches(new ResourceInfo("/a/"))).toBeTrue();
+	});
+});
+
+describe("findResources()", () => {
+	it("walks the tree without listing the pruned directories", async () => {
+		const fileManager = new InMemoryFileManager();
+		await fileManager.updateTextFile("/content/index.md", "Index");
+		await fileManager.updateTextFile("/content/posts/first.md", "First");
+		await fileManager.updateTextFile("/node_modules/lib/readme.md", "Lib");
+		const listed: string[] = [];
+		const listDirectoryContent = fileManager.listDirectoryContent.bind(fileManager);
+		fileManager.listDirectoryContent = (path, recursive) => {
+			listed.push(path);
+			return listDirectoryContent(path, recursive);
+		};
+
+		expect(await find(fileManager, { pattern: ["**/*.md", "!node_modules"] })).toEqual([
+			"/content/index.md",
+			"/content/posts/first.md"
+		]);
+		expect(listed).toEqual(["/", "/content/", "/content/posts/"]);
+		expect(await find(fileManager, "*.md")).toEqual([]);
+	});
+});
@@ -0,0 +1,205 @@
+import type { FileManagerInterface, FindOptions } from "../services/FileManagerInterface";
+import { resolvePath } from "./path-utils";
+import type { ResourceInfo } from "./ResourceInfo";
+
+/**
+ * A glob pattern split on the slashes : each segment is a RegExp, or `**` for any number of directories
+ */
+type GlobSegments = (RegExp | "**")[];
+
+/**
+ * Expands the alternatives of a pattern : `*.{md,txt}` => `*.md`, `*.txt`
+ */
+export const expandBraces = (pattern: string): string[] => {
+	const start = pattern.indexOf("{");
+	if (start < 0) return [pattern];
+
+	// Find the matching closing brace and the commas of this level
+	let depth = 0;
+	const commas: number[] = [];
+	for (let i = start; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "{") depth++;
+		else if (char === "}" && --depth === 0) {
+			const before = pattern.substring(0, start);
+			const after = pattern.substring(i + 1);
+			const bounds = [start, ...commas, i];
+			return bounds
+				.slice(1)
+				.flatMap((end, n) =>
+					expandBraces(`${before}${pattern.substring(bounds[n] + 1, end)}${after}`)
+				);
+		} else if (char === "," && depth === 1) commas.push(i);
+	}
+	// An unbalanced brace is a plain character
+	return [pattern];
+};
+
+/**
+ * Translates a segment of a glob pattern (without slashes or braces) to a RegExp
+ */
+const segmentToRegExp = (segment: string): RegExp => {
+	let source = "";
+	for (let i = 0; i < segment.length; i++) {
+		const char = segment[i];
+		if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "[" && segment.indexOf("]", i + 2) > 0) {
+			const end = segment.indexOf("]", i + 2);
+			const chars = segment.substring(i + 1, end).replace(/\\/g, "\\\\");
+			source += chars.startsWith("!") ? `[^${chars.substring(1)}]` : `[${chars}]`;
+			i = end;
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+};
+
+/**
+ * Compiles a glob pattern, after expanding its braces
+ */
+const compileGlob = (pattern: string): GlobSegments[] =>
+	expandBraces(pattern).map((expanded) =>
+		expanded
+			.split("/")
+			.filter(Boolean)
+			.map((segment) => (segment === "**" ? "**" : segmentToRegExp(segment)))
+	);
+
+/**
+ * Tells if the segments of a path match the segments of a glob
+ */
+const matchSegments = (glob: GlobSegments, segments: string[]): boolean => {
+	if (glob.length === 0) return segments.length === 0;
+	const [first, ...rest] = glob;
+	if (first === "**") {
+		// `**` matches any number of segments, including none
+		for (let i = 0; i <= segments.length; i++) {
+			if (matchSegments(rest, segments.slice(i))) return true;
+		}
+		return false;
+	}
+	return segments.length > 0 && first.test(segments[0]) && matchSegments(rest, segments.slice(1));
+};
+
+/**
+ * Tells if a resource inside a directory can match a glob
+ */
+const canMatchInside = (glob: GlobSegments, dirSegments: string[]): boolean => {
+	for (let i = 0; i < dirSegments.length; i++) {
+		const segment = glob[i];
+		if (segment === "**") return true;
+		if (!segment?.test(dirSegments[i])) return false;
+	}
+	return glob.length > dirSegments.length;
+};
+
+/**
+ * Tells if a path matches a glob pattern.
+ * `*` and `?` match any characters but the slash, `**` matches any number of directories,
+ * `[abc]` matches one of the characters and `{a,b}` one of the alternatives.
+ * @param path A relative path (the leading and trailing slashes are ignored)
+ * @param pattern The glob pattern
+ */
+export const matchGlob = (path: string, pattern: string): boolean => {
+	const segments = path.split("/").filter(Boolean);
+	return compileGlob(pattern).some((glob) => matchSegments(glob, segments));
+};
+
+/**
+ * A compiled `find()` query
+ */
+export interface ResourceFinder {
+	/**
+	 * The directory where the search starts
+	 */
+	root: string;
+	/**
+	 * Tells if a resource found under the root is part of the results
+	 */
+	matches(resource: ResourceInfo): boolean;
+	/**
+	 * Tells if the content of a directory can contain results :
+	 * the other directories are not listed
+	 */
+	explores(dirPath: string): boolean;
+}
+
+/**
+ * Compiles the patterns and the filters of a `find()` query
+ * @param query A glob pattern, or the search options
+ */
+export const createResourceFinder = (query: string | FindOptions): ResourceFinder => {
+	const {
+		path = "/",
+		pattern = "**",
+		type,
+		extensions,
+		maxDepth,
+		filter
+	} = typeof query === "string" ? { pattern: query } : query;
+	const rscPath = resolvePath(path);
+	const root = rscPath.endsWith("/") ? rscPath : `${rscPath}/`;
+
+	const patterns = Array.isArray(pattern) ? pattern : [pattern];
+	const includes = patterns.filter((glob) => !glob.startsWith("!")).flatMap(compileGlob);
+	const excludes = patterns
+		.filter((glob) => glob.startsWith("!"))
+		.flatMap((glob) => compileGlob(glob.substring(1)));
+	if (includes.length === 0) includes.push(["**"]);
+	const exts = extensions?.map((ext) => ext.replace(/^\./, "").toLowerCase());
+
+	const relativeSegments = (path: string) => path.substring(root.length).split("/").filter(Boolean);
+	const isExcluded = (segments: string[]) => excludes.some((glob) => matchSegments(glob, segments));
+
+	return {
+		root,
+		matches: (resource) => {
+			if (!resource.path.startsWith(root) || resource.path === root) return false;
+			if (type === "file" && !resource.isFile) return false;
+			if (type === "dir" && !resource.isDirectory) return false;
+			const hasExtension = (ext: string) => resource.ext === ext || resource.ext.endsWith(`.${ext}`);
+			if (exts && !exts.some(hasExtension)) return false;
+
+			const segments = relativeSegments(resource.path);
+			if (maxDepth !== undefined && segments.length > maxDepth) return false;
+			if (isExcluded(segments) || !includes.some((glob) => matchSegments(glob, segments))) return false;
+			return filter ? filter(resource) : true;
+		},
+		explores: (dirPath) => {
+			const segments = relativeSegments(dirPath);
+			if (maxDepth !== undefined && segments.length >= maxDepth) return false;
+			// An excluded directory hides all its content
+			if (isExcluded(segments)) return false;
+			return includes.some((glob) => canMatchInside(glob, segments));
+		}
+	};
+};
+
+/**
+ * Walks the tree of a file manager level by level, without listing the directories that cannot contain results
+ * @param fileManager The file manager to search
+ * @param query A glob pattern, or the search options
+ * @returns The matching files and directories, each directory coming before its content
+ */
+export async function* findResources(
+	fileManager: FileManagerInterface,
+	query: string | FindOptions
+): AsyncGenerator<ResourceInfo> {
+	const finder = createResourceFinder(query);
+	if (!finder.explores(finder.root)) return;
+
+	async function* walk(dirPath: string): AsyncGenerator<ResourceInfo> {
+		const resources = await fileManager.listDirectoryContent(dirPath);
+		for (const resource of resources.sort((a, b) => a.path.localeCompare(b.path))) {
+			if (finder.matches(resource)) yield resource;
+			if (resource.isDirectory && finder.explores(resource.path)) {
+				yield* walk(resource.path);
+			}
+		}
+	}
+	yield* walk(finder.root);
+}
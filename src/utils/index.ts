@@ -1,2 +1,14 @@
+export * from "./glob-utils";
+export * from "./mime-utils";
+export * from "./paging-utils";
 export * from "./path-utils";
+export * from "./precondition-utils";
 export * from "./ResourceInfo";
+export * from "./stream-utils";
+export * from "./transfer-utils";
+export * from "./async-utils";
+export * from "./search-utils";
+export * from "./sigv4-utils";
+export * from "./SearchIndex";
+export * from "./SnapshotStore";
+export * from "./Watcher";
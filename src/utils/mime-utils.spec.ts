@@ -0,0 +1,16 @@
+import { describe, expect, it } from "bun:test";
+import { getMimeType } from "./mime-utils";
+import { ResourceInfo } from "./ResourceInfo";
+
+describe("getMimeType()", () => {
+	it("guesses the MIME type from the extension", () => {
+		expect(getMimeType(new ResourceInfo("/docs/index.md"))).toBe("text/markdown");
+		expect(getMimeType(new ResourceInfo("/images/logo.PNG"))).toBe("image/png");
+		expect(getMimeType(new ResourceInfo("/backups/site.tar.gz"))).toBe("application/gzip");
+	});
+
+	it("falls back on the generic text and binary types", () => {
+		expect(getMimeType(new ResourceInfo("/src/main.rs"))).toBe("text/plain");
+		expect(getMimeType(new ResourceInfo("/data/dump.bin"))).toBe("application/octet-stream");
+	});
+});
@@ -0,0 +1,52 @@
+import type { ResourceInfo } from "./ResourceInfo";
+
+/**
+ * The MIME types of the usual file extensions
+ */
+const MIME_TYPES: Record<string, string> = {
+	avif: "image/avif",
+	css: "text/css",
+	csv: "text/csv",
+	docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+	gif: "image/gif",
+	gz: "application/gzip",
+	htm: "text/html",
+	html: "text/html",
+	ico: "image/x-icon",
+	jpeg: "image/jpeg",
+	jpg: "image/jpeg",
+	js: "text/javascript",
+	json: "application/json",
+	md: "text/markdown",
+	mjs: "text/javascript",
+	mp3: "audio/mpeg",
+	mp4: "video/mp4",
+	odt: "application/vnd.oasis.opendocument.text",
+	otf: "font/otf",
+	pdf: "application/pdf",
+	png: "image/png",
+	pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+	svg: "image/svg+xml",
+	tar: "application/x-tar",
+	ttf: "font/ttf",
+	txt: "text/plain",
+	wav: "audio/wav",
+	webm: "video/webm",
+	webp: "image/webp",
+	woff: "font/woff",
+	woff2: "font/woff2",
+	xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	xml: "application/xml",
+	yaml: "application/yaml",
+	yml: "application/yaml",
+	zip: "application/zip"
+};
+
+/**
+ * Guesses the MIME type of a file from its extension (the last one : `archive.tar.gz` is a gzip file)
+ * @returns `text/plain` for the other text files, and `application/octet-stream` for the unknown extensions
+ */
+export const getMimeType = (resource: ResourceInfo): string => {
+	const ext = resource.ext.split(".").pop() || "";
+	return MIME_TYPES[ext] || (resource.isText ? "text/plain" : "application/octet-stream");
+};
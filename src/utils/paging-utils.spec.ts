@@ -0,0 +1,46 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { FileManagerError } from "../services/FileManagerErrors";
+import { InMemoryFileManager } from "../services/InMemoryFileManager";
+import { iteratePages, paginate, parseOffsetCursor } from "./paging-utils";
+import { ResourceInfo } from "./ResourceInfo";
+
+describe("paginate()", () => {
+	const resources = ["/c.txt", "/a.txt", "/b.txt"].map((path) => new ResourceInfo(path));
+
+	it("cuts the sorted listing in pages", () => {
+		const first = paginate(resources, { pageSize: 2 });
+		expect(first.items.map(({ path }) => path)).toEqual(["/a.txt", "/b.txt"]);
+		expect(first.cursor).toBe("2");
+
+		const last = paginate(resources, { pageSize: 2, cursor: first.cursor });
+		expect(last.items.map(({ path }) => path)).toEqual(["/c.txt"]);
+		expect(last.cursor).toBeUndefined();
+	});
+
+	it("rejects the invalid page sizes and cursors", () => {
+		expect(() => paginate(resources, { pageSize: 0 })).toThrow(FileManagerError);
+		expect(() => paginate(resources, { cursor: "next" })).toThrow(FileManagerError);
+		expect(() => parseOffsetCursor("-1")).toThrow(FileManagerError);
+		expect(parseOffsetCursor()).toBe(0);
+	});
+});
+
+describe("iteratePages()", () => {
+	it("requests the pages one after the other", async () => {
+		const fileManager = new InMemoryFileManager();
+		for (const name of ["a", "b", "c"]) {
+			await fileManager.updateTextFile(`/dir/${name}.txt`, name);
+		}
+		const listPage = spyOn(fileManager, "listPage");
+
+		const iterator = iteratePages(fileManager, "/dir/", { pageSize: 2 });
+		expect((await iterator.next()).value?.path).toBe("/dir/a.txt");
+		expect(listPage).toHaveBeenCalledTimes(1);
+
+		const paths = [];
+		for await (const resource of iterator) paths.push(resource.path);
+		expect(paths).toEqual(["/dir/b.txt", "/dir/c.txt"]);
+		expect(listPage).toHaveBeenCalledTimes(2);
+		expect(listPage).toHaveBeenLastCalledWith("/dir/", { pageSize: 2, cursor: "2" });
+	});
+});
@@ -0,0 +1,81 @@
+import { FileManagerError } from "../services/FileManagerErrors";
+import type {
+	FileManagerInterface,
+	IterateDirectoryOptions,
+	ListPage,
+	ListPageOptions
+} from "../services/FileManagerInterface";
+import type { ResourceInfo } from "./ResourceInfo";
+
+/**
+ * The number of resources in a page when no page size is given
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * @throws FileManagerError (400) if the page size is not a positive integer
+ */
+export const checkPageSize = (pageSize: number): number => {
+	if (!Number.isInteger(pageSize) || pageSize < 1) {
+		throw new FileManagerError(400, `Invalid page size : ${pageSize}`);
+	}
+	return pageSize;
+};
+
+/**
+ * Reads a cursor made of the position of the first resource of the page
+ * @throws FileManagerError (400) if the cursor is not a position
+ */
+export const parseOffsetCursor = (cursor?: string): number => {
+	if (cursor === undefined) return 0;
+	const offset = Number(cursor);
+	if (!/^\d+$/.test(cursor) || !Number.isSafeInteger(offset)) {
+		throw new FileManagerError(400, `Invalid cursor : '${cursor}'`);
+	}
+	return offset;
+};
+
+/**
+ * Cuts a page out of a complete directory listing, sorted by path
+ * (for the backends that cannot list a directory page by page)
+ * @param resources The whole content of the directory
+ * @param options The size of the page, and the cursor returned with the previous page
+ */
+export const paginate = (
+	resources: ResourceInfo[],
+	{ pageSize = DEFAULT_PAGE_SIZE, cursor }: ListPageOptions = {}
+): ListPage => {
+	const start = parseOffsetCursor(cursor);
+	const end = start + checkPageSize(pageSize);
+	const sorted = [...resources].sort((a, b) => a.path.localeCompare(b.path));
+	return {
+		items: sorted.slice(start, end),
+		cursor: end < sorted.length ? String(end) : undefined
+	};
+};
+
+/**
+ * Iterates over the content of a directory by requesting its pages one after the other with `listPage()`.
+ * The sub directories are scanned when they are met, so only one page per directory is held in memory.
+ * @param fileManager The file manager to scan
+ * @param path The path of the directory
+ * @param options The size of the pages, and if the sub directories must be scanned
+ */
+export async function* iteratePages(
+	fileManager: FileManagerInterface,
+	path: string,
+	options: IterateDirectoryOptions = {}
+): AsyncGenerator<ResourceInfo> {
+	const { pageSize, recursive } = options;
+	let cursor: string | undefined;
+	do {
+		const page = await fileManager.listPage(path, { pageSize, cursor });
+		for (const resource of page.items) {
+			yield resource;
+			if (recursive && resource.isDirectory) {
+				yield* iteratePages(fileManager, resource.path, options);
+			}
+		}
+		cursor = page.cursor;
+	} while (cursor);
+}
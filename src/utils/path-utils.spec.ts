@@ -0,0 +1,39 @@
+import { describe, expect, it } from "bun:test";
+import { PathError } from "../services/FileManagerErrors";
+import { GIT_PATH_RULES, resolvePath, WINDOWS_PATH_RULES } from "./path-utils";
+
+describe("resolvePath()", () => {
+	it("adds a leading slash and keeps the trailing slash of directories", () => {
+		expect(resolvePath("dir/file.txt")).toBe("/dir/file.txt");
+		expect(resolvePath("//dir//sub/")).toBe("/dir/sub/");
+		expect(resolvePath("/")).toBe("/");
+	});
+
+	it("resolves the '.' and '..' segments", () => {
+		expect(resolvePath("/a/./b/../c.txt")).toBe("/a/c.txt");
+		expect(resolvePath("/a/b/..")).toBe("/a/");
+		expect(resolvePath("/a/..")).toBe("/");
+	});
+
+	it("rejects the paths escaping the root directory", () => {
+		for (const path of ["..", "../x", "/../x", "a/../../x", "/a/b/../../../x"]) {
+			expect(() => resolvePath(path)).toThrow(PathError);
+		}
+	});
+
+	it("rejects empty paths and control characters", () => {
+		for (const path of ["", "/a\u0000.txt", "/a\n.txt", "/a\u007f.txt"]) {
+			expect(() => resolvePath(path)).toThrow(PathError);
+		}
+	});
+
+	it("applies the rules of the backend", () => {
+		expect(() => resolvePath("/CON.txt", WINDOWS_PATH_RULES)).toThrow(PathError);
+		expect(() => resolvePath("/a:b.txt", WINDOWS_PATH_RULES)).toThrow(PathError);
+		expect(() => resolvePath("/dir./file.txt", WINDOWS_PATH_RULES)).toThrow(PathError);
+		expect(resolvePath("/console.txt", WINDOWS_PATH_RULES)).toBe("/console.txt");
+
+		expect(() => resolvePath("/sub/.git/config", GIT_PATH_RULES)).toThrow(PathError);
+		expect(resolvePath("/.gitignore", GIT_PATH_RULES)).toBe("/.gitignore");
+	});
+});
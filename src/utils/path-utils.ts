@@ -1,3 +1,4 @@
+import { PathError } from "../services/FileManagerErrors";
 import type { FolderContent, ResourceInfo } from "./ResourceInfo";
 
 interface NormalizePathOptions {
@@ -20,6 +21,78 @@ export const normalizePath = (rscPath: string, opts: NormalizePathOptions = DEFA
 	return `${opts.addLeadingSlash ? "/" : ""}${trimmed}${trimmed.length && opts.addTrailingSlash ? "/" : ""}`;
 };
 
+/**
+ * The names that a backend cannot store
+ */
+export interface PathRules {
+	/**
+	 * Characters that cannot appear in a file or directory name
+	 */
+	forbiddenChars?: RegExp;
+	/**
+	 * File or directory names that cannot be used
+	 */
+	forbiddenNames?: RegExp;
+}
+
+/**
+ * Control characters are never accepted in a path
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: these are the characters we are looking for
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]/;
+
+/**
+ * The names that the Windows file systems refuse
+ */
+export const WINDOWS_PATH_RULES: PathRules = {
+	forbiddenChars: /[<>:"|?*\\]/,
+	forbiddenNames: /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$|[. ]$/i
+};
+
+/**
+ * Git refuses to store a `.git` directory inside a repository
+ */
+export const GIT_PATH_RULES: PathRules = {
+	forbiddenNames: /^\.git$/i
+};
+
+/**
+ * Resolves a resource path inside the root directory of a file manager :
+ * the `.` and `..` segments are resolved, and the paths escaping the root directory
+ * or containing forbidden characters or names are rejected.
+ * @param rscPath The path of the resource, relative to the root directory
+ * @param rules The names forbidden by the backend
+ * @returns The resolved path, with a leading slash (and a trailing slash for directories paths)
+ * @throws PathError if the path is empty, escapes the root directory or contains a forbidden name
+ */
+export const resolvePath = (rscPath: string, { forbiddenChars, forbiddenNames }: PathRules = {}): string => {
+	if (!rscPath) {
+		throw new PathError(rscPath, "Empty path : use '/' to refer to the root directory");
+	}
+	if (CONTROL_CHARS.test(rscPath)) {
+		throw new PathError(rscPath, "The path contains control characters");
+	}
+
+	const segments: string[] = [];
+	for (const segment of rscPath.split("/")) {
+		if (segment === "" || segment === ".") continue;
+		if (segment === "..") {
+			if (segments.length === 0) {
+				throw new PathError(rscPath, `'${rscPath}' is outside of the root directory`);
+			}
+			segments.pop();
+			continue;
+		}
+		if (forbiddenChars?.test(segment) || forbiddenNames?.test(segment)) {
+			throw new PathError(rscPath, `'${segment}' is not a valid name`);
+		}
+		segments.push(segment);
+	}
+
+	const isDirectory = rscPath.endsWith("/") || rscPath.endsWith("/.") || rscPath.endsWith("/..");
+	return `/${segments.join("/")}${segments.length > 0 && isDirectory ? "/" : ""}`;
+};
+
 /**
  * Split a resource path to return its parent folder and resource name
  */
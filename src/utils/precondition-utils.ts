@@ -0,0 +1,46 @@
+import { ConflictError, FileNotFoundError } from "../services/FileManagerErrors";
+import type { FileManagerInterface, WriteOptions } from "../services/FileManagerInterface";
+import type { ResourceInfo } from "./ResourceInfo";
+
+/**
+ * Checks the `ifMatch` and `ifNoneMatch` preconditions of a change against the current state of the file
+ * (for the backends that cannot check them in the same request as the change)
+ * @param fileManager The file manager where the file is stored
+ * @param path The path of the file to change
+ * @param options The preconditions of the change
+ * @throws ConflictError if a precondition fails
+ */
+export const checkPreconditions = async (
+	fileManager: FileManagerInterface,
+	path: string,
+	options: WriteOptions = {}
+): Promise<void> => {
+	if (!options.ifMatch && !options.ifNoneMatch) return;
+
+	const current = await fileManager.stat(path).catch((err) => {
+		if (err instanceof FileNotFoundError) return undefined;
+		throw err;
+	});
+	checkCurrentVersion(path, current, options);
+};
+
+/**
+ * Checks the `ifMatch` and `ifNoneMatch` preconditions of a change against an already known state of the file
+ * (for the backends that can read this state in the same step as the change)
+ * @param path The path of the file to change
+ * @param current The file as it is now, or nothing if it does not exist
+ * @param options The preconditions of the change
+ * @throws ConflictError if a precondition fails
+ */
+export const checkCurrentVersion = (
+	path: string,
+	current: ResourceInfo | undefined,
+	{ ifMatch, ifNoneMatch }: WriteOptions = {}
+): void => {
+	if (ifNoneMatch === "*" && current) {
+		throw new ConflictError(path, `'${path}' already exists`);
+	}
+	if (ifMatch && current?.etag !== ifMatch) {
+		throw new ConflictError(path, `'${path}' has been modified or deleted since version ${ifMatch}`);
+	}
+};
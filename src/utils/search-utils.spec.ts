@@ -0,0 +1,62 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { InMemoryFileManager } from "../services/InMemoryFileManager";
+import { createSearchRegExp, searchFiles, searchText } from "./search-utils";
+
+async function createFileManager() {
+	const fileManager = new InMemoryFileManager();
+	await fileManager.updateTextFile("/docs/guide.md", "# Guide\nInstall the TODO list\ntodo: write more");
+	await fileManager.updateTextFile("/docs/api/index.md", "TODO: document the API");
+	await fileManager.updateTextFile("/src/main.ts", "// TODO remove\nconst a = 1;");
+	await fileManager.updateBinaryFile("/docs/logo.png", Buffer.from("TODO"));
+	return fileManager;
+}
+
+describe("searchText()", () => {
+	it("reports each occurrence with its line, column and context", () => {
+		const matches = searchText("/a.txt", "one\ntwo two\nthree", createSearchRegExp("two"), 1);
+		expect(matches.map(({ line, column }) => [line, column])).toEqual([
+			[2, 1],
+			[2, 5]
+		]);
+		expect(matches[0]).toMatchObject({ text: "two two", before: ["one"], after: ["three"] });
+	});
+
+	it("does not loop on the empty matches", () => {
+		expect(searchText("/a.txt", "ab", createSearchRegExp("x*", { regex: true })).length).toBe(3);
+	});
+});
+
+describe("searchFiles()", () => {
+	it("searches the text files of a directory", async () => {
+		const fileManager = await createFileManager();
+
+		const matches = await searchFiles(fileManager, "/", "TODO");
+		expect(matches.map(({ path, line }) => `${path}:${line}`)).toEqual([
+			"/docs/api/index.md:1",
+			"/docs/guide.md:2",
+			"/src/main.ts:1"
+		]);
+	});
+
+	it("supports regular expressions, case insensitivity and globs", async () => {
+		const fileManager = await createFileManager();
+
+		const insensitive = await searchFiles(fileManager, "/docs/", "todo", {
+			caseSensitive: false,
+			glob: "*.md"
+		});
+		expect(insensitive.map(({ line }) => line)).toEqual([2, 3]);
+
+		const regex = await searchFiles(fileManager, "/", "^todo:", { regex: true, caseSensitive: false });
+		expect(regex.map(({ path }) => path)).toEqual(["/docs/api/index.md", "/docs/guide.md"]);
+	});
+
+	it("stops reading the files once maxResults is reached", async () => {
+		const fileManager = await createFileManager();
+		const getFileContent = spyOn(fileManager, "getFileContent");
+
+		const matches = await searchFiles(fileManager, "/", "TODO", { maxResults: 1, concurrency: 1 });
+		expect(matches.map(({ path }) => path)).toEqual(["/docs/api/index.md"]);
+		expect(getFileContent).toHaveBeenCalledTimes(1);
+	});
+});
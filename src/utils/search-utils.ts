@@ -0,0 +1,106 @@
+import { FileNotFoundError } from "../services/FileManagerErrors";
+import type { FileManagerInterface, SearchMatch, SearchOptions } from "../services/FileManagerInterface";
+import { mapConcurrently } from "./async-utils";
+import { createResourceFinder, findResources } from "./glob-utils";
+import { ResourceInfo } from "./ResourceInfo";
+
+/**
+ * How many files are read at the same time by default
+ */
+const SEARCH_CONCURRENCY = 8;
+
+/**
+ * Compiles the query of a search to a global RegExp
+ */
+export const createSearchRegExp = (
+	query: string,
+	{ regex = false, caseSensitive = true }: SearchOptions = {}
+) => {
+	const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	return new RegExp(source, caseSensitive ? "g" : "gi");
+};
+
+/**
+ * Finds all the occurrences of a RegExp in a text, line by line
+ * @param path The path of the searched file
+ * @param content The text content of the file
+ * @param pattern A global RegExp
+ * @param context The number of lines to add before and after each matching line
+ */
+export const searchText = (path: string, content: string, pattern: RegExp, context = 0): SearchMatch[] => {
+	const lines = content.split(/\r?\n/);
+	const matches: SearchMatch[] = [];
+	lines.forEach((text, index) => {
+		pattern.lastIndex = 0;
+		for (let found = pattern.exec(text); found; found = pattern.exec(text)) {
+			matches.push({
+				path,
+				line: index + 1,
+				column: found.index + 1,
+				match: found[0],
+				text,
+				before: lines.slice(Math.max(0, index - context), index),
+				after: lines.slice(index + 1, index + 1 + context)
+			});
+			// Do not loop forever on the empty matches
+			if (found[0] === "") pattern.lastIndex++;
+		}
+	});
+	return matches;
+};
+
+/**
+ * Searches the text files of a directory (the binary files are skipped, according to their extension).
+ * The files are read with a limited concurrency, and no more file is read once `maxResults` is reached.
+ * @param fileManager The file manager to search
+ * @param path The searched directory
+ * @param query A string, or the source of a regular expression
+ * @param options How to match, and which files to read
+ * @returns The matches, sorted by path and position
+ */
+export const searchFiles = async (
+	fileManager: FileManagerInterface,
+	path: string,
+	query: string,
+	options: SearchOptions = {}
+): Promise<SearchMatch[]> => {
+	const {
+		glob,
+		maxResults = Number.POSITIVE_INFINITY,
+		context,
+		concurrency = SEARCH_CONCURRENCY,
+		index
+	} = options;
+	const pattern = createSearchRegExp(query, options);
+	const findOptions = {
+		path,
+		pattern: glob,
+		type: "file" as const,
+		filter: (file: ResourceInfo) => file.isText
+	};
+
+	// The index gives the candidate files without listing the directories
+	let paths = await index?.candidates(query, options);
+	if (paths) {
+		const finder = createResourceFinder(findOptions);
+		paths = paths.filter((candidate) => finder.matches(new ResourceInfo(candidate)));
+	} else {
+		paths = [];
+		for await (const file of findResources(fileManager, findOptions)) paths.push(file.path);
+	}
+
+	let found = 0;
+	const results = await mapConcurrently(paths.sort(), concurrency, async (filePath) => {
+		if (found >= maxResults) return [];
+		const content = await fileManager.getFileContent(filePath).catch((err) => {
+			// A candidate of the index may have been deleted since it was indexed
+			if (index && err instanceof FileNotFoundError) return undefined;
+			throw err;
+		});
+		if (content === undefined) return [];
+		const matches = searchText(filePath, content.toString(), new RegExp(pattern), context);
+		found += matches.length;
+		return matches;
+	});
+	return results.flat().slice(0, maxResults);
+};
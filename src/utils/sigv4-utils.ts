@@ -0,0 +1,133 @@
+import { toBytes } from "./stream-utils";
+
+export interface AwsCredentials {
+	accessKeyId: string;
+	secretAccessKey: string;
+	/**
+	 * The token of temporary credentials
+	 */
+	sessionToken?: string;
+}
+
+export interface SignRequestOptions {
+	method: string;
+	url: URL;
+	/**
+	 * The headers to sign with the request (the host is always signed)
+	 */
+	headers?: Record<string, string>;
+	/**
+	 * The SHA-256 hash of the body, in hexadecimal
+	 */
+	payloadHash: string;
+	credentials: AwsCredentials;
+	region: string;
+	/**
+	 * Default: `s3`
+	 */
+	service?: string;
+	/**
+	 * Default: now
+	 */
+	date?: Date;
+}
+
+/**
+ * The hash of an empty body
+ */
+export const EMPTY_PAYLOAD_HASH = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+const toHex = (buffer: ArrayBuffer) =>
+	Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const hmac = async (key: string | ArrayBuffer, data: string): Promise<ArrayBuffer> => {
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		typeof key === "string" ? toBytes(key) : key,
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"]
+	);
+	return crypto.subtle.sign("HMAC", cryptoKey, toBytes(data));
+};
+
+/**
+ * @returns the SHA-256 hash of a content, in hexadecimal
+ */
+export const sha256Hex = async (content: string | Uint8Array): Promise<string> =>
+	toHex(await crypto.subtle.digest("SHA-256", toBytes(content)));
+
+/**
+ * Encodes all the characters but the unreserved ones of RFC 3986 (`encodeURIComponent()` keeps `!'()*`)
+ */
+export const encodeRfc3986 = (value: string): string =>
+	encodeURIComponent(value).replace(
+		/[!'()*]/g,
+		(char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+	);
+
+/**
+ * The query parameters encoded and sorted by name, then by value (sorting the joined `name=value` strings
+ * would put `a-b=1` before `a=1`)
+ */
+export const getCanonicalQuery = (params: URLSearchParams): string => {
+	const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+	return [...params]
+		.map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+		.sort(([nameA, valueA], [nameB, valueB]) => compare(nameA, nameB) || compare(valueA, valueB))
+		.map(([name, value]) => `${name}=${value}`)
+		.join("&");
+};
+
+/**
+ * Signs a request to an AWS API (or to an S3 compatible API) with the Signature Version 4
+ * @see https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv-create-signed-request.html
+ * @param options The request, and the credentials used to sign it
+ * @returns The headers of the request with the `authorization`, `x-amz-date` and `x-amz-content-sha256` headers
+ * (and the `x-amz-security-token` of temporary credentials)
+ */
+export const signRequest = async ({
+	method,
+	url,
+	headers = {},
+	payloadHash,
+	credentials: { accessKeyId, secretAccessKey, sessionToken },
+	region,
+	service = "s3",
+	date = new Date()
+}: SignRequestOptions): Promise<Record<string, string>> => {
+	const amzDate = date.toISOString().replace(/[-:]|\.\d{3}/g, "");
+	const day = amzDate.substring(0, 8);
+	const signedHeaders: Record<string, string> = {
+		"x-amz-content-sha256": payloadHash,
+		"x-amz-date": amzDate,
+		...(sessionToken && { "x-amz-security-token": sessionToken })
+	};
+	for (const [name, value] of Object.entries(headers)) {
+		signedHeaders[name.toLowerCase()] = value;
+	}
+	const canonicalHeaders: Record<string, string> = { ...signedHeaders, host: url.host };
+	const names = Object.keys(canonicalHeaders).sort();
+
+	const canonicalRequest = [
+		method,
+		url.pathname || "/",
+		getCanonicalQuery(url.searchParams),
+		names.map((name) => `${name}:${canonicalHeaders[name].trim().replace(/\s+/g, " ")}\n`).join(""),
+		names.join(";"),
+		payloadHash
+	].join("\n");
+	const scope = `${day}/${region}/${service}/aws4_request`;
+	const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, await sha256Hex(canonicalRequest)].join("\n");
+
+	let signingKey = await hmac(`AWS4${secretAccessKey}`, day);
+	for (const part of [region, service, "aws4_request"]) {
+		signingKey = await hmac(signingKey, part);
+	}
+	const signature = toHex(await hmac(signingKey, stringToSign));
+
+	return {
+		...signedHeaders,
+		authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`
+	};
+};
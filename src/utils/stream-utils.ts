@@ -0,0 +1,104 @@
+/**
+ * Default size of the chunks emitted when streaming an in-memory content
+ */
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Converts a text or binary content (Uint8Array, Buffer..) to bytes
+ */
+export const toBytes = (content: string | ArrayBufferView): Uint8Array => {
+	if (typeof content === "string") return textEncoder.encode(content);
+	if (content instanceof Uint8Array) return content;
+	return new Uint8Array(content.buffer, content.byteOffset, content.byteLength);
+};
+
+/**
+ * Joins chunks of bytes into a single content
+ */
+export const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+	const content = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		content.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return content;
+};
+
+/**
+ * Consumes a readable stream entirely and returns its content as bytes
+ * @param stream The stream to read until its end
+ */
+export const streamToBytes = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> =>
+	new Uint8Array(await new Response(stream).arrayBuffer());
+
+/**
+ * Creates a readable stream emitting an in-memory content by chunks
+ * @param content The text or binary content to stream
+ * @param chunkSize The maximum size of each emitted chunk
+ */
+export const bytesToStream = (
+	content: string | ArrayBufferView,
+	chunkSize = DEFAULT_CHUNK_SIZE
+): ReadableStream<Uint8Array> => {
+	const bytes = toBytes(content);
+	let offset = 0;
+
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			if (offset >= bytes.length) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(bytes.subarray(offset, offset + chunkSize));
+			offset += chunkSize;
+		}
+	});
+};
+
+/**
+ * Creates a writable stream that collects all the written chunks
+ * and hands the complete content over when the stream is closed.
+ * This is the fallback used by backends that cannot stream their uploads.
+ * @param onClose Receives the complete content once the stream is closed
+ */
+export const bufferedWritableStream = (
+	onClose: (content: Uint8Array) => Promise<void> | void
+): WritableStream<Uint8Array> => {
+	let chunks: Uint8Array[] = [];
+
+	return new WritableStream<Uint8Array>({
+		write(chunk) {
+			chunks.push(chunk);
+		},
+		async close() {
+			const content = concatBytes(chunks);
+			chunks = [];
+			await onClose(content);
+		},
+		abort() {
+			chunks = [];
+		}
+	});
+};
+
+/**
+ * Writes a whole content to a writable stream then closes it
+ * @param stream The stream to write into
+ * @param content The text or binary content to write
+ */
+export const writeToStream = async (
+	stream: WritableStream<Uint8Array>,
+	content: string | ArrayBufferView
+): Promise<void> => {
+	const writer = stream.getWriter();
+	try {
+		await writer.write(toBytes(content));
+		await writer.close();
+	} catch (err) {
+		await writer.abort(err).catch(() => undefined);
+		throw err;
+	}
+};
@@ -0,0 +1,129 @@
+import { ConflictError, FileManagerError } from "../services/FileManagerErrors";
+import type { FileManagerInterface, TransferOptions, WriteOptions } from "../services/FileManagerInterface";
+import { resolvePath } from "./path-utils";
+import { ResourceInfo } from "./ResourceInfo";
+
+export interface TransferPlan {
+	/**
+	 * The existing file or directory to copy or move
+	 */
+	source: ResourceInfo;
+	/**
+	 * Where to copy or move it (always a directory path when the source is a directory)
+	 */
+	destination: ResourceInfo;
+	/**
+	 * Set when the destination already exists and must be replaced (`overwrite`) or completed (`merge`)
+	 */
+	conflict?: "overwrite" | "merge";
+}
+
+/**
+ * Checks that a copy or a move can be done and describes what has to be done
+ * @param fileManager The file manager where the transfer happens
+ * @param from The path of the file or directory to copy or move
+ * @param to The path of the destination
+ * @param options What to do if the destination already exists
+ * @throws FileNotFoundError if the source does not exist
+ * @throws PathError if the destination is outside of the root directory
+ * @throws FileManagerError if the destination is inside (or a parent of) the source
+ * @throws ConflictError if the destination already exists and `onConflict` is `fail`
+ */
+export const planTransfer = async (
+	fileManager: FileManagerInterface,
+	from: string,
+	to: string,
+	{ onConflict = "fail" }: TransferOptions = {}
+): Promise<TransferPlan> => {
+	const source = await fileManager.stat(from);
+	const destination = new ResourceInfo(resolvePath(to), { type: source.isDirectory ? "dir" : "file" });
+
+	if (destination.path === source.path) {
+		throw new FileManagerError(400, "Source and destination are the same", to);
+	}
+	if (source.isDirectory && destination.path.startsWith(source.path)) {
+		throw new FileManagerError(400, `Cannot transfer '${source.path}' inside itself`, to);
+	}
+	if (destination.isDirectory && source.path.startsWith(destination.path)) {
+		throw new FileManagerError(400, `Cannot transfer '${source.path}' over its parent directory`, to);
+	}
+	if (!(await fileManager.exists(destination.path))) {
+		return { source, destination };
+	}
+	if (onConflict === "fail") {
+		throw new ConflictError(to, `'${destination.path}' already exists`);
+	}
+	// Files cannot be merged : they are replaced
+	return { source, destination, conflict: source.isDirectory ? onConflict : "overwrite" };
+};
+
+/**
+ * Copies a file, or a directory with all its content, one file at a time,
+ * streaming each file from one file manager to the other
+ * @param fileManager The file manager where the source is
+ * @param source The file or directory to copy
+ * @param destinationPath The path of the copy
+ * @param options Describes the writes
+ * @param targetFileManager The file manager where the copy is written. Default: the source file manager
+ * @returns The content of the copied directory
+ */
+export const copyRecursively = async (
+	fileManager: FileManagerInterface,
+	source: ResourceInfo,
+	destinationPath: string,
+	options?: WriteOptions,
+	targetFileManager = fileManager
+): Promise<ResourceInfo[]> => {
+	if (source.isFile) {
+		await (await fileManager.readStream(source.path)).pipeTo(
+			await targetFileManager.writeStream(destinationPath, options)
+		);
+		return [];
+	}
+
+	const content = await fileManager.listDirectoryContent(source.path, true);
+	await targetFileManager.createDirectory(destinationPath, options);
+	for (const resource of content) {
+		const targetPath = `${destinationPath}${resource.path.substring(source.path.length)}`;
+		if (resource.isDirectory) {
+			await targetFileManager.createDirectory(targetPath, options);
+		} else {
+			await (await fileManager.readStream(resource.path)).pipeTo(
+				await targetFileManager.writeStream(targetPath, options)
+			);
+		}
+	}
+	return content;
+};
+
+/**
+ * Deletes a file, or a directory with all its content, one resource at a time :
+ * the files first, then the directories that still exist (the deepest first),
+ * so that it also works with the backends that only delete empty directories
+ * @param fileManager The file manager where the resource is
+ * @param resource The file or directory to delete
+ * @param options Describes the deletions
+ * @param content The content of the directory, if already listed
+ */
+export const deleteRecursively = async (
+	fileManager: FileManagerInterface,
+	resource: ResourceInfo,
+	options?: WriteOptions,
+	content?: ResourceInfo[]
+): Promise<void> => {
+	if (resource.isFile) {
+		return fileManager.deleteFile(resource.path, options);
+	}
+	const resources = content || (await fileManager.listDirectoryContent(resource.path, true));
+	for (const file of resources.filter(({ isFile }) => isFile)) {
+		await fileManager.deleteFile(file.path, options);
+	}
+	const directories = [resource, ...resources.filter(({ isDirectory }) => isDirectory)].sort(
+		(a, b) => b.path.length - a.path.length
+	);
+	for (const directory of directories) {
+		if (await fileManager.exists(directory.path)) {
+			await fileManager.deleteDirectory(directory.path, options);
+		}
+	}
+};